@@ -7,12 +7,19 @@ import Landing from "./pages/Landing";
 import Index from "./pages/Index";
 import Compare from "./pages/Compare";
 import Stressors from "./pages/Stressors";
+import PolarityConsistency from "./pages/PolarityConsistency";
 import ExploreScenarios from "./pages/ExploreScenarios";
 import SharedProfile from "./pages/SharedProfile";
+import ScenarioLibrary from "./pages/ScenarioLibrary";
+import SharedScenario from "./pages/SharedScenario";
 import DataExport from "./pages/DataExport";
 import JobAnalysis from "./pages/JobAnalysis";
 import Research from "./pages/Research";
 import PreferredVerbs from "./pages/PreferredVerbs";
+import Questionnaire from "./pages/Questionnaire";
+import Cohort from "./pages/Cohort";
+import Clusters from "./pages/Clusters";
+import Archetypes from "./pages/Archetypes";
 import NotFound from "./pages/NotFound";
 import { FEATURES } from "@/lib/features";
 
@@ -33,12 +40,21 @@ const App = () => {
           <Routes>
             <Route path="/" element={<Landing />} />
             <Route path="/editor" element={<Index />} />
+            <Route path="/questionnaire" element={<Questionnaire />} />
             <Route path="/compare" element={<Compare />} />
+            <Route path="/cohort" element={<Cohort />} />
+            <Route path="/clusters" element={<Clusters />} />
+            <Route path="/archetypes" element={<Archetypes />} />
+            <Route path="/archetypes/:id" element={<Archetypes />} />
             <Route path="/stressors" element={<Stressors />} />
+            <Route path="/polarity-consistency" element={<PolarityConsistency />} />
             <Route path="/scenarios" element={<ExploreScenarios />} />
+            <Route path="/scenario-library" element={<ScenarioLibrary />} />
             <Route path="/p/:id" element={<SharedProfile />} />
+            <Route path="/s/:id" element={<SharedScenario />} />
             {FEATURES.dataExport && <Route path="/export" element={<DataExport />} />}
             {FEATURES.jobAnalysis && <Route path="/job-analysis" element={<JobAnalysis />} />}
+            {FEATURES.jobAnalysis && <Route path="/job-analysis/:id" element={<JobAnalysis />} />}
             <Route path="/research" element={<Research />} />
             <Route path="/preferred-verbs" element={<PreferredVerbs />} />
             <Route path="*" element={<NotFound />} />
@@ -0,0 +1,182 @@
+import { useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ValueAbbreviation } from '@/components/ValueAbbreviation';
+import { ValueScores, ScoreMode } from '@/lib/schwartz-values';
+import { Archetype, MATCH_CURVE_EXPONENT, explainArchetypeMatch, rankArchetypeMatches } from '@/lib/archetypes';
+
+const DISAGREEMENT_COUNT = 3;
+const RUNNER_UP_COUNT = 5;
+
+function percent(fraction: number): string {
+  return `${Math.round(fraction * 100)}%`;
+}
+
+interface ArchetypeMatchDetailsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scores: ValueScores;
+  scoreMode: ScoreMode;
+  profileName: string;
+  archetype: Archetype;
+  /** Archetypes the match was chosen from, for the runner-ups */
+  candidates: Archetype[];
+}
+
+/**
+ * Explains a "Similar To..." match: how much each value adds to the distance,
+ * where the profiles disagree most, what the curve did to the raw similarity
+ * and how close the other candidates came.
+ */
+export function ArchetypeMatchDetails({
+  open,
+  onOpenChange,
+  scores,
+  scoreMode,
+  profileName,
+  archetype,
+  candidates,
+}: ArchetypeMatchDetailsProps) {
+  const breakdown = useMemo(
+    () => explainArchetypeMatch(scores, archetype, scoreMode),
+    [scores, archetype, scoreMode]
+  );
+
+  const byShare = useMemo(
+    () => [...breakdown.contributions].sort((a, b) => b.share - a.share),
+    [breakdown]
+  );
+
+  const runnerUps = useMemo(
+    () => rankArchetypeMatches(scores, candidates, scoreMode)
+      .filter(match => match.archetype.name !== archetype.name)
+      .slice(0, RUNNER_UP_COUNT),
+    [scores, candidates, scoreMode, archetype]
+  );
+
+  const you = profileName.trim() || 'This profile';
+  const maxShare = byShare[0]?.share || 1;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="font-serif">Why {archetype.name}?</DialogTitle>
+          <DialogDescription>
+            The match compares all 19 values as a point in space
+            {scoreMode === 'centred' ? ', after centring both profiles on their own mean' : ''}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[65vh] pr-3">
+          <div className="space-y-6">
+            {/* How the number is built */}
+            <section className="rounded-lg border p-4 space-y-2">
+              <h3 className="font-medium text-sm">From distance to match</h3>
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div>
+                  <p className="text-2xl font-semibold font-mono">{breakdown.distance.toFixed(2)}</p>
+                  <p className="text-xs text-muted-foreground">distance (of {breakdown.maxDistance.toFixed(1)} max)</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-semibold font-mono">{percent(breakdown.similarity)}</p>
+                  <p className="text-xs text-muted-foreground">linear similarity</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-semibold font-mono text-primary">{percent(breakdown.score)}</p>
+                  <p className="text-xs text-muted-foreground">match shown</p>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Similarity is 1 − distance ÷ max distance. It is then raised to the power {MATCH_CURVE_EXPONENT} to
+                spread out the 50–80% range where most matches fall, which took{' '}
+                {Math.round((breakdown.similarity - breakdown.score) * 100)} points off this match.
+              </p>
+            </section>
+
+            {/* Biggest disagreements */}
+            <section className="space-y-2">
+              <h3 className="font-medium text-sm">Biggest disagreements</h3>
+              <ul className="space-y-1.5 text-sm">
+                {byShare.slice(0, DISAGREEMENT_COUNT).map(c => (
+                  <li key={c.code} className="flex items-start gap-2">
+                    <ValueAbbreviation code={c.code} />
+                    <span className="text-muted-foreground">
+                      {you} rates <span className="text-foreground">{c.label}</span>{' '}
+                      {Math.abs(c.difference).toFixed(1)} points {c.difference > 0 ? 'higher' : 'lower'} than{' '}
+                      {archetype.name} — {percent(c.share)} of the distance
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            {/* Per-value contributions */}
+            <section className="space-y-2">
+              <h3 className="font-medium text-sm">Contribution of each value</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Value</TableHead>
+                    <TableHead className="text-right">{you}</TableHead>
+                    <TableHead className="text-right">{archetype.name}</TableHead>
+                    <TableHead className="text-right">Difference</TableHead>
+                    <TableHead className="w-[30%]">Share of distance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {byShare.map(c => (
+                    <TableRow key={c.code}>
+                      <TableCell>
+                        <ValueAbbreviation code={c.code} />
+                        <span className="ml-2 text-muted-foreground hidden md:inline">{c.label}</span>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">{c.userScore.toFixed(1)}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{c.archetypeScore.toFixed(1)}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {c.difference > 0 ? '+' : ''}{c.difference.toFixed(1)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <div className="h-2 flex-1 rounded-full bg-muted overflow-hidden">
+                            <div
+                              className="h-full rounded-full bg-primary/70"
+                              style={{ width: `${(c.share / maxShare) * 100}%` }}
+                            />
+                          </div>
+                          <span className="w-9 text-right font-mono text-xs text-muted-foreground">{percent(c.share)}</span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </section>
+
+            {/* Runner-ups */}
+            {runnerUps.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="font-medium text-sm">Runners-up</h3>
+                <ul className="space-y-1.5">
+                  {runnerUps.map(match => (
+                    <li key={match.archetype.name} className="flex items-center gap-3 text-sm">
+                      <span className="flex-1">{match.archetype.name}</span>
+                      <span className="font-mono text-xs text-muted-foreground">
+                        {percent(match.similarity)} linear
+                      </span>
+                      <span className="font-mono text-xs w-10 text-right">{percent(match.score)}</span>
+                      <span className="font-mono text-xs w-12 text-right text-rose-600">
+                        −{Math.round((breakdown.score - match.score) * 100)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
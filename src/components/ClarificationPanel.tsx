@@ -1,57 +1,409 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef, useEffect, ChangeEvent } from 'react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Card } from '@/components/ui/card';
-import { Sparkles, Loader2, RefreshCw, HelpCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Sparkles,
+  Loader2,
+  RefreshCw,
+  HelpCircle,
+  ChevronDown,
+  ChevronUp,
+  SkipForward,
+  Square,
+  FileDown,
+  Printer,
+  Upload,
+} from 'lucide-react';
 import { ValueScores } from '@/lib/schwartz-values';
 import {
+  AdaptiveStopReason,
+  ClarificationResponse,
+  ClarificationScenario,
   ConfidenceLevel,
+  MAX_ADAPTIVE_QUESTIONS,
+  MIN_EXPECTED_INFORMATION,
+  RESOLVED_UNCERTAINTY,
   analyzeForClarification,
   calculateUpdatedScores,
+  getAdaptiveStopReason,
+  initialUncertainty,
   responseToStrength,
+  selectNextStressor,
   selectOptimalStressors,
+  StressorInformationInfo,
   StressorSpreadInfo,
   UndecidedValue,
+  updateUncertainty,
 } from '@/lib/job-clarification';
 import { StressorId } from '@/lib/stressors';
+import type { JobAnalysisResult } from '@/lib/job-analysis-storage';
+import {
+  InterviewKit,
+  buildInterviewKitHtml,
+  buildInterviewKitMarkdown,
+  getInterviewKitFileName,
+  parseInterviewKitAnswers,
+} from '@/lib/interview-kit';
+import { downloadFile } from '@/lib/utils';
+import { getEdgeErrorMessage, invokeEdgeFunction, isAbortError } from '@/lib/edge-functions';
+import { usePolarityModel } from '@/hooks/use-polarity-model';
 import { toast } from 'sonner';
 
-const SUPABASE_BASE_URL = (import.meta.env.VITE_SUPABASE_URL as string).replace(/\/$/, '');
-const CLARIFICATION_URL = `${SUPABASE_BASE_URL}/functions/v1/generate-clarification-scenarios`;
-
-interface Scenario {
-  stressorId: string;
-  stressorName: string;
-  setup: string;
-  optionA: string;
-  optionB: string;
-  interpretationA: string;
-  interpretationB: string;
-}
-
 interface ClarificationPanelProps {
   jobDescription: string;
   scores: ValueScores;
   confidence: Record<string, ConfidenceLevel>;
   onScoresUpdate: (newScores: ValueScores) => void;
+  /** Called with the answers behind each applied score update, e.g. to save them */
+  onResponsesApplied?: (responses: ClarificationResponse[]) => void;
+  /** Role details included in the interview kit export */
+  roleDetails?: Pick<JobAnalysisResult, 'detectedJobTitle' | 'rationales' | 'occupationalContext'>;
 }
 
 type ResponseValue = 1 | 2 | 3 | 4 | 5;
 
+/**
+ * Ask the edge function for one scenario per stressor.
+ * Rejects with an EdgeFunctionError, or an AbortError when `signal` aborts.
+ */
+async function requestScenarios(
+  jobDescription: string,
+  stressors: StressorSpreadInfo[],
+  signal?: AbortSignal
+): Promise<ClarificationScenario[]> {
+  const data = await invokeEdgeFunction<{ scenarios?: ClarificationScenario[] }>(
+    'generate-clarification-scenarios',
+    {
+      jobDescription,
+      stressors: stressors.map(c => ({
+        stressorId: c.stressorId,
+        stressorName: c.stressorName,
+        stressorDescription: c.stressorDescription,
+        highPolarityValues: c.highPolarityValues,
+        lowPolarityValues: c.lowPolarityValues,
+      })),
+    },
+    signal
+  );
+  return data.scenarios || [];
+}
+
+/** One request at a time: starting a new one aborts the last, as does unmounting */
+function useRequestSignal() {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const next = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  };
+  const abort = () => controllerRef.current?.abort();
+
+  return { next, abort };
+}
+
+const RESPONSE_LABELS: Record<ResponseValue, string> = {
+  1: 'Strongly A',
+  2: 'Somewhat A',
+  3: 'Equal',
+  4: 'Somewhat B',
+  5: 'Strongly B',
+};
+
+function ResponseScale({ value, onSelect, disabled }: {
+  value?: ResponseValue;
+  onSelect: (value: ResponseValue) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground text-center">
+        Which approach do you think this role would favor?
+      </p>
+      <div className="flex justify-center gap-1">
+        {([1, 2, 3, 4, 5] as const).map(option => {
+          const isSelected = value === option;
+
+          return (
+            <button
+              key={option}
+              onClick={() => onSelect(option)}
+              disabled={disabled}
+              className={`px-3 py-1.5 text-xs rounded transition-colors disabled:opacity-50 ${
+                isSelected
+                  ? option <= 2
+                    ? 'bg-green-600 text-white'
+                    : option >= 4
+                    ? 'bg-red-600 text-white'
+                    : 'bg-gray-600 text-white'
+                  : 'bg-muted hover:bg-muted/80'
+              }`}
+            >
+              {RESPONSE_LABELS[option]}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function ScenarioOptions({ scenario }: { scenario: ClarificationScenario }) {
+  return (
+    <>
+      <p className="text-sm">{scenario.setup}</p>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="rounded-lg bg-green-50 p-3">
+          <div className="text-xs font-medium text-green-800 mb-1">Option A</div>
+          <p className="text-sm text-green-900">{scenario.optionA}</p>
+        </div>
+        <div className="rounded-lg bg-red-50 p-3">
+          <div className="text-xs font-medium text-red-800 mb-1">Option B</div>
+          <p className="text-sm text-red-900">{scenario.optionB}</p>
+        </div>
+      </div>
+    </>
+  );
+}
+
+const STOP_MESSAGES: Record<AdaptiveStopReason, string> = {
+  resolved: 'Every selected value is now resolved.',
+  exhausted: 'No remaining scenario would tell us much more about these values.',
+  limit: `Stopped after ${MAX_ADAPTIVE_QUESTIONS} questions.`,
+};
+
+interface AdaptiveSession {
+  uncertainty: Record<string, number>;
+  askedStressorIds: StressorId[];
+  answeredCount: number;
+  current: { stressor: StressorInformationInfo; scenario: ClarificationScenario } | null;
+  stopReason: AdaptiveStopReason | 'stopped' | null;
+}
+
+/**
+ * One scenario at a time: each answer is applied straight away, the values it
+ * touched become more certain, and the next stressor is chosen for whatever is
+ * still uncertain.
+ */
+function AdaptiveClarification({
+  jobDescription,
+  undecidedValues,
+  scores,
+  onScoresUpdate,
+  onResponsesApplied,
+}: {
+  jobDescription: string;
+  undecidedValues: UndecidedValue[];
+  scores: ValueScores;
+  onScoresUpdate: (newScores: ValueScores) => void;
+  onResponsesApplied?: (responses: ClarificationResponse[]) => void;
+}) {
+  const [session, setSession] = useState<AdaptiveSession | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const request = useRequestSignal();
+  const { activeModel } = usePolarityModel();
+
+  const askNext = async (uncertainty: Record<string, number>, askedStressorIds: StressorId[], answeredCount: number) => {
+    const base = { uncertainty, askedStressorIds, answeredCount, current: null };
+    const stopReason = getAdaptiveStopReason(undecidedValues, uncertainty, askedStressorIds, MAX_ADAPTIVE_QUESTIONS, activeModel);
+    const stressor = stopReason
+      ? null
+      : selectNextStressor(undecidedValues, uncertainty, askedStressorIds, MIN_EXPECTED_INFORMATION, activeModel);
+    if (!stressor) {
+      setSession({ ...base, stopReason: stopReason ?? 'exhausted' });
+      return;
+    }
+
+    setSession({ ...base, stopReason: null });
+    setIsFetching(true);
+    const signal = request.next();
+    try {
+      const [scenario] = await requestScenarios(jobDescription, [stressor], signal);
+      if (!scenario) throw new Error('Failed to generate scenario');
+      setSession({ ...base, current: { stressor, scenario }, stopReason: null });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Failed to generate adaptive scenario:', error);
+      toast.error(getEdgeErrorMessage(error, 'Failed to generate scenario'));
+    } finally {
+      if (!signal.aborted) setIsFetching(false);
+    }
+  };
+
+  const stopFetching = () => {
+    request.abort();
+    setIsFetching(false);
+    setSession(prev => prev && { ...prev, current: null, stopReason: 'stopped' });
+  };
+
+  const start = () => askNext(initialUncertainty(undecidedValues), [], 0);
+
+  const answer = (response: ResponseValue) => {
+    if (!session?.current) return;
+    const { stressor, scenario } = session.current;
+    const valueCodes = stressor.allPolarities.map(p => p.code);
+
+    onScoresUpdate(
+      calculateUpdatedScores(scores, stressor.stressorId, responseToStrength(response), valueCodes, session.uncertainty, activeModel)
+    );
+    onResponsesApplied?.([{
+      stressorId: stressor.stressorId,
+      stressorName: stressor.stressorName,
+      setup: scenario.setup,
+      optionA: scenario.optionA,
+      optionB: scenario.optionB,
+      response,
+      valueCodes,
+    }]);
+
+    askNext(
+      updateUncertainty(session.uncertainty, stressor.stressorId, valueCodes, activeModel),
+      [...session.askedStressorIds, stressor.stressorId],
+      session.answeredCount + 1
+    );
+  };
+
+  const skip = () => {
+    if (!session?.current) return;
+    askNext(session.uncertainty, [...session.askedStressorIds, session.current.stressor.stressorId], session.answeredCount);
+  };
+
+  if (!session) {
+    return (
+      <Button onClick={start} disabled={isFetching} className="w-full gap-2">
+        <Sparkles className="w-4 h-4" />
+        Start Adaptive Clarification
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Remaining uncertainty per value */}
+      <div className="space-y-1.5">
+        <h3 className="text-sm font-medium">
+          Remaining uncertainty
+          <span className="font-normal text-muted-foreground ml-2">
+            ({session.answeredCount} answered, resolved at {RESOLVED_UNCERTAINTY.toFixed(1)})
+          </span>
+        </h3>
+        {undecidedValues.map(v => {
+          const uncertainty = session.uncertainty[v.code] ?? 0;
+          const resolved = uncertainty <= RESOLVED_UNCERTAINTY;
+          return (
+            <div key={v.code} className="flex items-center gap-2 text-xs">
+              <span className="w-40 truncate">{v.label}</span>
+              <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                <div
+                  className={`h-full rounded-full transition-all ${resolved ? 'bg-green-500' : 'bg-amber-400'}`}
+                  style={{ width: `${uncertainty * 100}%` }}
+                />
+              </div>
+              <span className="w-8 text-right font-mono text-muted-foreground">{uncertainty.toFixed(2)}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {isFetching && (
+        <div className="flex justify-center items-center gap-2 py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          <Button variant="ghost" size="sm" onClick={stopFetching} title="Stop asking">
+            <Square className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {!isFetching && session.current && (
+        <Card className="p-4 space-y-4">
+          <div className="flex items-start justify-between">
+            <div>
+              <h4 className="font-medium text-primary">
+                Question {session.answeredCount + 1}: {session.current.stressor.stressorName}
+              </h4>
+              <p className="text-xs text-muted-foreground">
+                Expected information: {session.current.stressor.expectedInformation.toFixed(3)} · Differentiates:{' '}
+                {session.current.stressor.highPolarityValues.map(v => v.label).join(', ') || 'values'}
+                {' vs '}
+                {session.current.stressor.lowPolarityValues.map(v => v.label).join(', ') || 'values'}
+              </p>
+            </div>
+            <div className="flex gap-1">
+              <Button variant="ghost" size="sm" onClick={skip} title="Skip this stressor">
+                <SkipForward className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSession({ ...session, current: null, stopReason: 'stopped' })}
+                title="Stop asking"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <ScenarioOptions scenario={session.current.scenario} />
+          <ResponseScale onSelect={answer} />
+        </Card>
+      )}
+
+      {!isFetching && !session.current && (
+        <div className="rounded-lg bg-muted/50 p-4 text-sm space-y-3">
+          <p>
+            {session.stopReason === 'stopped'
+              ? 'Stopped.'
+              : session.stopReason
+              ? STOP_MESSAGES[session.stopReason]
+              : 'The next scenario could not be generated.'}{' '}
+            {session.answeredCount > 0 && `${session.answeredCount} answer(s) have been applied to the scores.`}
+          </p>
+          <div className="flex gap-2">
+            {!session.stopReason && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => askNext(session.uncertainty, session.askedStressorIds, session.answeredCount)}
+              >
+                Try Again
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={start} className="gap-1">
+              <RefreshCw className="w-3.5 h-3.5" />
+              Start Over
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function ClarificationPanel({
   jobDescription,
   scores,
   confidence,
   onScoresUpdate,
+  onResponsesApplied,
+  roleDetails,
 }: ClarificationPanelProps) {
   const [maxStressors, setMaxStressors] = useState(4);
   const [minSpread, setMinSpread] = useState(0.8);
-  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [scenarios, setScenarios] = useState<ClarificationScenario[]>([]);
   const [responses, setResponses] = useState<Record<string, ResponseValue>>({});
   const [isGenerating, setIsGenerating] = useState(false);
   const [regeneratingStressor, setRegeneratingStressor] = useState<string | null>(null);
   const [showExplanation, setShowExplanation] = useState(false);
+  const [mode, setMode] = useState<'batch' | 'adaptive'>('batch');
+  const answersInputRef = useRef<HTMLInputElement>(null);
+  const request = useRequestSignal();
   const [selectedValueCodes, setSelectedValueCodes] = useState<Set<string>>(new Set());
+  const { activeModel } = usePolarityModel();
   // Store the analysis snapshot used when generating scenarios
   const [generatedAnalysis, setGeneratedAnalysis] = useState<{
     undecidedValues: UndecidedValue[];
@@ -60,8 +412,8 @@ export function ClarificationPanel({
 
   // Get all undecided values first (before filtering)
   const allUndecidedAnalysis = useMemo(
-    () => analyzeForClarification(scores, confidence, 12, 0), // Get all possible
-    [scores, confidence]
+    () => analyzeForClarification(scores, confidence, 12, 0, activeModel), // Get all possible
+    [scores, confidence, activeModel]
   );
 
   // Filter analysis based on selected values
@@ -88,7 +440,7 @@ export function ClarificationPanel({
     }
 
     // Use selectOptimalStressors with filtered values
-    const stressors = selectOptimalStressors(valuesToUse, maxStressors, minSpread);
+    const stressors = selectOptimalStressors(valuesToUse, maxStressors, minSpread, activeModel);
 
     if (stressors.length === 0) {
       return {
@@ -104,7 +456,7 @@ export function ClarificationPanel({
       selectedStressors: stressors,
       canClarify: true,
     };
-  }, [allUndecidedAnalysis, selectedValueCodes, maxStressors, minSpread]);
+  }, [allUndecidedAnalysis, selectedValueCodes, maxStressors, minSpread, activeModel]);
 
   // Toggle value selection
   const toggleValueSelection = (code: string) => {
@@ -153,12 +505,14 @@ export function ClarificationPanel({
         updatedScores,
         stressorId as StressorId,
         strength,
-        undecidedCodes
+        undecidedCodes,
+        undefined,
+        activeModel
       );
     }
 
     return updatedScores;
-  }, [responses, scores, analysis, generatedAnalysis]);
+  }, [responses, scores, analysis, generatedAnalysis, activeModel]);
 
   const generateScenarios = async () => {
     if (!analysis.canClarify) return;
@@ -173,41 +527,24 @@ export function ClarificationPanel({
       selectedStressors: analysis.selectedStressors,
     });
 
+    const signal = request.next();
     try {
-      const response = await fetch(CLARIFICATION_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          jobDescription,
-          stressors: analysis.selectedStressors.map(c => ({
-            stressorId: c.stressorId,
-            stressorName: c.stressorName,
-            stressorDescription: c.stressorDescription,
-            highPolarityValues: c.highPolarityValues,
-            lowPolarityValues: c.lowPolarityValues,
-          })),
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        toast.error(error.error || 'Failed to generate scenarios');
-        return;
-      }
-
-      const data = await response.json();
-      setScenarios(data.scenarios || []);
+      setScenarios(await requestScenarios(jobDescription, analysis.selectedStressors, signal));
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to generate scenarios:', error);
-      toast.error('Failed to generate scenarios');
+      toast.error(getEdgeErrorMessage(error, 'Failed to generate scenarios'));
     } finally {
-      setIsGenerating(false);
+      if (!signal.aborted) setIsGenerating(false);
     }
   };
 
+  const cancelGenerating = () => {
+    request.abort();
+    setIsGenerating(false);
+    setGeneratedAnalysis(null);
+  };
+
   const regenerateScenario = async (stressorId: string) => {
     // Use stored analysis if available, otherwise fall back to current
     const analysisToUse = generatedAnalysis || analysis;
@@ -215,33 +552,10 @@ export function ClarificationPanel({
     if (!stressor) return;
 
     setRegeneratingStressor(stressorId);
+    const signal = request.next();
 
     try {
-      const response = await fetch(CLARIFICATION_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          jobDescription,
-          stressors: [{
-            stressorId: stressor.stressorId,
-            stressorName: stressor.stressorName,
-            stressorDescription: stressor.stressorDescription,
-            highPolarityValues: stressor.highPolarityValues,
-            lowPolarityValues: stressor.lowPolarityValues,
-          }],
-        }),
-      });
-
-      if (!response.ok) {
-        toast.error('Failed to regenerate scenario');
-        return;
-      }
-
-      const data = await response.json();
-      const newScenario = data.scenarios?.[0];
+      const [newScenario] = await requestScenarios(jobDescription, [stressor], signal);
 
       if (newScenario) {
         setScenarios(prev =>
@@ -255,9 +569,10 @@ export function ClarificationPanel({
         });
       }
     } catch (error) {
-      toast.error('Failed to regenerate scenario');
+      if (isAbortError(error)) return;
+      toast.error(getEdgeErrorMessage(error, 'Failed to regenerate scenario'));
     } finally {
-      setRegeneratingStressor(null);
+      if (!signal.aborted) setRegeneratingStressor(null);
     }
   };
 
@@ -268,10 +583,76 @@ export function ClarificationPanel({
   const applyUpdatedScores = () => {
     if (previewScores) {
       onScoresUpdate(previewScores);
+      if (onResponsesApplied) {
+        const valueCodes = (generatedAnalysis || analysis).undecidedValues.map(v => v.code);
+        onResponsesApplied(
+          scenarios
+            .filter(scenario => responses[scenario.stressorId])
+            .map(scenario => ({
+              stressorId: scenario.stressorId as StressorId,
+              stressorName: scenario.stressorName,
+              setup: scenario.setup,
+              optionA: scenario.optionA,
+              optionB: scenario.optionB,
+              response: responses[scenario.stressorId],
+              valueCodes,
+            }))
+        );
+      }
       toast.success('Value scores updated based on your responses');
     }
   };
 
+  const buildInterviewKit = (): InterviewKit => ({
+    jobTitle: roleDetails?.detectedJobTitle,
+    scores,
+    confidence,
+    rationales: roleDetails?.rationales,
+    occupationalContext: roleDetails?.occupationalContext,
+    scenarios,
+    stressors: generatedAnalysis?.selectedStressors,
+  });
+
+  const downloadMarkdownKit = () => {
+    const kit = buildInterviewKit();
+    downloadFile(buildInterviewKitMarkdown(kit), `${getInterviewKitFileName(kit)}.md`, 'text/markdown;charset=utf-8;');
+  };
+
+  const downloadHtmlKit = () => {
+    const kit = buildInterviewKit();
+    downloadFile(buildInterviewKitHtml(kit), `${getInterviewKitFileName(kit)}.html`, 'text/html;charset=utf-8;');
+  };
+
+  // The browser's print dialog doubles as "Save as PDF"
+  const printKit = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast.error('Allow pop-ups for this site to print the interview kit');
+      return;
+    }
+    printWindow.document.write(buildInterviewKitHtml(buildInterviewKit()));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  // Answers ticked in a completed Markdown kit become responses, ready to preview and apply
+  const importKitAnswers = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const answers = Object.entries(parseInterviewKitAnswers(await file.text(), activeModel))
+      .filter(([stressorId]) => scenarios.some(scenario => scenario.stressorId === stressorId));
+    if (answers.length === 0) {
+      toast.error('No ticked answers for these scenarios were found in that file');
+      return;
+    }
+
+    setResponses(prev => ({ ...prev, ...Object.fromEntries(answers) }));
+    toast.success(`Imported ${answers.length} answer(s). Review the preview, then apply them.`);
+  };
+
   // Polarity color helper
   const getPolarityColor = (polarity: number): string => {
     if (polarity >= 0.5) return 'bg-green-500/20 text-green-700';
@@ -325,6 +706,13 @@ export function ClarificationPanel({
             means the stressor better differentiates between values. We select stressors with the
             highest spread.
           </p>
+          <p>
+            <strong>Adaptive mode:</strong> Instead of a fixed batch, scenarios are asked one at a
+            time. Each value starts with an uncertainty that shrinks as answers touch it, and the
+            next stressor is the one whose polarities vary most across the values that are still
+            uncertain. Answers are applied immediately, and it stops once the values are resolved
+            or no remaining stressor would add much.
+          </p>
           <p>
             <strong>How scores update:</strong> When you respond to a scenario, values with positive
             polarity on that stressor increase, while values with negative polarity decrease.
@@ -387,8 +775,29 @@ export function ClarificationPanel({
         )}
       </div>
 
+      {/* Batch asks several scenarios at once; adaptive picks each one from the answers so far */}
+      {analysis.undecidedValues.length >= 2 && (
+        <Tabs value={mode} onValueChange={(value) => setMode(value as 'batch' | 'adaptive')}>
+          <TabsList>
+            <TabsTrigger value="batch">Batch</TabsTrigger>
+            <TabsTrigger value="adaptive">Adaptive</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      )}
+
+      {mode === 'adaptive' && analysis.undecidedValues.length >= 2 && (
+        <AdaptiveClarification
+          key={analysis.undecidedValues.map(v => v.code).join(',')}
+          jobDescription={jobDescription}
+          undecidedValues={analysis.undecidedValues}
+          scores={scores}
+          onScoresUpdate={onScoresUpdate}
+          onResponsesApplied={onResponsesApplied}
+        />
+      )}
+
       {/* Configuration sliders - only show when we have 2+ values selected */}
-      {analysis.canClarify && (
+      {mode === 'batch' && analysis.canClarify && (
         <div className="grid md:grid-cols-2 gap-6">
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
@@ -420,7 +829,7 @@ export function ClarificationPanel({
       )}
 
       {/* Polarity matrix - showing our work */}
-      {analysis.selectedStressors.length > 0 && (
+      {mode === 'batch' && analysis.selectedStressors.length > 0 && (
         <div>
           <h3 className="text-sm font-medium mb-2">
             Value × Stressor Polarity Matrix
@@ -469,30 +878,65 @@ export function ClarificationPanel({
       )}
 
       {/* Generate button */}
-      {scenarios.length === 0 && (
-        <Button
-          onClick={generateScenarios}
-          disabled={isGenerating}
-          className="w-full gap-2"
-        >
-          {isGenerating ? (
-            <>
-              <Loader2 className="w-4 h-4 animate-spin" />
-              Generating Scenarios...
-            </>
-          ) : (
-            <>
-              <Sparkles className="w-4 h-4" />
-              Generate Clarifying Scenarios
-            </>
-          )}
+      {mode === 'batch' && scenarios.length === 0 && (isGenerating ? (
+        <div className="flex gap-2">
+          <Button disabled className="flex-1 gap-2">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Generating Scenarios...
+          </Button>
+          <Button variant="outline" onClick={cancelGenerating} className="gap-2">
+            <Square className="w-4 h-4" />
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Button onClick={generateScenarios} className="w-full gap-2">
+          <Sparkles className="w-4 h-4" />
+          Generate Clarifying Scenarios
         </Button>
-      )}
+      ))}
 
       {/* Scenarios */}
-      {scenarios.length > 0 && generatedAnalysis && (
+      {mode === 'batch' && scenarios.length > 0 && generatedAnalysis && (
         <div className="space-y-4">
-          <h3 className="text-sm font-medium">Clarifying Scenarios to pose to the hiring manager</h3>
+          <div className="flex items-center justify-between flex-wrap gap-2">
+            <h3 className="text-sm font-medium">Clarifying Scenarios to pose to the hiring manager</h3>
+            <div className="flex gap-1">
+              <Button variant="outline" size="sm" onClick={downloadMarkdownKit} className="gap-1" title="Download the interview kit as Markdown">
+                <FileDown className="w-3.5 h-3.5" />
+                Markdown
+              </Button>
+              <Button variant="outline" size="sm" onClick={downloadHtmlKit} className="gap-1" title="Download the interview kit as a web page">
+                <FileDown className="w-3.5 h-3.5" />
+                HTML
+              </Button>
+              <Button variant="outline" size="sm" onClick={printKit} className="gap-1" title="Print the interview kit or save it as PDF">
+                <Printer className="w-3.5 h-3.5" />
+                Print / PDF
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => answersInputRef.current?.click()}
+                className="gap-1"
+                title="Import answers ticked in a completed Markdown kit"
+              >
+                <Upload className="w-3.5 h-3.5" />
+                Import Answers
+              </Button>
+              <input
+                ref={answersInputRef}
+                type="file"
+                accept=".md,.markdown,text/markdown,text/plain"
+                onChange={importKitAnswers}
+                className="hidden"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Take the scenarios into the interview as a kit with room for the manager's answers. Tick the answers in
+            the Markdown kit and import it, or enter them below.
+          </p>
 
           {scenarios.map(scenario => {
             const stressor = generatedAnalysis.selectedStressors.find(
@@ -526,55 +970,13 @@ export function ClarificationPanel({
                   </Button>
                 </div>
 
-                <p className="text-sm">{scenario.setup}</p>
-
-                <div className="grid md:grid-cols-2 gap-4">
-                  <div className="rounded-lg bg-green-50 p-3">
-                    <div className="text-xs font-medium text-green-800 mb-1">Option A</div>
-                    <p className="text-sm text-green-900">{scenario.optionA}</p>
-                  </div>
-                  <div className="rounded-lg bg-red-50 p-3">
-                    <div className="text-xs font-medium text-red-800 mb-1">Option B</div>
-                    <p className="text-sm text-red-900">{scenario.optionB}</p>
-                  </div>
-                </div>
+                <ScenarioOptions scenario={scenario} />
 
                 {/* 5-point response scale */}
-                <div className="space-y-2">
-                  <p className="text-xs text-muted-foreground text-center">
-                    Which approach do you think this role would favor?
-                  </p>
-                  <div className="flex justify-center gap-1">
-                    {([1, 2, 3, 4, 5] as const).map(value => {
-                      const labels = {
-                        1: 'Strongly A',
-                        2: 'Somewhat A',
-                        3: 'Equal',
-                        4: 'Somewhat B',
-                        5: 'Strongly B',
-                      };
-                      const isSelected = currentResponse === value;
-
-                      return (
-                        <button
-                          key={value}
-                          onClick={() => handleResponse(scenario.stressorId, value)}
-                          className={`px-3 py-1.5 text-xs rounded transition-colors ${
-                            isSelected
-                              ? value <= 2
-                                ? 'bg-green-600 text-white'
-                                : value >= 4
-                                ? 'bg-red-600 text-white'
-                                : 'bg-gray-600 text-white'
-                              : 'bg-muted hover:bg-muted/80'
-                          }`}
-                        >
-                          {labels[value]}
-                        </button>
-                      );
-                    })}
-                  </div>
-                </div>
+                <ResponseScale
+                  value={currentResponse}
+                  onSelect={(value) => handleResponse(scenario.stressorId, value)}
+                />
 
                 {/* Show interpretation based on response */}
                 {currentResponse && (
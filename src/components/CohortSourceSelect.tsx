@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ProfileLibraryFacets, loadProfileLibraryFacets } from '@/lib/profile-storage';
+import { ALL_PROFILES_SOURCE, CohortSourceKey } from '@/lib/cohort-analysis';
+
+interface CohortSourceSelectProps {
+  value: CohortSourceKey;
+  onValueChange: (value: CohortSourceKey) => void;
+  /** Offer every saved profile as a source, not just collections and tags */
+  allowAll?: boolean;
+  className?: string;
+}
+
+export function CohortSourceSelect({ value, onValueChange, allowAll = false, className }: CohortSourceSelectProps) {
+  const [facets, setFacets] = useState<ProfileLibraryFacets>({ tags: [], collections: [] });
+
+  useEffect(() => {
+    loadProfileLibraryFacets()
+      .then(setFacets)
+      .catch((error) => console.error('Error loading profile facets:', error));
+  }, []);
+
+  const hasSources = allowAll || facets.collections.length > 0 || facets.tags.length > 0;
+
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={!hasSources}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder={hasSources ? 'Select a collection or tag...' : 'No collections or tags yet'} />
+      </SelectTrigger>
+      <SelectContent>
+        {allowAll && (
+          <SelectItem value={ALL_PROFILES_SOURCE}>All saved profiles</SelectItem>
+        )}
+        {facets.collections.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>Collections</SelectLabel>
+            {facets.collections.map(c => (
+              <SelectItem key={`collection:${c.value}`} value={`collection:${c.value}`}>
+                {c.value} ({c.count})
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+        {facets.tags.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>Tags</SelectLabel>
+            {facets.tags.map(t => (
+              <SelectItem key={`tag:${t.value}`} value={`tag:${t.value}`}>
+                {t.value} ({t.count})
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
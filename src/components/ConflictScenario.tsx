@@ -6,21 +6,29 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { HeartHandshake, Loader2, ScrollText, Swords } from 'lucide-react';
+import { HeartHandshake, Loader2, ScrollText, Square, Swords } from 'lucide-react';
 import { InfoPopover } from '@/components/InfoPopover';
+import { StreamStatus } from '@/components/StreamStatus';
+import { ScenarioText } from '@/components/ScenarioText';
+import { SavedScenarioLink } from '@/components/SavedScenarioLink';
 import { toast } from 'sonner';
-import { ARCHETYPES } from '@/lib/archetypes';
-import { ValueScores } from '@/lib/schwartz-values';
+import { scoresToValueProfile } from '@/lib/archetypes';
+import { useArchetypes } from '@/hooks/use-archetypes';
+import { useEdgeStream } from '@/hooks/use-edge-stream';
+import { useScenarioSaver } from '@/hooks/use-scenario-saver';
+import { useStressorSettings } from '@/hooks/use-stressor-settings';
+import { usePolarityModel } from '@/hooks/use-polarity-model';
+import { getEdgeErrorMessage } from '@/lib/edge-functions';
+import { ValueScores, ScoreMode } from '@/lib/schwartz-values';
 import { getTopProfileStressors } from '@/lib/stressor-sensitivity';
+import { describeStressorConditions } from '@/lib/stressors';
 import { analyzeReconciliation } from '@/lib/reconciliation-analysis';
 import { buildConflictPrompt, buildReconciliationPrompt, PromptPair } from '@/lib/prompt-builders';
-import { stripMarkdown } from '@/lib/utils';
-
-const SUPABASE_BASE_URL = (import.meta.env.VITE_SUPABASE_URL as string).replace(/\/$/, '');
-const CONFLICT_URL = `${SUPABASE_BASE_URL}/functions/v1/generate-conflict-scenario`;
-const RECONCILIATION_URL = `${SUPABASE_BASE_URL}/functions/v1/generate-reconciliation`;
+import { ScenarioParticipant, getScenarioTitle } from '@/lib/scenario-storage';
 
 interface CustomProfile {
+  /** Id of the saved profile or job analysis, when it came from one */
+  id?: string;
   name: string;
   scores: ValueScores;
   description?: string;
@@ -30,34 +38,30 @@ interface ConflictScenarioProps {
   selectedArchetypes: string[];
   customProfiles?: CustomProfile[];
   profilesData?: { name: string; scores: ValueScores }[];
+  scoreMode?: ScoreMode;
 }
 
-// Converts ValueScores (0–7 scale) to valueProfile weights (-3 to 3)
-function scoresToValueProfile(scores: ValueScores): Record<string, number> {
-  const profile: Record<string, number> = {};
-  for (const [code, score] of Object.entries(scores)) {
-    const weight = Math.round(score - 3.5);
-    if (weight !== 0) {
-      profile[code] = Math.max(-3, Math.min(3, weight));
-    }
-  }
-  return profile;
-}
-
-export function ConflictScenario({ selectedArchetypes, customProfiles = [], profilesData }: ConflictScenarioProps) {
-  const [scenario, setScenario] = useState<string>('');
-  const [isGenerating, setIsGenerating] = useState(false);
+export function ConflictScenario({ selectedArchetypes, customProfiles = [], profilesData, scoreMode = 'raw' }: ConflictScenarioProps) {
+  const scenarioStream = useEdgeStream('generate-conflict-scenario');
+  const reconciliationStream = useEdgeStream('generate-reconciliation');
+  const { text: scenario, isStreaming: isGenerating } = scenarioStream;
+  const { text: reconciliation, isStreaming: isGeneratingReconciliation } = reconciliationStream;
+  const scenarioSaver = useScenarioSaver();
+  const reconciliationSaver = useScenarioSaver();
   const [includeStressors, setIncludeStressors] = useState(false);
-  const [reconciliation, setReconciliation] = useState<string>('');
-  const [isGeneratingReconciliation, setIsGeneratingReconciliation] = useState(false);
   const [viewingPrompt, setViewingPrompt] = useState<{ title: string; prompt: PromptPair } | null>(null);
+  const { archetypes } = useArchetypes();
+  const { settings: stressorSettings } = useStressorSettings();
+  const { activeModel: polarityModel } = usePolarityModel();
 
   const totalSelected = selectedArchetypes.length + customProfiles.length;
 
   const buildAllProfilesData = () => {
-    const archetypesData = selectedArchetypes.map(name => {
-      const archetype = ARCHETYPES.find(a => a.name === name)!;
-      return { name: archetype.name, description: archetype.description, valueProfile: archetype.valueProfile };
+    const archetypesData = selectedArchetypes.flatMap(name => {
+      const archetype = archetypes.find(a => a.name === name);
+      return archetype
+        ? [{ name: archetype.name, description: archetype.description, valueProfile: archetype.valueProfile }]
+        : [];
     });
     const customProfilesData = customProfiles.map(profile => ({
       name: profile.name,
@@ -67,18 +71,42 @@ export function ConflictScenario({ selectedArchetypes, customProfiles = [], prof
     return [...customProfilesData, ...archetypesData];
   };
 
+  // Same order as buildAllProfilesData
+  const buildParticipants = (): ScenarioParticipant[] => [
+    ...customProfiles.map(profile => ({ name: profile.name, source: 'profile' as const, id: profile.id })),
+    ...selectedArchetypes
+      .filter(name => archetypes.some(a => a.name === name))
+      .map(name => ({ name, source: 'archetype' as const })),
+  ];
+
+  // The strongest stressors between the profiles, plus the conditions of any the user has tuned
+  const pickStressors = () => {
+    if (!includeStressors || !profilesData || profilesData.length < 2) {
+      return { stressorNames: undefined, stressorConditions: undefined };
+    }
+    const topStressors = getTopProfileStressors(profilesData, 3, scoreMode, stressorSettings, polarityModel);
+    const stressorConditions = topStressors.flatMap(s => {
+      const conditions = describeStressorConditions(s.stressorId, stressorSettings, polarityModel);
+      return conditions ? [`${s.stressorName}: ${conditions}`] : [];
+    });
+    return {
+      stressorNames: topStressors.map(s => s.stressorName),
+      stressorConditions: stressorConditions.length > 0 ? stressorConditions : undefined,
+    };
+  };
+
   const openConflictPrompt = () => {
     const allProfilesData = buildAllProfilesData();
-    let stressorNames: string[] | undefined;
-    if (includeStressors && profilesData && profilesData.length >= 2) {
-      stressorNames = getTopProfileStressors(profilesData, 3).map(s => s.stressorName);
-    }
-    setViewingPrompt({ title: 'Conflict Scenario Prompt', prompt: buildConflictPrompt(allProfilesData, stressorNames) });
+    const { stressorNames, stressorConditions } = pickStressors();
+    setViewingPrompt({
+      title: 'Conflict Scenario Prompt',
+      prompt: buildConflictPrompt(allProfilesData, stressorNames, stressorConditions),
+    });
   };
 
   const openReconciliationPrompt = () => {
     const allProfilesData = buildAllProfilesData();
-    const analysis = analyzeReconciliation(profilesData ?? []);
+    const analysis = analyzeReconciliation(profilesData ?? [], 3, 2, scoreMode);
     setViewingPrompt({ title: 'Reconciliation Prompt', prompt: buildReconciliationPrompt(allProfilesData, scenario, analysis) });
   };
 
@@ -88,240 +116,66 @@ export function ConflictScenario({ selectedArchetypes, customProfiles = [], prof
       return;
     }
 
-    setIsGenerating(true);
-    setScenario('');
-    setReconciliation('');
-
-    try {
-      const allProfilesData = buildAllProfilesData();
-
-      let stressorNames: string[] | undefined;
-      if (includeStressors && profilesData && profilesData.length >= 2) {
-        const topStressors = getTopProfileStressors(profilesData, 3);
-        stressorNames = topStressors.map(s => s.stressorName);
-      }
-
-      const response = await fetch(CONFLICT_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({ archetypes: allProfilesData, stressors: stressorNames }),
-      });
-
-      if (!response.ok) {
-        let message = 'Failed to generate scenario';
-        try {
-          const error = await response.json();
-          message = error.error || message;
-        } catch { /* non-JSON body */ }
-        if (response.status === 429) {
-          toast.error('Rate limit exceeded. Please try again later.');
-        } else if (response.status === 402) {
-          toast.error('AI credits exhausted. Please add funds.');
-        } else {
-          toast.error(message);
-        }
-        return;
-      }
-
-      if (!response.body) {
-        throw new Error('No response body');
-      }
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let textBuffer = '';
-      let fullText = '';
-
-      outer: while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+    reconciliationStream.reset();
+    scenarioSaver.clear();
+    reconciliationSaver.clear();
 
-        textBuffer += decoder.decode(value, { stream: true });
-
-        let newlineIndex: number;
-        while ((newlineIndex = textBuffer.indexOf('\n')) !== -1) {
-          let line = textBuffer.slice(0, newlineIndex);
-          textBuffer = textBuffer.slice(newlineIndex + 1);
-
-          if (line.endsWith('\r')) line = line.slice(0, -1);
-          if (line.startsWith(':') || line.trim() === '') continue;
-          if (!line.startsWith('data: ')) continue;
+    const allProfilesData = buildAllProfilesData();
+    const participants = buildParticipants();
 
-          const jsonStr = line.slice(6).trim();
-          if (jsonStr === '[DONE]') break outer;
+    const { stressorNames, stressorConditions } = pickStressors();
 
-          try {
-            const parsed = JSON.parse(jsonStr);
-            const content = parsed.choices?.[0]?.delta?.content;
-            if (content) {
-              fullText += content;
-              setScenario(fullText);
-            }
-          } catch {
-            break;
-          }
-        }
+    try {
+      const request = { archetypes: allProfilesData, stressors: stressorNames, stressorConditions };
+      const result = await scenarioStream.start(request);
+      // Only finished scenarios go in the library
+      if (result && !result.incomplete) {
+        await scenarioSaver.save({
+          kind: 'conflict',
+          title: getScenarioTitle(participants),
+          prompt: buildConflictPrompt(allProfilesData, stressorNames, stressorConditions),
+          participants,
+          stressors: stressorNames,
+          model: result.model,
+          content: result.text,
+          request,
+        });
       }
     } catch (error) {
       console.error('Conflict scenario error:', error);
-      toast.error('Failed to generate conflict scenario');
-    } finally {
-      setIsGenerating(false);
+      toast.error(getEdgeErrorMessage(error, 'Failed to generate conflict scenario'));
     }
   };
 
   const generateReconciliation = async () => {
     if (!scenario || totalSelected < 2) return;
 
-    setIsGeneratingReconciliation(true);
-    setReconciliation('');
+    const allProfilesData = buildAllProfilesData();
+    const analysis = analyzeReconciliation(profilesData ?? [], 3, 2, scoreMode);
+    const participants = buildParticipants();
+    reconciliationSaver.clear();
 
     try {
-      const allProfilesData = buildAllProfilesData();
-      const analysis = analyzeReconciliation(profilesData ?? []);
-
-      const response = await fetch(RECONCILIATION_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({ archetypes: allProfilesData, conflictScenario: scenario, analysis }),
-      });
-
-      if (!response.ok) {
-        let message = 'Failed to generate reconciliation';
-        try {
-          const error = await response.json();
-          message = error.error || message;
-        } catch { /* non-JSON body */ }
-        if (response.status === 429) {
-          toast.error('Rate limit exceeded. Please try again later.');
-        } else if (response.status === 402) {
-          toast.error('AI credits exhausted. Please add funds.');
-        } else {
-          toast.error(message);
-        }
-        return;
-      }
-
-      if (!response.body) {
-        throw new Error('No response body');
-      }
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let textBuffer = '';
-      let fullText = '';
-
-      outer: while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        textBuffer += decoder.decode(value, { stream: true });
-
-        let newlineIndex: number;
-        while ((newlineIndex = textBuffer.indexOf('\n')) !== -1) {
-          let line = textBuffer.slice(0, newlineIndex);
-          textBuffer = textBuffer.slice(newlineIndex + 1);
-
-          if (line.endsWith('\r')) line = line.slice(0, -1);
-          if (line.startsWith(':') || line.trim() === '') continue;
-          if (!line.startsWith('data: ')) continue;
-
-          const jsonStr = line.slice(6).trim();
-          if (jsonStr === '[DONE]') break outer;
-
-          try {
-            const parsed = JSON.parse(jsonStr);
-            const content = parsed.choices?.[0]?.delta?.content;
-            if (content) {
-              fullText += content;
-              setReconciliation(fullText);
-            }
-          } catch {
-            break;
-          }
-        }
+      const request = { archetypes: allProfilesData, conflictScenario: scenario, analysis };
+      const result = await reconciliationStream.start(request);
+      if (result && !result.incomplete) {
+        await reconciliationSaver.save({
+          kind: 'reconciliation',
+          title: `${getScenarioTitle(participants)}: common ground`,
+          prompt: buildReconciliationPrompt(allProfilesData, scenario, analysis),
+          participants,
+          model: result.model,
+          content: result.text,
+          request,
+          parentId: scenarioSaver.savedId,
+        });
       }
     } catch (error) {
       console.error('Reconciliation error:', error);
-      toast.error('Failed to generate reconciliation');
-    } finally {
-      setIsGeneratingReconciliation(false);
+      toast.error(getEdgeErrorMessage(error, 'Failed to generate reconciliation'));
     }
   };
 
-  // Parse the scenario text to render dialogue nicely
-  const renderScenario = (text: string) => {
-    const lines = text.split('\n');
-
-    return lines.map((line, i) => {
-      // Check if it's a dialogue line (starts with ** for bold character name)
-      const dialogueMatch = line.match(/^\*\*\[?([^\]:\*]+)\]?\*\*:\s*(.+)/);
-
-      if (dialogueMatch) {
-        const [, speaker, dialogue] = dialogueMatch;
-        return (
-          <div key={i} className="mb-3">
-            <span className="font-semibold text-primary">{stripMarkdown(speaker)}:</span>
-            <span className="ml-2 text-foreground italic">{stripMarkdown(dialogue).replace(/^"|"$/g, '')}</span>
-          </div>
-        );
-      }
-
-      // Check for section headers (like "SCENARIO" or "DIALOGUE")
-      if (line.match(/^\d+\.\s*(SCENARIO|DIALOGUE)/i)) {
-        return (
-          <h4 key={i} className="font-semibold text-foreground mt-4 mb-2 text-sm uppercase tracking-wide">
-            {line.replace(/^\d+\.\s*/, '')}
-          </h4>
-        );
-      }
-
-      // Regular paragraph
-      if (line.trim()) {
-        return <p key={i} className="text-muted-foreground mb-2">{stripMarkdown(line)}</p>;
-      }
-
-      return null;
-    });
-  };
-
-  const renderReconciliation = (text: string) => {
-    const lines = text.split('\n');
-
-    return lines.map((line, i) => {
-      const dialogueMatch = line.match(/^\*\*\[?([^\]:\*]+)\]?\*\*:\s*(.+)/);
-      if (dialogueMatch) {
-        const [, speaker, dialogue] = dialogueMatch;
-        return (
-          <div key={i} className="mb-3">
-            <span className="font-semibold text-primary">{stripMarkdown(speaker)}:</span>
-            <span className="ml-2 text-foreground italic">{stripMarkdown(dialogue).replace(/^"|"$/g, '')}</span>
-          </div>
-        );
-      }
-
-      if (line.match(/^\d+\.\s*(COMMON GROUND|RECONCILIATION PATH|DIALOGUE)/i)) {
-        return (
-          <h4 key={i} className="font-semibold text-foreground mt-4 mb-2 text-sm uppercase tracking-wide">
-            {line.replace(/^\d+\.\s*/, '')}
-          </h4>
-        );
-      }
-
-      if (line.trim()) {
-        return <p key={i} className="text-muted-foreground mb-2">{stripMarkdown(line)}</p>;
-      }
-
-      return null;
-    });
-  };
-
   return (
     <div className="rounded-xl border bg-card p-6">
       <div className="flex items-start justify-between mb-4">
@@ -361,31 +215,38 @@ export function ConflictScenario({ selectedArchetypes, customProfiles = [], prof
               View prompt
             </Button>
           )}
-          <Button
-            onClick={generateScenario}
-            disabled={isGenerating || totalSelected < 2}
-            variant="outline"
-            className="gap-2"
-          >
-            {isGenerating ? (
-              <>
+          {isGenerating ? (
+            <>
+              <Button disabled variant="outline" className="gap-2">
                 <Loader2 className="w-4 h-4 animate-spin" />
                 Generating...
-              </>
-            ) : (
-              <>
-                <Swords className="w-4 h-4" />
-                Generate Conflict
-              </>
-            )}
-          </Button>
+              </Button>
+              <Button onClick={scenarioStream.cancel} variant="outline" size="icon" title="Stop generating">
+                <Square className="w-3.5 h-3.5" />
+              </Button>
+            </>
+          ) : (
+            <Button
+              onClick={generateScenario}
+              disabled={totalSelected < 2}
+              variant="outline"
+              className="gap-2"
+            >
+              <Swords className="w-4 h-4" />
+              Generate Conflict
+            </Button>
+          )}
         </div>
       </div>
 
       {scenario ? (
-        <div className="prose prose-sm max-w-none">
-          {renderScenario(scenario)}
-        </div>
+        <>
+          <div className="prose prose-sm max-w-none">
+            <ScenarioText kind="conflict" text={scenario} />
+          </div>
+          <StreamStatus usage={scenarioStream.usage} incomplete={scenarioStream.incomplete} />
+          <SavedScenarioLink scenarioId={scenarioSaver.savedId} saving={scenarioSaver.saving} />
+        </>
       ) : (
         <p className="text-sm text-muted-foreground text-center py-8">
           Click "Generate Conflict" to see a scenario where these characters'
@@ -394,7 +255,7 @@ export function ConflictScenario({ selectedArchetypes, customProfiles = [], prof
       )}
 
       {scenario && profilesData && profilesData.length >= 2 && (() => {
-        const { conflictValues, bridgeValues } = analyzeReconciliation(profilesData);
+        const { conflictValues, bridgeValues } = analyzeReconciliation(profilesData, 3, 2, scoreMode);
         return (
           <>
             <Separator className="my-5" />
@@ -432,30 +293,37 @@ export function ConflictScenario({ selectedArchetypes, customProfiles = [], prof
                   <ScrollText className="w-3.5 h-3.5" />
                   View prompt
                 </Button>
-                <Button
-                  onClick={generateReconciliation}
-                  disabled={isGeneratingReconciliation || !scenario}
-                  variant="outline"
-                  size="sm"
-                  className="gap-2"
-                >
-                  {isGeneratingReconciliation ? (
-                    <>
+                {isGeneratingReconciliation ? (
+                  <>
+                    <Button disabled variant="outline" size="sm" className="gap-2">
                       <Loader2 className="w-4 h-4 animate-spin" />
                       Finding common ground...
-                    </>
-                  ) : (
-                    <>
-                      <HeartHandshake className="w-4 h-4" />
-                      Find Common Ground
-                    </>
-                  )}
-                </Button>
+                    </Button>
+                    <Button onClick={reconciliationStream.cancel} variant="outline" size="sm" title="Stop generating">
+                      <Square className="w-3.5 h-3.5" />
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={generateReconciliation}
+                    disabled={!scenario || isGenerating}
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                  >
+                    <HeartHandshake className="w-4 h-4" />
+                    Find Common Ground
+                  </Button>
+                )}
               </div>
               {reconciliation && (
-                <div className="prose prose-sm max-w-none mt-2">
-                  {renderReconciliation(reconciliation)}
-                </div>
+                <>
+                  <div className="prose prose-sm max-w-none mt-2">
+                    <ScenarioText kind="reconciliation" text={reconciliation} />
+                  </div>
+                  <StreamStatus usage={reconciliationStream.usage} incomplete={reconciliationStream.incomplete} />
+                  <SavedScenarioLink scenarioId={reconciliationSaver.savedId} saving={reconciliationSaver.saving} />
+                </>
               )}
             </div>
           </>
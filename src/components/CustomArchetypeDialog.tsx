@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Slider } from '@/components/ui/slider';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ValueAbbreviation } from '@/components/ValueAbbreviation';
+import { SCHWARTZ_VALUES } from '@/lib/schwartz-values';
+import { ARCHETYPE_WEIGHT_LABELS } from '@/lib/archetypes';
+import {
+  CustomArchetypeInput,
+  DbCustomArchetype,
+  isBuiltInArchetypeName,
+  saveCustomArchetype,
+  updateCustomArchetype,
+} from '@/lib/archetype-storage';
+import { useArchetypes } from '@/hooks/use-archetypes';
+import { useToast } from '@/hooks/use-toast';
+
+const EMPTY_INPUT: CustomArchetypeInput = { name: '', description: '', imagePrompt: '', valueProfile: {} };
+
+interface CustomArchetypeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Archetype to edit; omit to create a new one */
+  archetype?: DbCustomArchetype | null;
+  /** Starting values when creating, e.g. a cluster centroid */
+  initialValues?: Partial<CustomArchetypeInput>;
+  title?: string;
+  description?: string;
+  onSaved?: (archetype: DbCustomArchetype) => void;
+}
+
+export function CustomArchetypeDialog({
+  open,
+  onOpenChange,
+  archetype,
+  initialValues,
+  title,
+  description,
+  onSaved,
+}: CustomArchetypeDialogProps) {
+  const { toast } = useToast();
+  const { refresh } = useArchetypes();
+  const [input, setInput] = useState<CustomArchetypeInput>(EMPTY_INPUT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    if (archetype) {
+      setInput({
+        name: archetype.name,
+        description: archetype.description,
+        imagePrompt: archetype.image_prompt,
+        valueProfile: archetype.value_profile,
+      });
+    } else {
+      setInput({ ...EMPTY_INPUT, ...initialValues });
+    }
+  }, [open, archetype, initialValues]);
+
+  const nameClash = isBuiltInArchetypeName(input.name);
+
+  const setWeight = (code: string, weight: number) => {
+    setInput(prev => {
+      const valueProfile = { ...prev.valueProfile };
+      // Neutral weights are left out, as in the built-in archetypes
+      if (weight === 0) {
+        delete valueProfile[code];
+      } else {
+        valueProfile[code] = weight;
+      }
+      return { ...prev, valueProfile };
+    });
+  };
+
+  const handleSave = async () => {
+    const trimmed = { ...input, name: input.name.trim(), description: input.description.trim(), imagePrompt: input.imagePrompt.trim() };
+    setIsSaving(true);
+    try {
+      const saved = archetype
+        ? await updateCustomArchetype(archetype.id, trimmed)
+        : await saveCustomArchetype(trimmed);
+      await refresh();
+      toast({
+        title: archetype ? 'Archetype updated' : 'Archetype saved',
+        description: `"${saved.name}" is now available in every archetype picker.`,
+      });
+      onSaved?.(saved);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-serif">
+            {title ?? (archetype ? 'Edit Custom Archetype' : 'New Custom Archetype')}
+          </DialogTitle>
+          <DialogDescription>
+            {description ?? 'Weight each value from -3 (actively opposed) to 3 (defining). Custom archetypes are visible to everyone.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="custom-archetype-name">Name</Label>
+              <Input
+                id="custom-archetype-name"
+                value={input.name}
+                onChange={(e) => setInput(prev => ({ ...prev, name: e.target.value }))}
+                maxLength={100}
+              />
+              {nameClash && (
+                <p className="text-xs text-destructive">A built-in archetype already has this name</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="custom-archetype-description">Description</Label>
+              <Textarea
+                id="custom-archetype-description"
+                value={input.description}
+                onChange={(e) => setInput(prev => ({ ...prev, description: e.target.value }))}
+                rows={4}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="custom-archetype-image-prompt">Image prompt</Label>
+              <Textarea
+                id="custom-archetype-image-prompt"
+                value={input.imagePrompt}
+                onChange={(e) => setInput(prev => ({ ...prev, imagePrompt: e.target.value }))}
+                placeholder="Optional description for generating a portrait"
+                rows={3}
+              />
+            </div>
+          </div>
+          <ScrollArea className="h-[360px] pr-3">
+            <div className="space-y-3">
+              {SCHWARTZ_VALUES.map(value => {
+                const weight = input.valueProfile[value.code] ?? 0;
+                return (
+                  <div key={value.code} className="space-y-1">
+                    <div className="flex items-center justify-between text-xs">
+                      <span>
+                        <ValueAbbreviation code={value.code} />
+                        <span className="ml-2 text-muted-foreground">{value.label}</span>
+                      </span>
+                      <span className="font-mono text-muted-foreground">
+                        {weight > 0 ? '+' : ''}{weight} {ARCHETYPE_WEIGHT_LABELS[weight]}
+                      </span>
+                    </div>
+                    <Slider
+                      value={[weight]}
+                      min={-3}
+                      max={3}
+                      step={1}
+                      onValueChange={([w]) => setWeight(value.code, w)}
+                      aria-label={`${value.label} weight`}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || !input.name.trim() || nameClash} className="gap-2">
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Archetype
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
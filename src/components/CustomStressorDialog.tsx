@@ -0,0 +1,262 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Plus, Save, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Slider } from '@/components/ui/slider';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ValueAbbreviation } from '@/components/ValueAbbreviation';
+import { SCHWARTZ_VALUES } from '@/lib/schwartz-values';
+import { StressorParameter } from '@/lib/stressors';
+import {
+  CustomStressorInput,
+  DbCustomStressor,
+  saveCustomStressor,
+  updateCustomStressor,
+} from '@/lib/custom-stressor-storage';
+import { useCustomStressors } from '@/hooks/use-custom-stressors';
+
+const EMPTY_INPUT: CustomStressorInput = { name: '', description: '', example: '', parameters: [], polarities: {} };
+
+function newParameter(): StressorParameter {
+  return {
+    // Settings are stored by parameter id, so it stays fixed when the parameter is renamed
+    id: crypto.randomUUID().slice(0, 8),
+    name: '',
+    description: '',
+    lowLabel: 'low',
+    highLabel: 'high',
+    defaultValue: 0.5,
+    intensity: 0.5,
+  };
+}
+
+function formatSigned(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+interface CustomStressorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Stressor to edit; omit to create a new one */
+  stressor?: DbCustomStressor | null;
+  onSaved?: (stressor: DbCustomStressor) => void;
+}
+
+export function CustomStressorDialog({ open, onOpenChange, stressor, onSaved }: CustomStressorDialogProps) {
+  const { refresh, setIncluded } = useCustomStressors();
+  const [input, setInput] = useState<CustomStressorInput>(EMPTY_INPUT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setInput(stressor
+      ? {
+          name: stressor.name,
+          description: stressor.description,
+          example: stressor.example,
+          parameters: stressor.parameters,
+          polarities: stressor.polarities,
+        }
+      : EMPTY_INPUT);
+  }, [open, stressor]);
+
+  const setPolarity = (code: string, polarity: number) => {
+    setInput(prev => ({ ...prev, polarities: { ...prev.polarities, [code]: polarity } }));
+  };
+
+  const updateParameter = (id: string, changes: Partial<StressorParameter>) => {
+    setInput(prev => ({
+      ...prev,
+      parameters: prev.parameters.map(p => (p.id === id ? { ...p, ...changes } : p)),
+    }));
+  };
+
+  const removeParameter = (id: string) => {
+    setInput(prev => ({ ...prev, parameters: prev.parameters.filter(p => p.id !== id) }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = stressor
+        ? await updateCustomStressor(stressor.id, input)
+        : await saveCustomStressor(input);
+      // Stressors you create are included in your own calculations straight away
+      if (!stressor) setIncluded(saved.id, true);
+      await refresh();
+      toast.success(stressor ? `"${saved.name}" updated` : `"${saved.name}" is now included in your stressor calculations`);
+      onSaved?.(saved);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save stressor');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const parametersNamed = input.parameters.every(p => p.name.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="font-serif">
+            {stressor ? 'Edit Custom Stressor' : 'New Custom Stressor'}
+          </DialogTitle>
+          <DialogDescription>
+            Set how increasing this stressor satisfies (+1) or frustrates (-1) each value. Anyone can see custom
+            stressors, but each person chooses which to use alongside the built-in twelve.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid md:grid-cols-2 gap-6">
+          <ScrollArea className="h-[420px] pr-3">
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="custom-stressor-name">Name</Label>
+                <Input
+                  id="custom-stressor-name"
+                  value={input.name}
+                  onChange={(e) => setInput(prev => ({ ...prev, name: e.target.value }))}
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="custom-stressor-description">Description</Label>
+                <Textarea
+                  id="custom-stressor-description"
+                  value={input.description}
+                  onChange={(e) => setInput(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="The scarcity or constraint this stressor introduces"
+                  rows={3}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="custom-stressor-example">Example</Label>
+                <Textarea
+                  id="custom-stressor-example"
+                  value={input.example}
+                  onChange={(e) => setInput(prev => ({ ...prev, example: e.target.value }))}
+                  placeholder="A situation where it forces a tradeoff"
+                  rows={2}
+                />
+              </div>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Parameters</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setInput(prev => ({ ...prev, parameters: [...prev.parameters, newParameter()] }))}
+                    className="h-7 gap-1 text-xs"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    Add
+                  </Button>
+                </div>
+                {input.parameters.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Optional dimensions users can slide to intensify or soften the stressor.
+                  </p>
+                )}
+                {input.parameters.map(param => (
+                  <div key={param.id} className="p-3 rounded-lg border space-y-2">
+                    <div className="flex gap-2">
+                      <Input
+                        value={param.name}
+                        onChange={(e) => updateParameter(param.id, { name: e.target.value })}
+                        placeholder="Parameter name"
+                        className="h-8 text-sm"
+                        aria-label="Parameter name"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeParameter(param.id)}
+                        className="h-8 w-8 shrink-0"
+                        aria-label="Remove parameter"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        value={param.lowLabel}
+                        onChange={(e) => updateParameter(param.id, { lowLabel: e.target.value })}
+                        placeholder="Low end"
+                        className="h-8 text-xs"
+                        aria-label="Low end label"
+                      />
+                      <Input
+                        value={param.highLabel}
+                        onChange={(e) => updateParameter(param.id, { highLabel: e.target.value })}
+                        placeholder="High end"
+                        className="h-8 text-xs"
+                        aria-label="High end label"
+                      />
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>Intensity at the high end</span>
+                      <span className="font-mono">{formatSigned(param.intensity)}</span>
+                    </div>
+                    <Slider
+                      value={[param.intensity]}
+                      onValueChange={([v]) => updateParameter(param.id, { intensity: Math.round(v * 10) / 10 })}
+                      min={-1}
+                      max={1}
+                      step={0.1}
+                      aria-label={`${param.name || 'Parameter'} intensity`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </ScrollArea>
+          <ScrollArea className="h-[420px] pr-3">
+            <div className="space-y-3">
+              {SCHWARTZ_VALUES.map(value => {
+                const polarity = input.polarities[value.code] ?? 0;
+                return (
+                  <div key={value.code} className="space-y-1">
+                    <div className="flex items-center justify-between text-xs">
+                      <span>
+                        <ValueAbbreviation code={value.code} />
+                        <span className="ml-2 text-muted-foreground">{value.label}</span>
+                      </span>
+                      <span className="font-mono text-muted-foreground">{formatSigned(polarity)}</span>
+                    </div>
+                    <Slider
+                      value={[polarity]}
+                      min={-1}
+                      max={1}
+                      step={0.1}
+                      onValueChange={([p]) => setPolarity(value.code, Math.round(p * 10) / 10)}
+                      aria-label={`${value.label} polarity`}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || !input.name.trim() || !parametersNamed} className="gap-2">
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Stressor
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@ import { useEffect, useState } from 'react';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Copy, Check } from 'lucide-react';
-import { ValueScores } from '@/lib/schwartz-values';
+import { ValueScores, ScoreMode } from '@/lib/schwartz-values';
 import { generateDescription, generateSystemPrompt } from '@/lib/profile-generator';
 import { SimilarTo } from '@/components/SimilarTo';
 import { ValueEditor } from '@/components/ValueEditor';
@@ -13,6 +13,7 @@ interface GenerationPanelProps {
   scores: ValueScores;
   description: string | null;
   systemPrompt: string | null;
+  scoreMode?: ScoreMode;
   profileName: string;
   profileId: string | null;
   onDescriptionChange: (description: string) => void;
@@ -26,6 +27,7 @@ export function GenerationPanel({
   scores,
   description,
   systemPrompt,
+  scoreMode = 'raw',
   profileName,
   profileId,
   onDescriptionChange,
@@ -98,7 +100,7 @@ export function GenerationPanel({
 
       {/* Stressor Sensitivity Analysis */}
       <section className="rounded-xl border bg-card p-6">
-        <StressorSensitivityPanel scores={scores} />
+        <StressorSensitivityPanel scores={scores} scoreMode={scoreMode} />
       </section>
 
       {/* Copy Instructions - system prompt */}
@@ -135,6 +137,7 @@ export function GenerationPanel({
       {/* Similar To... - archetype matching (at bottom) */}
       <SimilarTo
         scores={scores}
+        scoreMode={scoreMode}
         profileName={profileName}
         profileId={profileId}
         profileDescription={description}
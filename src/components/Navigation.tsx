@@ -1,5 +1,5 @@
 import { useLocation, useNavigate } from 'react-router-dom';
-import { Menu, Compass, Users, Layers, Sparkles, FileDown, Briefcase, BookOpen, Home, Languages } from 'lucide-react';
+import { Menu, Compass, Users, Layers, Sparkles, FileDown, Briefcase, BookOpen, Home, Languages, ClipboardList, UsersRound, Network, UserRoundPen, Library, Activity } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -21,9 +21,15 @@ interface NavItem {
 const NAV_ITEMS: NavItem[] = [
   { to: '/', label: 'Home', description: 'Landing page', icon: Home },
   { to: '/editor', label: 'Profile Editor', description: 'Create and edit value profiles', icon: Compass },
+  { to: '/questionnaire', label: 'Questionnaire', description: 'Measure your values with the PVQ-RR', icon: ClipboardList },
   { to: '/compare', label: 'Compare Profiles', description: 'Compare two profiles side-by-side', icon: Users },
+  { to: '/cohort', label: 'Cohort Analysis', description: 'Aggregate a group of profiles', icon: UsersRound },
+  { to: '/clusters', label: 'Profile Clusters', description: 'Discover archetypes in saved profiles', icon: Network },
+  { to: '/archetypes', label: 'Custom Archetypes', description: 'Define and share your own archetypes', icon: UserRoundPen },
   { to: '/stressors', label: 'Stressors', description: 'Explore value polarities', icon: Layers },
+  { to: '/polarity-consistency', label: 'Polarity Consistency', description: 'Check polarities against the circumplex', icon: Activity },
   { to: '/scenarios', label: 'Explore Scenarios', description: 'AI-generated conflict scenarios', icon: Sparkles },
+  { to: '/scenario-library', label: 'Scenario Library', description: 'Saved scenarios to rate, tag and re-run', icon: Library },
   { to: '/job-analysis', label: 'Job Analysis', description: 'Analyze job descriptions', icon: Briefcase, hidden: !FEATURES.jobAnalysis },
   { to: '/export', label: 'Data Export', description: 'Export profiles as JSON', icon: FileDown, hidden: !FEATURES.dataExport },
   { to: '/preferred-verbs', label: 'Preferred Verbs', description: 'Values as first-person verb forms', icon: Languages },
@@ -1,7 +1,9 @@
 import { useMemo, useState } from 'react';
 import { 
   ValueScores, 
+  ScoreMode,
   SCHWARTZ_VALUES,
+  applyScoreMode,
 } from '@/lib/schwartz-values';
 
 interface ArchetypeData {
@@ -20,6 +22,8 @@ interface OverlappingSchwartzCircleProps {
   archetypes: ArchetypeData[];
   size?: number;
   tensionLines?: TensionLine[];
+  /** In centred mode each profile is shifted so its own mean sits at the midpoint */
+  mode?: ScoreMode;
 }
 
 const ARCHETYPE_COLORS = [
@@ -30,7 +34,7 @@ const ARCHETYPE_COLORS = [
   'hsl(280, 60%, 55%)',
 ];
 
-export function OverlappingSchwartzCircle({ archetypes, size = 360, tensionLines = [] }: OverlappingSchwartzCircleProps) {
+export function OverlappingSchwartzCircle({ archetypes, size = 360, tensionLines = [], mode = 'raw' }: OverlappingSchwartzCircleProps) {
   const center = size / 2;
   const maxRadius = (size / 2) - 45; // Consistent with SchwartzCircle
   const minRadius = 15;
@@ -44,9 +48,10 @@ export function OverlappingSchwartzCircle({ archetypes, size = 360, tensionLines
     score: number;
   } | null>(null);
 
-  // Convert score (0-7) to radius - consistent with SchwartzCircle
+  // Convert score (0-7) to radius - consistent with SchwartzCircle.
+  // Centred scores can fall just outside the scale, so they are kept on the chart.
   const scoreToRadius = (score: number) => {
-    const normalized = score / 7;
+    const normalized = Math.max(0, Math.min(7, score)) / 7;
     return minRadius + normalized * (maxRadius - minRadius);
   };
 
@@ -56,9 +61,10 @@ export function OverlappingSchwartzCircle({ archetypes, size = 360, tensionLines
     const startAngle = -Math.PI / 2;
 
     return archetypes.map((archetype, archetypeIndex) => {
+      const scores = applyScoreMode(archetype.scores, mode);
       const positions = SCHWARTZ_VALUES.map((value, index) => {
         const angle = startAngle + index * angleStep;
-        const score = archetype.scores[value.code] ?? 3.5;
+        const score = scores[value.code] ?? 3.5;
         const radius = scoreToRadius(score);
         
         return {
@@ -73,12 +79,13 @@ export function OverlappingSchwartzCircle({ archetypes, size = 360, tensionLines
 
       return {
         ...archetype,
+        scores,
         path: pathData,
         color: ARCHETYPE_COLORS[archetypeIndex % ARCHETYPE_COLORS.length],
         positions,
       };
     });
-  }, [archetypes, center]);
+  }, [archetypes, center, mode]);
 
   // Generate axis lines and labels
   const axisData = useMemo(() => {
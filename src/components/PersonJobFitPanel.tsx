@@ -0,0 +1,162 @@
+import { useState, useMemo } from 'react';
+import { UserCheck, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { OverlappingSchwartzCircle } from '@/components/OverlappingSchwartzCircle';
+import { ScoreModeToggle } from '@/components/ScoreModeToggle';
+import { ValueAbbreviation } from '@/components/ValueAbbreviation';
+import { SavedComparable, SavedProfilePicker } from '@/components/SavedProfilePicker';
+import { JobValueAnalysis, ValueFit, calculatePersonJobFit } from '@/lib/person-job-fit';
+import { ScoreMode } from '@/lib/schwartz-values';
+import { cn } from '@/lib/utils';
+import { usePolarityModel } from '@/hooks/use-polarity-model';
+import { useStressorSettings } from '@/hooks/use-stressor-settings';
+
+function MisfitList({ title, description, values, emptyText }: {
+  title: string;
+  description: string;
+  values: ValueFit[];
+  emptyText: string;
+}) {
+  return (
+    <div className="space-y-2">
+      <div>
+        <h3 className="font-medium text-sm">{title}</h3>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+      {values.length === 0 ? (
+        <p className="text-xs text-muted-foreground italic">{emptyText}</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {values.map(v => (
+            <li key={v.code} className="flex items-center gap-2 text-sm">
+              <ValueAbbreviation code={v.code} />
+              <span className="flex-1 truncate text-muted-foreground">{v.label}</span>
+              <span className="font-mono text-xs">
+                {v.personScore.toFixed(1)} vs {v.roleScore.toFixed(1)}
+              </span>
+              <span className="text-xs text-muted-foreground w-20 text-right">{v.confidence}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface PersonJobFitPanelProps {
+  job: JobValueAnalysis;
+}
+
+/**
+ * Pick a saved profile and see how well it fits the analysed role.
+ */
+export function PersonJobFitPanel({ job }: PersonJobFitPanelProps) {
+  const [profile, setProfile] = useState<SavedComparable | null>(null);
+  const [scoreMode, setScoreMode] = useState<ScoreMode>('raw');
+  const { settings } = useStressorSettings();
+  const { activeModel } = usePolarityModel();
+
+  const selectProfile = (selected: SavedComparable) => {
+    setProfile(selected);
+    setScoreMode(selected.scoreMode);
+  };
+
+  const fit = useMemo(
+    () => (profile ? calculatePersonJobFit(profile, job, scoreMode, 5, settings, activeModel) : null),
+    [profile, job, scoreMode, settings, activeModel]
+  );
+
+  return (
+    <section className="rounded-xl border bg-card p-6 space-y-6">
+      <div>
+        <h2 className="font-serif text-xl font-semibold">Person–Job Fit</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Compare a saved profile with this role. Values the analysis is more confident about count for more.
+        </p>
+      </div>
+
+      {!profile ? (
+        <SavedProfilePicker kind="profiles" onSelect={selectProfile} />
+      ) : fit && (
+        <>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-sm">
+              <UserCheck className="w-4 h-4 text-primary" />
+              <span className="font-medium">{profile.name}</span>
+              <Button variant="ghost" size="sm" onClick={() => setProfile(null)} className="h-7 px-2" title="Choose another profile">
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+            <ScoreModeToggle id="job-fit-score-mode" mode={scoreMode} onModeChange={setScoreMode} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 text-center">
+            <div className="rounded-lg border p-4">
+              <p className="text-3xl font-semibold font-mono text-primary">{Math.round(fit.congruence * 100)}%</p>
+              <p className="text-xs text-muted-foreground mt-1">value congruence</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-3xl font-semibold font-mono">{fit.correlation.toFixed(2)}</p>
+              <p className="text-xs text-muted-foreground mt-1">priority correlation (r)</p>
+            </div>
+          </div>
+
+          <div className="flex justify-center">
+            <OverlappingSchwartzCircle
+              archetypes={[
+                { name: fit.profileName, scores: profile.scores, color: '' },
+                { name: fit.roleName, scores: job.scores, color: '' },
+              ]}
+              size={320}
+            />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <MisfitList
+              title="Likely to frustrate"
+              description={`${fit.roleName} asks for these far more than ${fit.profileName} values them`}
+              values={fit.frustrated}
+              emptyText="Nothing the role demands is far from this person's priorities"
+            />
+            <MisfitList
+              title="Likely to be under-used"
+              description={`${fit.profileName} values these far more than ${fit.roleName} draws on them`}
+              values={fit.underUsed}
+              emptyText="The role engages everything this person cares strongly about"
+            />
+          </div>
+
+          {fit.stressors.length > 0 && (
+            <div className="space-y-2">
+              <div>
+                <h3 className="font-medium text-sm">Stressors that will hurt most</h3>
+                <p className="text-xs text-muted-foreground">
+                  Decision pressures where the person and the role pull in different directions. Positive means the
+                  stressor satisfies, negative that it frustrates.
+                </p>
+              </div>
+              <ul className="space-y-2">
+                {fit.stressors.map(stressor => {
+                  const [person, role] = stressor.profileSensitivities;
+                  return (
+                    <li key={stressor.stressorId} className="flex items-center gap-3 text-sm rounded-md border px-3 py-2">
+                      <span className="flex-1 font-medium">{stressor.stressorName}</span>
+                      {[person, role].map(s => (
+                        <span key={s.profileName} className="text-xs text-muted-foreground">
+                          {s.profileName}{' '}
+                          <span className={cn('font-mono', s.sensitivity >= 0 ? 'text-emerald-600' : 'text-rose-600')}>
+                            {s.sensitivity >= 0 ? '+' : ''}{s.sensitivity.toFixed(2)}
+                          </span>
+                        </span>
+                      ))}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { GitFork, Loader2, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { usePolarityModel } from '@/hooks/use-polarity-model';
+import { countEditedCells, deletePolarityModel, savePolarityModel } from '@/lib/polarity-model-storage';
+
+// Radix Select items can't have an empty value, so the built-in matrix gets a sentinel
+const DEFAULT_MODEL = '__default__';
+
+interface PolarityModelPanelProps {
+  /** Whether the viewer may edit the active model's cells */
+  canEdit: boolean;
+}
+
+/** Choose the polarity model every calculation uses, fork it, or delete your own */
+export function PolarityModelPanel({ canEdit }: PolarityModelPanelProps) {
+  const { activeModel, savedModels, isLoading, selectModel, refresh } = usePolarityModel();
+  const [forkOpen, setForkOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeSaved = savedModels.find(m => m.id === activeModel.id);
+  const editedCount = countEditedCells(activeModel);
+
+  const handleSelect = (id: string) => {
+    selectModel(savedModels.find(m => m.id === id) ?? null);
+  };
+
+  const openFork = () => {
+    setName(`${activeModel.name} (fork)`);
+    setDescription(activeSaved?.description ?? '');
+    setForkOpen(true);
+  };
+
+  const handleFork = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await savePolarityModel({
+        name,
+        description,
+        polarities: activeModel.polarities,
+        justifications: activeModel.justifications,
+        forkedFrom: activeModel.id,
+      });
+      await refresh();
+      selectModel(saved);
+      toast.success(`"${saved.name}" is now used by every calculation`);
+      setForkOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save polarity model');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeSaved || !confirm(`Delete "${activeSaved.name}"? This cannot be undone.`)) return;
+    try {
+      await deletePolarityModel(activeSaved.id);
+      selectModel(null);
+      await refresh();
+      toast.success(`"${activeSaved.name}" deleted; the default matrix is back in use`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete polarity model');
+    }
+  };
+
+  return (
+    <div className="p-5 rounded-xl border bg-card space-y-3 mb-8">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="polarity-model">Polarity model</Label>
+          <Select value={activeModel.id ?? DEFAULT_MODEL} onValueChange={handleSelect} disabled={isLoading}>
+            <SelectTrigger id="polarity-model">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_MODEL}>Default matrix</SelectItem>
+              {savedModels.map(m => (
+                <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+              ))}
+              {/* Keep the selection visible while the saved models load */}
+              {activeModel.id && !activeSaved && (
+                <SelectItem value={activeModel.id}>{activeModel.name}</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={openFork} className="gap-1.5">
+            <GitFork className="w-4 h-4" />
+            Fork
+          </Button>
+          {canEdit && (
+            <Button variant="ghost" onClick={handleDelete} className="gap-1.5 text-destructive hover:text-destructive">
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+        {activeModel.id && (
+          <Badge variant="secondary" className="font-normal">
+            {editedCount} {editedCount === 1 ? 'cell differs' : 'cells differ'} from the default
+          </Badge>
+        )}
+        <span>
+          {activeSaved?.description || (activeModel.id
+            ? 'Every sensitivity, tension and clarification calculation uses this model.'
+            : 'The built-in matrix. Fork it to propose different polarities.')}
+        </span>
+      </div>
+      {activeModel.id && (
+        <p className="text-xs text-muted-foreground">
+          {canEdit
+            ? 'Click any heatmap cell to change its polarity; each change needs a justification.'
+            : 'Only its owner can edit this model. Fork it to make your own changes.'}
+        </p>
+      )}
+
+      <Dialog open={forkOpen} onOpenChange={setForkOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-serif">Fork Polarity Model</DialogTitle>
+            <DialogDescription>
+              Copies every cell of "{activeModel.name}" into a new model you can edit. Polarity models are visible to everyone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="polarity-model-name">Name</Label>
+              <Input
+                id="polarity-model-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="polarity-model-description">Description</Label>
+              <Textarea
+                id="polarity-model-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What this model disagrees with, and why"
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setForkOpen(false)}>Cancel</Button>
+            <Button onClick={handleFork} disabled={isSaving || !name.trim()} className="gap-2">
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save Model
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
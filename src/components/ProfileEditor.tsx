@@ -4,34 +4,55 @@ import { SchwartzCircle } from '@/components/SchwartzCircle';
 import { GenerationPanel } from '@/components/GenerationPanel';
 import { ProfileSidebar } from '@/components/ProfileSidebar';
 import { Navigation } from '@/components/Navigation';
-import { ValueScores, DEFAULT_SCORES } from '@/lib/schwartz-values';
+import { ValueScores, ScoreMode, DEFAULT_SCORES } from '@/lib/schwartz-values';
 import { useProfileDraft } from '@/hooks/use-profile-draft';
-import { saveProfile, updateProfile, saveDraft } from '@/lib/profile-storage';
+import { saveProfile, updateProfile, saveDraft, restoreProfileVersion, DbProfileVersion } from '@/lib/profile-storage';
 import { useToast } from '@/hooks/use-toast';
+import { useArchetypes } from '@/hooks/use-archetypes';
 
 interface ProfileEditorProps {
   initialProfile?: {
-    id: string;
+    /** Omitted for unsaved profiles, e.g. scores produced by the questionnaire */
+    id?: string;
     name: string;
     scores: ValueScores;
     description: string | null;
     systemPrompt: string | null;
+    scoreMode?: ScoreMode;
+    tags?: string[];
+    collection?: string | null;
   };
   isSharedProfile?: boolean;
+  /** Whether the viewer owns or holds the edit token for the shared profile */
+  canEdit?: boolean;
 }
 
-export function ProfileEditor({ initialProfile, isSharedProfile = false }: ProfileEditorProps) {
+export function ProfileEditor({ initialProfile, isSharedProfile = false, canEdit = false }: ProfileEditorProps) {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { archetypes } = useArchetypes();
   const { loadFromDraft, loadSampleProfile, resetToDefaults } = useProfileDraft();
   
   const [name, setName] = useState(initialProfile?.name ?? 'Untitled Profile');
   const [scores, setScores] = useState<ValueScores>(initialProfile?.scores ?? { ...DEFAULT_SCORES });
   const [description, setDescription] = useState<string | null>(initialProfile?.description ?? null);
   const [systemPrompt, setSystemPrompt] = useState<string | null>(initialProfile?.systemPrompt ?? null);
+  const [scoreMode, setScoreMode] = useState<ScoreMode>(initialProfile?.scoreMode ?? 'raw');
+  const [tags, setTags] = useState<string[]>(initialProfile?.tags ?? []);
+  const [collection, setCollection] = useState<string | null>(initialProfile?.collection ?? null);
   const [allowOverwrite, setAllowOverwrite] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const [isModified, setIsModified] = useState(false);
+  // Unsaved initial profiles start modified so they are kept as a draft
+  const [isModified, setIsModified] = useState(!!initialProfile && !initialProfile.id);
+  const [isForked, setIsForked] = useState(false);
+
+  // Other people's profiles are read-only until forked into a new copy
+  const isReadOnly = isSharedProfile && !canEdit && !isForked;
+
+  // Once a fork is saved the editor shows the new profile, which this viewer owns
+  useEffect(() => {
+    setIsForked(false);
+  }, [initialProfile?.id]);
 
   // Scroll to top on mount
   useEffect(() => {
@@ -66,6 +87,9 @@ export function ProfileEditor({ initialProfile, isSharedProfile = false }: Profi
         setScores(draft.scores ?? { ...DEFAULT_SCORES });
         setDescription(draft.description ?? null);
         setSystemPrompt(draft.systemPrompt ?? null);
+        setScoreMode(draft.scoreMode ?? 'raw');
+        setTags(draft.tags ?? []);
+        setCollection(draft.collection ?? null);
       }
     }
   }, [initialProfile, loadFromDraft, toast]);
@@ -79,11 +103,14 @@ export function ProfileEditor({ initialProfile, isSharedProfile = false }: Profi
           scores,
           description,
           systemPrompt,
+          scoreMode,
+          tags,
+          collection,
         });
       }, 1000);
       return () => clearTimeout(timeoutId);
     }
-  }, [name, scores, description, systemPrompt, isSharedProfile, isModified]);
+  }, [name, scores, description, systemPrompt, scoreMode, tags, collection, isSharedProfile, isModified]);
 
   const handleScoresChange = useCallback((newScores: ValueScores) => {
     setScores(newScores);
@@ -105,6 +132,21 @@ export function ProfileEditor({ initialProfile, isSharedProfile = false }: Profi
     setIsModified(true);
   }, []);
 
+  const handleScoreModeChange = useCallback((newMode: ScoreMode) => {
+    setScoreMode(newMode);
+    setIsModified(true);
+  }, []);
+
+  const handleTagsChange = useCallback((newTags: string[]) => {
+    setTags(newTags);
+    setIsModified(true);
+  }, []);
+
+  const handleCollectionChange = useCallback((newCollection: string) => {
+    setCollection(newCollection || null);
+    setIsModified(true);
+  }, []);
+
   const handleSave = async (): Promise<string | null> => {
     setIsSaving(true);
     try {
@@ -113,13 +155,16 @@ export function ProfileEditor({ initialProfile, isSharedProfile = false }: Profi
         scores,
         description,
         system_prompt: systemPrompt,
+        score_mode: scoreMode,
+        tags,
+        collection,
       };
 
       let savedProfile;
-      if (isSharedProfile && allowOverwrite && initialProfile?.id) {
-        savedProfile = await updateProfile(initialProfile.id, profileData);
+      if (isSharedProfile && canEdit && allowOverwrite && initialProfile?.id) {
+        savedProfile = await updateProfile(initialProfile.id, profileData, archetypes);
       } else {
-        savedProfile = await saveProfile(profileData);
+        savedProfile = await saveProfile(profileData, archetypes);
       }
 
       // Navigate to the new profile URL
@@ -138,12 +183,50 @@ export function ProfileEditor({ initialProfile, isSharedProfile = false }: Profi
     }
   };
 
+  const handleRestoreVersion = async (version: DbProfileVersion): Promise<boolean> => {
+    try {
+      const restored = await restoreProfileVersion(version, archetypes);
+      setName(restored.name);
+      setScores(restored.scores);
+      setDescription(restored.description);
+      setSystemPrompt(restored.system_prompt);
+      setScoreMode(restored.score_mode);
+      toast({
+        title: 'Version restored',
+        description: `Restored version ${version.version_number} of "${restored.name}".`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to restore version:', error);
+      toast({
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const handleFork = useCallback(() => {
+    setName(prev => `${prev} (fork)`);
+    setAllowOverwrite(false);
+    setIsForked(true);
+    setIsModified(true);
+    toast({
+      title: 'Profile forked',
+      description: 'Edit freely — saving creates a new profile that you own.',
+    });
+  }, [toast]);
+
   const handleReset = useCallback(() => {
     const defaults = resetToDefaults();
     setName(defaults.name);
     setScores(defaults.scores);
     setDescription(defaults.description);
     setSystemPrompt(defaults.systemPrompt);
+    setScoreMode(defaults.scoreMode);
+    setTags(defaults.tags);
+    setCollection(defaults.collection);
     setIsModified(false);
   }, [resetToDefaults]);
 
@@ -153,6 +236,9 @@ export function ProfileEditor({ initialProfile, isSharedProfile = false }: Profi
     setScores(sample.scores);
     setDescription(sample.description);
     setSystemPrompt(sample.systemPrompt);
+    setScoreMode(sample.scoreMode);
+    setTags(sample.tags);
+    setCollection(sample.collection);
     setIsModified(true);
     toast({
       title: 'Sample loaded',
@@ -183,8 +269,13 @@ export function ProfileEditor({ initialProfile, isSharedProfile = false }: Profi
               scores={scores}
               description={description}
               systemPrompt={systemPrompt}
+              scoreMode={scoreMode}
+              tags={tags}
+              collection={collection}
               profileId={initialProfile?.id ?? null}
               isSharedProfile={isSharedProfile}
+              canEdit={canEdit && !isForked}
+              isReadOnly={isReadOnly}
               allowOverwrite={allowOverwrite}
               isSaving={isSaving}
               onNameChange={handleNameChange}
@@ -192,6 +283,11 @@ export function ProfileEditor({ initialProfile, isSharedProfile = false }: Profi
               onReset={handleReset}
               onLoadSample={handleLoadSample}
               onOverwriteChange={setAllowOverwrite}
+              onScoreModeChange={handleScoreModeChange}
+              onTagsChange={handleTagsChange}
+              onCollectionChange={handleCollectionChange}
+              onRestoreVersion={handleRestoreVersion}
+              onFork={handleFork}
             />
           </section>
 
@@ -210,13 +306,14 @@ export function ProfileEditor({ initialProfile, isSharedProfile = false }: Profi
             scores={scores}
             description={description}
             systemPrompt={systemPrompt}
+            scoreMode={scoreMode}
             profileName={name}
             profileId={initialProfile?.id ?? null}
             onDescriptionChange={handleDescriptionChange}
             onSystemPromptChange={handleSystemPromptChange}
-            onLoadArchetypeProfile={handleLoadArchetypeProfile}
-            onScoresChange={handleScoresChange}
-            onRequestSave={handleSave}
+            onLoadArchetypeProfile={isReadOnly ? undefined : handleLoadArchetypeProfile}
+            onScoresChange={isReadOnly ? undefined : handleScoresChange}
+            onRequestSave={isReadOnly ? undefined : handleSave}
           />
         </div>
       </main>
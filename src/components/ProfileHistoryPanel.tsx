@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import { ChevronDown, History, Loader2, Undo2 } from 'lucide-react';
+import { DbProfileVersion, loadProfileVersions } from '@/lib/profile-storage';
+import { diffScores } from '@/lib/schwartz-values';
+import { cn } from '@/lib/utils';
+
+interface ProfileHistoryPanelProps {
+  profileId: string;
+  /** Omitted when the viewer cannot edit the profile; history is then view-only */
+  onRestore?: (version: DbProfileVersion) => Promise<boolean>;
+}
+
+export function ProfileHistoryPanel({ profileId, onRestore }: ProfileHistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [versions, setVersions] = useState<DbProfileVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+
+  const fetchVersions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await loadProfileVersions(profileId);
+      setVersions(loaded);
+      // Default comparison: previous version → latest version
+      setToId(loaded[0]?.id ?? '');
+      setFromId(loaded[1]?.id ?? loaded[0]?.id ?? '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId]);
+
+  // Reload history every time the panel is opened
+  useEffect(() => {
+    if (isOpen) {
+      fetchVersions();
+    }
+  }, [isOpen, fetchVersions]);
+
+  const fromVersion = versions.find(v => v.id === fromId);
+  const toVersion = versions.find(v => v.id === toId);
+
+  const differences = useMemo(() => {
+    if (!fromVersion || !toVersion) return [];
+    return diffScores(fromVersion.scores, toVersion.scores);
+  }, [fromVersion, toVersion]);
+
+  const handleRestore = async (version: DbProfileVersion) => {
+    if (!onRestore) return;
+    if (!confirm(`Restore version ${version.version_number}? The current state stays in the history.`)) {
+      return;
+    }
+    setRestoringId(version.id);
+    const restored = await onRestore(version);
+    setRestoringId(null);
+    if (restored) {
+      fetchVersions();
+    }
+  };
+
+  const versionLabel = (v: DbProfileVersion) =>
+    `v${v.version_number} · ${new Date(v.created_at).toLocaleString()}`;
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <div className="rounded-lg border bg-card overflow-hidden">
+        <CollapsibleTrigger className="w-full">
+          <div className="flex items-center gap-2 p-3 hover:bg-muted/50 transition-colors">
+            <History className="w-4 h-4 text-muted-foreground" />
+            <span className="flex-1 text-left text-sm font-medium">Version History</span>
+            <ChevronDown className={cn(
+              "w-4 h-4 text-muted-foreground transition-transform",
+              isOpen && "rotate-180"
+            )} />
+          </div>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <div className="px-3 pb-3 pt-3 border-t space-y-4">
+            {loading && versions.length === 0 ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <p className="text-xs text-destructive">{error}</p>
+            ) : versions.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No saved versions yet.</p>
+            ) : (
+              <>
+                {/* Timeline */}
+                <ol className="space-y-1.5">
+                  {versions.map((version, index) => (
+                    <li key={version.id} className="flex items-center gap-2 text-xs">
+                      <span className="font-mono text-muted-foreground w-8">v{version.version_number}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{version.name}</p>
+                        <p className="text-muted-foreground">{new Date(version.created_at).toLocaleString()}</p>
+                      </div>
+                      {index === 0 ? (
+                        <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary font-medium">Current</span>
+                      ) : onRestore && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 gap-1 text-xs"
+                          disabled={restoringId !== null}
+                          onClick={() => handleRestore(version)}
+                        >
+                          {restoringId === version.id ? (
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                          ) : (
+                            <Undo2 className="w-3 h-3" />
+                          )}
+                          Restore
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+
+                {/* Score diff between any two versions */}
+                {versions.length >= 2 && (
+                  <div className="pt-3 border-t space-y-3">
+                    <p className="text-xs font-medium text-muted-foreground">Compare versions</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select value={fromId} onValueChange={setFromId}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue placeholder="From..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {versions.map(v => (
+                            <SelectItem key={v.id} value={v.id} className="text-xs">{versionLabel(v)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={toId} onValueChange={setToId}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue placeholder="To..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {versions.map(v => (
+                            <SelectItem key={v.id} value={v.id} className="text-xs">{versionLabel(v)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {differences.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">No score differences between these versions.</p>
+                    ) : (
+                      <div className="space-y-1">
+                        {differences.map(d => (
+                          <div key={d.code} className="flex items-center gap-2 text-xs">
+                            <span className="font-mono text-muted-foreground w-8">{d.code}</span>
+                            <span className="flex-1 truncate">{d.label}</span>
+                            <span className="font-mono text-muted-foreground">
+                              {d.from.toFixed(2)} → {d.to.toFixed(2)}
+                            </span>
+                            <span className={cn(
+                              "font-mono w-12 text-right",
+                              d.delta > 0 ? "text-emerald-600" : "text-rose-600"
+                            )}>
+                              {d.delta > 0 ? '+' : ''}{d.delta.toFixed(2)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </CollapsibleContent>
+      </div>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState, useRef, ChangeEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertCircle, CheckCircle2, FileUp, Loader2, Upload } from 'lucide-react';
+import { ImportReport, getValidImports, parseProfileImport } from '@/lib/profile-import';
+import { saveProfiles } from '@/lib/profile-storage';
+import { VALUE_CODES } from '@/lib/schwartz-values';
+import { useToast } from '@/hooks/use-toast';
+import { useArchetypes } from '@/hooks/use-archetypes';
+
+interface ProfileImportDialogProps {
+  onImported?: (count: number) => void;
+}
+
+export function ProfileImportDialog({ onImported }: ProfileImportDialogProps) {
+  const { toast } = useToast();
+  const { archetypes } = useArchetypes();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const validProfiles = report ? getValidImports(report) : [];
+  const invalidCount = report ? report.rows.length - validProfiles.length : 0;
+
+  const reset = () => {
+    setFileName(null);
+    setReport(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setReport(parseProfileImport(await file.text(), file.name));
+  };
+
+  const handleImport = async () => {
+    if (validProfiles.length === 0) return;
+    setIsSaving(true);
+    try {
+      const saved = await saveProfiles(validProfiles, archetypes);
+      toast({
+        title: 'Profiles imported',
+        description: `Imported ${saved.length} ${saved.length === 1 ? 'profile' : 'profiles'}${invalidCount > 0 ? `; skipped ${invalidCount} with errors` : ''}.`,
+      });
+      onImported?.(saved.length);
+      handleOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Upload className="w-4 h-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-serif">Import Profiles</DialogTitle>
+          <DialogDescription>
+            Upload a profile exported as JSON, a JSON array of them, or a CSV with a header row
+            containing <span className="font-mono">name</span> and one column per value code
+            ({VALUE_CODES.length} codes, scores 0–7). Optional CSV columns: description, score_mode,
+            collection, tags (separated by semicolons).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <Button
+            variant="secondary"
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full gap-2"
+          >
+            <FileUp className="w-4 h-4" />
+            {fileName ?? 'Choose a file...'}
+          </Button>
+
+          {report?.fileError && (
+            <p className="flex items-start gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              {report.fileError}
+            </p>
+          )}
+
+          {report && report.rows.length > 0 && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {validProfiles.length} of {report.rows.length} {report.rows.length === 1 ? 'row is' : 'rows are'} valid
+                {invalidCount > 0 && ' — rows with errors will be skipped'}
+              </p>
+              <ScrollArea className="max-h-[40vh] rounded-md border">
+                <ul className="divide-y">
+                  {report.rows.map(row => (
+                    <li key={row.row} className="flex items-start gap-3 p-3 text-sm">
+                      <span className="font-mono text-xs text-muted-foreground w-10 pt-0.5">
+                        {report.format === 'csv' ? `Row ${row.row}` : `#${row.row}`}
+                      </span>
+                      {row.errors.length === 0 ? (
+                        <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-emerald-600" />
+                      ) : (
+                        <AlertCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{row.name}</p>
+                        {row.errors.length > 0 && (
+                          <ul className="mt-1 space-y-0.5 text-xs text-destructive">
+                            {row.errors.map((error, i) => (
+                              <li key={i}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={isSaving || validProfiles.length === 0}
+            className="gap-2"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Import {validProfiles.length > 0 ? validProfiles.length : ''} {validProfiles.length === 1 ? 'Profile' : 'Profiles'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
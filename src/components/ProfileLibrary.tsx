@@ -0,0 +1,321 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, ArrowRight, FolderOpen, Search, Sparkles, Trash2, X } from 'lucide-react';
+import {
+  DbProfile,
+  ProfileLibraryFacets,
+  PROFILE_PAGE_SIZE,
+  canEditProfile,
+  deleteProfile,
+  getCurrentUserId,
+  loadProfileLibraryFacets,
+  searchProfiles,
+} from '@/lib/profile-storage';
+import { HIGHER_ORDER_VALUES, HigherOrderValue } from '@/lib/schwartz-values';
+import { useToast } from '@/hooks/use-toast';
+import { useArchetypes } from '@/hooks/use-archetypes';
+
+// Radix Select items can't have an empty value, so "no filter" gets a sentinel
+const ANY = '__any__';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface ProfileLibraryProps {
+  /** Change to force a refetch, e.g. after profiles are imported elsewhere on the page */
+  refreshKey?: number;
+}
+
+export function ProfileLibrary({ refreshKey = 0 }: ProfileLibraryProps) {
+  const { toast } = useToast();
+  const { archetypes } = useArchetypes();
+  const [profiles, setProfiles] = useState<DbProfile[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [facets, setFacets] = useState<ProfileLibraryFacets>({ tags: [], collections: [] });
+
+  const [queryInput, setQueryInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState(ANY);
+  const [collection, setCollection] = useState(ANY);
+  const [higherOrder, setHigherOrder] = useState(ANY);
+  const [archetype, setArchetype] = useState(ANY);
+  const [page, setPage] = useState(0);
+
+  const pageCount = Math.max(1, Math.ceil(total / PROFILE_PAGE_SIZE));
+  const hasFilters = !!query || [tag, collection, higherOrder, archetype].some(f => f !== ANY);
+
+  useEffect(() => {
+    getCurrentUserId().then(setUserId);
+  }, []);
+
+  useEffect(() => {
+    loadProfileLibraryFacets()
+      .then(setFacets)
+      .catch((error) => console.error('Error loading profile facets:', error));
+  }, [refreshKey]);
+
+  // Debounce the name search so each keystroke doesn't hit the database
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setQuery(queryInput.trim());
+      setPage(0);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [queryInput]);
+
+  // Any filter change starts again from the first page
+  const withPageReset = (setFilter: (value: string) => void) => (value: string) => {
+    setFilter(value);
+    setPage(0);
+  };
+
+  // Only the latest request may update the list, so slow responses can't overwrite newer ones
+  const latestRequest = useRef(0);
+
+  const fetchProfiles = useCallback(async () => {
+    const requestId = ++latestRequest.current;
+    setLoading(true);
+    try {
+      const result = await searchProfiles({
+        query,
+        tag: tag === ANY ? undefined : tag,
+        collection: collection === ANY ? undefined : collection,
+        higherOrder: higherOrder === ANY ? undefined : higherOrder as HigherOrderValue,
+        archetype: archetype === ANY ? undefined : archetype,
+        page,
+      });
+      if (requestId !== latestRequest.current) return;
+      setProfiles(result.profiles);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Error fetching profiles:', error);
+    } finally {
+      if (requestId === latestRequest.current) {
+        setLoading(false);
+      }
+    }
+  }, [query, tag, collection, higherOrder, archetype, page]);
+
+  // refreshKey is only a trigger for refetching
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles, refreshKey]);
+
+  const clearFilters = () => {
+    setQueryInput('');
+    setQuery('');
+    setTag(ANY);
+    setCollection(ANY);
+    setHigherOrder(ANY);
+    setArchetype(ANY);
+    setPage(0);
+  };
+
+  const handleDeleteProfile = async (e: React.MouseEvent, profileId: string, profileName: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!confirm(`Delete "${profileName}"? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await deleteProfile(profileId);
+      // Refetch so the page is refilled from the next one
+      fetchProfiles();
+      toast({
+        title: 'Profile deleted',
+        description: `"${profileName}" has been removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Search and filters */}
+      <div className="space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={queryInput}
+            onChange={(e) => setQueryInput(e.target.value)}
+            placeholder="Search profiles by name..."
+            className="pl-9"
+          />
+        </div>
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+          <Select value={collection} onValueChange={withPageReset(setCollection)}>
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue placeholder="Collection" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All collections</SelectItem>
+              {facets.collections.map(c => (
+                <SelectItem key={c.value} value={c.value}>{c.value} ({c.count})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={tag} onValueChange={withPageReset(setTag)}>
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue placeholder="Tag" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All tags</SelectItem>
+              {facets.tags.map(t => (
+                <SelectItem key={t.value} value={t.value}>{t.value} ({t.count})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={higherOrder} onValueChange={withPageReset(setHigherOrder)}>
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue placeholder="Dominant value" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any dominant value</SelectItem>
+              {(Object.keys(HIGHER_ORDER_VALUES) as HigherOrderValue[]).map(ho => (
+                <SelectItem key={ho} value={ho}>{HIGHER_ORDER_VALUES[ho].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={archetype} onValueChange={withPageReset(setArchetype)}>
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue placeholder="Nearest archetype" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any nearest archetype</SelectItem>
+              {archetypes.map(a => (
+                <SelectItem key={a.name} value={a.name}>{a.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {hasFilters && (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>{total} matching {total === 1 ? 'profile' : 'profiles'}</span>
+            <Button variant="ghost" size="sm" onClick={clearFilters} className="gap-1">
+              <X className="w-3 h-3" />
+              Clear filters
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Results */}
+      {loading && profiles.length === 0 ? (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-32 rounded-xl border bg-card animate-pulse" />
+          ))}
+        </div>
+      ) : profiles.length === 0 ? (
+        hasFilters ? (
+          <div className="text-center py-16 rounded-xl border bg-card/50">
+            <Search className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="font-serif text-xl font-semibold mb-2">No matching profiles</h3>
+            <p className="text-muted-foreground">Try a different search or clear the filters</p>
+          </div>
+        ) : (
+          <div className="text-center py-16 rounded-xl border bg-card/50">
+            <Sparkles className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="font-serif text-xl font-semibold mb-2">No profiles yet</h3>
+            <p className="text-muted-foreground mb-6">
+              Create your first value profile to get started
+            </p>
+            <Button asChild>
+              <Link to="/editor">Create Profile</Link>
+            </Button>
+          </div>
+        )
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {profiles.map((profile) => (
+            <Link
+              key={profile.id}
+              to={`/p/${profile.id}`}
+              className="group rounded-xl border bg-card p-5 hover:shadow-md hover:border-primary/30 transition-all relative"
+            >
+              <div className="flex items-start justify-between mb-3">
+                <h3 className="font-serif text-lg font-semibold group-hover:text-primary transition-colors pr-8">
+                  {profile.name}
+                </h3>
+                <div className="flex items-center gap-2 absolute top-5 right-5">
+                  {canEditProfile(profile, userId) && (
+                    <button
+                      onClick={(e) => handleDeleteProfile(e, profile.id, profile.name)}
+                      className="p-1.5 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors opacity-0 group-hover:opacity-100"
+                      title="Delete profile"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                  <ArrowRight className="w-4 h-4 text-muted-foreground group-hover:text-primary group-hover:translate-x-0.5 transition-all" />
+                </div>
+              </div>
+              {profile.description && (
+                <p className="text-sm text-muted-foreground line-clamp-2">
+                  {profile.description}
+                </p>
+              )}
+              {(profile.collection || profile.tags.length > 0) && (
+                <div className="flex flex-wrap items-center gap-1.5 mt-3">
+                  {profile.collection && (
+                    <span className="inline-flex items-center gap-1 text-xs text-muted-foreground mr-1">
+                      <FolderOpen className="w-3 h-3" />
+                      {profile.collection}
+                    </span>
+                  )}
+                  {profile.tags.map(t => (
+                    <Badge key={t} variant="secondary" className="font-normal">{t}</Badge>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground mt-3">
+                Updated {new Date(profile.updated_at).toLocaleDateString()}
+              </p>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(p => p - 1)}
+            disabled={page === 0 || loading}
+            className="gap-1"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(p => p + 1)}
+            disabled={page >= pageCount - 1 || loading}
+            className="gap-1"
+          >
+            Next
+            <ArrowRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
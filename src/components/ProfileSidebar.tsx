@@ -11,18 +11,32 @@ import {
   Loader2,
   Check,
   Copy,
-  Beaker
+  Beaker,
+  GitFork,
+  KeyRound,
+  Lock
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { ValueScores } from '@/lib/schwartz-values';
+import { ValueScores, ScoreMode } from '@/lib/schwartz-values';
+import { ScoreModeToggle } from '@/components/ScoreModeToggle';
+import { TagInput } from '@/components/TagInput';
+import { ProfileHistoryPanel } from '@/components/ProfileHistoryPanel';
+import { DbProfileVersion, getEditToken, getEditLink } from '@/lib/profile-storage';
 
 interface ProfileSidebarProps {
   name: string;
   scores: ValueScores;
   description: string | null;
   systemPrompt: string | null;
+  scoreMode: ScoreMode;
+  tags: string[];
+  collection: string | null;
   profileId: string | null;
   isSharedProfile: boolean;
+  /** Viewer may overwrite the stored profile (owner or edit-token holder) */
+  canEdit: boolean;
+  /** Viewer lacks edit rights and has not forked yet */
+  isReadOnly: boolean;
   allowOverwrite: boolean;
   isSaving: boolean;
   onNameChange: (name: string) => void;
@@ -30,6 +44,11 @@ interface ProfileSidebarProps {
   onReset: () => void;
   onLoadSample: () => void;
   onOverwriteChange: (allow: boolean) => void;
+  onScoreModeChange: (mode: ScoreMode) => void;
+  onTagsChange: (tags: string[]) => void;
+  onCollectionChange: (collection: string) => void;
+  onRestoreVersion: (version: DbProfileVersion) => Promise<boolean>;
+  onFork: () => void;
 }
 
 export function ProfileSidebar({
@@ -37,8 +56,13 @@ export function ProfileSidebar({
   scores,
   description,
   systemPrompt,
+  scoreMode,
+  tags,
+  collection,
   profileId,
   isSharedProfile,
+  canEdit,
+  isReadOnly,
   allowOverwrite,
   isSaving,
   onNameChange,
@@ -46,11 +70,19 @@ export function ProfileSidebar({
   onReset,
   onLoadSample,
   onOverwriteChange,
+  onScoreModeChange,
+  onTagsChange,
+  onCollectionChange,
+  onRestoreVersion,
+  onFork,
 }: ProfileSidebarProps) {
   const [shareUrl, setShareUrl] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const { toast } = useToast();
 
+  // Anonymous owners keep edit access through a token; signed-in owners don't need one
+  const editToken = profileId && canEdit ? getEditToken(profileId) : null;
+
   const handleSave = async () => {
     const newId = await onSave();
     if (newId) {
@@ -63,6 +95,16 @@ export function ProfileSidebar({
     }
   };
 
+  const handleCopyEditLink = async () => {
+    if (profileId && editToken) {
+      await navigator.clipboard.writeText(getEditLink(profileId, editToken));
+      toast({
+        title: 'Edit link copied',
+        description: 'Anyone with this link can edit or delete the profile. Keep it private.',
+      });
+    }
+  };
+
   const handleCopyLink = async () => {
     if (shareUrl) {
       await navigator.clipboard.writeText(shareUrl);
@@ -81,6 +123,9 @@ export function ProfileSidebar({
       scores,
       description,
       systemPrompt,
+      scoreMode,
+      tags,
+      collection,
       exportedAt: new Date().toISOString(),
     };
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
@@ -98,8 +143,25 @@ export function ProfileSidebar({
 
   return (
     <div className="space-y-6">
+      {/* Read-only banner for profiles the viewer doesn't own */}
+      {isReadOnly && (
+        <div className="rounded-lg border border-accent/30 bg-accent/10 p-4 text-sm">
+          <p className="font-medium text-accent-foreground mb-1 flex items-center gap-1.5">
+            <Lock className="w-3.5 h-3.5" />
+            Viewing a read-only profile
+          </p>
+          <p className="text-muted-foreground text-xs">
+            Only its owner can change it • Fork to edit your own copy
+          </p>
+          <Button variant="secondary" size="sm" onClick={onFork} className="mt-3">
+            <GitFork className="w-4 h-4 mr-2" />
+            Fork to Edit
+          </Button>
+        </div>
+      )}
+
       {/* Shared profile banner */}
-      {isSharedProfile && (
+      {isSharedProfile && !isReadOnly && (
         <div className="rounded-lg border border-accent/30 bg-accent/10 p-4 text-sm">
           <p className="font-medium text-accent-foreground mb-1">
             Viewing shared profile
@@ -107,16 +169,18 @@ export function ProfileSidebar({
           <p className="text-muted-foreground text-xs">
             Edit locally • Save changes to create a new share link
           </p>
-          <div className="flex items-center gap-2 mt-3">
-            <Switch
-              id="overwrite"
-              checked={allowOverwrite}
-              onCheckedChange={onOverwriteChange}
-            />
-            <Label htmlFor="overwrite" className="text-xs">
-              Overwrite existing
-            </Label>
-          </div>
+          {canEdit && (
+            <div className="flex items-center gap-2 mt-3">
+              <Switch
+                id="overwrite"
+                checked={allowOverwrite}
+                onCheckedChange={onOverwriteChange}
+              />
+              <Label htmlFor="overwrite" className="text-xs">
+                Overwrite existing
+              </Label>
+            </div>
+          )}
         </div>
       )}
 
@@ -129,23 +193,45 @@ export function ProfileSidebar({
           onChange={(e) => onNameChange(e.target.value)}
           placeholder="Enter profile name..."
           className="font-medium"
+          disabled={isReadOnly}
         />
+        <ScoreModeToggle id="score-mode" mode={scoreMode} onModeChange={onScoreModeChange} />
+      </div>
+
+      {/* Library organisation */}
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="profile-collection">Collection</Label>
+          <Input
+            id="profile-collection"
+            value={collection ?? ''}
+            onChange={(e) => onCollectionChange(e.target.value)}
+            placeholder="e.g. Team retro, Characters..."
+            disabled={isReadOnly}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="profile-tags">Tags</Label>
+          <TagInput id="profile-tags" tags={tags} onTagsChange={onTagsChange} disabled={isReadOnly} />
+        </div>
       </div>
 
       {/* Action buttons */}
       <div className="space-y-2">
-        <Button
-          onClick={handleSave}
-          disabled={isSaving || !name.trim()}
-          className="w-full"
-        >
-          {isSaving ? (
-            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-          ) : (
-            <Save className="w-4 h-4 mr-2" />
-          )}
-          Save Profile
-        </Button>
+        {!isReadOnly && (
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !name.trim()}
+            className="w-full"
+          >
+            {isSaving ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4 mr-2" />
+            )}
+            Save Profile
+          </Button>
+        )}
 
         {shareUrl && (
           <div className="flex gap-2">
@@ -168,24 +254,37 @@ export function ProfileSidebar({
           </div>
         )}
 
-        <div className="flex gap-2">
+        {editToken && (
           <Button
             variant="outline"
-            onClick={onLoadSample}
-            className="flex-1"
+            onClick={handleCopyEditLink}
+            className="w-full"
           >
-            <Beaker className="w-4 h-4 mr-2" />
-            Load Sample
+            <KeyRound className="w-4 h-4 mr-2" />
+            Copy Edit Link
           </Button>
-          <Button
-            variant="outline"
-            onClick={onReset}
-            className="flex-1"
-          >
-            <RotateCcw className="w-4 h-4 mr-2" />
-            Reset
-          </Button>
-        </div>
+        )}
+
+        {!isReadOnly && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={onLoadSample}
+              className="flex-1"
+            >
+              <Beaker className="w-4 h-4 mr-2" />
+              Load Sample
+            </Button>
+            <Button
+              variant="outline"
+              onClick={onReset}
+              className="flex-1"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+          </div>
+        )}
 
         <Button
           variant="ghost"
@@ -196,6 +295,11 @@ export function ProfileSidebar({
           Export as JSON
         </Button>
       </div>
+
+      {/* Version history for saved profiles */}
+      {isSharedProfile && profileId && (
+        <ProfileHistoryPanel profileId={profileId} onRestore={canEdit ? onRestoreVersion : undefined} />
+      )}
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useMemo, useState } from 'react';
 import { ChevronDown, Swords, Users } from 'lucide-react';
-import { ValueScores } from '@/lib/schwartz-values';
+import { ValueScores, ScoreMode } from '@/lib/schwartz-values';
 import {
   getTopProfileStressors,
   ProfileStressor,
@@ -11,9 +11,12 @@ import {
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
 import { cn } from '@/lib/utils';
+import { useStressorSettings } from '@/hooks/use-stressor-settings';
+import { usePolarityModel } from '@/hooks/use-polarity-model';
 
 interface ProfileStressorsProps {
   profiles: { name: string; scores: ValueScores }[];
+  scoreMode?: ScoreMode;
 }
 
 function TensionBar({ value, max }: { value: number; max: number }) {
@@ -158,10 +161,12 @@ function TensionStressorCard({
   );
 }
 
-export function ProfileStressors({ profiles }: ProfileStressorsProps) {
+export function ProfileStressors({ profiles, scoreMode = 'raw' }: ProfileStressorsProps) {
+  const { settings } = useStressorSettings();
+  const { activeModel } = usePolarityModel();
   const tensionStressors = useMemo(
-    () => getTopProfileStressors(profiles, 6),
-    [profiles]
+    () => getTopProfileStressors(profiles, 6, scoreMode, settings, activeModel),
+    [profiles, scoreMode, settings, activeModel]
   );
   
   const maxTension = useMemo(() => {
@@ -0,0 +1,207 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ArrowLeft, ArrowRight, Check, RotateCcw } from 'lucide-react';
+import {
+  PVQ_ITEMS,
+  PVQ_ITEM_COUNT,
+  PVQ_RESPONSE_OPTIONS,
+  PvqResponse,
+  PvqResponses,
+  PvqScoreResult,
+  countAnswered,
+  isQuestionnaireComplete,
+  scorePvqResponses,
+} from '@/lib/pvq-rr';
+import { useQuestionnaireDraft } from '@/hooks/use-questionnaire-draft';
+import { cn } from '@/lib/utils';
+
+const ITEMS_PER_PAGE = 6;
+const PAGE_COUNT = Math.ceil(PVQ_ITEM_COUNT / ITEMS_PER_PAGE);
+
+interface PvqQuestionnaireProps {
+  onComplete: (result: PvqScoreResult, name: string) => void;
+}
+
+export function PvqQuestionnaire({ onComplete }: PvqQuestionnaireProps) {
+  const { loadFromDraft, saveToDraft, clearDraft } = useQuestionnaireDraft();
+
+  const [name, setName] = useState('My Values');
+  const [responses, setResponses] = useState<PvqResponses>({});
+  const [page, setPage] = useState(0);
+  const [isModified, setIsModified] = useState(false);
+
+  // Restore in-progress answers on mount
+  useEffect(() => {
+    const draft = loadFromDraft();
+    if (draft) {
+      setName(draft.name);
+      setResponses(draft.responses);
+      setPage(Math.min(draft.page, PAGE_COUNT - 1));
+    }
+  }, [loadFromDraft]);
+
+  // Auto-save draft on changes
+  useEffect(() => {
+    if (isModified) {
+      const timeoutId = setTimeout(() => {
+        saveToDraft({ name, responses, page });
+      }, 1000);
+      return () => clearTimeout(timeoutId);
+    }
+  }, [name, responses, page, isModified, saveToDraft]);
+
+  // Scroll to top when the page changes
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [page]);
+
+  const pageItems = useMemo(
+    () => PVQ_ITEMS.slice(page * ITEMS_PER_PAGE, (page + 1) * ITEMS_PER_PAGE),
+    [page]
+  );
+
+  const answeredCount = countAnswered(responses);
+  const pageComplete = pageItems.every(item => responses[item.number] !== undefined);
+  const isLastPage = page === PAGE_COUNT - 1;
+
+  const handleAnswer = (itemNumber: number, value: string) => {
+    setResponses(prev => ({ ...prev, [itemNumber]: Number(value) as PvqResponse }));
+    setIsModified(true);
+  };
+
+  const handleNameChange = (newName: string) => {
+    setName(newName);
+    setIsModified(true);
+  };
+
+  const goToPage = (newPage: number) => {
+    setPage(newPage);
+    setIsModified(true);
+  };
+
+  const handleRestart = () => {
+    if (answeredCount > 0 && !confirm('Clear all answers and start again?')) {
+      return;
+    }
+    clearDraft();
+    setResponses({});
+    setPage(0);
+    setIsModified(false);
+  };
+
+  const handleFinish = () => {
+    if (!isQuestionnaireComplete(responses)) return;
+    clearDraft();
+    onComplete(scorePvqResponses(responses), name.trim() || 'My Values');
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Intro and respondent name */}
+      <section className="space-y-4">
+        <p className="text-sm text-muted-foreground leading-relaxed">
+          Below are short descriptions of different people. Read each description and think about
+          how much that person is or is not like you. There are no right or wrong answers — your
+          progress is saved on this device so you can come back later.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="questionnaire-name">Profile Name</Label>
+          <Input
+            id="questionnaire-name"
+            value={name}
+            onChange={(e) => handleNameChange(e.target.value)}
+            placeholder="Enter profile name..."
+          />
+        </div>
+      </section>
+
+      {/* Progress */}
+      <section className="space-y-2">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Page {page + 1} of {PAGE_COUNT}</span>
+          <span>{answeredCount} / {PVQ_ITEM_COUNT} answered</span>
+        </div>
+        <Progress value={(answeredCount / PVQ_ITEM_COUNT) * 100} className="h-2" />
+      </section>
+
+      {/* Items for this page */}
+      <section className="space-y-4">
+        {pageItems.map(item => {
+          const selected = responses[item.number];
+          return (
+            <div key={item.number} className="rounded-xl border bg-card p-5">
+              <p className="text-sm font-medium mb-4">
+                <span className="text-xs font-mono text-muted-foreground mr-2">{item.number}.</span>
+                {item.text}
+              </p>
+              <RadioGroup
+                value={selected !== undefined ? String(selected) : ''}
+                onValueChange={(v) => handleAnswer(item.number, v)}
+                className="grid grid-cols-3 sm:grid-cols-6 gap-2"
+              >
+                {PVQ_RESPONSE_OPTIONS.map(option => {
+                  const id = `pvq-${item.number}-${option.value}`;
+                  return (
+                    <Label
+                      key={option.value}
+                      htmlFor={id}
+                      className={cn(
+                        'flex flex-col items-center gap-2 rounded-md border p-2 text-center text-[11px] leading-tight cursor-pointer transition-colors hover:bg-muted/50',
+                        selected === option.value && 'border-primary bg-primary/5'
+                      )}
+                    >
+                      <RadioGroupItem id={id} value={String(option.value)} />
+                      {option.label}
+                    </Label>
+                  );
+                })}
+              </RadioGroup>
+            </div>
+          );
+        })}
+      </section>
+
+      {/* Navigation */}
+      <section className="flex items-center justify-between gap-2">
+        <Button variant="ghost" onClick={handleRestart} className="gap-2">
+          <RotateCcw className="w-4 h-4" />
+          Restart
+        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => goToPage(page - 1)}
+            disabled={page === 0}
+            className="gap-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          {isLastPage ? (
+            <Button
+              onClick={handleFinish}
+              disabled={!isQuestionnaireComplete(responses)}
+              className="gap-2"
+            >
+              <Check className="w-4 h-4" />
+              See My Profile
+            </Button>
+          ) : (
+            <Button
+              onClick={() => goToPage(page + 1)}
+              disabled={!pageComplete}
+              className="gap-2"
+            >
+              Next
+              <ArrowRight className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Briefcase, ChevronLeft, ChevronRight, Loader2, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DbJobAnalysis,
+  JOB_ANALYSIS_PAGE_SIZE,
+  deleteJobAnalysis,
+  getJobAnalysisTitle,
+  searchJobAnalyses,
+} from '@/lib/job-analysis-storage';
+import { canEditProfile, getCurrentUserId } from '@/lib/profile-storage';
+import { cn } from '@/lib/utils';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface SavedJobAnalysesProps {
+  /** Analysis currently open on the page, highlighted in the list */
+  currentId?: string;
+  /** Bump to reload the list after the page saves an analysis */
+  refreshKey?: number;
+  onDeleted?: (id: string) => void;
+}
+
+/** Searchable, paginated list of saved job analyses */
+export function SavedJobAnalyses({ currentId, refreshKey = 0, onDeleted }: SavedJobAnalysesProps) {
+  const [queryInput, setQueryInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(0);
+  const [analyses, setAnalyses] = useState<DbJobAnalysis[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    getCurrentUserId().then(setUserId);
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setQuery(queryInput);
+      setPage(0);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [queryInput]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    searchJobAnalyses({ query, page })
+      .then((result) => {
+        if (cancelled) return;
+        setAnalyses(result.analyses);
+        setTotal(result.total);
+      })
+      .catch((err) => {
+        if (!cancelled) toast.error(err instanceof Error ? err.message : 'Unable to load job analyses');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, page, refreshKey, reloadKey]);
+
+  const handleDelete = async (analysis: DbJobAnalysis) => {
+    const title = getJobAnalysisTitle(analysis);
+    if (!confirm(`Delete "${title}"? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await deleteJobAnalysis(analysis.id);
+      toast.success(`"${title}" has been removed`);
+      setReloadKey(k => k + 1);
+      onDeleted?.(analysis.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to delete job analysis');
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / JOB_ANALYSIS_PAGE_SIZE));
+
+  return (
+    <section className="rounded-xl border bg-card p-6 space-y-4">
+      <div>
+        <h2 className="font-serif text-xl font-semibold">Saved Analyses</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Every analysis is saved. Re-analysing the same description opens the saved one instead.
+        </p>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={queryInput}
+          onChange={(e) => setQueryInput(e.target.value)}
+          placeholder="Search by job title or description..."
+          className="pl-9"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : analyses.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {query ? 'No saved analyses match your search.' : 'No saved analyses yet.'}
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {analyses.map(analysis => (
+            <li key={analysis.id} className="flex items-center gap-3 py-2">
+              <Briefcase className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+              <Link
+                to={`/job-analysis/${analysis.id}`}
+                className={cn(
+                  'flex-1 truncate text-sm hover:text-primary hover:underline',
+                  analysis.id === currentId && 'font-medium text-primary'
+                )}
+              >
+                {getJobAnalysisTitle(analysis)}
+              </Link>
+              <span className="text-xs text-muted-foreground flex-shrink-0">
+                {new Date(analysis.updated_at).toLocaleDateString()}
+              </span>
+              {canEditProfile(analysis, userId) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(analysis)}
+                  className="h-7 px-2 text-muted-foreground hover:text-destructive"
+                  title="Delete analysis"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {total > JOB_ANALYSIS_PAGE_SIZE && (
+        <div className="flex items-center justify-between text-sm">
+          <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page === 0}>
+            <ChevronLeft className="w-4 h-4" />
+            Previous
+          </Button>
+          <span className="text-muted-foreground">Page {page + 1} of {pageCount}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page + 1 >= pageCount}>
+            Next
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+}
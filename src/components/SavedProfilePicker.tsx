@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Briefcase, Loader2, Search, User } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { searchProfiles } from '@/lib/profile-storage';
+import { getJobAnalysisTitle, searchJobAnalyses } from '@/lib/job-analysis-storage';
+import { ValueScores, ScoreMode } from '@/lib/schwartz-values';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_RESULT_COUNT = 8;
+
+/** A saved person or role, reduced to what comparisons need */
+export interface SavedComparable {
+  id: string;
+  name: string;
+  scores: ValueScores;
+  description?: string;
+  scoreMode: ScoreMode;
+}
+
+async function searchComparables(kind: SavedProfilePickerProps['kind'], query: string): Promise<SavedComparable[]> {
+  if (kind === 'roles') {
+    const { analyses } = await searchJobAnalyses({ query, pageSize: SEARCH_RESULT_COUNT });
+    return analyses.map(a => ({
+      id: a.id,
+      name: getJobAnalysisTitle(a),
+      scores: a.scores,
+      description: 'A role inferred from a job description',
+      scoreMode: 'raw',
+    }));
+  }
+
+  const { profiles } = await searchProfiles({ query, pageSize: SEARCH_RESULT_COUNT });
+  return profiles.map(p => ({
+    id: p.id,
+    name: p.name,
+    scores: p.scores,
+    description: p.description ?? undefined,
+    scoreMode: p.score_mode,
+  }));
+}
+
+interface SavedProfilePickerProps {
+  /** Saved people (profiles) or saved roles (job analyses) */
+  kind: 'profiles' | 'roles';
+  onSelect: (item: SavedComparable) => void;
+  /** Ids to leave out, e.g. those already chosen */
+  excludeIds?: string[];
+}
+
+/** Search box over saved profiles or job analyses, with the first few matches as buttons */
+export function SavedProfilePicker({ kind, onSelect, excludeIds = [] }: SavedProfilePickerProps) {
+  const [queryInput, setQueryInput] = useState('');
+  const [results, setResults] = useState<SavedComparable[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      setIsSearching(true);
+      searchComparables(kind, queryInput)
+        .then((items) => {
+          if (!cancelled) setResults(items);
+        })
+        .catch(() => {
+          if (!cancelled) setResults([]);
+        })
+        .finally(() => {
+          if (!cancelled) setIsSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [kind, queryInput]);
+
+  const shown = results.filter(item => !excludeIds.includes(item.id));
+  const Icon = kind === 'roles' ? Briefcase : User;
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={queryInput}
+          onChange={(e) => setQueryInput(e.target.value)}
+          placeholder={kind === 'roles' ? 'Search saved roles...' : 'Search saved profiles...'}
+          className="pl-9"
+        />
+      </div>
+      {isSearching ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : shown.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {kind === 'roles' ? (
+            <>No saved roles found. Analyse a job description on the <Link to="/job-analysis" className="text-primary hover:underline">job analysis page</Link>.</>
+          ) : (
+            <>No saved profiles found. <Link to="/editor" className="text-primary hover:underline">Create one</Link> first.</>
+          )}
+        </p>
+      ) : (
+        <div className="grid sm:grid-cols-2 gap-2">
+          {shown.map(item => (
+            <button
+              key={item.id}
+              onClick={() => onSelect(item)}
+              className="flex items-center gap-2 text-left rounded-md border px-3 py-2 text-sm hover:bg-muted/50 hover:border-primary/50 transition-colors"
+            >
+              <Icon className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" />
+              <span className="truncate">{item.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
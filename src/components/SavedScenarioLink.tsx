@@ -0,0 +1,46 @@
+import { Link } from 'react-router-dom';
+import { Check, Copy, Library, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { getScenarioLink } from '@/lib/scenario-storage';
+
+interface SavedScenarioLinkProps {
+  scenarioId: string | null;
+  saving: boolean;
+}
+
+/** Note under a generated scenario once it has been saved to the library, with its permalink */
+export function SavedScenarioLink({ scenarioId, saving }: SavedScenarioLinkProps) {
+  if (saving) {
+    return (
+      <p className="flex items-center gap-1.5 mt-2 text-xs text-muted-foreground">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Saving to library...
+      </p>
+    );
+  }
+  if (!scenarioId) return null;
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(getScenarioLink(scenarioId));
+    toast.success('Scenario link copied');
+  };
+
+  return (
+    <div className="flex items-center gap-1 mt-2 text-xs text-muted-foreground">
+      <Check className="w-3 h-3 text-primary" />
+      <span>Saved to the</span>
+      <Link to="/scenario-library" className="inline-flex items-center gap-1 underline-offset-2 hover:underline hover:text-foreground">
+        <Library className="w-3 h-3" />
+        scenario library
+      </Link>
+      <Button asChild variant="link" size="sm" className="h-auto px-1 text-xs">
+        <Link to={`/s/${scenarioId}`}>Open</Link>
+      </Button>
+      <Button variant="ghost" size="sm" onClick={copyLink} className="h-6 px-1.5 gap-1 text-xs">
+        <Copy className="w-3 h-3" />
+        Copy link
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { ScenarioKind } from '@/lib/scenario-storage';
+import { stripMarkdown } from '@/lib/utils';
+
+// Section headings each prompt asks for, e.g. "1. SCENARIO"
+const NUMBERED_SECTIONS: Record<Exclude<ScenarioKind, 'persona'>, RegExp> = {
+  conflict: /^\d+\.\s*(SCENARIO|DIALOGUE)/i,
+  reconciliation: /^\d+\.\s*(COMMON GROUND|RECONCILIATION PATH|DIALOGUE)/i,
+};
+
+function renderDialogue(text: string, sectionPattern: RegExp) {
+  return text.split('\n').map((line, i) => {
+    // Dialogue lines start with a bold character name
+    const dialogueMatch = line.match(/^\*\*\[?([^\]:*]+)\]?\*\*:\s*(.+)/);
+    if (dialogueMatch) {
+      const [, speaker, dialogue] = dialogueMatch;
+      return (
+        <div key={i} className="mb-3">
+          <span className="font-semibold text-primary">{stripMarkdown(speaker)}:</span>
+          <span className="ml-2 text-foreground italic">{stripMarkdown(dialogue).replace(/^"|"$/g, '')}</span>
+        </div>
+      );
+    }
+
+    if (line.match(sectionPattern)) {
+      return (
+        <h4 key={i} className="font-semibold text-foreground mt-4 mb-2 text-sm uppercase tracking-wide">
+          {line.replace(/^\d+\.\s*/, '')}
+        </h4>
+      );
+    }
+
+    if (line.trim()) {
+      return <p key={i} className="text-muted-foreground mb-2">{stripMarkdown(line)}</p>;
+    }
+
+    return null;
+  });
+}
+
+function renderPersonaScenario(text: string) {
+  return text.split('\n').map((line, i) => {
+    if (line.startsWith('## ')) {
+      return (
+        <h2 key={i} className="text-xl font-bold text-primary mt-6 mb-3 first:mt-0">
+          {line.replace('## ', '')}
+        </h2>
+      );
+    }
+    if (line.trim() === '') {
+      return <br key={i} />;
+    }
+    return (
+      <p key={i} className="text-muted-foreground leading-relaxed mb-2">
+        {line}
+      </p>
+    );
+  });
+}
+
+interface ScenarioTextProps {
+  kind: ScenarioKind;
+  text: string;
+}
+
+/** Generated scenario text with its dialogue and section headings laid out */
+export function ScenarioText({ kind, text }: ScenarioTextProps) {
+  return <>{kind === 'persona' ? renderPersonaScenario(text) : renderDialogue(text, NUMBERED_SECTIONS[kind])}</>;
+}
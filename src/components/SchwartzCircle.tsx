@@ -3,14 +3,29 @@ import {
   ValueScores, 
   SCHWARTZ_VALUES,
   HIGHER_ORDER_VALUES,
-  HigherOrderValue 
+  HigherOrderValue,
+  ScoreInterval,
+  ScoreUncertainty,
+  getScoreInterval,
 } from '@/lib/schwartz-values';
 
 interface SchwartzCircleProps {
   scores: ValueScores;
   size?: number;
+  /**
+   * Optional per-value spread (e.g. standard deviation) drawn as a band from
+   * score − spread to score + spread, for showing a cohort mean
+   */
+  spread?: ValueScores;
+  /**
+   * Optional half-width of each score's uncertainty interval, drawn as error
+   * whiskers along the value's axis
+   */
+  uncertainty?: ScoreUncertainty;
 }
 
+const WHISKER_CAP = 4;
+
 const HIGHER_ORDER_COLORS: Record<HigherOrderValue, string> = {
   'openness': 'hsl(200, 70%, 50%)',
   'self-enhancement': 'hsl(25, 75%, 55%)',
@@ -18,7 +33,7 @@ const HIGHER_ORDER_COLORS: Record<HigherOrderValue, string> = {
   'self-transcendence': 'hsl(280, 55%, 55%)',
 };
 
-export function SchwartzCircle({ scores, size = 320 }: SchwartzCircleProps) {
+export function SchwartzCircle({ scores, size = 320, spread, uncertainty }: SchwartzCircleProps) {
   const labelPadding = 35; // Space for labels outside the chart
   const chartSize = size - (labelPadding * 2);
   const center = size / 2;
@@ -31,6 +46,8 @@ export function SchwartzCircle({ scores, size = 320 }: SchwartzCircleProps) {
     y: number;
     value: typeof SCHWARTZ_VALUES[0];
     score: number;
+    spread?: number;
+    interval?: ScoreInterval;
   } | null>(null);
 
   // Convert score (0-7) to radius
@@ -48,6 +65,13 @@ export function SchwartzCircle({ scores, size = 320 }: SchwartzCircleProps) {
       const angle = startAngle + index * angleStep;
       const score = scores[value.code] ?? 3.5;
       const radius = scoreToRadius(score);
+      // Band edges are clamped to the 0–7 scale
+      const valueSpread = spread?.[value.code] ?? 0;
+      const outerRadius = scoreToRadius(Math.min(7, score + valueSpread));
+      const innerRadius = scoreToRadius(Math.max(0, score - valueSpread));
+      const interval = uncertainty?.[value.code] !== undefined
+        ? getScoreInterval(score, uncertainty[value.code])
+        : undefined;
       
       return {
         value,
@@ -58,9 +82,16 @@ export function SchwartzCircle({ scores, size = 320 }: SchwartzCircleProps) {
         labelX: center + labelRadius * Math.cos(angle),
         labelY: center + labelRadius * Math.sin(angle),
         color: HIGHER_ORDER_COLORS[value.higherOrderValue],
+        bandOuterX: center + outerRadius * Math.cos(angle),
+        bandOuterY: center + outerRadius * Math.sin(angle),
+        bandInnerX: center + innerRadius * Math.cos(angle),
+        bandInnerY: center + innerRadius * Math.sin(angle),
+        interval,
+        whiskerLowRadius: interval ? scoreToRadius(interval.low) : radius,
+        whiskerHighRadius: interval ? scoreToRadius(interval.high) : radius,
       };
     });
-  }, [scores, center, labelRadius]);
+  }, [scores, spread, uncertainty, center, labelRadius]);
 
   // Generate radar polygon path
   const radarPath = useMemo(() => {
@@ -68,6 +99,14 @@ export function SchwartzCircle({ scores, size = 320 }: SchwartzCircleProps) {
     return `M ${points} Z`;
   }, [valuePositions]);
 
+  // Variance band: outer ring at score + spread, inner at score − spread
+  const bandPath = useMemo(() => {
+    if (!spread) return null;
+    const outer = valuePositions.map(p => `${p.bandOuterX},${p.bandOuterY}`).join(' L ');
+    const inner = valuePositions.map(p => `${p.bandInnerX},${p.bandInnerY}`).join(' L ');
+    return `M ${outer} Z M ${inner} Z`;
+  }, [spread, valuePositions]);
+
   // Generate axis lines
   const axisLines = useMemo(() => {
     const angleStep = (2 * Math.PI) / SCHWARTZ_VALUES.length;
@@ -123,17 +162,53 @@ export function SchwartzCircle({ scores, size = 320 }: SchwartzCircleProps) {
           />
         ))}
 
+        {/* Variance band around the mean */}
+        {bandPath && (
+          <path
+            d={bandPath}
+            fill="hsl(var(--primary) / 0.15)"
+            fillRule="evenodd"
+            stroke="hsl(var(--primary) / 0.4)"
+            strokeWidth="1"
+            strokeDasharray="3 3"
+            className="transition-all duration-300"
+          />
+        )}
+
         {/* Radar polygon fill */}
         <path
           d={radarPath}
-          fill="hsl(var(--primary) / 0.2)"
+          fill={bandPath ? 'none' : 'hsl(var(--primary) / 0.2)'}
           stroke="hsl(var(--primary))"
           strokeWidth="2"
           className="transition-all duration-300"
         />
 
+        {/* Uncertainty whiskers, with caps at each end of the interval */}
+        {uncertainty && valuePositions.map(({ value, angle, color, interval, whiskerLowRadius, whiskerHighRadius }) => {
+          if (!interval) return null;
+          const cos = Math.cos(angle);
+          const sin = Math.sin(angle);
+          const point = (r: number) => ({ x: center + r * cos, y: center + r * sin });
+          const low = point(whiskerLowRadius);
+          const high = point(whiskerHighRadius);
+          const cap = ({ x, y }: { x: number; y: number }) =>
+            `M ${x - WHISKER_CAP * sin},${y + WHISKER_CAP * cos} L ${x + WHISKER_CAP * sin},${y - WHISKER_CAP * cos}`;
+          return (
+            <path
+              key={value.code}
+              d={`M ${low.x},${low.y} L ${high.x},${high.y} ${cap(low)} ${cap(high)}`}
+              stroke={color}
+              strokeWidth="1.5"
+              strokeOpacity="0.7"
+              fill="none"
+              className="transition-all duration-300"
+            />
+          );
+        })}
+
         {/* Data points with hover events */}
-        {valuePositions.map(({ value, x, y, color, score }) => (
+        {valuePositions.map(({ value, x, y, color, score, interval }) => (
           <circle
             key={value.code}
             cx={x}
@@ -143,13 +218,13 @@ export function SchwartzCircle({ scores, size = 320 }: SchwartzCircleProps) {
             stroke="hsl(var(--background))"
             strokeWidth="2"
             className="transition-all duration-300 cursor-pointer"
-            onMouseEnter={() => setTooltip({ x, y, value, score })}
+            onMouseEnter={() => setTooltip({ x, y, value, score, spread: spread?.[value.code], interval })}
             onMouseLeave={() => setTooltip(null)}
           />
         ))}
 
         {/* Labels with hover events */}
-        {valuePositions.map(({ value, labelX, labelY, angle, score }) => {
+        {valuePositions.map(({ value, labelX, labelY, angle, score, interval }) => {
           // Determine text anchor based on position around the circle
           // angle: -π/2 = top, 0 = right, π/2 = bottom, ±π = left
           let textAnchor: 'start' | 'middle' | 'end' = 'middle';
@@ -187,7 +262,7 @@ export function SchwartzCircle({ scores, size = 320 }: SchwartzCircleProps) {
               textAnchor={textAnchor}
               dy={dy}
               className="fill-muted-foreground text-[10px] font-medium cursor-pointer hover:fill-foreground"
-              onMouseEnter={() => setTooltip({ x: labelX, y: labelY, value, score })}
+              onMouseEnter={() => setTooltip({ x: labelX, y: labelY, value, score, spread: spread?.[value.code], interval })}
               onMouseLeave={() => setTooltip(null)}
             >
               {value.code}
@@ -208,7 +283,11 @@ export function SchwartzCircle({ scores, size = 320 }: SchwartzCircleProps) {
         >
           <p className="font-semibold text-sm">{tooltip.value.label}</p>
           <p className="text-xs text-muted-foreground">{tooltip.value.description}</p>
-          <p className="text-xs mt-1">Score: {tooltip.score.toFixed(1)}</p>
+          <p className="text-xs mt-1">
+            Score: {tooltip.score.toFixed(1)}
+            {tooltip.spread !== undefined && ` ± ${tooltip.spread.toFixed(1)}`}
+            {tooltip.interval && ` (${tooltip.interval.low.toFixed(1)}–${tooltip.interval.high.toFixed(1)})`}
+          </p>
         </div>
       )}
 
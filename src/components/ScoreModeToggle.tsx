@@ -0,0 +1,31 @@
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { InfoPopover } from '@/components/InfoPopover';
+import { ScoreMode } from '@/lib/schwartz-values';
+
+interface ScoreModeToggleProps {
+  id: string;
+  mode: ScoreMode;
+  onModeChange: (mode: ScoreMode) => void;
+}
+
+export function ScoreModeToggle({ id, mode, onModeChange }: ScoreModeToggleProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <Switch
+        id={id}
+        checked={mode === 'centred'}
+        onCheckedChange={(checked) => onModeChange(checked ? 'centred' : 'raw')}
+      />
+      <Label htmlFor={id} className="text-sm text-muted-foreground cursor-pointer">
+        Centre on profile mean
+      </Label>
+      <InfoPopover content={
+        <>
+          <p>By default, scores are read against the 3.5 midpoint of the scale, so someone who rates every value highly looks strongly affected by every stressor.</p>
+          <p className="mt-2 text-xs text-muted-foreground">Centred (ipsative) mode reads each score against the profile's own mean, as in standard PVQ-RR scoring. Stressor sensitivity, archetype matches and bridge values then reflect relative priorities.</p>
+        </>
+      } />
+    </div>
+  );
+}
@@ -3,11 +3,12 @@ import { useNavigate } from 'react-router-dom';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { GitCompare } from 'lucide-react';
-import { ValueScores, getValueByCode } from '@/lib/schwartz-values';
+import { GitCompare, Info } from 'lucide-react';
+import { ValueScores, ScoreMode, getValueByCode } from '@/lib/schwartz-values';
 import {
   ArchetypeCategory,
   ARCHETYPE_CATEGORIES,
+  groupArchetypesByCategory,
   findBestArchetype,
   getMatchingValues,
   getMatchScore,
@@ -16,9 +17,12 @@ import {
   Archetype
 } from '@/lib/archetypes';
 import { useToast } from '@/hooks/use-toast';
+import { useArchetypes } from '@/hooks/use-archetypes';
+import { ArchetypeMatchDetails } from '@/components/ArchetypeMatchDetails';
 
 interface SimilarToProps {
   scores: ValueScores;
+  scoreMode?: ScoreMode;
   profileName: string;
   profileId: string | null;
   profileDescription?: string | null;
@@ -28,6 +32,7 @@ interface SimilarToProps {
 
 export function SimilarTo({
   scores,
+  scoreMode = 'raw',
   profileName,
   profileId,
   profileDescription,
@@ -38,20 +43,27 @@ export function SimilarTo({
   const [archetype, setArchetype] = useState<Archetype | null>(null);
   const [similarArchetypes, setSimilarArchetypes] = useState<Archetype[]>([]);
   const [matchPercent, setMatchPercent] = useState(0);
+  const [showMatchDetails, setShowMatchDetails] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { archetypes } = useArchetypes();
+  const categories = groupArchetypesByCategory(archetypes);
 
-  // Update archetype when scores or category change
+  // Update archetype when scores, category or the archetype list change
   useEffect(() => {
-    const newArchetype = findBestArchetype(scores, category);
+    const newArchetype = findBestArchetype(scores, category, scoreMode, archetypes);
+    if (!newArchetype) {
+      setArchetype(null);
+      return;
+    }
     setArchetype(newArchetype);
     // Calculate match percentage (score is 0-1, convert to 0-100%)
-    const rawScore = getMatchScore(scores, newArchetype);
+    const rawScore = getMatchScore(scores, newArchetype, scoreMode);
     const percent = Math.round(rawScore * 100);
     setMatchPercent(percent);
     // Find similar archetypes
-    setSimilarArchetypes(findSimilarArchetypes(newArchetype, 4));
-  }, [scores, category]);
+    setSimilarArchetypes(findSimilarArchetypes(newArchetype, 4, archetypes));
+  }, [scores, category, scoreMode, archetypes]);
 
   const handleCategoryChange = (newCategory: ArchetypeCategory) => {
     setCategory(newCategory);
@@ -90,6 +102,7 @@ export function SimilarTo({
         description: profileDescription || undefined,
       },
       archetypeName: archetypeName,
+      scoreMode,
     };
     sessionStorage.setItem('compareProfiles', JSON.stringify(compareData));
 
@@ -113,7 +126,7 @@ export function SimilarTo({
             <SelectValue placeholder="Select style" />
           </SelectTrigger>
           <SelectContent>
-            {ARCHETYPE_CATEGORIES.map((cat) => (
+            {categories.map((cat) => (
               <SelectItem key={cat.value} value={cat.value}>
                 {cat.label}
               </SelectItem>
@@ -137,6 +150,14 @@ export function SimilarTo({
               <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-primary/10 text-primary">
                 {matchPercent}% match
               </span>
+              <button
+                onClick={() => setShowMatchDetails(true)}
+                className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-colors"
+                title="See how this match was calculated"
+              >
+                <Info className="w-3.5 h-3.5" />
+                Why?
+              </button>
             </div>
           </div>
 
@@ -180,7 +201,7 @@ export function SimilarTo({
               <p className="text-xs text-muted-foreground mb-2">Compare with similar:</p>
               <div className="flex flex-wrap gap-1.5">
                 {similarArchetypes.map((similar) => {
-                  const similarMatchPercent = Math.round(getMatchScore(scores, similar) * 100);
+                  const similarMatchPercent = Math.round(getMatchScore(scores, similar, scoreMode) * 100);
                   return (
                     <button
                       key={similar.name}
@@ -198,6 +219,16 @@ export function SimilarTo({
           )}
         </div>
       </Card>
+
+      <ArchetypeMatchDetails
+        open={showMatchDetails}
+        onOpenChange={setShowMatchDetails}
+        scores={scores}
+        scoreMode={scoreMode}
+        profileName={profileName}
+        archetype={archetype}
+        candidates={archetypes.filter(a => a.category === category)}
+      />
     </section>
   );
 }
@@ -0,0 +1,36 @@
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  value: number | null;
+  /** Omit for a read-only display */
+  onChange?: (rating: number | null) => void;
+  className?: string;
+}
+
+/** One to five stars; clicking the current rating again clears it */
+export function StarRating({ value, onChange, className }: StarRatingProps) {
+  return (
+    <div className={cn('flex items-center gap-0.5', className)} aria-label={value ? `Rated ${value} of 5` : 'Not rated'}>
+      {[1, 2, 3, 4, 5].map(star => {
+        const filled = value !== null && star <= value;
+        const icon = (
+          <Star className={cn('w-4 h-4', filled ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground/40')} />
+        );
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star === value ? null : star)}
+            className="p-0.5 rounded hover:bg-muted transition-colors"
+            title={`${star} star${star === 1 ? '' : 's'}`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
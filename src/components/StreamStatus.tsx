@@ -0,0 +1,28 @@
+import { AlertTriangle } from 'lucide-react';
+import { TokenUsage } from '@/lib/edge-functions';
+
+interface StreamStatusProps {
+  usage: TokenUsage | null;
+  incomplete: boolean;
+}
+
+/** Footer for streamed AI text: token usage and a note when the text was cut short */
+export function StreamStatus({ usage, incomplete }: StreamStatusProps) {
+  if (!usage && !incomplete) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-3 mt-3 text-xs text-muted-foreground">
+      {incomplete ? (
+        <span className="flex items-center gap-1.5 text-amber-600">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          The connection dropped, so this may be cut short. Generate again for a full version.
+        </span>
+      ) : <span />}
+      {usage && (
+        <span className="font-mono" title={`${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens`}>
+          {usage.totalTokens.toLocaleString()} tokens
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { RotateCcw } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import {
+  PolarityModel,
+  StressorId,
+  StressorParameter,
+  StressorSettings,
+  getParameterValue,
+  getStressorById,
+  getStressorScale,
+  isStressorTuned,
+} from '@/lib/stressors';
+
+interface StressorParameterSlidersProps {
+  stressorId: StressorId;
+  /** Where custom stressors' parameters are looked up */
+  model: PolarityModel;
+  settings: StressorSettings;
+  onParameterChange: (stressorId: StressorId, parameter: StressorParameter, value: number) => void;
+  onReset: (stressorId: StressorId) => void;
+}
+
+/** Sliders for one stressor's parameters, with the intensity they add up to */
+export function StressorParameterSliders({ stressorId, model, settings, onParameterChange, onReset }: StressorParameterSlidersProps) {
+  const stressor = getStressorById(stressorId, model);
+  if (!stressor) return null;
+  const tuned = isStressorTuned(stressorId, settings, model);
+  const scale = getStressorScale(stressorId, settings, model);
+
+  return (
+    <div className="space-y-3">
+      {stressor.parameters.map(param => (
+        <div key={param.id} className="space-y-1.5">
+          <div className="text-xs font-medium" title={param.description}>{param.name}</div>
+          <Slider
+            value={[getParameterValue(stressorId, param, settings)]}
+            onValueChange={([v]) => onParameterChange(stressorId, param, v)}
+            min={0}
+            max={1}
+            step={0.05}
+            aria-label={param.name}
+          />
+          <div className="flex justify-between text-[11px] text-muted-foreground">
+            <span>{param.lowLabel}</span>
+            <span>{param.highLabel}</span>
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          Intensity <span className="font-mono">×{scale.toFixed(2)}</span>
+        </span>
+        {tuned && (
+          <Button variant="ghost" size="sm" onClick={() => onReset(stressorId)} className="h-6 px-2 gap-1 text-xs">
+            <RotateCcw className="w-3 h-3" />
+            Reset
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
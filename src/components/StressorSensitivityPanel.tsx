@@ -1,14 +1,14 @@
 import { useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { ChevronDown, Zap, TrendingUp, ArrowUpDown, ArrowRight } from 'lucide-react';
-import { ValueScores } from '@/lib/schwartz-values';
+import { ValueScores, ScoreMode, ScoreUncertainty } from '@/lib/schwartz-values';
 import {
   getTopSensitiveStressors,
   getTopInternalTensionStressors,
   StressorSensitivity,
   StressorInternalTension,
 } from '@/lib/stressor-sensitivity';
-import { STRESSORS, StressorId } from '@/lib/stressors';
+import { getStressorById } from '@/lib/stressors';
 import { ValueAbbreviation } from '@/components/ValueAbbreviation';
 import {
   Collapsible,
@@ -16,9 +16,18 @@ import {
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
 import { cn } from '@/lib/utils';
+import { useStressorSettings } from '@/hooks/use-stressor-settings';
+import { usePolarityModel } from '@/hooks/use-polarity-model';
 
 interface StressorSensitivityPanelProps {
   scores: ValueScores;
+  scoreMode?: ScoreMode;
+  /** Per-value interval half-widths; shows how robust each stressor's sensitivity is */
+  uncertainty?: ScoreUncertainty;
+}
+
+function formatSigned(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
 }
 
 function SensitivityBar({ value, max }: { value: number; max: number }) {
@@ -43,9 +52,10 @@ function SensitivityBar({ value, max }: { value: number; max: number }) {
   );
 }
 
-function TopStressorCard({ sensitivity, maxSensitivity }: { 
+function TopStressorCard({ sensitivity, maxSensitivity, description }: { 
   sensitivity: StressorSensitivity; 
   maxSensitivity: number;
+  description?: string;
 }) {
   const [isOpen, setIsOpen] = useState(false);
   const isPositive = sensitivity.totalSensitivity >= 0;
@@ -64,9 +74,22 @@ function TopStressorCard({ sensitivity, maxSensitivity }: {
             <div className="flex-1 text-left min-w-0">
               <h4 className="font-medium text-sm truncate">{sensitivity.stressorName}</h4>
               <p className="text-xs text-muted-foreground line-clamp-2 mb-1">
-                {STRESSORS[sensitivity.stressorId as StressorId]?.description}
+                {description}
               </p>
               <SensitivityBar value={sensitivity.totalSensitivity} max={maxSensitivity} />
+              {sensitivity.interval && sensitivity.rankRange && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatSigned(sensitivity.interval.low)} to {formatSigned(sensitivity.interval.high)}
+                  {' · rank '}
+                  {sensitivity.rankRange[0] === sensitivity.rankRange[1]
+                    ? `#${sensitivity.rankRange[0]}`
+                    : `#${sensitivity.rankRange[0]}–${sensitivity.rankRange[1]}`}
+                  {' · '}
+                  <span className={sensitivity.signRobust ? 'text-emerald-600' : 'text-amber-600'}>
+                    {sensitivity.signRobust ? 'direction holds' : 'may flip'}
+                  </span>
+                </p>
+              )}
             </div>
             <ChevronDown className={cn(
               "w-4 h-4 text-muted-foreground transition-transform shrink-0",
@@ -103,7 +126,7 @@ function TopStressorCard({ sensitivity, maxSensitivity }: {
   );
 }
 
-function InternalTensionCard({ tension }: { tension: StressorInternalTension }) {
+function InternalTensionCard({ tension, description }: { tension: StressorInternalTension; description?: string }) {
   const [isOpen, setIsOpen] = useState(false);
   
   return (
@@ -117,7 +140,7 @@ function InternalTensionCard({ tension }: { tension: StressorInternalTension })
             <div className="flex-1 text-left min-w-0">
               <h4 className="font-medium text-sm truncate">{tension.stressorName}</h4>
               <p className="text-xs text-muted-foreground line-clamp-2 mb-1">
-                {STRESSORS[tension.stressorId as StressorId]?.description}
+                {description}
               </p>
               <p className="text-xs text-muted-foreground">
                 Range: {tension.range.toFixed(2)} (σ: {tension.standardDeviation.toFixed(3)})
@@ -164,9 +187,17 @@ function InternalTensionCard({ tension }: { tension: StressorInternalTension })
   );
 }
 
-export function StressorSensitivityPanel({ scores }: StressorSensitivityPanelProps) {
-  const topStressors = useMemo(() => getTopSensitiveStressors(scores, 5), [scores]);
-  const internalTensions = useMemo(() => getTopInternalTensionStressors(scores, 5), [scores]);
+export function StressorSensitivityPanel({ scores, scoreMode = 'raw', uncertainty }: StressorSensitivityPanelProps) {
+  const { settings } = useStressorSettings();
+  const { activeModel } = usePolarityModel();
+  const topStressors = useMemo(
+    () => getTopSensitiveStressors(scores, 5, scoreMode, uncertainty, settings, activeModel),
+    [scores, scoreMode, uncertainty, settings, activeModel]
+  );
+  const internalTensions = useMemo(
+    () => getTopInternalTensionStressors(scores, 5, scoreMode, settings, activeModel),
+    [scores, scoreMode, settings, activeModel]
+  );
   
   const maxSensitivity = useMemo(() => {
     return Math.max(...topStressors.map(c => c.absoluteSensitivity), 0.1);
@@ -182,6 +213,10 @@ export function StressorSensitivityPanel({ scores }: StressorSensitivityPanelPro
         <p className="text-sm text-muted-foreground mb-3">
           These stressors have the strongest effect on this profile. Positive values indicate 
           the stressor satisfies the profile's values; negative values indicate frustration.
+          {uncertainty && (
+            <> Ranges show how far each sensitivity can move within the score uncertainty; a stressor that
+            "may flip" could satisfy or frustrate depending on where the true scores lie.</>
+          )}
         </p>
         <Link 
           to="/stressors" 
@@ -196,6 +231,7 @@ export function StressorSensitivityPanel({ scores }: StressorSensitivityPanelPro
               key={sensitivity.stressorId} 
               sensitivity={sensitivity} 
               maxSensitivity={maxSensitivity}
+              description={getStressorById(sensitivity.stressorId, activeModel)?.description}
             />
           ))}
         </div>
@@ -212,7 +248,11 @@ export function StressorSensitivityPanel({ scores }: StressorSensitivityPanelPro
         </p>
         <div className="space-y-2">
           {internalTensions.map(tension => (
-            <InternalTensionCard key={tension.stressorId} tension={tension} />
+            <InternalTensionCard
+              key={tension.stressorId}
+              tension={tension}
+              description={getStressorById(tension.stressorId, activeModel)?.description}
+            />
           ))}
         </div>
       </div>
@@ -0,0 +1,66 @@
+import { useState, KeyboardEvent } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { X } from 'lucide-react';
+import { normalizeTags } from '@/lib/profile-storage';
+
+interface TagInputProps {
+  id: string;
+  tags: string[];
+  onTagsChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+export function TagInput({ id, tags, onTagsChange, disabled = false }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+
+  const commitDraft = () => {
+    if (!draft.trim()) return;
+    onTagsChange(normalizeTags([...tags, ...draft.split(',')]));
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commitDraft();
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onTagsChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1 font-normal">
+              {tag}
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => onTagsChange(tags.filter(t => t !== tag))}
+                  className="hover:text-destructive"
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {!disabled && (
+        <Input
+          id={id}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={commitDraft}
+          placeholder="Add tags, separated by commas..."
+          className="text-sm"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useMemo, useState } from 'react';
+import { Info } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ValueAbbreviation } from '@/components/ValueAbbreviation';
+import { SCHWARTZ_VALUES, HIGHER_ORDER_VALUES, HigherOrderValue, getValueByCode } from '@/lib/schwartz-values';
+import {
+  PolarityModel,
+  StressorSettings,
+  ValueSetSplitSide,
+  findBestStressorsForValueSet,
+  getStressors,
+} from '@/lib/stressors';
+import { cn } from '@/lib/utils';
+
+const QUADRANTS = Object.keys(HIGHER_ORDER_VALUES) as HigherOrderValue[];
+
+/**
+ * Each selected value weighs one over the number selected from its
+ * higher-order group, so every group counts equally however many values it
+ * brings (Conservation has six, Openness four).
+ */
+function balanceByHigherOrder(valueCodes: string[]): Record<string, number> {
+  const counts = new Map<HigherOrderValue, number>();
+  for (const code of valueCodes) {
+    const quadrant = getValueByCode(code)?.higherOrderValue;
+    if (quadrant) counts.set(quadrant, (counts.get(quadrant) ?? 0) + 1);
+  }
+  return Object.fromEntries(valueCodes.map(code => {
+    const quadrant = getValueByCode(code)?.higherOrderValue;
+    return [code, quadrant ? 1 / (counts.get(quadrant) ?? 1) : 1];
+  }));
+}
+
+function SplitSide({ values, tone }: { values: ValueSetSplitSide[]; tone: 'favoured' | 'disfavoured' }) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {values.map(({ valueCode, polarity }) => (
+        <span
+          key={valueCode}
+          className={cn(
+            'inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs',
+            tone === 'favoured' ? 'bg-emerald-100 dark:bg-emerald-950/40' : 'bg-rose-100 dark:bg-rose-950/40'
+          )}
+        >
+          <ValueAbbreviation code={valueCode} showColor={false} />
+          <span className="font-mono">{polarity > 0 ? '+' : ''}{polarity.toFixed(1)}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
+
+interface ValueSetTensionFinderProps {
+  settings: StressorSettings;
+  model: PolarityModel;
+}
+
+/** Rank stressors by how much they split any set of values, not just a pair */
+export function ValueSetTensionFinder({ settings, model }: ValueSetTensionFinderProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [balanceGroups, setBalanceGroups] = useState(true);
+
+  const toggleValue = (code: string) => {
+    setSelected(prev => (prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]));
+  };
+
+  const toggleQuadrant = (quadrant: HigherOrderValue) => {
+    const codes = SCHWARTZ_VALUES.filter(v => v.higherOrderValue === quadrant).map(v => v.code);
+    const allSelected = codes.every(code => selected.includes(code));
+    setSelected(prev => (allSelected
+      ? prev.filter(code => !codes.includes(code))
+      : [...prev, ...codes.filter(code => !prev.includes(code))]));
+  };
+
+  const splits = useMemo(() => {
+    if (selected.length < 2) return [];
+    const weights = balanceGroups ? balanceByHigherOrder(selected) : undefined;
+    return findBestStressorsForValueSet(selected, getStressors(model).length, settings, model, weights);
+  }, [selected, balanceGroups, settings, model]);
+
+  const maxVariance = splits[0]?.variance ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {QUADRANTS.map(quadrant => {
+            const codes = SCHWARTZ_VALUES.filter(v => v.higherOrderValue === quadrant).map(v => v.code);
+            const allSelected = codes.every(code => selected.includes(code));
+            return (
+              <Button
+                key={quadrant}
+                variant={allSelected ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => toggleQuadrant(quadrant)}
+              >
+                All of {HIGHER_ORDER_VALUES[quadrant].label}
+              </Button>
+            );
+          })}
+          {selected.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => setSelected([])}>
+              Clear
+            </Button>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {SCHWARTZ_VALUES.map(value => (
+            <button
+              key={value.code}
+              type="button"
+              onClick={() => toggleValue(value.code)}
+              title={value.label}
+              className={cn(
+                'rounded-md border px-2 py-1 text-xs font-medium transition-colors',
+                selected.includes(value.code)
+                  ? 'bg-primary text-primary-foreground border-primary'
+                  : 'hover:bg-muted'
+              )}
+            >
+              {value.code}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="balance-higher-order"
+            checked={balanceGroups}
+            onCheckedChange={checked => setBalanceGroups(checked === true)}
+          />
+          <Label htmlFor="balance-higher-order" className="text-sm text-muted-foreground cursor-pointer">
+            Weight each higher-order group equally, however many of its values are selected
+          </Label>
+        </div>
+      </div>
+
+      {selected.length >= 2 ? (
+        <div className="space-y-3">
+          <h3 className="font-serif text-xl font-semibold">
+            Stressors ranked by how much they split {selected.length} values
+          </h3>
+          {splits.map(split => (
+            <div key={split.stressor.id} className="rounded-lg border bg-card p-4 space-y-3">
+              <div className="flex items-center gap-3">
+                <h4 className="font-semibold flex-1">{split.stressor.name}</h4>
+                <div className="w-24 h-1.5 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full bg-primary"
+                    style={{ width: `${maxVariance > 0 ? (split.variance / maxVariance) * 100 : 0}%` }}
+                  />
+                </div>
+                <span className="font-mono text-sm text-muted-foreground" title="Weighted standard deviation of the polarities">
+                  σ {Math.sqrt(split.variance).toFixed(2)}
+                </span>
+              </div>
+              <div className="grid sm:grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <p className="text-xs text-muted-foreground">
+                    Satisfied more than the set's mean of {split.mean > 0 ? '+' : ''}{split.mean.toFixed(2)}
+                  </p>
+                  {split.favoured.length > 0
+                    ? <SplitSide values={split.favoured} tone="favoured" />
+                    : <p className="text-xs text-muted-foreground italic">None</p>}
+                </div>
+                <div className="space-y-1.5">
+                  <p className="text-xs text-muted-foreground">Satisfied less, or frustrated</p>
+                  <SplitSide values={split.disfavoured} tone="disfavoured" />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12 text-muted-foreground">
+          <Info className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>Select at least two values, or whole higher-order groups, to see which stressors divide them.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Archetype, ARCHETYPES } from '@/lib/archetypes';
+import { DbCustomArchetype, customToArchetype, loadCustomArchetypes } from '@/lib/archetype-storage';
+
+const CUSTOM_ARCHETYPES_KEY = ['custom-archetypes'];
+
+/**
+ * Built-in archetypes followed by every user-defined one. Custom archetypes
+ * are fetched once and shared by all pickers; call `refresh` after creating,
+ * editing or deleting one. While loading, or if loading fails, only the
+ * built-ins are returned.
+ */
+export function useArchetypes() {
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useQuery<DbCustomArchetype[]>({
+    queryKey: CUSTOM_ARCHETYPES_KEY,
+    queryFn: loadCustomArchetypes,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const customArchetypes = useMemo(() => data ?? [], [data]);
+
+  const archetypes = useMemo<Archetype[]>(
+    () => [...ARCHETYPES, ...customArchetypes.map(customToArchetype)],
+    [customArchetypes]
+  );
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: CUSTOM_ARCHETYPES_KEY }),
+    [queryClient]
+  );
+
+  return { archetypes, customArchetypes, isLoading, error, refresh };
+}
@@ -0,0 +1,90 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { CustomStressor } from '@/lib/stressors';
+import { DbCustomStressor, loadCustomStressors, toCustomStressor } from '@/lib/custom-stressor-storage';
+
+const CUSTOM_STRESSORS_KEY = ['custom-stressors'];
+const INCLUDED_STORAGE_KEY = 'schwartz-included-custom-stressors';
+
+// Ids of the custom stressors this device calculates with. Anyone can read
+// every custom stressor, so each one is opted into rather than applied to all.
+let includedIds: string[] | null = null;
+const listeners = new Set<() => void>();
+
+function loadIncludedIds(): string[] {
+  try {
+    const stored = localStorage.getItem(INCLUDED_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function getSnapshot(): string[] {
+  if (!includedIds) includedIds = loadIncludedIds();
+  return includedIds;
+}
+
+function setIncludedIds(ids: string[]) {
+  includedIds = ids;
+  if (ids.length > 0) {
+    localStorage.setItem(INCLUDED_STORAGE_KEY, JSON.stringify(ids));
+  } else {
+    localStorage.removeItem(INCLUDED_STORAGE_KEY);
+  }
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Follow changes made in other tabs
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== INCLUDED_STORAGE_KEY) return;
+    includedIds = loadIncludedIds();
+    listener();
+  };
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+/**
+ * Every user-defined stressor, fetched once and shared by all pages; call
+ * `refresh` after creating, editing or deleting one. `customStressors` holds
+ * only those included on this device, which are the ones calculations use;
+ * `savedStressors` lists them all. While loading, or if loading fails, both
+ * are empty and only the built-in stressors are used.
+ */
+export function useCustomStressors() {
+  const queryClient = useQueryClient();
+  const included = useSyncExternalStore(subscribe, getSnapshot);
+  const { data, isLoading, error } = useQuery<DbCustomStressor[]>({
+    queryKey: CUSTOM_STRESSORS_KEY,
+    queryFn: loadCustomStressors,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const savedStressors = useMemo(() => data ?? [], [data]);
+
+  const customStressors = useMemo<CustomStressor[]>(
+    () => savedStressors.filter(s => included.includes(s.id)).map(toCustomStressor),
+    [savedStressors, included]
+  );
+
+  const isIncluded = useCallback((id: string) => included.includes(id), [included]);
+
+  /** Add a saved stressor to this device's calculations, or take it out */
+  const setIncluded = useCallback((id: string, include: boolean) => {
+    const others = getSnapshot().filter(other => other !== id);
+    setIncludedIds(include ? [...others, id] : others);
+  }, []);
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: CUSTOM_STRESSORS_KEY }),
+    [queryClient]
+  );
+
+  return { customStressors, savedStressors, isIncluded, setIncluded, isLoading, error, refresh };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { StreamResult, TokenUsage, isAbortError, streamEdgeFunction } from '@/lib/edge-functions';
+
+/**
+ * Stream text from an edge function into state. Starting again, `cancel`,
+ * `reset` and unmounting all abort the request in flight; a cancelled stream
+ * keeps whatever text had arrived. `start` resolves to null when cancelled and
+ * rethrows other errors (EdgeFunctionError) for the caller to report.
+ */
+export function useEdgeStream(functionName: string) {
+  const [text, setText] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [usage, setUsage] = useState<TokenUsage | null>(null);
+  const [incomplete, setIncomplete] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = useCallback(async (body: Record<string, unknown>): Promise<StreamResult | null> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setText('');
+    setUsage(null);
+    setIncomplete(false);
+    setIsStreaming(true);
+
+    try {
+      const result = await streamEdgeFunction(functionName, body, {
+        signal: controller.signal,
+        onText: (partial) => {
+          if (!controller.signal.aborted) setText(partial);
+        },
+      });
+      setUsage(result.usage);
+      setIncomplete(result.incomplete);
+      return result;
+    } catch (error) {
+      if (isAbortError(error)) return null;
+      throw error;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  }, [functionName]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsStreaming(false);
+  }, []);
+
+  const reset = useCallback(() => {
+    cancel();
+    setText('');
+    setUsage(null);
+    setIncomplete(false);
+  }, [cancel]);
+
+  return { text, isStreaming, usage, incomplete, start, cancel, reset };
+}
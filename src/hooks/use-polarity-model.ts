@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { DEFAULT_POLARITY_MODEL, PolarityModel, withCustomStressors } from '@/lib/stressors';
+import { DbPolarityModel, loadPolarityModels, toPolarityModel } from '@/lib/polarity-model-storage';
+import { useCustomStressors } from './use-custom-stressors';
+
+const STORAGE_KEY = 'schwartz-polarity-model';
+const POLARITY_MODELS_KEY = ['polarity-models'];
+
+interface Selection {
+  model: PolarityModel;
+  /** When the saved model last changed, to tell whether our copy is stale */
+  updatedAt: string;
+}
+
+// One selection for the whole app, so every page calculates with the same
+// matrix. The model is kept whole in localStorage so it applies from the
+// first render, before the saved models have loaded.
+let selection: Selection | null = null;
+let initialized = false;
+const listeners = new Set<() => void>();
+
+function loadSelection(): Selection | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as Selection;
+    // Selections stored before custom stressors existed lack the list
+    return { ...parsed, model: { ...parsed.model, customStressors: [] } };
+  } catch {
+    return null;
+  }
+}
+
+function getSnapshot(): PolarityModel {
+  if (!initialized) {
+    initialized = true;
+    selection = loadSelection();
+  }
+  return selection?.model ?? DEFAULT_POLARITY_MODEL;
+}
+
+function setSelection(next: Selection | null) {
+  selection = next;
+  if (next) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Pick up edits to the selected model made elsewhere, and drop it if it was
+ * deleted. Callers refresh the list before selecting a model they just
+ * created, so a missing model really is gone.
+ */
+function syncSelection(savedModels: DbPolarityModel[]) {
+  if (!selection) return;
+  const saved = savedModels.find(m => m.id === selection?.model.id);
+  if (!saved) {
+    setSelection(null);
+  } else if (Date.parse(saved.updated_at) > Date.parse(selection.updatedAt)) {
+    setSelection({ model: toPolarityModel(saved), updatedAt: saved.updated_at });
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Follow selections made in other tabs
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    selection = loadSelection();
+    listener();
+  };
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+/**
+ * The polarity model every sensitivity, tension and clarification
+ * calculation should be given, shared across pages, and the saved models to
+ * choose from. The custom stressors included on this device are added to
+ * whichever model is selected.
+ */
+export function usePolarityModel() {
+  const queryClient = useQueryClient();
+  const selectedModel = useSyncExternalStore(subscribe, getSnapshot);
+  const { customStressors } = useCustomStressors();
+  const { data, isLoading, error } = useQuery<DbPolarityModel[]>({
+    queryKey: POLARITY_MODELS_KEY,
+    queryFn: loadPolarityModels,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const savedModels = useMemo(() => data ?? [], [data]);
+
+  const activeModel = useMemo(
+    () => withCustomStressors(selectedModel, customStressors),
+    [selectedModel, customStressors]
+  );
+
+  useEffect(() => {
+    if (data) syncSelection(data);
+  }, [data]);
+
+  /** Use a saved model everywhere; null goes back to the built-in matrix */
+  const selectModel = useCallback((model: DbPolarityModel | null) => {
+    setSelection(model && { model: toPolarityModel(model), updatedAt: model.updated_at });
+  }, []);
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: POLARITY_MODELS_KEY }),
+    [queryClient]
+  );
+
+  return { activeModel, savedModels, isLoading, error, selectModel, refresh };
+}
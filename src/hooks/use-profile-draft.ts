@@ -1,5 +1,5 @@
 import { useCallback } from 'react';
-import { ValueScores, DEFAULT_SCORES, SAMPLE_PROFILE_SCORES } from '@/lib/schwartz-values';
+import { ValueScores, ScoreMode, DEFAULT_SCORES, SAMPLE_PROFILE_SCORES } from '@/lib/schwartz-values';
 import { DraftProfile, loadDraft, saveDraft, clearDraft } from '@/lib/profile-storage';
 
 export interface ProfileState {
@@ -7,6 +7,9 @@ export interface ProfileState {
   scores: ValueScores;
   description: string | null;
   systemPrompt: string | null;
+  scoreMode: ScoreMode;
+  tags: string[];
+  collection: string | null;
   isModified: boolean;
 }
 
@@ -20,15 +23,21 @@ export function useProfileDraft() {
       scores: draft.scores,
       description: draft.description ?? null,
       systemPrompt: draft.systemPrompt ?? null,
+      scoreMode: draft.scoreMode ?? 'raw',
+      tags: draft.tags ?? [],
+      collection: draft.collection ?? null,
     };
   }, []);
 
-  const saveToDraft = useCallback((state: Pick<ProfileState, 'name' | 'scores' | 'description' | 'systemPrompt'>) => {
+  const saveToDraft = useCallback((state: Pick<ProfileState, 'name' | 'scores' | 'description' | 'systemPrompt' | 'scoreMode' | 'tags' | 'collection'>) => {
     saveDraft({
       name: state.name,
       scores: state.scores,
       description: state.description,
       systemPrompt: state.systemPrompt,
+      scoreMode: state.scoreMode,
+      tags: state.tags,
+      collection: state.collection,
     });
   }, []);
 
@@ -42,6 +51,9 @@ export function useProfileDraft() {
       scores: { ...SAMPLE_PROFILE_SCORES },
       description: null,
       systemPrompt: null,
+      scoreMode: 'raw',
+      tags: [],
+      collection: null,
       isModified: true,
     };
   }, []);
@@ -52,6 +64,9 @@ export function useProfileDraft() {
       scores: { ...DEFAULT_SCORES },
       description: null,
       systemPrompt: null,
+      scoreMode: 'raw',
+      tags: [],
+      collection: null,
       isModified: false,
     };
   }, []);
@@ -0,0 +1,45 @@
+import { useCallback } from 'react';
+import { PvqResponses } from '@/lib/pvq-rr';
+import {
+  QuestionnaireDraft,
+  loadQuestionnaireDraft,
+  saveQuestionnaireDraft,
+  clearQuestionnaireDraft,
+} from '@/lib/profile-storage';
+
+export interface QuestionnaireState {
+  name: string;
+  responses: PvqResponses;
+  page: number;
+}
+
+export function useQuestionnaireDraft() {
+  const loadFromDraft = useCallback((): QuestionnaireState | null => {
+    const draft: QuestionnaireDraft | null = loadQuestionnaireDraft();
+    if (!draft) return null;
+
+    return {
+      name: draft.name,
+      responses: draft.responses ?? {},
+      page: draft.page ?? 0,
+    };
+  }, []);
+
+  const saveToDraft = useCallback((state: QuestionnaireState) => {
+    saveQuestionnaireDraft({
+      name: state.name,
+      responses: state.responses,
+      page: state.page,
+    });
+  }, []);
+
+  const clearCurrentDraft = useCallback(() => {
+    clearQuestionnaireDraft();
+  }, []);
+
+  return {
+    loadFromDraft,
+    saveToDraft,
+    clearDraft: clearCurrentDraft,
+  };
+}
@@ -0,0 +1,42 @@
+import { useCallback, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { NewScenario, SavedScenario, saveScenario } from '@/lib/scenario-storage';
+
+/**
+ * Save generated scenarios to the library and remember the latest one's id.
+ * `clear` (e.g. when a new generation starts) also discards any save still in
+ * flight, so a slow save can't attach itself to newer text. Failures are
+ * reported with a toast, since the scenario itself is still on screen.
+ */
+export function useScenarioSaver() {
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const latestSave = useRef(0);
+
+  const save = useCallback(async (scenario: NewScenario): Promise<SavedScenario | null> => {
+    const saveId = ++latestSave.current;
+    setSavedId(null);
+    setSaving(true);
+    try {
+      const saved = await saveScenario(scenario);
+      if (saveId !== latestSave.current) return null;
+      setSavedId(saved.id);
+      return saved;
+    } catch (error) {
+      if (saveId === latestSave.current) {
+        toast.error(error instanceof Error ? error.message : 'Unable to save scenario');
+      }
+      return null;
+    } finally {
+      if (saveId === latestSave.current) setSaving(false);
+    }
+  }, []);
+
+  const clear = useCallback(() => {
+    latestSave.current++;
+    setSavedId(null);
+    setSaving(false);
+  }, []);
+
+  return { savedId, saving, save, clear };
+}
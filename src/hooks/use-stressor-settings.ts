@@ -0,0 +1,73 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { StressorId, StressorParameter, StressorSettings } from '@/lib/stressors';
+
+const STORAGE_KEY = 'schwartz-stressor-settings';
+
+// One store for the whole app, so a parameter moved on the Stressors page is
+// what Compare and Explore Scenarios see too; kept in localStorage between visits
+let currentSettings: StressorSettings | null = null;
+const listeners = new Set<() => void>();
+
+function loadSettings(): StressorSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as StressorSettings) : {};
+  } catch {
+    return {};
+  }
+}
+
+function getSnapshot(): StressorSettings {
+  if (!currentSettings) currentSettings = loadSettings();
+  return currentSettings;
+}
+
+function setSettings(settings: StressorSettings) {
+  currentSettings = settings;
+  if (Object.keys(settings).length > 0) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Follow changes made in other tabs
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    currentSettings = loadSettings();
+    listener();
+  };
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+/**
+ * Stressor parameter settings shared across pages. Only parameters moved off
+ * their default are stored, so untouched stressors use the base polarities.
+ */
+export function useStressorSettings() {
+  const settings = useSyncExternalStore(subscribe, getSnapshot);
+
+  // Takes the parameter itself, since custom stressors' parameters aren't known here
+  const setParameter = useCallback((stressorId: StressorId, parameter: StressorParameter, value: number) => {
+    const { [stressorId]: stressorValues = {}, ...others } = getSnapshot();
+    const { [parameter.id]: _previous, ...otherValues } = stressorValues;
+    const nextValues = value === parameter.defaultValue ? otherValues : { ...otherValues, [parameter.id]: value };
+    setSettings(Object.keys(nextValues).length > 0 ? { ...others, [stressorId]: nextValues } : others);
+  }, []);
+
+  const resetStressor = useCallback((stressorId: StressorId) => {
+    const { [stressorId]: _reset, ...others } = getSnapshot();
+    setSettings(others);
+  }, []);
+
+  const resetAll = useCallback(() => setSettings({}), []);
+
+  return { settings, setParameter, resetStressor, resetAll };
+}
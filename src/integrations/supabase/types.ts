@@ -14,42 +14,374 @@ export type Database = {
   }
   public: {
     Tables: {
+      custom_archetypes: {
+        Row: {
+          category: string
+          created_at: string
+          description: string
+          edit_token_hash: string | null
+          id: string
+          image_prompt: string
+          name: string
+          owner_id: string | null
+          updated_at: string
+          value_profile: Json
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          description?: string
+          edit_token_hash?: string | null
+          id?: string
+          image_prompt?: string
+          name: string
+          owner_id?: string | null
+          updated_at?: string
+          value_profile?: Json
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          description?: string
+          edit_token_hash?: string | null
+          id?: string
+          image_prompt?: string
+          name?: string
+          owner_id?: string | null
+          updated_at?: string
+          value_profile?: Json
+        }
+        Relationships: []
+      }
+      custom_stressors: {
+        Row: {
+          created_at: string
+          description: string
+          edit_token_hash: string | null
+          example: string
+          id: string
+          name: string
+          owner_id: string | null
+          parameters: Json
+          polarities: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          edit_token_hash?: string | null
+          example?: string
+          id?: string
+          name: string
+          owner_id?: string | null
+          parameters?: Json
+          polarities: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          edit_token_hash?: string | null
+          example?: string
+          id?: string
+          name?: string
+          owner_id?: string | null
+          parameters?: Json
+          polarities?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      job_analyses: {
+        Row: {
+          clarification_responses: Json
+          confidence: Json
+          created_at: string
+          description_hash: string | null
+          detected_job_title: string | null
+          edit_token_hash: string | null
+          id: string
+          job_description: string
+          occupational_context: Json | null
+          onet_enriched: boolean
+          owner_id: string | null
+          rationales: Json
+          scores: Json
+          sources: Json
+          updated_at: string
+        }
+        Insert: {
+          clarification_responses?: Json
+          confidence?: Json
+          created_at?: string
+          description_hash?: never
+          detected_job_title?: string | null
+          edit_token_hash?: string | null
+          id?: string
+          job_description: string
+          occupational_context?: Json | null
+          onet_enriched?: boolean
+          owner_id?: string | null
+          rationales?: Json
+          scores: Json
+          sources?: Json
+          updated_at?: string
+        }
+        Update: {
+          clarification_responses?: Json
+          confidence?: Json
+          created_at?: string
+          description_hash?: never
+          detected_job_title?: string | null
+          edit_token_hash?: string | null
+          id?: string
+          job_description?: string
+          occupational_context?: Json | null
+          onet_enriched?: boolean
+          owner_id?: string | null
+          rationales?: Json
+          scores?: Json
+          sources?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      polarity_models: {
+        Row: {
+          created_at: string
+          description: string
+          edit_token_hash: string | null
+          forked_from: string | null
+          id: string
+          justifications: Json
+          name: string
+          owner_id: string | null
+          polarities: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          edit_token_hash?: string | null
+          forked_from?: string | null
+          id?: string
+          justifications?: Json
+          name: string
+          owner_id?: string | null
+          polarities: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          edit_token_hash?: string | null
+          forked_from?: string | null
+          id?: string
+          justifications?: Json
+          name?: string
+          owner_id?: string | null
+          polarities?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "polarity_models_forked_from_fkey"
+            columns: ["forked_from"]
+            isOneToOne: false
+            referencedRelation: "polarity_models"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profile_versions: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          profile_id: string
+          score_mode: string
+          scores: Json
+          system_prompt: string | null
+          version_number: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          profile_id: string
+          score_mode?: string
+          scores: Json
+          system_prompt?: string | null
+          version_number: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          profile_id?: string
+          score_mode?: string
+          scores?: Json
+          system_prompt?: string | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_versions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          collection: string | null
           created_at: string
           description: string | null
+          dominant_higher_order: string | null
+          edit_token_hash: string | null
           id: string
           name: string
+          nearest_archetype: string | null
+          owner_id: string | null
+          score_mode: string
           scores: Json
           system_prompt: string | null
+          tags: string[]
           updated_at: string
         }
         Insert: {
+          collection?: string | null
           created_at?: string
           description?: string | null
+          dominant_higher_order?: string | null
+          edit_token_hash?: string | null
           id?: string
           name?: string
+          nearest_archetype?: string | null
+          owner_id?: string | null
+          score_mode?: string
           scores?: Json
           system_prompt?: string | null
+          tags?: string[]
           updated_at?: string
         }
         Update: {
+          collection?: string | null
           created_at?: string
           description?: string | null
+          dominant_higher_order?: string | null
+          edit_token_hash?: string | null
           id?: string
           name?: string
+          nearest_archetype?: string | null
+          owner_id?: string | null
+          score_mode?: string
           scores?: Json
           system_prompt?: string | null
+          tags?: string[]
           updated_at?: string
         }
         Relationships: []
       }
+      scenarios: {
+        Row: {
+          content: string
+          created_at: string
+          edit_token_hash: string | null
+          id: string
+          kind: string
+          model: string | null
+          owner_id: string | null
+          parent_id: string | null
+          participants: Json
+          rating: number | null
+          request: Json
+          stressors: string[]
+          system_prompt: string
+          tags: string[]
+          title: string
+          updated_at: string
+          user_prompt: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          edit_token_hash?: string | null
+          id?: string
+          kind: string
+          model?: string | null
+          owner_id?: string | null
+          parent_id?: string | null
+          participants?: Json
+          rating?: number | null
+          request: Json
+          stressors?: string[]
+          system_prompt: string
+          tags?: string[]
+          title: string
+          updated_at?: string
+          user_prompt: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          edit_token_hash?: string | null
+          id?: string
+          kind?: string
+          model?: string | null
+          owner_id?: string | null
+          parent_id?: string | null
+          participants?: Json
+          rating?: number | null
+          request?: Json
+          stressors?: string[]
+          system_prompt?: string
+          tags?: string[]
+          title?: string
+          updated_at?: string
+          user_prompt?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scenarios_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "scenarios"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_edit_profile: {
+        Args: { profile_edit_token_hash: string; profile_owner_id: string }
+        Returns: boolean
+      }
+      polarities_in_range: { Args: { polarities: Json }; Returns: boolean }
+      profile_library_facets: {
+        Args: never
+        Returns: {
+          kind: string
+          profile_count: number
+          value: string
+        }[]
+      }
+      request_edit_token_hash: { Args: never; Returns: string }
+      scenario_tags: {
+        Args: never
+        Returns: {
+          scenario_count: number
+          tag: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
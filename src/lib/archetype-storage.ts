@@ -0,0 +1,213 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Archetype, ARCHETYPES } from './archetypes';
+import {
+  EDIT_TOKEN_HEADER,
+  forgetEditToken,
+  getCurrentUserId,
+  getEditToken,
+  hashEditToken,
+  storeEditToken,
+} from './profile-storage';
+
+export interface DbCustomArchetype {
+  id: string;
+  name: string;
+  description: string;
+  image_prompt: string;
+  value_profile: Record<string, number>;
+  category: string;
+  owner_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomArchetypeInput {
+  name: string;
+  description: string;
+  imagePrompt: string;
+  valueProfile: Record<string, number>;
+}
+
+/** A custom archetype returned from save, with the secret that grants edit access to it */
+export interface SavedCustomArchetype extends DbCustomArchetype {
+  /** Present only for anonymous creators; signed-in owners edit via their session. */
+  editToken: string | null;
+}
+
+function jsonToValueProfile(json: Json): Record<string, number> {
+  return json as unknown as Record<string, number>;
+}
+
+function toDbCustomArchetype(row: Omit<DbCustomArchetype, 'value_profile'> & { value_profile: Json }): DbCustomArchetype {
+  return { ...row, value_profile: jsonToValueProfile(row.value_profile) };
+}
+
+/** Custom archetypes sit in their own category and carry their id so they can be edited */
+export function customToArchetype(archetype: DbCustomArchetype): Archetype {
+  return {
+    id: archetype.id,
+    name: archetype.name,
+    description: archetype.description,
+    imagePrompt: archetype.image_prompt,
+    valueProfile: archetype.value_profile,
+    category: 'custom',
+  };
+}
+
+/**
+ * Archetypes are looked up by name throughout the app (selections, session
+ * storage, prompts), so a custom archetype may not reuse a built-in name.
+ * The database rejects duplicate custom names.
+ */
+export function isBuiltInArchetypeName(name: string): boolean {
+  const normalized = name.trim().toLowerCase();
+  return ARCHETYPES.some(a => a.name.toLowerCase() === normalized);
+}
+
+function assertNameAvailable(name: string): void {
+  if (isBuiltInArchetypeName(name)) {
+    throw new Error(`"${name.trim()}" is already a built-in archetype. Please choose another name.`);
+  }
+}
+
+const DUPLICATE_NAME_ERROR = '23505';
+
+/** Shareable URL that grants edit access to whoever opens it. */
+export function getArchetypeEditLink(archetypeId: string, token: string): string {
+  return `${window.location.origin}/archetypes/${archetypeId}?edit=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Create a custom archetype. Like profiles, signed-in users own it through
+ * their account and anonymous creators get an edit token kept on this device.
+ */
+export async function saveCustomArchetype(archetype: CustomArchetypeInput): Promise<SavedCustomArchetype> {
+  assertNameAvailable(archetype.name);
+  const userId = await getCurrentUserId();
+  const editToken = userId ? null : crypto.randomUUID();
+
+  const { data, error } = await supabase
+    .from('custom_archetypes')
+    .insert({
+      name: archetype.name.trim(),
+      description: archetype.description,
+      image_prompt: archetype.imagePrompt,
+      value_profile: archetype.valueProfile as unknown as Json,
+      owner_id: userId,
+      edit_token_hash: editToken ? await hashEditToken(editToken) : null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === DUPLICATE_NAME_ERROR) {
+      throw new Error(`An archetype named "${archetype.name.trim()}" already exists.`);
+    }
+    console.error('Error saving custom archetype:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to save archetype. Please try again.');
+  }
+
+  if (editToken) {
+    storeEditToken(data.id, editToken);
+  }
+
+  return { ...toDbCustomArchetype(data), editToken };
+}
+
+export async function updateCustomArchetype(id: string, archetype: CustomArchetypeInput): Promise<DbCustomArchetype> {
+  assertNameAvailable(archetype.name);
+
+  let query = supabase
+    .from('custom_archetypes')
+    .update({
+      name: archetype.name.trim(),
+      description: archetype.description,
+      image_prompt: archetype.imagePrompt,
+      value_profile: archetype.valueProfile as unknown as Json,
+    })
+    .eq('id', id)
+    .select();
+
+  const editToken = getEditToken(id);
+  if (editToken) {
+    query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+  }
+
+  const { data, error } = await query.single();
+
+  if (error) {
+    // RLS filters out rows the viewer cannot edit, so no row comes back
+    if (error.code === 'PGRST116') {
+      throw new Error('You do not have permission to edit this archetype.');
+    }
+    if (error.code === DUPLICATE_NAME_ERROR) {
+      throw new Error(`An archetype named "${archetype.name.trim()}" already exists.`);
+    }
+    console.error('Error updating custom archetype:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to update archetype. Please try again.');
+  }
+
+  return toDbCustomArchetype(data);
+}
+
+export async function loadCustomArchetypes(): Promise<DbCustomArchetype[]> {
+  const { data, error } = await supabase
+    .from('custom_archetypes')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error loading custom archetypes:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load archetypes. Please try again.');
+  }
+
+  return data.map(toDbCustomArchetype);
+}
+
+export async function deleteCustomArchetype(id: string): Promise<void> {
+  let query = supabase
+    .from('custom_archetypes')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  const editToken = getEditToken(id);
+  if (editToken) {
+    query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error deleting custom archetype:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to delete archetype. Please try again.');
+  }
+
+  // RLS silently skips rows the viewer cannot delete
+  if (data.length === 0) {
+    throw new Error('You do not have permission to delete this archetype.');
+  }
+
+  forgetEditToken(id);
+}
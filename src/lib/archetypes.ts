@@ -1,5 +1,5 @@
 // Archetype categories and definitions for "Who Am I Most Like" feature
-import { ValueScores, getValueByCode, SCHWARTZ_VALUES } from './schwartz-values';
+import { ValueScores, ScoreMode, getValueByCode, SCHWARTZ_VALUES, applyScoreMode } from './schwartz-values';
 
 export type ArchetypeCategory =
   | 'fictional'
@@ -7,9 +7,12 @@ export type ArchetypeCategory =
   | 'superheroes'
   | 'mythological'
   | 'literary'
-  | 'cultural';
+  | 'cultural'
+  | 'custom';
 
 export interface Archetype {
+  /** Database id; only user-defined (custom) archetypes have one */
+  id?: string;
   name: string;
   description: string;
   imagePrompt: string;
@@ -27,6 +30,17 @@ export interface Archetype {
   category: ArchetypeCategory;
 }
 
+/** Short names for the valueProfile weights, as documented on Archetype */
+export const ARCHETYPE_WEIGHT_LABELS: Record<number, string> = {
+  [-3]: 'Opposed',
+  [-2]: 'Avoided',
+  [-1]: 'Downplayed',
+  [0]: 'Neutral',
+  [1]: 'Present',
+  [2]: 'Important',
+  [3]: 'Defining',
+};
+
 export const ARCHETYPE_CATEGORIES: { value: ArchetypeCategory; label: string; description: string }[] = [
   { value: 'fictional', label: 'Fictional Characters', description: 'Popular characters from movies and TV' },
   { value: 'historical', label: 'Historical Figures', description: 'Notable people from history (non-living)' },
@@ -34,6 +48,7 @@ export const ARCHETYPE_CATEGORIES: { value: ArchetypeCategory; label: string; de
   { value: 'mythological', label: 'Gods & Mythology', description: 'Deities and supernatural beings' },
   { value: 'literary', label: 'Literary Characters', description: 'Characters from famous novels' },
   { value: 'cultural', label: 'Cultural Roles', description: 'Archetypal social and cultural role expectations' },
+  { value: 'custom', label: 'Custom Archetypes', description: 'Archetypes defined and shared by users' },
 ];
 
 export const ARCHETYPES: Archetype[] = [
@@ -640,64 +655,117 @@ export const ARCHETYPES: Archetype[] = [
   },
 ];
 
+/** How one value contributes to the distance between a profile and an archetype */
+export interface ValueMatchContribution {
+  code: string;
+  label: string;
+  /** Profile score after the score mode is applied */
+  userScore: number;
+  /** Archetype score on the 0–7 scale after the score mode is applied */
+  archetypeScore: number;
+  /** userScore − archetypeScore */
+  difference: number;
+  squaredDifference: number;
+  /** Fraction of the total squared distance due to this value (0–1) */
+  share: number;
+}
+
+export interface ArchetypeMatchBreakdown {
+  archetype: Archetype;
+  /** One entry per value, in circumplex order */
+  contributions: ValueMatchContribution[];
+  /** Euclidean distance between the two profiles */
+  distance: number;
+  /** Largest possible distance, used to normalise */
+  maxDistance: number;
+  /** 1 − distance / maxDistance, before the curve */
+  similarity: number;
+  /** similarity raised to MATCH_CURVE_EXPONENT; this is the match score shown */
+  score: number;
+}
+
 /**
- * Calculate match score using Euclidean distance on actual value positions
- * This properly measures how close the user's profile is to the archetype
- * Returns a value from 0 to 1, where 1 is a perfect match
+ * Exponent applied to the linear similarity. Most profiles are 50–80%
+ * similar to most archetypes; the curve spreads that range out.
  */
-function calculateArchetypeMatch(userScores: ValueScores, archetype: Archetype): number {
-  // Convert archetype weights to the 0-7 scale for direct comparison
-  const archetypeScores: Record<string, number> = {};
-  const weightToScore: Record<number, number> = {
-    [-3]: 0.5,
-    [-2]: 1.5,
-    [-1]: 2.5,
-    [0]: 3.5,
-    [1]: 4.5,
-    [2]: 5.5,
-    [3]: 6.5,
-  };
-  
-  for (const value of SCHWARTZ_VALUES) {
-    const weight = archetype.valueProfile[value.code] ?? 0;
-    archetypeScores[value.code] = weightToScore[weight] ?? 3.5;
-  }
-  
-  // Calculate squared Euclidean distance between profiles
-  let sumSquaredDiff = 0;
-  let maxPossibleDiff = 0;
-  
-  for (const value of SCHWARTZ_VALUES) {
-    const userVal = userScores[value.code] ?? 3.5;
-    const archVal = archetypeScores[value.code];
-    
-    const diff = userVal - archVal;
-    sumSquaredDiff += diff * diff;
-    
-    // Max possible difference is 6.5 (from 0.5 to 7 or vice versa)
-    maxPossibleDiff += 6.5 * 6.5;
-  }
-  
-  // Convert distance to similarity (0 = max distance, 1 = identical)
+export const MATCH_CURVE_EXPONENT = 1.5;
+
+// Max possible difference per value is 6.5 (from 0.5 to 7 or vice versa)
+const MAX_VALUE_DIFFERENCE = 6.5;
+
+/**
+ * Match between a profile and an archetype using Euclidean distance on actual
+ * value positions, with the contribution of every value to that distance.
+ *
+ * In centred mode both profiles are shifted to their own mean first, so the
+ * match compares the shape of the profiles rather than their overall level.
+ */
+export function explainArchetypeMatch(
+  rawUserScores: ValueScores,
+  archetype: Archetype,
+  mode: ScoreMode = 'raw'
+): ArchetypeMatchBreakdown {
+  const userScores = applyScoreMode(rawUserScores, mode);
+  const archetypeScores = applyScoreMode(archetypeToScores(archetype), mode);
+
+  const differences = SCHWARTZ_VALUES.map(value => {
+    const userScore = userScores[value.code] ?? 3.5;
+    const archetypeScore = archetypeScores[value.code];
+    const difference = userScore - archetypeScore;
+    return { code: value.code, label: value.label, userScore, archetypeScore, difference, squaredDifference: difference * difference };
+  });
+
+  const sumSquaredDiff = differences.reduce((sum, d) => sum + d.squaredDifference, 0);
   const distance = Math.sqrt(sumSquaredDiff);
-  const maxDistance = Math.sqrt(maxPossibleDiff);
+  const maxDistance = Math.sqrt(SCHWARTZ_VALUES.length * MAX_VALUE_DIFFERENCE * MAX_VALUE_DIFFERENCE);
+  // Convert distance to similarity (0 = max distance, 1 = identical)
   const similarity = 1 - (distance / maxDistance);
-  
-  // Apply a curve to spread out the middle values
-  // Most profiles will be 50-80% similar, this spreads that range
-  const curved = Math.pow(similarity, 1.5);
-  
-  return curved;
+
+  return {
+    archetype,
+    contributions: differences.map(d => ({
+      ...d,
+      share: sumSquaredDiff > 0 ? d.squaredDifference / sumSquaredDiff : 0,
+    })),
+    distance,
+    maxDistance,
+    similarity,
+    score: Math.pow(similarity, MATCH_CURVE_EXPONENT),
+  };
 }
 
-export function findBestArchetype(scores: ValueScores, category: ArchetypeCategory): Archetype {
-  const categoryArchetypes = ARCHETYPES.filter(a => a.category === category);
+/**
+ * Calculate match score using Euclidean distance on actual value positions
+ * Returns a value from 0 to 1, where 1 is a perfect match
+ */
+function calculateArchetypeMatch(rawUserScores: ValueScores, archetype: Archetype, mode: ScoreMode = 'raw'): number {
+  return explainArchetypeMatch(rawUserScores, archetype, mode).score;
+}
+
+/** Categories with the archetypes in each, leaving out categories that have none */
+export function groupArchetypesByCategory(archetypes: Archetype[] = ARCHETYPES) {
+  return ARCHETYPE_CATEGORIES
+    .map(cat => ({
+      ...cat,
+      archetypes: archetypes.filter(a => a.category === cat.value),
+    }))
+    .filter(cat => cat.archetypes.length > 0);
+}
+
+/** Best-matching archetype within a category, or undefined if the category is empty */
+export function findBestArchetype(
+  scores: ValueScores,
+  category: ArchetypeCategory,
+  mode: ScoreMode = 'raw',
+  archetypes: Archetype[] = ARCHETYPES
+): Archetype | undefined {
+  const categoryArchetypes = archetypes.filter(a => a.category === category);
   
   let bestArchetype = categoryArchetypes[0];
   let bestScore = -Infinity;
   
   categoryArchetypes.forEach(archetype => {
-    const matchScore = calculateArchetypeMatch(scores, archetype);
+    const matchScore = calculateArchetypeMatch(scores, archetype, mode);
     if (matchScore > bestScore) {
       bestScore = matchScore;
       bestArchetype = archetype;
@@ -707,8 +775,39 @@ export function findBestArchetype(scores: ValueScores, category: ArchetypeCatego
   return bestArchetype;
 }
 
-export function getMatchScore(scores: ValueScores, archetype: Archetype): number {
-  return calculateArchetypeMatch(scores, archetype);
+/** Best-matching archetype across every category */
+export function findNearestArchetype(
+  scores: ValueScores,
+  mode: ScoreMode = 'raw',
+  archetypes: Archetype[] = ARCHETYPES
+): Archetype {
+  let bestArchetype = archetypes[0];
+  let bestScore = -Infinity;
+
+  archetypes.forEach(archetype => {
+    const matchScore = calculateArchetypeMatch(scores, archetype, mode);
+    if (matchScore > bestScore) {
+      bestScore = matchScore;
+      bestArchetype = archetype;
+    }
+  });
+
+  return bestArchetype;
+}
+
+export function getMatchScore(scores: ValueScores, archetype: Archetype, mode: ScoreMode = 'raw'): number {
+  return calculateArchetypeMatch(scores, archetype, mode);
+}
+
+/** Every given archetype's match with the profile, best first */
+export function rankArchetypeMatches(
+  scores: ValueScores,
+  archetypes: Archetype[],
+  mode: ScoreMode = 'raw'
+): ArchetypeMatchBreakdown[] {
+  return archetypes
+    .map(archetype => explainArchetypeMatch(scores, archetype, mode))
+    .sort((a, b) => b.score - a.score);
 }
 
 export function getMatchingValues(scores: ValueScores, archetype: Archetype): string[] {
@@ -757,10 +856,14 @@ function calculateArchetypeSimilarity(a: Archetype, b: Archetype): number {
 /**
  * Find archetypes similar to the given archetype (across all categories)
  */
-export function findSimilarArchetypes(archetype: Archetype, limit: number = 4): Archetype[] {
+export function findSimilarArchetypes(
+  archetype: Archetype,
+  limit: number = 4,
+  archetypes: Archetype[] = ARCHETYPES
+): Archetype[] {
   const similarities: { archetype: Archetype; score: number }[] = [];
   
-  for (const other of ARCHETYPES) {
+  for (const other of archetypes) {
     if (other.name === archetype.name) continue;
     const score = calculateArchetypeSimilarity(archetype, other);
     similarities.push({ archetype: other, score });
@@ -804,3 +907,18 @@ export function archetypeToScores(archetype: Archetype): ValueScores {
   
   return scores;
 }
+
+/**
+ * Inverse of archetypeToScores: converts 0–7 scores to -3..3 weights,
+ * omitting neutral values.
+ */
+export function scoresToValueProfile(scores: ValueScores): Record<string, number> {
+  const profile: Record<string, number> = {};
+  for (const [code, score] of Object.entries(scores)) {
+    const weight = Math.round(score - 3.5);
+    if (weight !== 0) {
+      profile[code] = Math.max(-3, Math.min(3, weight));
+    }
+  }
+  return profile;
+}
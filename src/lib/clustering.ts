@@ -0,0 +1,301 @@
+/**
+ * Profile Clustering Module
+ *
+ * Groups saved profiles by similarity of their 19-value vectors so that
+ * archetypes can emerge from data rather than be hand-curated. Supports
+ * k-means (k-means++ seeding) and agglomerative hierarchical clustering
+ * (average linkage), both over Euclidean distance, with silhouette scores
+ * to judge how well separated the clusters are.
+ */
+
+import { ValueScores, ScoreMode, VALUE_CODES, applyScoreMode } from './schwartz-values';
+import { CohortMember } from './cohort-analysis';
+
+export type ClusteringMethod = 'kmeans' | 'hierarchical';
+
+export const CLUSTERING_METHODS: { value: ClusteringMethod; label: string; description: string }[] = [
+  { value: 'kmeans', label: 'k-means', description: 'Partitions profiles around k centroids' },
+  { value: 'hierarchical', label: 'Hierarchical', description: 'Merges the closest groups (average linkage) until k remain' },
+];
+
+export interface Cluster {
+  index: number;
+  /** Mean scores of the members, in the chosen score mode */
+  centroid: ValueScores;
+  members: CohortMember[];
+  /** Mean silhouette of this cluster's members (-1 to 1) */
+  silhouette: number;
+}
+
+export interface ClusteringResult {
+  method: ClusteringMethod;
+  k: number;
+  clusters: Cluster[];
+  /** Mean silhouette over all profiles (-1 to 1); higher means better separated */
+  silhouette: number;
+}
+
+type Vector = number[];
+
+function toVector(scores: ValueScores): Vector {
+  return VALUE_CODES.map(code => scores[code] ?? 3.5);
+}
+
+function toScores(vector: Vector): ValueScores {
+  return VALUE_CODES.reduce((acc, code, i) => {
+    acc[code] = vector[i];
+    return acc;
+  }, {} as ValueScores);
+}
+
+function distance(a: Vector, b: Vector): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - b[i]) ** 2;
+  }
+  return Math.sqrt(sum);
+}
+
+function meanVector(vectors: Vector[]): Vector {
+  const mean = new Array(VALUE_CODES.length).fill(0);
+  vectors.forEach(v => v.forEach((x, i) => { mean[i] += x / vectors.length; }));
+  return mean;
+}
+
+/** Small seeded PRNG (mulberry32) so k-means gives the same answer on every render */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * k-means with k-means++ seeding. Returns a cluster index for each vector.
+ */
+export function kMeans(vectors: Vector[], k: number, maxIterations: number = 100, seed: number = 1): number[] {
+  const n = vectors.length;
+  if (n === 0) return [];
+  const clusterCount = Math.min(k, n);
+  const random = seededRandom(seed);
+
+  // k-means++: each new centroid is picked with probability proportional to squared distance
+  const centroids: Vector[] = [vectors[Math.floor(random() * n)]];
+  while (centroids.length < clusterCount) {
+    const weights = vectors.map(v => Math.min(...centroids.map(c => distance(v, c))) ** 2);
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    if (totalWeight === 0) {
+      // Fewer distinct points than k; reuse one
+      centroids.push(vectors[centroids.length % n]);
+      continue;
+    }
+    let target = random() * totalWeight;
+    let chosen = 0;
+    while (chosen < n - 1 && target >= weights[chosen]) {
+      target -= weights[chosen];
+      chosen++;
+    }
+    centroids.push(vectors[chosen]);
+  }
+
+  let assignments = new Array(n).fill(-1);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = vectors.map(v => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centroids.forEach((c, i) => {
+        const d = distance(v, c);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = i;
+        }
+      });
+      return best;
+    });
+
+    const changed = next.some((a, i) => a !== assignments[i]);
+    assignments = next;
+    if (!changed) break;
+
+    centroids.forEach((_, i) => {
+      const members = vectors.filter((_, j) => assignments[j] === i);
+      // Keep an emptied centroid where it was rather than dropping the cluster
+      if (members.length > 0) centroids[i] = meanVector(members);
+    });
+  }
+
+  return assignments;
+}
+
+/** One agglomeration step: clusters `a` and `b` merged at the given distance */
+export interface DendrogramMerge {
+  a: number;
+  b: number;
+  distance: number;
+}
+
+/**
+ * Agglomerative clustering with average linkage, using the Lance–Williams
+ * update so each merge costs O(n²). Returns the n − 1 merges in order; cut
+ * it with `cutDendrogram` to get any number of clusters without re-running.
+ * Cluster ids: 0..n−1 are the original points, merge i creates id n + i.
+ */
+export function buildDendrogram(vectors: Vector[]): DendrogramMerge[] {
+  const n = vectors.length;
+  const active = new Map<number, { id: number; size: number }>();
+  const distances: number[][] = vectors.map(a => vectors.map(b => distance(a, b)));
+  for (let i = 0; i < n; i++) active.set(i, { id: i, size: 1 });
+
+  const merges: DendrogramMerge[] = [];
+  for (let step = 0; step < n - 1; step++) {
+    let bestI = -1;
+    let bestJ = -1;
+    let bestDistance = Infinity;
+    const slots = Array.from(active.keys());
+    for (let x = 0; x < slots.length; x++) {
+      for (let y = x + 1; y < slots.length; y++) {
+        const d = distances[slots[x]][slots[y]];
+        if (d < bestDistance) {
+          bestDistance = d;
+          bestI = slots[x];
+          bestJ = slots[y];
+        }
+      }
+    }
+
+    const left = active.get(bestI)!;
+    const right = active.get(bestJ)!;
+    merges.push({ a: left.id, b: right.id, distance: bestDistance });
+
+    // Slot bestI now holds the merged cluster; average linkage weights by size
+    const mergedSize = left.size + right.size;
+    for (const slot of active.keys()) {
+      if (slot === bestI || slot === bestJ) continue;
+      const d = (distances[bestI][slot] * left.size + distances[bestJ][slot] * right.size) / mergedSize;
+      distances[bestI][slot] = d;
+      distances[slot][bestI] = d;
+    }
+    active.set(bestI, { id: n + step, size: mergedSize });
+    active.delete(bestJ);
+  }
+
+  return merges;
+}
+
+/** Cluster index for each original point after undoing the last k − 1 merges */
+export function cutDendrogram(merges: DendrogramMerge[], n: number, k: number): number[] {
+  const parent = Array.from({ length: n + merges.length }, (_, i) => i);
+  const find = (x: number): number => (parent[x] === x ? x : (parent[x] = find(parent[x])));
+
+  const mergeCount = Math.max(0, n - Math.max(1, k));
+  merges.slice(0, mergeCount).forEach((merge, i) => {
+    const id = n + i;
+    parent[find(merge.a)] = id;
+    parent[find(merge.b)] = id;
+  });
+
+  // Renumber roots as 0..k−1 in order of first appearance
+  const labels = new Map<number, number>();
+  return Array.from({ length: n }, (_, i) => {
+    const root = find(i);
+    if (!labels.has(root)) labels.set(root, labels.size);
+    return labels.get(root)!;
+  });
+}
+
+/**
+ * Silhouette of each point: (b − a) / max(a, b), where a is the mean distance
+ * to its own cluster and b the mean distance to the nearest other cluster.
+ * Points alone in their cluster score 0.
+ */
+export function silhouetteScores(vectors: Vector[], assignments: number[]): number[] {
+  const clusterIds = Array.from(new Set(assignments));
+  if (clusterIds.length < 2) return vectors.map(() => 0);
+
+  return vectors.map((v, i) => {
+    const own = assignments[i];
+    const meanDistanceTo = (cluster: number) => {
+      let sum = 0;
+      let count = 0;
+      vectors.forEach((w, j) => {
+        if (j !== i && assignments[j] === cluster) {
+          sum += distance(v, w);
+          count++;
+        }
+      });
+      return count > 0 ? sum / count : NaN;
+    };
+
+    const a = meanDistanceTo(own);
+    if (Number.isNaN(a)) return 0;
+    const b = Math.min(...clusterIds.filter(c => c !== own).map(meanDistanceTo));
+    const denominator = Math.max(a, b);
+    return denominator === 0 ? 0 : (b - a) / denominator;
+  });
+}
+
+function assign(vectors: Vector[], method: ClusteringMethod, k: number, dendrogram?: DendrogramMerge[]): number[] {
+  return method === 'kmeans'
+    ? kMeans(vectors, k)
+    : cutDendrogram(dendrogram ?? buildDendrogram(vectors), vectors.length, k);
+}
+
+function mean(numbers: number[]): number {
+  return numbers.length > 0 ? numbers.reduce((sum, x) => sum + x, 0) / numbers.length : 0;
+}
+
+/**
+ * Cluster profiles into k groups. In centred mode each profile is shifted to
+ * its own mean first, so clusters reflect relative priorities.
+ */
+export function clusterProfiles(
+  members: CohortMember[],
+  k: number,
+  method: ClusteringMethod = 'kmeans',
+  mode: ScoreMode = 'raw'
+): ClusteringResult {
+  const vectors = members.map(m => toVector(applyScoreMode(m.scores, mode)));
+  const assignments = assign(vectors, method, k);
+  const silhouettes = silhouetteScores(vectors, assignments);
+
+  const clusterIds = Array.from(new Set(assignments)).sort((a, b) => a - b);
+  const clusters = clusterIds
+    .map(id => {
+      const indices = assignments.flatMap((a, i) => (a === id ? [i] : []));
+      return {
+        index: 0,
+        centroid: toScores(meanVector(indices.map(i => vectors[i]))),
+        members: indices.map(i => members[i]),
+        silhouette: mean(indices.map(i => silhouettes[i])),
+      };
+    })
+    // Largest clusters first
+    .sort((a, b) => b.members.length - a.members.length)
+    .map((cluster, index) => ({ ...cluster, index }));
+
+  return { method, k: clusters.length, clusters, silhouette: mean(silhouettes) };
+}
+
+/**
+ * Overall silhouette for each k in the range, to help choose k. The
+ * hierarchical dendrogram is built once and cut at every k.
+ */
+export function silhouetteByK(
+  members: CohortMember[],
+  method: ClusteringMethod = 'kmeans',
+  mode: ScoreMode = 'raw',
+  minK: number = 2,
+  maxK: number = 8
+): { k: number; silhouette: number }[] {
+  const vectors = members.map(m => toVector(applyScoreMode(m.scores, mode)));
+  const dendrogram = method === 'hierarchical' ? buildDendrogram(vectors) : undefined;
+  const results: { k: number; silhouette: number }[] = [];
+  for (let k = minK; k <= Math.min(maxK, vectors.length - 1); k++) {
+    results.push({ k, silhouette: mean(silhouetteScores(vectors, assign(vectors, method, k, dendrogram))) });
+  }
+  return results;
+}
@@ -0,0 +1,156 @@
+/**
+ * Cohort Analysis Module
+ *
+ * Aggregates a group of profiles (e.g. workshop participants) into per-value
+ * descriptive statistics, a centroid profile and a list of the members who
+ * sit furthest from it.
+ */
+
+import { ValueScores, ScoreMode, SCHWARTZ_VALUES, applyScoreMode } from './schwartz-values';
+
+/**
+ * Which saved profiles make up a cohort, encoded as a string for Select
+ * values: "all", "collection:<name>" or "tag:<name>".
+ */
+export type CohortSourceKey = string;
+
+export const ALL_PROFILES_SOURCE: CohortSourceKey = 'all';
+
+/** Filter for loadCohortProfiles, or null if the key is not a valid source */
+export function parseCohortSource(key: CohortSourceKey): { collection?: string; tag?: string } | null {
+  if (key === ALL_PROFILES_SOURCE) return {};
+  const separator = key.indexOf(':');
+  if (separator === -1) return null;
+  const kind = key.slice(0, separator);
+  const value = key.slice(separator + 1);
+  if (kind === 'collection') return { collection: value };
+  if (kind === 'tag') return { tag: value };
+  return null;
+}
+
+export interface CohortMember {
+  id: string;
+  name: string;
+  scores: ValueScores;
+}
+
+export interface ValueStatistics {
+  code: string;
+  label: string;
+  mean: number;
+  /** Population standard deviation */
+  sd: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+}
+
+export interface CohortStatistics {
+  count: number;
+  values: ValueStatistics[];
+  /** Per-value means — the cohort centroid */
+  meanScores: ValueScores;
+  /** Per-value standard deviations */
+  sdScores: ValueScores;
+}
+
+export interface ValueDeviation {
+  code: string;
+  label: string;
+  /** Member score minus cohort mean */
+  deviation: number;
+}
+
+export interface CohortOutlier {
+  member: CohortMember;
+  /** Euclidean distance from the centroid across all 19 values */
+  distance: number;
+  /** Values where this member differs most from the cohort, largest first */
+  topDeviations: ValueDeviation[];
+}
+
+/** Linear-interpolated quantile (same method as numpy's default) of a sorted array */
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Per-value mean, standard deviation and five-number summary.
+ * In centred mode each member is first shifted so their own mean sits at the
+ * scale midpoint, so statistics describe relative priorities.
+ */
+export function calculateCohortStatistics(
+  members: CohortMember[],
+  mode: ScoreMode = 'raw'
+): CohortStatistics {
+  const scoresList = members.map(m => applyScoreMode(m.scores, mode));
+  const meanScores: ValueScores = {};
+  const sdScores: ValueScores = {};
+
+  const values = SCHWARTZ_VALUES.map(value => {
+    const sorted = scoresList
+      .map(scores => scores[value.code] ?? 3.5)
+      .sort((a, b) => a - b);
+    const n = sorted.length;
+    const mean = n > 0 ? sorted.reduce((sum, s) => sum + s, 0) / n : 3.5;
+    const variance = n > 0 ? sorted.reduce((sum, s) => sum + (s - mean) ** 2, 0) / n : 0;
+    const sd = Math.sqrt(variance);
+
+    meanScores[value.code] = mean;
+    sdScores[value.code] = sd;
+
+    return {
+      code: value.code,
+      label: value.label,
+      mean,
+      sd,
+      min: n > 0 ? sorted[0] : 3.5,
+      q1: quantile(sorted, 0.25),
+      median: quantile(sorted, 0.5),
+      q3: quantile(sorted, 0.75),
+      max: n > 0 ? sorted[n - 1] : 3.5,
+    };
+  });
+
+  return { count: members.length, values, meanScores, sdScores };
+}
+
+/**
+ * Members ranked by distance from the cohort centroid, furthest first.
+ *
+ * `centroid` must come from `calculateCohortStatistics` with the same mode.
+ */
+export function findCohortOutliers(
+  members: CohortMember[],
+  centroid: ValueScores,
+  count: number = 5,
+  mode: ScoreMode = 'raw',
+  deviationCount: number = 3
+): CohortOutlier[] {
+  return members
+    .map(member => {
+      const scores = applyScoreMode(member.scores, mode);
+      const deviations = SCHWARTZ_VALUES.map(value => ({
+        code: value.code,
+        label: value.label,
+        deviation: (scores[value.code] ?? 3.5) - (centroid[value.code] ?? 3.5),
+      }));
+      const distance = Math.sqrt(deviations.reduce((sum, d) => sum + d.deviation ** 2, 0));
+
+      return {
+        member,
+        distance,
+        topDeviations: deviations
+          .sort((a, b) => Math.abs(b.deviation) - Math.abs(a.deviation))
+          .slice(0, deviationCount),
+      };
+    })
+    .sort((a, b) => b.distance - a.distance)
+    .slice(0, count);
+}
@@ -0,0 +1,215 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+import { CustomStressor, StressorParameter } from './stressors';
+import { SCHWARTZ_VALUES } from './schwartz-values';
+import {
+  EDIT_TOKEN_HEADER,
+  forgetEditToken,
+  getCurrentUserId,
+  getEditToken,
+  hashEditToken,
+  storeEditToken,
+} from './profile-storage';
+
+export interface DbCustomStressor {
+  id: string;
+  name: string;
+  description: string;
+  example: string;
+  parameters: StressorParameter[];
+  polarities: Record<string, number>;
+  owner_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomStressorInput {
+  name: string;
+  description: string;
+  example: string;
+  parameters: StressorParameter[];
+  /** Value code → polarity, -1.0 to +1.0; missing values count as 0 */
+  polarities: Record<string, number>;
+}
+
+/** A newly saved stressor, with the secret that grants edit access to it */
+export interface SavedCustomStressor extends DbCustomStressor {
+  /** Present only for anonymous creators; signed-in owners edit via their session. */
+  editToken: string | null;
+}
+
+type CustomStressorRow = Database['public']['Tables']['custom_stressors']['Row'];
+
+function rowToCustomStressor({ edit_token_hash, ...row }: CustomStressorRow): DbCustomStressor {
+  return {
+    ...row,
+    parameters: row.parameters as unknown as StressorParameter[],
+    polarities: row.polarities as unknown as Record<string, number>,
+  };
+}
+
+/**
+ * The saved record in the shape the stressor calculations use. The prefixed
+ * id keeps it apart from the built-in stressors.
+ */
+export function toCustomStressor(stressor: DbCustomStressor): CustomStressor {
+  return {
+    id: `custom:${stressor.id}`,
+    name: stressor.name,
+    description: stressor.description,
+    example: stressor.example,
+    parameters: stressor.parameters,
+    polarities: stressor.polarities,
+  };
+}
+
+function validateStressor(stressor: CustomStressorInput): void {
+  if (!stressor.name.trim()) {
+    throw new Error('Please give the stressor a name.');
+  }
+  const outOfRange = SCHWARTZ_VALUES.find(v => {
+    const polarity = stressor.polarities[v.code] ?? 0;
+    return polarity < -1 || polarity > 1;
+  });
+  if (outOfRange) {
+    throw new Error(`The polarity for ${outOfRange.label} must be between -1 and 1.`);
+  }
+  if (stressor.parameters.some(p => !p.name.trim())) {
+    throw new Error('Every parameter needs a name.');
+  }
+}
+
+/** Every value gets a polarity, so the stressor is a full column of the matrix */
+function completePolarities(polarities: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(SCHWARTZ_VALUES.map(v => [v.code, polarities[v.code] ?? 0]));
+}
+
+/**
+ * Create a custom stressor. Like profiles, signed-in users own it through
+ * their account and anonymous creators get an edit token kept on this device.
+ */
+export async function saveCustomStressor(stressor: CustomStressorInput): Promise<SavedCustomStressor> {
+  validateStressor(stressor);
+  const userId = await getCurrentUserId();
+  const editToken = userId ? null : crypto.randomUUID();
+
+  const { data, error } = await supabase
+    .from('custom_stressors')
+    .insert({
+      name: stressor.name.trim(),
+      description: stressor.description.trim(),
+      example: stressor.example.trim(),
+      parameters: stressor.parameters as unknown as Json,
+      polarities: completePolarities(stressor.polarities) as unknown as Json,
+      owner_id: userId,
+      edit_token_hash: editToken ? await hashEditToken(editToken) : null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving custom stressor:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to save stressor. Please try again.');
+  }
+
+  if (editToken) {
+    storeEditToken(data.id, editToken);
+  }
+
+  return { ...rowToCustomStressor(data), editToken };
+}
+
+export async function updateCustomStressor(id: string, stressor: CustomStressorInput): Promise<DbCustomStressor> {
+  validateStressor(stressor);
+
+  let query = supabase
+    .from('custom_stressors')
+    .update({
+      name: stressor.name.trim(),
+      description: stressor.description.trim(),
+      example: stressor.example.trim(),
+      parameters: stressor.parameters as unknown as Json,
+      polarities: completePolarities(stressor.polarities) as unknown as Json,
+    })
+    .eq('id', id)
+    .select();
+
+  const editToken = getEditToken(id);
+  if (editToken) {
+    query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+  }
+
+  const { data, error } = await query.single();
+
+  if (error) {
+    // RLS filters out rows the viewer cannot edit, so no row comes back
+    if (error.code === 'PGRST116') {
+      throw new Error('You do not have permission to edit this stressor.');
+    }
+    console.error('Error updating custom stressor:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to update stressor. Please try again.');
+  }
+
+  return rowToCustomStressor(data);
+}
+
+export async function loadCustomStressors(): Promise<DbCustomStressor[]> {
+  const { data, error } = await supabase
+    .from('custom_stressors')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error loading custom stressors:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load stressors. Please try again.');
+  }
+
+  return data.map(rowToCustomStressor);
+}
+
+export async function deleteCustomStressor(id: string): Promise<void> {
+  let query = supabase
+    .from('custom_stressors')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  const editToken = getEditToken(id);
+  if (editToken) {
+    query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error deleting custom stressor:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to delete stressor. Please try again.');
+  }
+
+  // RLS silently skips rows the viewer cannot delete
+  if (data.length === 0) {
+    throw new Error('You do not have permission to delete this stressor.');
+  }
+
+  forgetEditToken(id);
+}
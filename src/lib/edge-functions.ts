@@ -0,0 +1,250 @@
+/**
+ * Client for the Supabase edge functions that call the LLM: plain JSON
+ * requests and OpenAI-style server-sent event streams.
+ */
+
+const SUPABASE_BASE_URL = (import.meta.env.VITE_SUPABASE_URL as string).replace(/\/$/, '');
+
+/** Dropped streams are resumed this many times before settling for the partial text */
+const MAX_STREAM_RETRIES = 2;
+const RETRY_DELAY_MS = 1000;
+
+export type EdgeFunctionErrorKind =
+  | 'rate_limited'       // 429
+  | 'credits_exhausted'  // 402
+  | 'http'               // any other non-2xx response
+  | 'network'            // request failed or the connection dropped
+  | 'stream';            // the stream was malformed or ended early
+
+export class EdgeFunctionError extends Error {
+  constructor(message: string, public kind: EdgeFunctionErrorKind, public status?: number) {
+    super(message);
+    this.name = 'EdgeFunctionError';
+  }
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface StreamResult {
+  text: string;
+  /** Null when the provider didn't report usage */
+  usage: TokenUsage | null;
+  /** True when the connection could not be recovered and text is only what arrived */
+  incomplete: boolean;
+  /** The model the provider reported, or null when it didn't say */
+  model: string | null;
+}
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  /** Called with the full text so far each time more arrives */
+  onText?: (text: string) => void;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/** A message fit for a toast, with the usual wording for rate limits and credits */
+export function getEdgeErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof EdgeFunctionError) {
+    if (error.kind === 'rate_limited') return 'Rate limit exceeded. Please try again later.';
+    if (error.kind === 'credits_exhausted') return 'AI credits exhausted. Please add funds.';
+    if (error.kind === 'http') return error.message;
+  }
+  return fallback;
+}
+
+async function postToFunction(functionName: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(`${SUPABASE_BASE_URL}/functions/v1/${functionName}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new EdgeFunctionError('Unable to reach the server', 'network');
+  }
+
+  if (!response.ok) {
+    let message = `Request failed (${response.status})`;
+    try {
+      const error = await response.json();
+      message = error.error || message;
+    } catch { /* non-JSON body */ }
+
+    if (response.status === 429) throw new EdgeFunctionError(message, 'rate_limited', 429);
+    if (response.status === 402) throw new EdgeFunctionError(message, 'credits_exhausted', 402);
+    throw new EdgeFunctionError(message, 'http', response.status);
+  }
+
+  return response;
+}
+
+/** Call a function that answers with JSON */
+export async function invokeEdgeFunction<T>(functionName: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  const response = await postToFunction(functionName, body, signal);
+  return response.json() as Promise<T>;
+}
+
+/** One parsed `data:` payload: a text delta, a usage report, or the end marker */
+export type SseEvent =
+  | { type: 'delta'; content: string; model?: string }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'done' };
+
+function* parseSseLines(lines: string[]): Generator<SseEvent> {
+  for (const rawLine of lines) {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+    if (!line.startsWith('data:')) continue;
+
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') {
+      yield { type: 'done' };
+      continue;
+    }
+
+    let parsed;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      throw new EdgeFunctionError('Received a malformed stream event', 'stream');
+    }
+
+    if (parsed.error) {
+      throw new EdgeFunctionError(parsed.error.message ?? String(parsed.error), 'stream');
+    }
+    const content = parsed.choices?.[0]?.delta?.content;
+    if (content) yield { type: 'delta', content, model: parsed.model };
+    if (parsed.usage) {
+      yield {
+        type: 'usage',
+        usage: {
+          promptTokens: parsed.usage.prompt_tokens ?? 0,
+          completionTokens: parsed.usage.completion_tokens ?? 0,
+          totalTokens: parsed.usage.total_tokens ?? 0,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Incremental parser for OpenAI-style chat completion streams. Feed it decoded
+ * text as it arrives; it buffers partial lines and yields the complete
+ * events. Comments and other fields are ignored. An error event, or a data
+ * line that isn't JSON, throws an EdgeFunctionError of kind 'stream' once
+ * the events before it in the chunk have been yielded, so no text is lost.
+ */
+export function createSseParser() {
+  let buffer = '';
+
+  return (chunk: string): Generator<SseEvent> => {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    return parseSseLines(lines);
+  };
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+/**
+ * Stream a function's reply. If the connection drops or the stream ends
+ * without its [DONE] marker, the request is repeated with `resumeFrom` set to
+ * the text so far, which the function asks the model to continue. When that
+ * keeps failing the partial text is returned with `incomplete` set rather
+ * than lost. Rejects with an AbortError when `signal` aborts (see isAbortError),
+ * and with EdgeFunctionError for HTTP errors or failures before any text.
+ */
+export async function streamEdgeFunction(
+  functionName: string,
+  body: Record<string, unknown>,
+  { signal, onText }: StreamOptions = {}
+): Promise<StreamResult> {
+  let text = '';
+  let usage: TokenUsage | null = null;
+  let model: string | null = null;
+
+  for (let attempt = 0; ; attempt++) {
+    let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+    try {
+      const response = await postToFunction(functionName, text ? { ...body, resumeFrom: text } : body, signal);
+      if (!response.body) {
+        throw new EdgeFunctionError('No response body', 'stream');
+      }
+
+      reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const parse = createSseParser();
+      let finished = false;
+
+      while (!finished) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          throw new EdgeFunctionError('The connection was interrupted', 'network');
+        }
+        if (chunk.done) break;
+
+        for (const event of parse(decoder.decode(chunk.value, { stream: true }))) {
+          if (event.type === 'delta') {
+            text += event.content;
+            model = event.model ?? model;
+            onText?.(text);
+          } else if (event.type === 'usage') {
+            // A resumed reply reports only its own tokens
+            usage = usage
+              ? {
+                  promptTokens: usage.promptTokens + event.usage.promptTokens,
+                  completionTokens: usage.completionTokens + event.usage.completionTokens,
+                  totalTokens: usage.totalTokens + event.usage.totalTokens,
+                }
+              : event.usage;
+          } else {
+            finished = true;
+          }
+        }
+      }
+
+      if (!finished) {
+        throw new EdgeFunctionError('The stream ended unexpectedly', 'stream');
+      }
+      return { text, usage, incomplete: false, model };
+    } catch (error) {
+      // Release the failed connection before retrying or giving up
+      reader?.cancel().catch(() => {});
+      if (isAbortError(error)) throw error;
+
+      const recoverable = error instanceof EdgeFunctionError && (error.kind === 'network' || error.kind === 'stream');
+      if (!recoverable || attempt >= MAX_STREAM_RETRIES) {
+        if (text) {
+          console.warn(`[${functionName}] stream could not be recovered, keeping partial text:`, error);
+          return { text, usage, incomplete: true, model };
+        }
+        throw error;
+      }
+      await wait(RETRY_DELAY_MS * 2 ** attempt, signal);
+    }
+  }
+}
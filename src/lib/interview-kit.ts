@@ -0,0 +1,274 @@
+/**
+ * Interview Kit Export
+ *
+ * Packages a role's inferred value profile and its clarification scenarios
+ * into a kit a candidate can take into an interview: a printable HTML page
+ * (saved as PDF from the browser's print dialog) and a Markdown file. Each
+ * scenario leaves room for the hiring manager's answer. Answers ticked in the
+ * Markdown kit can be read back with parseInterviewKitAnswers and applied to
+ * the scores like any other clarification response.
+ */
+
+import { SCHWARTZ_VALUES, ValueScores } from './schwartz-values';
+import {
+  ClarificationScenario,
+  ConfidenceLevel,
+  StressorSpreadInfo,
+  getResponseLabel,
+} from './job-clarification';
+import type { OccupationalContext } from './job-analysis-storage';
+import { PolarityModel, StressorId, getStressorById } from './stressors';
+
+type ResponseValue = 1 | 2 | 3 | 4 | 5;
+
+const RESPONSE_VALUES: ResponseValue[] = [1, 2, 3, 4, 5];
+
+export interface InterviewKit {
+  jobTitle?: string;
+  scores: ValueScores;
+  confidence: Record<string, ConfidenceLevel>;
+  rationales?: Record<string, string>;
+  occupationalContext?: OccupationalContext;
+  scenarios: ClarificationScenario[];
+  /** Stressor details behind each scenario, for the "differentiates" line */
+  stressors?: StressorSpreadInfo[];
+  generatedAt?: Date;
+}
+
+function kitTitle(kit: InterviewKit): string {
+  return kit.jobTitle?.trim() || 'This role';
+}
+
+/** Values ordered from most to least emphasised by the role */
+function rankedValues(kit: InterviewKit) {
+  return SCHWARTZ_VALUES
+    .map(value => ({
+      code: value.code,
+      label: value.label,
+      score: kit.scores[value.code] ?? 3.5,
+      confidence: kit.confidence[value.code] ?? 'unspecified',
+      rationale: kit.rationales?.[value.code],
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+function differentiates(kit: InterviewKit, scenario: ClarificationScenario): string | null {
+  const stressor = kit.stressors?.find(s => s.stressorId === scenario.stressorId);
+  if (!stressor) return null;
+  const high = stressor.highPolarityValues.map(v => v.label).join(', ') || 'values';
+  const low = stressor.lowPolarityValues.map(v => v.label).join(', ') || 'values';
+  return `${high} vs ${low}`;
+}
+
+/** File name stem for the kit, e.g. "senior-nurse-interview-kit" */
+export function getInterviewKitFileName(kit: InterviewKit): string {
+  const slug = kitTitle(kit).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'role'}-interview-kit`;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+// Marks each scenario in the Markdown kit so answers can be read back; custom
+// stressors' ids carry a prefix and a uuid
+const STRESSOR_MARKER = /<!--\s*stressor:\s*([a-z_]+|custom:[0-9a-f-]+)\s*-->/;
+
+export function buildInterviewKitMarkdown(kit: InterviewKit): string {
+  const generatedAt = kit.generatedAt ?? new Date();
+  const lines: string[] = [
+    `# Interview Kit: ${kitTitle(kit)}`,
+    '',
+    `_Generated ${generatedAt.toLocaleDateString()} from an inferred Schwartz value profile._`,
+    '',
+    '## How to use this kit',
+    '',
+    'Put each scenario to the hiring manager and ask which option the role would favour.',
+    'Tick one box per scenario (change `[ ]` to `[x]`) and note anything they add.',
+    'Import the completed file on the job analysis page to update the value scores.',
+    '',
+    '## Value profile',
+    '',
+    '| Value | Score (0–7) | Confidence | Rationale |',
+    '| --- | --- | --- | --- |',
+    ...rankedValues(kit).map(v =>
+      `| ${v.label} | ${v.score.toFixed(1)} | ${v.confidence} | ${(v.rationale ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ')} |`
+    ),
+    '',
+  ];
+
+  const ctx = kit.occupationalContext;
+  if (ctx) {
+    lines.push('## Occupational context (O*NET)', '', `**${ctx.occupationTitle}** (SOC ${ctx.socCode})`, '');
+    if (ctx.interestProfile.length > 0) lines.push(`- Holland interest profile: ${ctx.interestProfile.join(', ')}`);
+    if (ctx.topWorkStyles.length > 0) lines.push(`- Top work styles: ${ctx.topWorkStyles.join(', ')}`);
+    if (ctx.workValues.length > 0) lines.push(`- Work values: ${ctx.workValues.join(', ')}`);
+    if (ctx.isProfession && ctx.professionEthicsNote) lines.push(`- Regulated profession: ${ctx.professionEthicsNote}`);
+    lines.push('');
+  }
+
+  lines.push('## Scenarios', '');
+  kit.scenarios.forEach((scenario, i) => {
+    const contrast = differentiates(kit, scenario);
+    lines.push(
+      `### ${i + 1}. ${scenario.stressorName}`,
+      `<!-- stressor: ${scenario.stressorId} -->`,
+      '',
+      ...(contrast ? [`_Differentiates: ${contrast}_`, ''] : []),
+      scenario.setup,
+      '',
+      `**Option A:** ${scenario.optionA}`,
+      '',
+      `> If A: ${scenario.interpretationA}`,
+      '',
+      `**Option B:** ${scenario.optionB}`,
+      '',
+      `> If B: ${scenario.interpretationB}`,
+      '',
+      "**Manager's answer:**",
+      '',
+      ...RESPONSE_VALUES.map(value => `- [ ] ${value} · ${getResponseLabel(value)}`),
+      '',
+      '**Notes:**',
+      '',
+      '',
+    );
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Read ticked answers back from a completed Markdown kit, keyed by stressor.
+ * Scenarios with no box ticked (or more than one), or whose stressor the
+ * model doesn't know, are left out.
+ */
+export function parseInterviewKitAnswers(markdown: string, model?: PolarityModel): Record<string, ResponseValue> {
+  const answers: Record<string, ResponseValue> = {};
+  const sections = markdown.split(/^### /m).slice(1);
+
+  for (const section of sections) {
+    const stressorId = section.match(STRESSOR_MARKER)?.[1];
+    if (!stressorId || !getStressorById(stressorId as StressorId, model)) continue;
+    const ticked = [...section.matchAll(/^\s*[-*]\s*\[[xX]\]\s*([1-5])\b/gm)].map(m => Number(m[1]) as ResponseValue);
+    if (ticked.length === 1) {
+      answers[stressorId] = ticked[0];
+    }
+  }
+
+  return answers;
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const KIT_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1f2937; max-width: 760px; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.5; }
+  h1 { font-size: 1.75rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.25rem; margin-top: 2rem; border-bottom: 1px solid #d1d5db; padding-bottom: 0.25rem; }
+  h3 { font-size: 1.05rem; margin-bottom: 0.25rem; }
+  .muted { color: #6b7280; font-size: 0.85rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.8rem; font-family: system-ui, sans-serif; }
+  th, td { text-align: left; padding: 0.3rem 0.4rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  .bar { height: 0.5rem; background: #e5e7eb; border-radius: 9999px; width: 6rem; }
+  .bar > div { height: 100%; background: #6366f1; border-radius: 9999px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .scenario { border: 1px solid #d1d5db; border-radius: 0.5rem; padding: 1rem; margin: 1rem 0; page-break-inside: avoid; }
+  .options { display: grid; grid-template-columns: 1fr 1fr; gap: 0.75rem; font-family: system-ui, sans-serif; font-size: 0.85rem; }
+  .option { border-radius: 0.375rem; padding: 0.6rem; }
+  .option-a { background: #f0fdf4; }
+  .option-b { background: #fef2f2; }
+  .interpretation { margin-top: 0.4rem; font-style: italic; color: #4b5563; }
+  .answer { display: flex; gap: 0.5rem; flex-wrap: wrap; margin-top: 0.75rem; font-family: system-ui, sans-serif; font-size: 0.8rem; }
+  .answer span { border: 1px solid #9ca3af; border-radius: 0.25rem; padding: 0.2rem 0.5rem; }
+  .notes { margin-top: 0.75rem; height: 4.5rem; border-bottom: 1px dashed #9ca3af; background: repeating-linear-gradient(transparent, transparent 1.45rem, #e5e7eb 1.5rem); }
+  @media print { body { margin: 0 auto; } a { color: inherit; } }
+`;
+
+/** Standalone printable page; print it from the browser to save as PDF */
+export function buildInterviewKitHtml(kit: InterviewKit): string {
+  const title = escapeHtml(kitTitle(kit));
+  const generatedAt = kit.generatedAt ?? new Date();
+
+  const valueRows = rankedValues(kit).map(v => `
+      <tr>
+        <td>${escapeHtml(v.label)}</td>
+        <td><div class="bar"><div style="width: ${(v.score / 7) * 100}%"></div></div></td>
+        <td>${v.score.toFixed(1)}</td>
+        <td>${escapeHtml(v.confidence)}</td>
+        <td>${escapeHtml(v.rationale ?? '')}</td>
+      </tr>`).join('');
+
+  const ctx = kit.occupationalContext;
+  const contextSection = ctx ? `
+    <h2>Occupational context (O*NET)</h2>
+    <p><strong>${escapeHtml(ctx.occupationTitle)}</strong> <span class="muted">SOC ${escapeHtml(ctx.socCode)}</span></p>
+    <ul>
+      ${ctx.interestProfile.length > 0 ? `<li>Holland interest profile: ${escapeHtml(ctx.interestProfile.join(', '))}</li>` : ''}
+      ${ctx.topWorkStyles.length > 0 ? `<li>Top work styles: ${escapeHtml(ctx.topWorkStyles.join(', '))}</li>` : ''}
+      ${ctx.workValues.length > 0 ? `<li>Work values: ${escapeHtml(ctx.workValues.join(', '))}</li>` : ''}
+      ${ctx.isProfession && ctx.professionEthicsNote ? `<li>Regulated profession: ${escapeHtml(ctx.professionEthicsNote)}</li>` : ''}
+    </ul>` : '';
+
+  const scenarioSections = kit.scenarios.map((scenario, i) => {
+    const contrast = differentiates(kit, scenario);
+    return `
+    <div class="scenario">
+      <h3>${i + 1}. ${escapeHtml(scenario.stressorName)}</h3>
+      ${contrast ? `<p class="muted">Differentiates: ${escapeHtml(contrast)}</p>` : ''}
+      <p>${escapeHtml(scenario.setup)}</p>
+      <div class="options">
+        <div class="option option-a">
+          <strong>Option A</strong><br>${escapeHtml(scenario.optionA)}
+          <div class="interpretation">If A: ${escapeHtml(scenario.interpretationA)}</div>
+        </div>
+        <div class="option option-b">
+          <strong>Option B</strong><br>${escapeHtml(scenario.optionB)}
+          <div class="interpretation">If B: ${escapeHtml(scenario.interpretationB)}</div>
+        </div>
+      </div>
+      <div class="answer"><strong>Manager's answer:</strong>
+        ${RESPONSE_VALUES.map(value => `<span>☐ ${escapeHtml(getResponseLabel(value))}</span>`).join('')}
+      </div>
+      <div class="notes"></div>
+    </div>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Interview Kit: ${title}</title>
+  <style>${KIT_STYLES}</style>
+</head>
+<body>
+  <h1>Interview Kit: ${title}</h1>
+  <p class="muted">Generated ${escapeHtml(generatedAt.toLocaleDateString())} from an inferred Schwartz value profile.</p>
+
+  <h2>How to use this kit</h2>
+  <p>Put each scenario to the hiring manager and ask which option the role would favour. Mark one answer per
+  scenario and note anything they add. Enter the answers on the job analysis page to update the value scores.</p>
+
+  <h2>Value profile</h2>
+  <table>
+    <thead><tr><th>Value</th><th></th><th>Score</th><th>Confidence</th><th>Rationale</th></tr></thead>
+    <tbody>${valueRows}
+    </tbody>
+  </table>
+  ${contextSection}
+
+  <h2>Scenarios</h2>
+  ${scenarioSections}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,303 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+import { ValueScores } from './schwartz-values';
+import { ClarificationResponse, ConfidenceLevel } from './job-clarification';
+import {
+  EDIT_TOKEN_HEADER,
+  forgetEditToken,
+  getCurrentUserId,
+  getEditToken,
+  hashEditToken,
+  storeEditToken,
+} from './profile-storage';
+import { sha256Hex } from './utils';
+
+export interface OccupationalContext {
+  socCode: string;
+  occupationTitle: string;
+  isProfession: boolean;
+  professionEthicsNote?: string;
+  topWorkStyles: string[];
+  interestProfile: string[];
+  workValues: string[];
+}
+
+export type ScoreSource = 'job_description' | 'onet' | 'merged';
+
+/** What the analyze-job-description and enrich-job-analysis functions return */
+export interface JobAnalysisResult {
+  detectedJobTitle?: string;
+  scores: ValueScores;
+  confidence: Record<string, ConfidenceLevel>;
+  rationales?: Record<string, string>;
+  sources?: Record<string, ScoreSource>;
+  occupationalContext?: OccupationalContext;
+  onetEnriched?: boolean;
+}
+
+export interface DbJobAnalysis {
+  id: string;
+  job_description: string;
+  detected_job_title: string | null;
+  scores: ValueScores;
+  confidence: Record<string, ConfidenceLevel>;
+  rationales: Record<string, string>;
+  sources: Record<string, ScoreSource>;
+  occupational_context: OccupationalContext | null;
+  onet_enriched: boolean;
+  clarification_responses: ClarificationResponse[];
+  owner_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A newly saved analysis, with the secret that grants edit access to it */
+export interface SavedJobAnalysis extends DbJobAnalysis {
+  /** Present only for anonymous creators; signed-in owners edit via their session. */
+  editToken: string | null;
+}
+
+type JobAnalysisRow = Database['public']['Tables']['job_analyses']['Row'];
+
+function toJson(value: unknown): Json {
+  return value as Json;
+}
+
+function rowToJobAnalysis({ description_hash, edit_token_hash, ...row }: JobAnalysisRow): DbJobAnalysis {
+  return {
+    ...row,
+    scores: row.scores as unknown as ValueScores,
+    confidence: row.confidence as unknown as Record<string, ConfidenceLevel>,
+    rationales: row.rationales as unknown as Record<string, string>,
+    sources: row.sources as unknown as Record<string, ScoreSource>,
+    occupational_context: row.occupational_context as unknown as OccupationalContext | null,
+    clarification_responses: row.clarification_responses as unknown as ClarificationResponse[],
+  };
+}
+
+/** The saved record in the shape the job analysis page works with */
+export function toJobAnalysisResult(analysis: DbJobAnalysis): JobAnalysisResult {
+  return {
+    detectedJobTitle: analysis.detected_job_title ?? undefined,
+    scores: analysis.scores,
+    confidence: analysis.confidence,
+    rationales: analysis.rationales,
+    sources: analysis.sources,
+    occupationalContext: analysis.occupational_context ?? undefined,
+    onetEnriched: analysis.onet_enriched,
+  };
+}
+
+/** Display name for a saved analysis */
+export function getJobAnalysisTitle(analysis: Pick<DbJobAnalysis, 'detected_job_title' | 'job_description'>): string {
+  const title = analysis.detected_job_title?.trim();
+  if (title) return title;
+  const description = analysis.job_description.trim().replace(/\s+/g, ' ');
+  return description.length > 60 ? `${description.slice(0, 57)}...` : description;
+}
+
+function resultToRow(result: JobAnalysisResult, clarifications: ClarificationResponse[]) {
+  return {
+    detected_job_title: result.detectedJobTitle ?? null,
+    scores: toJson(result.scores),
+    confidence: toJson(result.confidence),
+    rationales: toJson(result.rationales ?? {}),
+    sources: toJson(result.sources ?? {}),
+    occupational_context: result.occupationalContext ? toJson(result.occupationalContext) : null,
+    onet_enriched: result.onetEnriched ?? false,
+    clarification_responses: toJson(clarifications),
+  };
+}
+
+/**
+ * Save a new analysis. Like profiles, signed-in users own it through their
+ * account and anonymous creators get an edit token kept on this device.
+ */
+export async function saveJobAnalysis(
+  jobDescription: string,
+  result: JobAnalysisResult,
+  clarifications: ClarificationResponse[] = []
+): Promise<SavedJobAnalysis> {
+  const userId = await getCurrentUserId();
+  const editToken = userId ? null : crypto.randomUUID();
+
+  const { data, error } = await supabase
+    .from('job_analyses')
+    .insert({
+      job_description: jobDescription.trim(),
+      ...resultToRow(result, clarifications),
+      owner_id: userId,
+      edit_token_hash: editToken ? await hashEditToken(editToken) : null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving job analysis:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to save job analysis. Please try again.');
+  }
+
+  if (editToken) {
+    storeEditToken(data.id, editToken);
+  }
+
+  return { ...rowToJobAnalysis(data), editToken };
+}
+
+export async function updateJobAnalysis(
+  id: string,
+  result: JobAnalysisResult,
+  clarifications: ClarificationResponse[]
+): Promise<DbJobAnalysis> {
+  let query = supabase
+    .from('job_analyses')
+    .update(resultToRow(result, clarifications))
+    .eq('id', id)
+    .select();
+
+  const editToken = getEditToken(id);
+  if (editToken) {
+    query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+  }
+
+  const { data, error } = await query.single();
+
+  if (error) {
+    // RLS filters out rows the viewer cannot edit, so no row comes back
+    if (error.code === 'PGRST116') {
+      throw new Error('You do not have permission to edit this job analysis.');
+    }
+    console.error('Error updating job analysis:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to update job analysis. Please try again.');
+  }
+
+  return rowToJobAnalysis(data);
+}
+
+export async function loadJobAnalysis(id: string): Promise<DbJobAnalysis | null> {
+  const { data, error } = await supabase
+    .from('job_analyses')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null; // Not found
+    }
+    console.error('Error loading job analysis:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load job analysis. Please try again.');
+  }
+
+  return rowToJobAnalysis(data);
+}
+
+/**
+ * Most recent saved analysis of exactly this description, if any, so the same
+ * posting is not analysed (and rate-limited) twice.
+ */
+export async function findJobAnalysisByDescription(jobDescription: string): Promise<DbJobAnalysis | null> {
+  const { data, error } = await supabase
+    .from('job_analyses')
+    .select('*')
+    .eq('description_hash', await sha256Hex(jobDescription.trim()))
+    .order('updated_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Error finding job analysis:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load job analyses. Please try again.');
+  }
+
+  return data.length > 0 ? rowToJobAnalysis(data[0]) : null;
+}
+
+export const JOB_ANALYSIS_PAGE_SIZE = 10;
+
+/** Paginated list of saved analyses, most recently updated first */
+export async function searchJobAnalyses({
+  query,
+  page = 0,
+  pageSize = JOB_ANALYSIS_PAGE_SIZE,
+}: { query?: string; page?: number; pageSize?: number }): Promise<{ analyses: DbJobAnalysis[]; total: number }> {
+  let request = supabase
+    .from('job_analyses')
+    .select('*', { count: 'exact' });
+
+  const trimmedQuery = query?.trim();
+  if (trimmedQuery) {
+    // Escape LIKE wildcards so they match literally, then quote the pattern
+    // so commas and parentheses don't break the or() filter
+    const pattern = `%${trimmedQuery.replace(/[%_\\]/g, '\\$&')}%`;
+    const quoted = `"${pattern.replace(/["\\]/g, '\\$&')}"`;
+    request = request.or(`detected_job_title.ilike.${quoted},job_description.ilike.${quoted}`);
+  }
+
+  const { data, error, count } = await request
+    .order('updated_at', { ascending: false })
+    .range(page * pageSize, page * pageSize + pageSize - 1);
+
+  if (error) {
+    console.error('Error searching job analyses:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load job analyses. Please try again.');
+  }
+
+  return { analyses: data.map(rowToJobAnalysis), total: count ?? data.length };
+}
+
+export async function deleteJobAnalysis(id: string): Promise<void> {
+  let query = supabase
+    .from('job_analyses')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  const editToken = getEditToken(id);
+  if (editToken) {
+    query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error deleting job analysis:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to delete job analysis. Please try again.');
+  }
+
+  // RLS silently skips rows the viewer cannot delete
+  if (data.length === 0) {
+    throw new Error('You do not have permission to delete this job analysis.');
+  }
+
+  forgetEditToken(id);
+}
@@ -9,12 +9,22 @@
  * - Spread = max(polarities) - min(polarities) for that stressor
  * - Select stressors with highest spread, as they best differentiate the undecided values
  *
- * Note: Future enhancement could use variance instead of range for spread calculation.
- * See GitHub issue for discussion of variance vs range tradeoffs.
+ * Adaptive mode asks one scenario at a time instead. Each value carries an
+ * uncertainty that shrinks as answers touch it, and the next stressor is the one
+ * whose polarities vary most across the values that are still uncertain
+ * (uncertainty-weighted variance rather than range). The loop stops once every
+ * value is resolved or no remaining stressor would tell us much.
+ *
+ * Every function that reads polarities takes an optional polarity model in
+ * place of the built-in matrix.
+ *
+ * Scores can also carry an uncertainty interval: its starting width comes from
+ * the confidence level, and each applied answer narrows the intervals of the
+ * values it adjusted.
  */
 
-import { ValueScores, getValueByCode } from './schwartz-values';
-import { StressorId, STRESSORS, getPolarity } from './stressors';
+import { ValueScores, ScoreUncertainty, getValueByCode } from './schwartz-values';
+import { PolarityModel, StressorId, getPolarity, getStressorById, getStressors } from './stressors';
 
 export type ConfidenceLevel = 'high' | 'medium' | 'unspecified' | 'occupational' | 'professional';
 
@@ -44,6 +54,31 @@ export interface ClarificationResult {
   reason?: string;
 }
 
+/** A scenario from the generate-clarification-scenarios function, to put to the hiring manager */
+export interface ClarificationScenario {
+  stressorId: string;
+  stressorName: string;
+  setup: string;
+  optionA: string;
+  optionB: string;
+  interpretationA: string;
+  interpretationB: string;
+}
+
+/** A scenario answer that has been applied to a job's scores, kept with the saved analysis */
+export interface ClarificationResponse {
+  stressorId: StressorId;
+  stressorName: string;
+  /** The scenario the answer was given to */
+  setup: string;
+  optionA: string;
+  optionB: string;
+  /** 1 = strongly favour A … 5 = strongly favour B */
+  response: 1 | 2 | 3 | 4 | 5;
+  /** Values whose scores the answer adjusted */
+  valueCodes: string[];
+}
+
 /**
  * Identify values with medium or unspecified confidence
  */
@@ -78,14 +113,15 @@ export function identifyUndecidedValues(
  */
 function calculateStressorSpread(
   stressorId: StressorId,
-  undecidedValues: UndecidedValue[]
+  undecidedValues: UndecidedValue[],
+  model?: PolarityModel
 ): StressorSpreadInfo {
-  const stressor = STRESSORS[stressorId];
+  const stressor = getStressorById(stressorId, model)!;
 
   const polarities = undecidedValues.map(v => ({
     code: v.code,
     label: v.label,
-    polarity: getPolarity(v.code, stressorId),
+    polarity: getPolarity(v.code, stressorId, model),
   }));
 
   const polarityValues = polarities.map(p => p.polarity);
@@ -126,16 +162,16 @@ function calculateStressorSpread(
 export function selectOptimalStressors(
   undecidedValues: UndecidedValue[],
   maxStressors: number = 4,
-  minSpread: number = 0.8
+  minSpread: number = 0.8,
+  model?: PolarityModel
 ): StressorSpreadInfo[] {
   if (undecidedValues.length < 2) {
     return [];
   }
 
   // Calculate spread for all stressors
-  const stressorIds = Object.keys(STRESSORS) as StressorId[];
-  const allStressorSpreads = stressorIds.map(id =>
-    calculateStressorSpread(id, undecidedValues)
+  const allStressorSpreads = getStressors(model).map(({ id }) =>
+    calculateStressorSpread(id, undecidedValues, model)
   );
 
   // Sort by spread descending and filter by minimum threshold
@@ -154,7 +190,8 @@ export function analyzeForClarification(
   scores: ValueScores,
   confidence: Record<string, ConfidenceLevel>,
   maxStressors: number = 4,
-  minSpread: number = 0.8
+  minSpread: number = 0.8,
+  model?: PolarityModel
 ): ClarificationResult {
   const undecidedValues = identifyUndecidedValues(scores, confidence);
 
@@ -176,7 +213,7 @@ export function analyzeForClarification(
     };
   }
 
-  const selectedStressors = selectOptimalStressors(undecidedValues, maxStressors, minSpread);
+  const selectedStressors = selectOptimalStressors(undecidedValues, maxStressors, minSpread, model);
 
   if (selectedStressors.length === 0) {
     return {
@@ -194,35 +231,221 @@ export function analyzeForClarification(
   };
 }
 
+// ---------------------------------------------------------------------------
+// Adaptive clarification
+// ---------------------------------------------------------------------------
+
+/** Starting uncertainty (0–1) of an undecided value, by confidence */
+export const INITIAL_UNCERTAINTY: Record<'medium' | 'unspecified', number> = {
+  medium: 0.5,
+  unspecified: 1,
+};
+
+/**
+ * How noisy a single answer is, in uncertainty units. An answer to a stressor
+ * with polarity p on a value shrinks its uncertainty u to u·N / (p²·u + N),
+ * the usual update for a noisy measurement with gain p.
+ */
+export const ANSWER_NOISE = 0.5;
+
+/** Values at or below this uncertainty count as resolved */
+export const RESOLVED_UNCERTAINTY = 0.3;
+
+/** Stressors expected to tell us less than this are not worth asking */
+export const MIN_EXPECTED_INFORMATION = 0.02;
+
+export const MAX_ADAPTIVE_QUESTIONS = 8;
+
+export interface StressorInformationInfo extends StressorSpreadInfo {
+  /**
+   * Uncertainty-weighted variance of the stressor's polarities across the
+   * unresolved values: high when it splits values we still know little about.
+   */
+  expectedInformation: number;
+}
+
+export type AdaptiveStopReason = 'resolved' | 'exhausted' | 'limit';
+
+export function initialUncertainty(undecidedValues: UndecidedValue[]): Record<string, number> {
+  return Object.fromEntries(
+    undecidedValues.map(v => [v.code, v.confidence === 'medium' ? INITIAL_UNCERTAINTY.medium : INITIAL_UNCERTAINTY.unspecified])
+  );
+}
+
+/** Values whose uncertainty is still above the resolved threshold */
+export function getUnresolvedValues(
+  undecidedValues: UndecidedValue[],
+  uncertainty: Record<string, number>
+): UndecidedValue[] {
+  return undecidedValues.filter(v => (uncertainty[v.code] ?? 0) > RESOLVED_UNCERTAINTY);
+}
+
+function calculateExpectedInformation(
+  stressorId: StressorId,
+  values: UndecidedValue[],
+  uncertainty: Record<string, number>,
+  model?: PolarityModel
+): number {
+  const weights = values.map(v => uncertainty[v.code] ?? 0);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight === 0) return 0;
+
+  const polarities = values.map(v => getPolarity(v.code, stressorId, model) ?? 0);
+  const mean = polarities.reduce((sum, p, i) => sum + p * weights[i], 0) / totalWeight;
+  // Divided by the count, not the total weight, so information fades as values resolve
+  return polarities.reduce((sum, p, i) => sum + weights[i] * (p - mean) ** 2, 0) / values.length;
+}
+
+/**
+ * The most informative stressor not yet asked about, or null when none is
+ * worth asking. Only unresolved values are considered, and at least two are
+ * needed for a scenario to contrast them.
+ */
+export function selectNextStressor(
+  undecidedValues: UndecidedValue[],
+  uncertainty: Record<string, number>,
+  askedStressorIds: StressorId[] = [],
+  minInformation: number = MIN_EXPECTED_INFORMATION,
+  model?: PolarityModel
+): StressorInformationInfo | null {
+  const unresolved = getUnresolvedValues(undecidedValues, uncertainty);
+  if (unresolved.length < 2) return null;
+
+  const candidates = getStressors(model)
+    .map(s => s.id)
+    .filter(id => !askedStressorIds.includes(id))
+    .map(id => ({
+      ...calculateStressorSpread(id, unresolved, model),
+      expectedInformation: calculateExpectedInformation(id, unresolved, uncertainty, model),
+    }))
+    .filter(c => c.expectedInformation >= minInformation)
+    .sort((a, b) => b.expectedInformation - a.expectedInformation);
+
+  return candidates[0] ?? null;
+}
+
+/** Shrink the uncertainty of every value the answered stressor touches */
+export function updateUncertainty(
+  uncertainty: Record<string, number>,
+  stressorId: StressorId,
+  valueCodes: string[],
+  model?: PolarityModel
+): Record<string, number> {
+  const updated = { ...uncertainty };
+  for (const code of valueCodes) {
+    const current = updated[code];
+    if (current === undefined) continue;
+    const polarity = getPolarity(code, stressorId, model) ?? 0;
+    updated[code] = (current * ANSWER_NOISE) / (polarity ** 2 * current + ANSWER_NOISE);
+  }
+  return updated;
+}
+
+/** Why the adaptive loop should stop, or null to keep asking */
+export function getAdaptiveStopReason(
+  undecidedValues: UndecidedValue[],
+  uncertainty: Record<string, number>,
+  askedStressorIds: StressorId[],
+  maxQuestions: number = MAX_ADAPTIVE_QUESTIONS,
+  model?: PolarityModel
+): AdaptiveStopReason | null {
+  if (getUnresolvedValues(undecidedValues, uncertainty).length < 2) return 'resolved';
+  if (askedStressorIds.length >= maxQuestions) return 'limit';
+  if (!selectNextStressor(undecidedValues, uncertainty, askedStressorIds, MIN_EXPECTED_INFORMATION, model)) return 'exhausted';
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Score uncertainty intervals
+// ---------------------------------------------------------------------------
+
+/** Starting half-width of a score's interval (scale points), by confidence */
+export const CONFIDENCE_INTERVAL_HALF_WIDTH: Record<ConfidenceLevel, number> = {
+  high: 0.5,
+  professional: 0.75,
+  occupational: 1,
+  medium: 1.25,
+  unspecified: 2,
+};
+
+export function confidenceToUncertainty(confidence: Record<string, ConfidenceLevel>): ScoreUncertainty {
+  return Object.fromEntries(
+    Object.entries(confidence).map(([code, level]) => [
+      code,
+      CONFIDENCE_INTERVAL_HALF_WIDTH[level] ?? CONFIDENCE_INTERVAL_HALF_WIDTH.unspecified,
+    ])
+  );
+}
+
+/**
+ * Narrow the intervals of the values an answer adjusted. Each half-width
+ * shrinks by √(N / (p² + N)), the same noisy-measurement update as adaptive
+ * mode with N = ANSWER_NOISE, so values the stressor barely touches barely
+ * narrow.
+ */
+export function narrowUncertainty(
+  uncertainty: ScoreUncertainty,
+  stressorId: StressorId,
+  valueCodes: string[],
+  model?: PolarityModel
+): ScoreUncertainty {
+  const narrowed = { ...uncertainty };
+  for (const code of valueCodes) {
+    if (narrowed[code] === undefined) continue;
+    const polarity = getPolarity(code, stressorId, model) ?? 0;
+    narrowed[code] *= Math.sqrt(ANSWER_NOISE / (polarity ** 2 + ANSWER_NOISE));
+  }
+  return narrowed;
+}
+
+/** Score intervals for an analysis: widths from confidence, narrowed by every answer so far */
+export function deriveScoreUncertainty(
+  confidence: Record<string, ConfidenceLevel>,
+  responses: ClarificationResponse[] = [],
+  model?: PolarityModel
+): ScoreUncertainty {
+  return responses.reduce(
+    (uncertainty, response) => narrowUncertainty(uncertainty, response.stressorId, response.valueCodes, model),
+    confidenceToUncertainty(confidence)
+  );
+}
+
 /**
  * Calculate updated scores based on user's scenario response
  *
  * Formula: newScore = currentScore + (polarity × responseStrength × 3.5)
  * Where responseStrength ranges from -1.0 (strongly favor B) to +1.0 (strongly favor A)
  *
+ * In adaptive mode the step is also scaled by each value's remaining
+ * uncertainty, so later answers refine rather than overwrite earlier ones.
+ *
  * @param currentScores - Current value scores
  * @param stressorId - The stressor used in the scenario
  * @param responseStrength - User's response: -1.0 to +1.0
  * @param undecidedValueCodes - Only update these values
+ * @param uncertainty - Optional per-value step scale (0–1); 1 when omitted
+ * @param model - Optional polarity model; the built-in matrix when omitted
  * @returns Updated scores object
  */
 export function calculateUpdatedScores(
   currentScores: ValueScores,
   stressorId: StressorId,
   responseStrength: number,
-  undecidedValueCodes: string[]
+  undecidedValueCodes: string[],
+  uncertainty?: Record<string, number>,
+  model?: PolarityModel
 ): ValueScores {
   const updatedScores = { ...currentScores };
 
   for (const code of undecidedValueCodes) {
-    const polarity = getPolarity(code, stressorId);
+    const polarity = getPolarity(code, stressorId, model);
     // Skip values without polarity data to avoid NaN
     if (polarity === undefined) continue;
 
     const currentScore = currentScores[code] ?? 3.5;
 
     // Formula: newScore = currentScore + (polarity × responseStrength × 3.5)
-    const delta = polarity * responseStrength * 3.5;
+    const delta = polarity * responseStrength * 3.5 * (uncertainty?.[code] ?? 1);
     const newScore = Math.max(0, Math.min(7, currentScore + delta));
 
     updatedScores[code] = Math.round(newScore * 10) / 10; // Round to 1 decimal
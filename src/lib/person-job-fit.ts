@@ -0,0 +1,158 @@
+/**
+ * Person–Job Fit Module
+ *
+ * Relates a saved value profile to a job analysis: how congruent the two are
+ * once each value is weighted by how confident the analysis is about it,
+ * which values the person will find frustrated or under-used in the role, and
+ * which stressors will pull person and role in opposite directions.
+ */
+
+import { ValueScores, ScoreMode, SCHWARTZ_VALUES, applyScoreMode } from './schwartz-values';
+import { ConfidenceLevel } from './job-clarification';
+import { ProfileStressor, calculateProfileStressors } from './stressor-sensitivity';
+import { PolarityModel, StressorSettings } from './stressors';
+
+/** The parts of a job analysis that fit is computed from */
+export interface JobValueAnalysis {
+  jobTitle?: string;
+  scores: ValueScores;
+  confidence: Record<string, ConfidenceLevel>;
+}
+
+/**
+ * How much each value counts towards fit. "Unspecified" values still count a
+ * little: the role is silent about them, which is weak evidence it is neutral.
+ * Professional ethics codes are explicit norms, so they rank above a
+ * medium-confidence inference.
+ */
+export const CONFIDENCE_WEIGHTS: Record<ConfidenceLevel, number> = {
+  high: 1,
+  professional: 0.8,
+  occupational: 0.6,
+  medium: 0.6,
+  unspecified: 0.2,
+};
+
+/** Score gap (0–7 scale) beyond which a value counts as a misfit */
+export const MISFIT_THRESHOLD = 1.5;
+
+export type ValueFitKind = 'aligned' | 'frustrated' | 'under-used';
+
+export interface ValueFit {
+  code: string;
+  label: string;
+  personScore: number;
+  roleScore: number;
+  /** personScore − roleScore */
+  gap: number;
+  confidence: ConfidenceLevel;
+  weight: number;
+  /**
+   * frustrated: the role emphasises the value well beyond the person's own priority.
+   * under-used: the person holds the value well above what the role draws on.
+   */
+  kind: ValueFitKind;
+}
+
+export interface PersonJobFit {
+  profileName: string;
+  roleName: string;
+  /** 1 − confidence-weighted RMS gap / 7, from 0 (opposite) to 1 (identical) */
+  congruence: number;
+  /** Confidence-weighted correlation of the two profiles (−1 to 1): agreement on priorities regardless of level */
+  correlation: number;
+  /** Every value, in circumplex order */
+  values: ValueFit[];
+  /** Largest weighted gap first */
+  frustrated: ValueFit[];
+  /** Largest weighted gap first */
+  underUsed: ValueFit[];
+  /** Stressors on which person and role are most opposed, worst first */
+  stressors: ProfileStressor[];
+}
+
+function weightedMean(values: number[], weights: number[], totalWeight: number): number {
+  return values.reduce((sum, v, i) => sum + v * weights[i], 0) / totalWeight;
+}
+
+function weightedCorrelation(a: number[], b: number[], weights: number[], totalWeight: number): number {
+  const meanA = weightedMean(a, weights, totalWeight);
+  const meanB = weightedMean(b, weights, totalWeight);
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  a.forEach((x, i) => {
+    covariance += weights[i] * (x - meanA) * (b[i] - meanB);
+    varianceA += weights[i] * (x - meanA) ** 2;
+    varianceB += weights[i] * (b[i] - meanB) ** 2;
+  });
+  const denominator = Math.sqrt(varianceA * varianceB);
+  return denominator === 0 ? 0 : covariance / denominator;
+}
+
+/**
+ * Fit between a person's profile and a role. In centred mode both profiles
+ * are shifted to their own mean first, so fit compares relative priorities.
+ * Stressor parameter settings and a polarity model, when given, shape the
+ * stressors as in the sensitivity analysis.
+ */
+export function calculatePersonJobFit(
+  profile: { name: string; scores: ValueScores },
+  job: JobValueAnalysis,
+  mode: ScoreMode = 'raw',
+  stressorCount: number = 5,
+  settings?: StressorSettings,
+  model?: PolarityModel
+): PersonJobFit {
+  const personScores = applyScoreMode(profile.scores, mode);
+  const roleScores = applyScoreMode(job.scores, mode);
+  const roleName = job.jobTitle?.trim() || 'This role';
+
+  const values: ValueFit[] = SCHWARTZ_VALUES.map(value => {
+    const personScore = personScores[value.code] ?? 3.5;
+    const roleScore = roleScores[value.code] ?? 3.5;
+    const gap = personScore - roleScore;
+    const confidence = job.confidence[value.code] ?? 'unspecified';
+    // A role that says nothing about a value cannot frustrate or neglect it
+    const isMisfit = confidence !== 'unspecified' && Math.abs(gap) >= MISFIT_THRESHOLD;
+    return {
+      code: value.code,
+      label: value.label,
+      personScore,
+      roleScore,
+      gap,
+      confidence,
+      weight: CONFIDENCE_WEIGHTS[confidence] ?? CONFIDENCE_WEIGHTS.unspecified,
+      kind: !isMisfit ? 'aligned' : gap < 0 ? 'frustrated' : 'under-used',
+    };
+  });
+
+  const weights = values.map(v => v.weight);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const meanSquaredGap = weightedMean(values.map(v => v.gap ** 2), weights, totalWeight);
+  const byWeightedGap = (a: ValueFit, b: ValueFit) => Math.abs(b.gap) * b.weight - Math.abs(a.gap) * a.weight;
+
+  return {
+    profileName: profile.name,
+    roleName,
+    congruence: Math.max(0, 1 - Math.sqrt(meanSquaredGap) / 7),
+    correlation: weightedCorrelation(
+      values.map(v => v.personScore),
+      values.map(v => v.roleScore),
+      weights,
+      totalWeight
+    ),
+    values,
+    frustrated: values.filter(v => v.kind === 'frustrated').sort(byWeightedGap),
+    underUsed: values.filter(v => v.kind === 'under-used').sort(byWeightedGap),
+    stressors: calculateProfileStressors(
+      [
+        { name: profile.name, scores: profile.scores },
+        { name: roleName, scores: job.scores },
+      ],
+      mode,
+      settings,
+      model
+    ).slice(0, stressorCount),
+  };
+}
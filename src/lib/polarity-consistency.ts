@@ -0,0 +1,230 @@
+/**
+ * Polarity Consistency Module
+ *
+ * Checks a polarity matrix against the circumplex structure of Schwartz
+ * theory. Adjacent values share motivational emphases and opposite values
+ * conflict, so:
+ *
+ * 1. Two values' polarity vectors should correlate in step with the cosine
+ *    of the angle between them on the circle: strongly for neighbours,
+ *    negatively for opposites. The line relating the two is fitted to the
+ *    matrix, so only pairs out of line with the others are flagged.
+ * 2. Any one stressor's polarities, read around the circle, should follow a
+ *    sinusoid: a single peak, a single trough half way round, and a smooth
+ *    path between them.
+ *
+ * Cells far from their stressor's fitted sinusoid are reported as outliers,
+ * with the fitted value as a suggestion. The check uses base polarities from
+ * the given model; parameter settings are left out, since they scale whole
+ * columns and so cannot make one cell inconsistent.
+ */
+
+import { PolarityModel, StressorId, getPolarity, getStressors } from './stressors';
+import { getValueByCode } from './schwartz-values';
+import { CIRCUMFLEX_ORDER } from './reconciliation-analysis';
+
+/** Cells at least this far from their stressor's sinusoid are reported */
+export const OUTLIER_THRESHOLD = 0.5;
+
+/** How far a pair's correlation may fall from the circumplex prediction before it is flagged */
+export const PAIR_VIOLATION_THRESHOLD = 0.6;
+
+export interface ValuePairCorrelation {
+  valueA: string;
+  valueB: string;
+  /** Steps apart on the circle, 1 (adjacent) to 9 (opposite) */
+  distance: number;
+  /** Pearson correlation of the two values' polarity vectors across stressors */
+  correlation: number;
+  /** Correlation the circumplex predicts for values this far apart */
+  expected: number;
+}
+
+export interface StressorSinusoidFit {
+  stressorId: StressorId;
+  stressorName: string;
+  /** Half the peak-to-trough height of the fitted sinusoid */
+  amplitude: number;
+  /** Value nearest the fitted peak, i.e. the one the stressor most satisfies */
+  peakValueCode: string;
+  /** Share of the column's variance the sinusoid explains (0 to 1) */
+  rSquared: number;
+}
+
+export interface PolarityOutlier {
+  valueCode: string;
+  stressorId: StressorId;
+  stressorName: string;
+  polarity: number;
+  /** What the stressor's sinusoid predicts for this value */
+  expected: number;
+  residual: number;
+  /** The prediction rounded to the matrix's 0.1 steps and kept within -1 to 1 */
+  suggested: number;
+}
+
+export interface PolarityConsistencyReport {
+  /** Value code → value code → correlation of their polarity vectors */
+  correlationMatrix: Record<string, Record<string, number>>;
+  /** Every pair of distinct values, in circumplex order */
+  pairs: ValuePairCorrelation[];
+  /**
+   * Correlation between observed and predicted pair correlations (-1 to 1);
+   * near 1 when the matrix reproduces the circumplex.
+   */
+  structureFit: number;
+  /** Pairs whose correlation departs most from the circumplex, worst first */
+  pairViolations: ValuePairCorrelation[];
+  stressorFits: StressorSinusoidFit[];
+  /** Cells that break their stressor's sinusoid, worst first */
+  outliers: PolarityOutlier[];
+}
+
+function mean(values: number[]): number {
+  return values.reduce((s, v) => s + v, 0) / values.length;
+}
+
+/** Pearson correlation; 0 when either side has no variance */
+function pearson(a: number[], b: number[]): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += Math.pow(a[i] - meanA, 2);
+    varianceB += Math.pow(b[i] - meanB, 2);
+  }
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+/** Steps between two positions on the circle, taking the shorter way round */
+export function circumplexDistance(valueA: string, valueB: string): number {
+  const n = CIRCUMFLEX_ORDER.length;
+  const steps = Math.abs(CIRCUMFLEX_ORDER.indexOf(valueA) - CIRCUMFLEX_ORDER.indexOf(valueB));
+  return Math.min(steps, n - steps);
+}
+
+function angleOf(index: number): number {
+  return (2 * Math.PI * index) / CIRCUMFLEX_ORDER.length;
+}
+
+/**
+ * Least-squares fit of c + a·cos θ + b·sin θ to values equally spaced round
+ * the circle. The three terms are orthogonal at equal spacing, so each
+ * coefficient is a simple projection.
+ */
+function fitSinusoid(column: number[]): { fitted: number[]; amplitude: number; peakAngle: number; rSquared: number } {
+  const n = column.length;
+  const offset = mean(column);
+  const a = (2 / n) * column.reduce((s, p, i) => s + p * Math.cos(angleOf(i)), 0);
+  const b = (2 / n) * column.reduce((s, p, i) => s + p * Math.sin(angleOf(i)), 0);
+  const fitted = column.map((_, i) => offset + a * Math.cos(angleOf(i)) + b * Math.sin(angleOf(i)));
+
+  const totalVariance = column.reduce((s, p) => s + Math.pow(p - offset, 2), 0);
+  const residualVariance = column.reduce((s, p, i) => s + Math.pow(p - fitted[i], 2), 0);
+
+  return {
+    fitted,
+    amplitude: Math.sqrt(a * a + b * b),
+    peakAngle: Math.atan2(b, a),
+    rSquared: totalVariance > 0 ? 1 - residualVariance / totalVariance : 1,
+  };
+}
+
+function clampPolarity(polarity: number): number {
+  return Math.max(-1, Math.min(1, Math.round(polarity * 10) / 10));
+}
+
+/**
+ * Check a polarity matrix, including any custom stressors the model carries,
+ * against the circumplex.
+ */
+export function analyzePolarityConsistency(
+  model?: PolarityModel,
+  outlierThreshold: number = OUTLIER_THRESHOLD
+): PolarityConsistencyReport {
+  const stressors = getStressors(model);
+  const n = CIRCUMFLEX_ORDER.length;
+
+  // Rows follow the circle, so row i sits at angle 2πi/n
+  const vectors = CIRCUMFLEX_ORDER.map(valueCode =>
+    stressors.map(s => getPolarity(valueCode, s.id, model) ?? 0)
+  );
+
+  const correlationMatrix: Record<string, Record<string, number>> = {};
+  const observedPairs: Omit<ValuePairCorrelation, 'expected'>[] = [];
+  CIRCUMFLEX_ORDER.forEach((valueA, i) => {
+    correlationMatrix[valueA] = {};
+    CIRCUMFLEX_ORDER.forEach((valueB, j) => {
+      const correlation = i === j ? 1 : pearson(vectors[i], vectors[j]);
+      correlationMatrix[valueA][valueB] = correlation;
+      if (j > i) {
+        observedPairs.push({ valueA, valueB, distance: circumplexDistance(valueA, valueB), correlation });
+      }
+    });
+  });
+
+  // Regress the observed correlations on the cosines and predict from the line
+  const cosines = observedPairs.map(p => Math.cos(angleOf(p.distance)));
+  const observed = observedPairs.map(p => p.correlation);
+  const cosineMean = mean(cosines);
+  const observedMean = mean(observed);
+  const slope =
+    cosines.reduce((sum, c, i) => sum + (c - cosineMean) * (observed[i] - observedMean), 0) /
+    cosines.reduce((sum, c) => sum + Math.pow(c - cosineMean, 2), 0);
+  const pairs: ValuePairCorrelation[] = observedPairs.map((p, i) => ({
+    ...p,
+    expected: observedMean + slope * (cosines[i] - cosineMean),
+  }));
+  const structureFit = pearson(observed, cosines);
+
+  const pairViolations = pairs
+    .filter(p => Math.abs(p.correlation - p.expected) >= PAIR_VIOLATION_THRESHOLD)
+    .sort((a, b) => Math.abs(b.correlation - b.expected) - Math.abs(a.correlation - a.expected));
+
+  const stressorFits: StressorSinusoidFit[] = [];
+  const outliers: PolarityOutlier[] = [];
+  stressors.forEach((stressor, s) => {
+    const column = vectors.map(vector => vector[s]);
+    const fit = fitSinusoid(column);
+    const peakIndex = Math.round(((fit.peakAngle / (2 * Math.PI)) * n + n) % n) % n;
+
+    stressorFits.push({
+      stressorId: stressor.id,
+      stressorName: stressor.name,
+      amplitude: fit.amplitude,
+      peakValueCode: CIRCUMFLEX_ORDER[peakIndex],
+      rSquared: fit.rSquared,
+    });
+
+    column.forEach((polarity, i) => {
+      const residual = polarity - fit.fitted[i];
+      if (Math.abs(residual) >= outlierThreshold) {
+        outliers.push({
+          valueCode: CIRCUMFLEX_ORDER[i],
+          stressorId: stressor.id,
+          stressorName: stressor.name,
+          polarity,
+          expected: fit.fitted[i],
+          residual,
+          suggested: clampPolarity(fit.fitted[i]),
+        });
+      }
+    });
+  });
+
+  outliers.sort((a, b) => Math.abs(b.residual) - Math.abs(a.residual));
+
+  return { correlationMatrix, pairs, structureFit, pairViolations, stressorFits, outliers };
+}
+
+/** Short description of a pair violation, e.g. "adjacent but negatively correlated" */
+export function describePairViolation(pair: ValuePairCorrelation): string {
+  const labelA = getValueByCode(pair.valueA)?.label ?? pair.valueA;
+  const labelB = getValueByCode(pair.valueB)?.label ?? pair.valueB;
+  const position = pair.distance <= 2 ? 'neighbours' : pair.distance >= 8 ? 'opposites' : `${pair.distance} steps apart`;
+  const direction = pair.correlation < pair.expected ? 'less alike' : 'more alike';
+  return `${labelA} and ${labelB} are ${position} on the circle but ${direction} across stressors than predicted`;
+}
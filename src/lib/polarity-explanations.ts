@@ -6,7 +6,7 @@
  * help users understand the psychological rationale behind the mappings.
  */
 
-import { StressorId } from './stressors';
+import { PolarityModel, StressorId, getPolarityJustification } from './stressors';
 
 /**
  * Each explanation describes why increasing the stressor's intensity
@@ -318,8 +318,13 @@ export const POLARITY_EXPLANATIONS: PolarityExplanationMap = {
 };
 
 /**
- * Get the explanation for a specific value-stressor polarity.
+ * Get the explanation for a specific value-stressor polarity. A cell edited
+ * in the given polarity model is explained by the model's justification.
  */
-export function getPolarityExplanation(valueCode: string, stressorId: StressorId): string | undefined {
-  return POLARITY_EXPLANATIONS[valueCode]?.[stressorId];
+export function getPolarityExplanation(
+  valueCode: string,
+  stressorId: StressorId,
+  model?: PolarityModel
+): string | undefined {
+  return (model && getPolarityJustification(valueCode, stressorId, model)) ?? POLARITY_EXPLANATIONS[valueCode]?.[stressorId];
 }
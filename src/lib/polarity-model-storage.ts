@@ -0,0 +1,249 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+import {
+  PolarityJustifications,
+  PolarityModel,
+  PolarityScore,
+  StressorId,
+  ValuePolarityMap,
+  getBuiltInPolarities,
+  getDefaultPolarity,
+  isCustomStressorId,
+} from './stressors';
+import {
+  EDIT_TOKEN_HEADER,
+  forgetEditToken,
+  getCurrentUserId,
+  getEditToken,
+  hashEditToken,
+  storeEditToken,
+} from './profile-storage';
+
+export interface DbPolarityModel {
+  id: string;
+  name: string;
+  description: string;
+  polarities: ValuePolarityMap;
+  justifications: PolarityJustifications;
+  forked_from: string | null;
+  owner_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PolarityModelInput {
+  name: string;
+  description: string;
+  polarities: ValuePolarityMap;
+  justifications: PolarityJustifications;
+  /** Id of the saved model this one was copied from; null when forked from the built-in matrix */
+  forkedFrom: string | null;
+}
+
+/** A newly saved model, with the secret that grants edit access to it */
+export interface SavedPolarityModel extends DbPolarityModel {
+  /** Present only for anonymous creators; signed-in owners edit via their session. */
+  editToken: string | null;
+}
+
+type PolarityModelRow = Database['public']['Tables']['polarity_models']['Row'];
+
+function rowToPolarityModel({ edit_token_hash, ...row }: PolarityModelRow): DbPolarityModel {
+  return {
+    ...row,
+    polarities: row.polarities as unknown as ValuePolarityMap,
+    justifications: row.justifications as unknown as PolarityJustifications,
+  };
+}
+
+/** The saved record in the shape the polarity calculations use */
+export function toPolarityModel(model: DbPolarityModel): PolarityModel {
+  return {
+    id: model.id,
+    name: model.name,
+    polarities: model.polarities,
+    justifications: model.justifications,
+    customStressors: [],
+  };
+}
+
+/**
+ * A copy of a model's matrix with one cell changed. A justification is
+ * required for any cell that departs from the built-in matrix; setting a
+ * cell back to its built-in value drops its justification.
+ */
+export function withEditedCell(
+  model: Pick<PolarityModel, 'polarities' | 'justifications'>,
+  valueCode: string,
+  stressorId: StressorId,
+  polarity: PolarityScore,
+  justification: string
+): Pick<PolarityModel, 'polarities' | 'justifications'> {
+  if (isCustomStressorId(stressorId)) {
+    throw new Error('Custom stressor polarities are edited on the stressor itself.');
+  }
+  if (polarity < -1 || polarity > 1) {
+    throw new Error('Polarity must be between -1 and 1.');
+  }
+  const isDefault = polarity === getDefaultPolarity(valueCode, stressorId);
+  if (!isDefault && !justification.trim()) {
+    throw new Error('Please explain why this cell differs from the default.');
+  }
+
+  const { [valueCode]: valueJustifications = {}, ...otherValues } = model.justifications;
+  const { [stressorId]: _previous, ...otherStressors } = valueJustifications;
+  const nextJustifications = isDefault
+    ? otherStressors
+    : { ...otherStressors, [stressorId]: justification.trim() };
+
+  return {
+    polarities: {
+      ...model.polarities,
+      [valueCode]: { ...model.polarities[valueCode], [stressorId]: polarity },
+    },
+    justifications: Object.keys(nextJustifications).length > 0
+      ? { ...otherValues, [valueCode]: nextJustifications }
+      : otherValues,
+  };
+}
+
+/** Number of cells where a model departs from the built-in matrix */
+export function countEditedCells(model: Pick<PolarityModel, 'polarities'>): number {
+  return Object.entries(getBuiltInPolarities(model.polarities)).reduce(
+    (count, [valueCode, vector]) =>
+      count + Object.entries(vector).filter(
+        ([stressorId, polarity]) => polarity !== getDefaultPolarity(valueCode, stressorId as StressorId)
+      ).length,
+    0
+  );
+}
+
+/**
+ * Save a new model. Like profiles, signed-in users own it through their
+ * account and anonymous creators get an edit token kept on this device.
+ * Custom stressor columns are left out; they belong to the stressors.
+ */
+export async function savePolarityModel(model: PolarityModelInput): Promise<SavedPolarityModel> {
+  const userId = await getCurrentUserId();
+  const editToken = userId ? null : crypto.randomUUID();
+
+  const { data, error } = await supabase
+    .from('polarity_models')
+    .insert({
+      name: model.name.trim(),
+      description: model.description.trim(),
+      polarities: getBuiltInPolarities(model.polarities) as unknown as Json,
+      justifications: model.justifications as unknown as Json,
+      forked_from: model.forkedFrom,
+      owner_id: userId,
+      edit_token_hash: editToken ? await hashEditToken(editToken) : null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving polarity model:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to save polarity model. Please try again.');
+  }
+
+  if (editToken) {
+    storeEditToken(data.id, editToken);
+  }
+
+  return { ...rowToPolarityModel(data), editToken };
+}
+
+export async function updatePolarityModel(
+  id: string,
+  changes: Partial<Pick<PolarityModelInput, 'name' | 'description' | 'polarities' | 'justifications'>>
+): Promise<DbPolarityModel> {
+  let query = supabase
+    .from('polarity_models')
+    .update({
+      ...(changes.name !== undefined && { name: changes.name.trim() }),
+      ...(changes.description !== undefined && { description: changes.description.trim() }),
+      ...(changes.polarities && { polarities: getBuiltInPolarities(changes.polarities) as unknown as Json }),
+      ...(changes.justifications && { justifications: changes.justifications as unknown as Json }),
+    })
+    .eq('id', id)
+    .select();
+
+  const editToken = getEditToken(id);
+  if (editToken) {
+    query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+  }
+
+  const { data, error } = await query.single();
+
+  if (error) {
+    // RLS filters out rows the viewer cannot edit, so no row comes back
+    if (error.code === 'PGRST116') {
+      throw new Error('You do not have permission to edit this polarity model.');
+    }
+    console.error('Error updating polarity model:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to update polarity model. Please try again.');
+  }
+
+  return rowToPolarityModel(data);
+}
+
+export async function loadPolarityModels(): Promise<DbPolarityModel[]> {
+  const { data, error } = await supabase
+    .from('polarity_models')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error loading polarity models:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load polarity models. Please try again.');
+  }
+
+  return data.map(rowToPolarityModel);
+}
+
+export async function deletePolarityModel(id: string): Promise<void> {
+  let query = supabase
+    .from('polarity_models')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  const editToken = getEditToken(id);
+  if (editToken) {
+    query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error deleting polarity model:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to delete polarity model. Please try again.');
+  }
+
+  // RLS silently skips rows the viewer cannot delete
+  if (data.length === 0) {
+    throw new Error('You do not have permission to delete this polarity model.');
+  }
+
+  forgetEditToken(id);
+}
@@ -0,0 +1,227 @@
+import { VALUE_CODES, ValueScores } from './schwartz-values';
+import { CreateProfile, createProfileSchema } from './validation';
+
+/**
+ * Bulk profile import. Accepts:
+ * - the single-profile JSON written by "Export as JSON"
+ * - a JSON array of those objects
+ * - a CSV with a header row: one column per value code, plus optional
+ *   name, description, score_mode, collection and tags (separated by ";")
+ */
+
+export interface ImportRow {
+  /** 1-based position in the file: array index for JSON, data line for CSV */
+  row: number;
+  name: string;
+  profile: CreateProfile | null;
+  errors: string[];
+}
+
+export type ImportFormat = 'json' | 'csv';
+
+export interface ImportReport {
+  format: ImportFormat;
+  rows: ImportRow[];
+  /** Problems with the file as a whole, e.g. malformed JSON or no header */
+  fileError: string | null;
+}
+
+const SCORE_MIN = 0;
+const SCORE_MAX = 7;
+
+export function detectImportFormat(text: string, fileName?: string): ImportFormat {
+  if (fileName?.toLowerCase().endsWith('.csv')) return 'csv';
+  if (fileName?.toLowerCase().endsWith('.json')) return 'json';
+  const first = text.trimStart()[0];
+  return first === '{' || first === '[' ? 'json' : 'csv';
+}
+
+export function parseProfileImport(text: string, fileName?: string): ImportReport {
+  const format = detectImportFormat(text, fileName);
+  return format === 'json' ? parseJsonImport(text) : parseCsvImport(text);
+}
+
+export function getValidImports(report: ImportReport): CreateProfile[] {
+  return report.rows.flatMap(r => (r.profile ? [r.profile] : []));
+}
+
+function parseJsonImport(text: string): ImportReport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { format: 'json', rows: [], fileError: 'The file is not valid JSON.' };
+  }
+
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  const rows = items.map((item, index) => {
+    if (!item || typeof item !== 'object') {
+      return { row: index + 1, name: `Item ${index + 1}`, profile: null, errors: ['Not a profile object'] };
+    }
+    const obj = item as Record<string, unknown>;
+    return validateImport(index + 1, {
+      name: obj.name,
+      scores: obj.scores,
+      description: obj.description,
+      // Accept both the export format (camelCase) and database column names
+      system_prompt: obj.systemPrompt ?? obj.system_prompt,
+      score_mode: obj.scoreMode ?? obj.score_mode,
+      tags: obj.tags,
+      collection: obj.collection,
+    });
+  });
+
+  return { format: 'json', rows, fileError: rows.length === 0 ? 'The file contains no profiles.' : null };
+}
+
+function parseCsvImport(text: string): ImportReport {
+  const records = parseCsv(text).filter(r => r.some(cell => cell.trim() !== ''));
+  if (records.length === 0) {
+    return { format: 'csv', rows: [], fileError: 'The file is empty.' };
+  }
+
+  const header = records[0].map(h => h.trim());
+  const columnIndex = (name: string) => header.findIndex(h => h.toLowerCase() === name.toLowerCase());
+  const codeColumns = VALUE_CODES.map(code => ({ code, index: header.findIndex(h => h.toUpperCase() === code) }));
+
+  if (codeColumns.every(c => c.index === -1)) {
+    return {
+      format: 'csv',
+      rows: [],
+      fileError: `No value code columns found. The header row needs columns named ${VALUE_CODES.join(', ')}.`,
+    };
+  }
+
+  const nameIndex = columnIndex('name');
+  const descriptionIndex = columnIndex('description');
+  const scoreModeIndex = columnIndex('score_mode');
+  const collectionIndex = columnIndex('collection');
+  const tagsIndex = columnIndex('tags');
+  const cell = (record: string[], index: number) => (index === -1 ? undefined : record[index]?.trim() || undefined);
+
+  const rows = records.slice(1).map((record, i) => {
+    const scores: Record<string, unknown> = {};
+    codeColumns.forEach(({ code, index }) => {
+      const raw = cell(record, index);
+      if (raw !== undefined) {
+        scores[code] = Number.isNaN(Number(raw)) ? raw : Number(raw);
+      }
+    });
+
+    return validateImport(i + 1, {
+      name: cell(record, nameIndex),
+      scores,
+      description: cell(record, descriptionIndex),
+      score_mode: cell(record, scoreModeIndex),
+      collection: cell(record, collectionIndex),
+      tags: cell(record, tagsIndex)?.split(';').map(t => t.trim()).filter(Boolean),
+    });
+  });
+
+  return { format: 'csv', rows, fileError: rows.length === 0 ? 'The file has a header row but no profiles.' : null };
+}
+
+/** Check one candidate profile, collecting every problem rather than stopping at the first */
+function validateImport(row: number, candidate: Record<string, unknown>): ImportRow {
+  const name = typeof candidate.name === 'string' && candidate.name.trim()
+    ? candidate.name.trim()
+    : `Imported profile ${row}`;
+  const errors: string[] = [];
+
+  const scores = candidate.scores;
+  if (!scores || typeof scores !== 'object' || Array.isArray(scores)) {
+    errors.push('Missing scores');
+  } else {
+    const entries = scores as Record<string, unknown>;
+    const missing = VALUE_CODES.filter(code => entries[code] === undefined || entries[code] === null);
+    if (missing.length > 0) {
+      errors.push(`Missing value codes: ${missing.join(', ')}`);
+    }
+    VALUE_CODES.forEach(code => {
+      const score = entries[code];
+      if (score === undefined || score === null) return;
+      if (typeof score !== 'number' || !Number.isFinite(score)) {
+        errors.push(`${code} is not a number ("${String(score)}")`);
+      } else if (score < SCORE_MIN || score > SCORE_MAX) {
+        errors.push(`${code} score ${score} is outside ${SCORE_MIN}–${SCORE_MAX}`);
+      }
+    });
+  }
+
+  const profile = {
+    name,
+    scores: pickValueScores(scores),
+    description: typeof candidate.description === 'string' ? candidate.description : null,
+    system_prompt: typeof candidate.system_prompt === 'string' ? candidate.system_prompt : null,
+    score_mode: candidate.score_mode ?? undefined,
+    tags: candidate.tags ?? undefined,
+    collection: candidate.collection ?? undefined,
+  };
+
+  // Score problems are reported above in friendlier terms; the schema covers everything else
+  const result = createProfileSchema.safeParse(profile);
+  if (!result.success) {
+    result.error.issues
+      .filter(issue => issue.path[0] !== 'scores')
+      .forEach(issue => errors.push(`${issue.path.join('.') || 'profile'}: ${issue.message}`));
+  }
+
+  return {
+    row,
+    name,
+    profile: errors.length === 0 && result.success ? result.data : null,
+    errors,
+  };
+}
+
+/** Only the 19 value codes are kept; unknown keys in an export are ignored */
+function pickValueScores(scores: unknown): ValueScores {
+  if (!scores || typeof scores !== 'object') return {};
+  const entries = scores as Record<string, unknown>;
+  return VALUE_CODES.reduce((acc, code) => {
+    if (typeof entries[code] === 'number') acc[code] = entries[code] as number;
+    return acc;
+  }, {} as ValueScores);
+}
+
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes */
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
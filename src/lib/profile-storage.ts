@@ -1,7 +1,10 @@
 import { supabase } from '@/integrations/supabase/client';
 import { CreateProfile } from './validation';
-import { ValueScores } from './schwartz-values';
-import { Json } from '@/integrations/supabase/types';
+import { ValueScores, ScoreMode, HigherOrderValue, getDominantHigherOrder } from './schwartz-values';
+import { ARCHETYPES, Archetype, findNearestArchetype } from './archetypes';
+import { PvqResponses } from './pvq-rr';
+import { Database, Json } from '@/integrations/supabase/types';
+import { sha256Hex } from './utils';
 
 export interface DbProfile {
   id: string;
@@ -9,10 +12,29 @@ export interface DbProfile {
   scores: ValueScores;
   description: string | null;
   system_prompt: string | null;
+  score_mode: ScoreMode;
+  owner_id: string | null;
+  tags: string[];
+  collection: string | null;
+  dominant_higher_order: string | null;
+  nearest_archetype: string | null;
+  /**
+   * Created before profiles had owners, so it has neither an owner nor an
+   * edit token. Anyone may edit it, as they could when it was made.
+   */
+  unclaimed: boolean;
   created_at: string;
   updated_at: string;
 }
 
+/** A newly created profile, together with the secret that grants edit access to it. */
+export interface SavedProfile extends DbProfile {
+  /** Present only for anonymous profiles; signed-in owners edit via their session. */
+  editToken: string | null;
+}
+
+export const EDIT_TOKEN_HEADER = 'x-edit-token';
+
 function scoresToJson(scores: ValueScores): Json {
   return scores as unknown as Json;
 }
@@ -21,15 +43,134 @@ function jsonToScores(json: Json): ValueScores {
   return json as unknown as ValueScores;
 }
 
-export async function saveProfile(profile: CreateProfile): Promise<DbProfile> {
-  const { data, error } = await supabase
-    .from('profiles')
-    .insert({
+type ProfileRow = Database['public']['Tables']['profiles']['Row'];
+
+/** The stored row without its edit token hash, which never leaves this module */
+function rowToProfile({ edit_token_hash, ...row }: ProfileRow): DbProfile {
+  return {
+    ...row,
+    scores: jsonToScores(row.scores),
+    score_mode: toScoreMode(row.score_mode),
+    unclaimed: row.owner_id === null && edit_token_hash === null,
+  };
+}
+
+/** Trim, lowercase and de-duplicate tags so filtering is case-insensitive */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(t => t.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Search facets derived from the scores and stored alongside them for server-side filtering.
+ * Pass the built-in and custom archetypes together so the nearest one matches what the
+ * profile page shows; the stored name is as of the last save.
+ */
+function deriveProfileFacets(scores: ValueScores, mode: ScoreMode, archetypes: Archetype[]) {
+  return {
+    dominant_higher_order: getDominantHigherOrder(scores),
+    nearest_archetype: findNearestArchetype(scores, mode, archetypes).name,
+  };
+}
+
+export function toScoreMode(value: string | null | undefined): ScoreMode {
+  return value === 'centred' ? 'centred' : 'raw';
+}
+
+// LocalStorage map of profile id → edit token for profiles created or unlocked on this device
+const EDIT_TOKENS_KEY = 'schwartz-profile-edit-tokens';
+
+function loadEditTokens(): Record<string, string> {
+  const stored = localStorage.getItem(EDIT_TOKENS_KEY);
+  if (!stored) return {};
+
+  try {
+    return JSON.parse(stored) as Record<string, string>;
+  } catch {
+    return {};
+  }
+}
+
+export function getEditToken(profileId: string): string | null {
+  return loadEditTokens()[profileId] ?? null;
+}
+
+export function storeEditToken(profileId: string, token: string): void {
+  const tokens = loadEditTokens();
+  tokens[profileId] = token;
+  localStorage.setItem(EDIT_TOKENS_KEY, JSON.stringify(tokens));
+}
+
+export function forgetEditToken(profileId: string): void {
+  const tokens = loadEditTokens();
+  delete tokens[profileId];
+  localStorage.setItem(EDIT_TOKENS_KEY, JSON.stringify(tokens));
+}
+
+/** Hex SHA-256 of the token, matching `request_edit_token_hash()` in the database. Only the hash is stored. */
+export async function hashEditToken(token: string): Promise<string> {
+  return sha256Hex(token);
+}
+
+export async function getCurrentUserId(): Promise<string | null> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+}
+
+/**
+ * Whether this viewer may update or delete the profile: either they own it
+ * through Supabase auth, this device holds its edit token, or it is an
+ * unclaimed profile from before ownership existed. The database
+ * enforces the same rule through RLS; this only decides what the UI offers.
+ */
+export function canEditProfile(
+  profile: Pick<DbProfile, 'id' | 'owner_id'> & Partial<Pick<DbProfile, 'unclaimed'>>,
+  userId: string | null
+): boolean {
+  if (profile.unclaimed) return true;
+  if (profile.owner_id && profile.owner_id === userId) return true;
+  return getEditToken(profile.id) !== null;
+}
+
+/** Shareable URL that grants edit access to whoever opens it. */
+export function getEditLink(profileId: string, token: string): string {
+  return `${window.location.origin}/p/${profileId}?edit=${encodeURIComponent(token)}`;
+}
+
+/** Row for a new profile; anonymous creators get a fresh edit token, of which only the hash is stored */
+async function buildProfileInsert(profile: CreateProfile, userId: string | null, archetypes: Archetype[]) {
+  const editToken = userId ? null : crypto.randomUUID();
+  return {
+    editToken,
+    row: {
       name: profile.name,
       scores: scoresToJson(profile.scores),
       description: profile.description ?? null,
       system_prompt: profile.system_prompt ?? null,
-    })
+      score_mode: profile.score_mode ?? 'raw',
+      tags: normalizeTags(profile.tags ?? []),
+      collection: profile.collection?.trim() || null,
+      ...deriveProfileFacets(profile.scores, profile.score_mode ?? 'raw', archetypes),
+      owner_id: userId,
+      edit_token_hash: editToken ? await hashEditToken(editToken) : null,
+    },
+  };
+}
+
+/**
+ * Create a profile. Signed-in users own it through their account; otherwise a
+ * random edit token is generated, stored on this device and returned so it
+ * can be shared as an edit link.
+ */
+export async function saveProfile(
+  profile: CreateProfile,
+  archetypes: Archetype[] = ARCHETYPES
+): Promise<SavedProfile> {
+  const userId = await getCurrentUserId();
+  const { row, editToken } = await buildProfileInsert(profile, userId, archetypes);
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .insert(row)
     .select()
     .single();
 
@@ -43,28 +184,90 @@ export async function saveProfile(profile: CreateProfile): Promise<DbProfile> {
     throw new Error('Unable to save profile. Please try again.');
   }
 
-  return {
-    ...data,
-    scores: jsonToScores(data.scores),
-  };
+  if (editToken) {
+    storeEditToken(data.id, editToken);
+  }
+
+  return { ...rowToProfile(data), editToken };
+}
+
+/** Create several profiles in a single insert, e.g. from a bulk import. All succeed or none do. */
+export async function saveProfiles(
+  profiles: CreateProfile[],
+  archetypes: Archetype[] = ARCHETYPES
+): Promise<SavedProfile[]> {
+  if (profiles.length === 0) return [];
+
+  const userId = await getCurrentUserId();
+  const inserts = await Promise.all(profiles.map(p => buildProfileInsert(p, userId, archetypes)));
+  // Ids are assigned here so each edit token can be matched to its row
+  const tokensById = new Map<string, string | null>();
+  const rows = inserts.map(({ row, editToken }) => {
+    const id = crypto.randomUUID();
+    tokensById.set(id, editToken);
+    return { ...row, id };
+  });
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .insert(rows)
+    .select();
+
+  if (error) {
+    console.error('Error saving profiles:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to save profiles. Please try again.');
+  }
+
+  return data.map((p) => {
+    const editToken = tokensById.get(p.id) ?? null;
+    if (editToken) {
+      storeEditToken(p.id, editToken);
+    }
+    return { ...rowToProfile(p), editToken };
+  });
 }
 
-export async function updateProfile(id: string, profile: Partial<CreateProfile>): Promise<DbProfile> {
+export async function updateProfile(
+  id: string,
+  profile: Partial<CreateProfile>,
+  archetypes: Archetype[] = ARCHETYPES
+): Promise<DbProfile> {
   const updateData: Record<string, unknown> = {};
   
   if (profile.name !== undefined) updateData.name = profile.name;
   if (profile.scores !== undefined) updateData.scores = scoresToJson(profile.scores);
   if (profile.description !== undefined) updateData.description = profile.description;
   if (profile.system_prompt !== undefined) updateData.system_prompt = profile.system_prompt;
+  if (profile.score_mode !== undefined) updateData.score_mode = profile.score_mode;
+  if (profile.tags !== undefined) updateData.tags = normalizeTags(profile.tags);
+  if (profile.collection !== undefined) updateData.collection = profile.collection?.trim() || null;
+  if (profile.scores !== undefined) {
+    Object.assign(updateData, deriveProfileFacets(profile.scores, profile.score_mode ?? 'raw', archetypes));
+  }
 
-  const { data, error } = await supabase
+  let query = supabase
     .from('profiles')
     .update(updateData)
     .eq('id', id)
-    .select()
-    .single();
+    .select();
+
+  const editToken = getEditToken(id);
+  if (editToken) {
+    query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+  }
+
+  const { data, error } = await query.single();
 
   if (error) {
+    // RLS filters out rows the viewer cannot edit, so no row comes back
+    if (error.code === 'PGRST116') {
+      throw new Error('You do not have permission to edit this profile.');
+    }
     console.error('Error updating profile:', {
       code: error.code,
       message: error.message,
@@ -74,10 +277,7 @@ export async function updateProfile(id: string, profile: Partial<CreateProfile>)
     throw new Error('Unable to update profile. Please try again.');
   }
 
-  return {
-    ...data,
-    scores: jsonToScores(data.scores),
-  };
+  return rowToProfile(data);
 }
 
 export async function loadProfile(id: string): Promise<DbProfile | null> {
@@ -100,12 +300,174 @@ export async function loadProfile(id: string): Promise<DbProfile | null> {
     throw new Error('Unable to load profile. Please try again.');
   }
 
+  return rowToProfile(data);
+}
+
+export interface ProfileSearchParams {
+  /** Case-insensitive substring of the profile name */
+  query?: string;
+  tag?: string;
+  collection?: string;
+  higherOrder?: HigherOrderValue;
+  archetype?: string;
+  /** Zero-based page index */
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ProfileSearchResult {
+  profiles: DbProfile[];
+  total: number;
+}
+
+export const PROFILE_PAGE_SIZE = 12;
+
+/** Paginated, filtered profile listing. All filtering happens in the database. */
+export async function searchProfiles({
+  query,
+  tag,
+  collection,
+  higherOrder,
+  archetype,
+  page = 0,
+  pageSize = PROFILE_PAGE_SIZE,
+}: ProfileSearchParams): Promise<ProfileSearchResult> {
+  let request = supabase
+    .from('profiles')
+    .select('*', { count: 'exact' });
+
+  const trimmedQuery = query?.trim();
+  if (trimmedQuery) {
+    // Escape LIKE wildcards so they match literally
+    request = request.ilike('name', `%${trimmedQuery.replace(/[%_\\]/g, '\\$&')}%`);
+  }
+  if (tag) request = request.contains('tags', [tag]);
+  if (collection) request = request.eq('collection', collection);
+  if (higherOrder) request = request.eq('dominant_higher_order', higherOrder);
+  if (archetype) request = request.eq('nearest_archetype', archetype);
+
+  const from = page * pageSize;
+  const { data, error, count } = await request
+    .order('updated_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (error) {
+    console.error('Error searching profiles:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load profiles. Please try again.');
+  }
+
+  return {
+    profiles: data.map(rowToProfile),
+    total: count ?? data.length,
+  };
+}
+
+/** Upper bound on cohort size, to keep aggregation in the browser responsive */
+export const COHORT_MAX_PROFILES = 500;
+
+/**
+ * Every profile in a collection or with a tag (up to COHORT_MAX_PROFILES),
+ * for group-level analysis.
+ */
+export async function loadCohortProfiles(
+  filter: Pick<ProfileSearchParams, 'collection' | 'tag'>
+): Promise<ProfileSearchResult> {
+  return searchProfiles({ ...filter, page: 0, pageSize: COHORT_MAX_PROFILES });
+}
+
+export interface ProfileFacet {
+  value: string;
+  count: number;
+}
+
+export interface ProfileLibraryFacets {
+  tags: ProfileFacet[];
+  collections: ProfileFacet[];
+}
+
+/** Every tag and collection in use, for populating the library filters */
+export async function loadProfileLibraryFacets(): Promise<ProfileLibraryFacets> {
+  const { data, error } = await supabase.rpc('profile_library_facets');
+
+  if (error) {
+    console.error('Error loading profile facets:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load profile filters. Please try again.');
+  }
+
+  const toFacets = (kind: string) =>
+    data
+      .filter((row) => row.kind === kind)
+      .map((row) => ({ value: row.value, count: Number(row.profile_count) }));
+
   return {
-    ...data,
-    scores: jsonToScores(data.scores),
+    tags: toFacets('tag'),
+    collections: toFacets('collection'),
   };
 }
 
+export interface DbProfileVersion {
+  id: string;
+  profile_id: string;
+  version_number: number;
+  name: string;
+  scores: ValueScores;
+  description: string | null;
+  system_prompt: string | null;
+  score_mode: ScoreMode;
+  created_at: string;
+}
+
+export async function loadProfileVersions(profileId: string): Promise<DbProfileVersion[]> {
+  const { data, error } = await supabase
+    .from('profile_versions')
+    .select('*')
+    .eq('profile_id', profileId)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    console.error('Error loading profile versions:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load profile history. Please try again.');
+  }
+
+  return data.map((v) => ({
+    ...v,
+    scores: jsonToScores(v.scores),
+    score_mode: toScoreMode(v.score_mode),
+  }));
+}
+
+/**
+ * Restore a profile to an earlier version. The restore is itself an update,
+ * so it is recorded as a new version and no history is lost.
+ */
+export async function restoreProfileVersion(
+  version: DbProfileVersion,
+  archetypes: Archetype[] = ARCHETYPES
+): Promise<DbProfile> {
+  return updateProfile(version.profile_id, {
+    name: version.name,
+    scores: version.scores,
+    description: version.description,
+    system_prompt: version.system_prompt,
+    score_mode: version.score_mode,
+  }, archetypes);
+}
+
 // LocalStorage helpers for draft saving
 const DRAFT_KEY = 'schwartz-profile-draft';
 
@@ -114,6 +476,9 @@ export interface DraftProfile {
   scores: ValueScores;
   description?: string | null;
   systemPrompt?: string | null;
+  scoreMode?: ScoreMode;
+  tags?: string[];
+  collection?: string | null;
   lastModified: number;
 }
 
@@ -140,11 +505,52 @@ export function clearDraft(): void {
   localStorage.removeItem(DRAFT_KEY);
 }
 
+// LocalStorage helpers for in-progress questionnaire answers
+const QUESTIONNAIRE_DRAFT_KEY = 'schwartz-questionnaire-draft';
+
+export interface QuestionnaireDraft {
+  name: string;
+  responses: PvqResponses;
+  page: number;
+  lastModified: number;
+}
+
+export function saveQuestionnaireDraft(draft: Omit<QuestionnaireDraft, 'lastModified'>): void {
+  const fullDraft: QuestionnaireDraft = {
+    ...draft,
+    lastModified: Date.now(),
+  };
+  localStorage.setItem(QUESTIONNAIRE_DRAFT_KEY, JSON.stringify(fullDraft));
+}
+
+export function loadQuestionnaireDraft(): QuestionnaireDraft | null {
+  const stored = localStorage.getItem(QUESTIONNAIRE_DRAFT_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as QuestionnaireDraft;
+  } catch {
+    return null;
+  }
+}
+
+export function clearQuestionnaireDraft(): void {
+  localStorage.removeItem(QUESTIONNAIRE_DRAFT_KEY);
+}
+
 export async function deleteProfile(id: string): Promise<void> {
-  const { error } = await supabase
+  let query = supabase
     .from('profiles')
     .delete()
-    .eq('id', id);
+    .eq('id', id)
+    .select('id');
+
+  const editToken = getEditToken(id);
+  if (editToken) {
+    query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+  }
+
+  const { data, error } = await query;
 
   if (error) {
     console.error('Error deleting profile:', {
@@ -155,4 +561,11 @@ export async function deleteProfile(id: string): Promise<void> {
     });
     throw new Error('Unable to delete profile. Please try again.');
   }
+
+  // RLS silently skips rows the viewer cannot delete
+  if (data.length === 0) {
+    throw new Error('You do not have permission to delete this profile.');
+  }
+
+  forgetEditToken(id);
 }
@@ -34,15 +34,21 @@ function buildArchetypeSummary(archetypes: ArchetypeData[]): string {
   }).join('\n\n');
 }
 
-export function buildConflictPrompt(archetypes: ArchetypeData[], stressors?: string[]): PromptPair {
+/**
+ * @param stressorConditions Tuned stressors in words, e.g. "Risk / Uncertainty: existential stakes, deep uncertainty"
+ */
+export function buildConflictPrompt(archetypes: ArchetypeData[], stressors?: string[], stressorConditions?: string[]): PromptPair {
   const summary = buildArchetypeSummary(archetypes);
   const stressorsLine = stressors && stressors.length > 0
     ? `\nThese stressors have been identified as the strongest sources of tension between the characters: ${stressors.join(', ')}. Ground the conflict in one or more of these specific pressures — make them feel like the real stakes.\n`
     : '';
+  const conditionsLine = stressorConditions && stressorConditions.length > 0
+    ? `The situation should have these conditions, which set how hard each pressure bites:\n${stressorConditions.map(c => `- ${c}`).join('\n')}\n`
+    : '';
 
   return {
     system: `You are a dramatist and expert in Schwartz's Theory of Basic Human Values. \nYou create realistic conflict scenarios and dialogues between characters based on their value profiles.\n\n${SCHWARTZ_REFERENCE}\n\nWrite dialogue that feels authentic to each character's voice and worldview.\nShow how their differing values create genuine tension, not just surface disagreement.\nWrite in plain prose — do not use markdown formatting (bold, italics, headers) anywhere except the dialogue speaker labels.`,
-    user: `Given these characters and their value profiles:\n\n${summary}\n${stressorsLine}\nCreate a compelling conflict scenario:\n\n1. SCENARIO (2-3 sentences): Describe a specific, realistic situation where these characters' values would naturally clash. Be concrete about the setting and stakes.\n\n2. DIALOGUE (8-12 exchanges): Write a conversation that demonstrates their value conflict. Each character should:\n   - Speak authentically to their worldview\n   - Reveal their core values through what they argue for\n   - Show genuine tension, not just polite disagreement\n   - React to the other's perspective in a way true to their character\n\nFormat the dialogue as:\n**[Character Name]:** "Their line of dialogue"\n\nMake the conflict feel real and the characters feel alive.`,
+    user: `Given these characters and their value profiles:\n\n${summary}\n${stressorsLine}${conditionsLine}\nCreate a compelling conflict scenario:\n\n1. SCENARIO (2-3 sentences): Describe a specific, realistic situation where these characters' values would naturally clash. Be concrete about the setting and stakes.\n\n2. DIALOGUE (8-12 exchanges): Write a conversation that demonstrates their value conflict. Each character should:\n   - Speak authentically to their worldview\n   - Reveal their core values through what they argue for\n   - Show genuine tension, not just polite disagreement\n   - React to the other's perspective in a way true to their character\n\nFormat the dialogue as:\n**[Character Name]:** "Their line of dialogue"\n\nMake the conflict feel real and the characters feel alive.`,
   };
 }
 
@@ -90,3 +96,39 @@ export function buildReconciliationPrompt(
     user: `Given these characters and their value profiles:\n\n${summary}\n\nThey have just had this conflict:\n---\n${conflictScenario}\n---\n\nPre-analysis of value tensions and circumflex bridges:\n\nConflict values (where they diverge most):\n${conflictSection}\n\nBridge values (adjacent to the conflict on the Schwartz circumflex, where they are compatible):\n${bridgeSection}\n\nGround the reconciliation in these bridge values — they represent the motivational common ground closest to where the conflict lives on the circumflex.\n\nGenerate:\n\n1. COMMON GROUND (2-3 sentences): What do these characters genuinely share beneath their conflict? Root this specifically in the bridge values above — name them, show what they mean concretely to each character.\n\n2. RECONCILIATION PATH (3-4 sentences): What specific steps could help them reach a workable understanding? Consider what each character would need to hear or acknowledge. Reinterpret the original conflict through the lens of the bridge values — show how the same stakes look different when viewed from shared ground.\n\n3. DIALOGUE (6-8 exchanges): Continue the scene where the conflict left off. Show the reconciliation beginning to unfold through the bridge values as the turning point. Each character should:\n   - Stay true to their worldview (values don't vanish overnight)\n   - Find something real to recognize in the other's position\n   - Move toward workable understanding through their authentic voice\n\nFormat the dialogue as:\n**[Character Name]:** "Their line of dialogue"\n\nShow a real shift — not a sudden agreement, but the first genuine moments of understanding.`,
   };
 }
+
+export interface PersonaStressor {
+  id: string;
+  name: string;
+  description: string;
+  /** Tuned parameter settings in words, e.g. "existential stakes, permanent/irreversible" */
+  conditions?: string;
+}
+
+export interface PersonaTension {
+  valueA: string;
+  valueB: string;
+  stressor: string;
+  explanation: string;
+}
+
+export function buildPersonaScenarioPrompt(
+  personas: ArchetypeData[],
+  stressors: PersonaStressor[],
+  tensions: PersonaTension[],
+): PromptPair {
+  const summary = buildArchetypeSummary(personas);
+  const stressorList = stressors
+    .map(s => `- **${s.name}**: ${s.description}${s.conditions ? ` Conditions: ${s.conditions}.` : ''}`)
+    .join('\n');
+  const conditionsLine = stressors.some(s => s.conditions)
+    ? '\nWhere a stressor lists conditions, build the situation around them — they set how hard that pressure bites.\n'
+    : '';
+  const tensionList = tensions.map(t => `- ${t.valueA} vs ${t.valueB} (via ${t.stressor}): ${t.explanation}`).join('\n');
+  const [first, second] = personas;
+
+  return {
+    system: `You are a dramatist and expert in Schwartz's Theory of Basic Human Values.\nYou create rich, realistic conflict scenarios that illuminate how different value systems clash.\n\n${SCHWARTZ_REFERENCE}\n\nWrite in a vivid, psychologically insightful style. Make each perspective authentic to the character's worldview.`,
+    user: `Given these two personas:\n\n${summary}\n\nAnd these environmental conditions/stressors that will shape their interaction:\n${stressorList}\n${conditionsLine}\nKey value tensions that will emerge:\n${tensionList}\n\nGenerate a rich scenario analysis with these three sections:\n\n## SCENARIO SETUP\n(2-3 paragraphs) Describe a specific, concrete situation where these personas must interact while experiencing these stressors/conditions. Make it vivid and realistic - where are they, what's at stake, what decision or action has brought them into conflict?\n\n## THIRD-PARTY OBSERVATION\n(3-4 paragraphs) Write as an objective observer watching this conflict unfold. Describe what you see happening between these two personas. Note the subtext, the body language, the escalation or de-escalation patterns. Identify what each person seems to want and why they're clashing. Be insightful about the value dynamics at play.\n\n## ${first.name.toUpperCase()}'S PERSPECTIVE\n(3-4 paragraphs) Write in first person as ${first.name} explaining to a trusted friend what happened and how they see the conflict. Use their authentic voice. Show how their value priorities shape their interpretation. Include what frustrated them, what they felt the other person didn't understand, and what they believe would be the right resolution.\n\n## ${second.name.toUpperCase()}'S PERSPECTIVE\n(3-4 paragraphs) Write in first person as ${second.name} explaining the same events to a trusted friend. Show how their different value priorities lead them to interpret the same events differently. Include their frustrations, their blind spots about the other's perspective, and their sense of what should happen.\n\nMake each perspective genuinely reflect that persona's value system. Show how the same events look completely different through different value lenses.`,
+  };
+}
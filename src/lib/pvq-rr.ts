@@ -0,0 +1,182 @@
+/**
+ * PVQ-RR Questionnaire
+ *
+ * A 57-item portrait questionnaire in the style of the revised Portrait Values
+ * Questionnaire (Schwartz et al., 2012/2017). Each item describes a person and
+ * the respondent rates how much that person is like them on a 1–6 scale.
+ * Every one of the 19 values is measured by three items; the item numbering
+ * follows the published PVQ-RR scoring key so results line up with research data.
+ *
+ * Scoring follows the standard procedure:
+ * 1. Average the three items for each value (raw value mean)
+ * 2. Compute the MRAT — the respondent's mean rating across all 57 items
+ * 3. Centre each value by subtracting the MRAT (ipsative scores)
+ *
+ * Centring removes individual differences in scale use, so a respondent who
+ * rates every portrait "very much like me" does not end up with every value high.
+ * The centred scores are then mapped onto the app's 0–7 scale with the MRAT at 3.5.
+ */
+
+import { ValueScores, VALUE_CODES } from './schwartz-values';
+
+export type PvqResponse = 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface PvqItem {
+  /** Item number as it appears in the PVQ-RR (1–57) */
+  number: number;
+  /** Value code this item measures */
+  valueCode: string;
+  text: string;
+}
+
+export const PVQ_RESPONSE_OPTIONS: { value: PvqResponse; label: string }[] = [
+  { value: 1, label: 'Not like me at all' },
+  { value: 2, label: 'Not like me' },
+  { value: 3, label: 'A little like me' },
+  { value: 4, label: 'Moderately like me' },
+  { value: 5, label: 'Like me' },
+  { value: 6, label: 'Very much like me' },
+];
+
+export const PVQ_ITEM_COUNT = 57;
+
+/** Midpoint of the 1–6 response scale */
+const RESPONSE_MIDPOINT = 3.5;
+
+/**
+ * How many points on the 0–7 app scale one point of centred response
+ * represents. Centred scores rarely exceed ±2.5, so that range is stretched
+ * across the full 0–7 scale; anything beyond is clamped.
+ */
+const CENTRED_TO_APP_SCALE = 3.5 / 2.5;
+
+// Items in questionnaire order, keyed to the PVQ-RR scoring key
+export const PVQ_ITEMS: PvqItem[] = [
+  { number: 1, valueCode: 'SDT', text: 'It is important to them to form their own opinions and have original ideas.' },
+  { number: 2, valueCode: 'SES', text: 'It is important to them that their country is secure and stable.' },
+  { number: 3, valueCode: 'HED', text: 'It is important to them to have a good time.' },
+  { number: 4, valueCode: 'COI', text: 'It is important to them to avoid upsetting other people.' },
+  { number: 5, valueCode: 'UNC', text: 'It is important to them that the weak and vulnerable in society be protected.' },
+  { number: 6, valueCode: 'POD', text: 'It is important to them that people do what they say they should.' },
+  { number: 7, valueCode: 'HUM', text: 'It is important to them never to think they deserve more than other people.' },
+  { number: 8, valueCode: 'UNN', text: 'It is important to them to care for nature.' },
+  { number: 9, valueCode: 'FAC', text: 'It is important to them that no one should ever shame them.' },
+  { number: 10, valueCode: 'STI', text: 'It is important to them always to look for different things to do.' },
+  { number: 11, valueCode: 'BEC', text: 'It is important to them to take care of people they are close to.' },
+  { number: 12, valueCode: 'POR', text: 'It is important to them to have the power that money can bring.' },
+  { number: 13, valueCode: 'SEO', text: 'It is very important to them to avoid disease and protect their health.' },
+  { number: 14, valueCode: 'UNT', text: 'It is important to them to be tolerant toward all kinds of people and groups.' },
+  { number: 15, valueCode: 'COR', text: 'It is important to them never to violate rules or regulations.' },
+  { number: 16, valueCode: 'SDA', text: 'It is important to them to make their own decisions about their life.' },
+  { number: 17, valueCode: 'ACM', text: 'It is important to them to have ambitions in life.' },
+  { number: 18, valueCode: 'TRD', text: 'It is important to them to maintain traditional values and ways of thinking.' },
+  { number: 19, valueCode: 'BED', text: 'It is important to them that people they know have full confidence in them.' },
+  { number: 20, valueCode: 'POR', text: 'It is important to them to be wealthy.' },
+  { number: 21, valueCode: 'UNN', text: 'It is important to them to take part in activities to defend nature.' },
+  { number: 22, valueCode: 'COI', text: 'It is important to them never to annoy anyone.' },
+  { number: 23, valueCode: 'SDT', text: 'It is important to them to develop their own opinions.' },
+  { number: 24, valueCode: 'FAC', text: 'It is important to them to protect their public image.' },
+  { number: 25, valueCode: 'BEC', text: 'It is very important to them to help the people dear to them.' },
+  { number: 26, valueCode: 'SEO', text: 'It is important to them to be personally safe and secure.' },
+  { number: 27, valueCode: 'BED', text: 'It is important to them to be a dependable and trustworthy friend.' },
+  { number: 28, valueCode: 'STI', text: 'It is important to them to take risks that make life exciting.' },
+  { number: 29, valueCode: 'POD', text: 'It is important to them to have the power to make people do what they want.' },
+  { number: 30, valueCode: 'SDA', text: 'It is important to them to plan their activities independently.' },
+  { number: 31, valueCode: 'COR', text: 'It is important to them to follow rules even when no one is watching.' },
+  { number: 32, valueCode: 'ACM', text: 'It is important to them to be very successful.' },
+  { number: 33, valueCode: 'TRD', text: 'It is important to them to follow their family\'s customs or the customs of a religion.' },
+  { number: 34, valueCode: 'UNT', text: 'It is important to them to listen to and understand people who are different from them.' },
+  { number: 35, valueCode: 'SES', text: 'It is important to them to have a strong state that can defend its citizens.' },
+  { number: 36, valueCode: 'HED', text: 'It is important to them to enjoy life\'s pleasures.' },
+  { number: 37, valueCode: 'UNC', text: 'It is important to them that every person in the world have equal opportunities in life.' },
+  { number: 38, valueCode: 'HUM', text: 'It is important to them to be humble.' },
+  { number: 39, valueCode: 'SDT', text: 'It is important to them to figure things out themselves.' },
+  { number: 40, valueCode: 'TRD', text: 'It is important to them to honour the traditional practices of their culture.' },
+  { number: 41, valueCode: 'POD', text: 'It is important to them to be the one who tells others what to do.' },
+  { number: 42, valueCode: 'COR', text: 'It is important to them to obey all the laws.' },
+  { number: 43, valueCode: 'STI', text: 'It is important to them to have all sorts of new experiences.' },
+  { number: 44, valueCode: 'POR', text: 'It is important to them to own expensive things that show their wealth.' },
+  { number: 45, valueCode: 'UNN', text: 'It is important to them to protect the natural environment from destruction or pollution.' },
+  { number: 46, valueCode: 'HED', text: 'It is important to them to take advantage of every opportunity to have fun.' },
+  { number: 47, valueCode: 'BEC', text: 'It is important to them to concern themselves with every need of their dear ones.' },
+  { number: 48, valueCode: 'ACM', text: 'It is important to them that people recognise what they achieve.' },
+  { number: 49, valueCode: 'FAC', text: 'It is important to them never to be humiliated.' },
+  { number: 50, valueCode: 'SES', text: 'It is important to them that their country protect itself against all threats.' },
+  { number: 51, valueCode: 'COI', text: 'It is important to them never to make other people angry.' },
+  { number: 52, valueCode: 'UNC', text: 'It is important to them that everyone be treated justly, even people they don\'t know.' },
+  { number: 53, valueCode: 'SEO', text: 'It is important to them to avoid anything dangerous.' },
+  { number: 54, valueCode: 'HUM', text: 'It is important to them to be satisfied with what they have and not ask for more.' },
+  { number: 55, valueCode: 'BED', text: 'It is important to them that all their friends and family can rely on them completely.' },
+  { number: 56, valueCode: 'SDA', text: 'It is important to them to be free to choose what they do by themselves.' },
+  { number: 57, valueCode: 'UNT', text: 'It is important to them to accept people even when they disagree with them.' },
+];
+
+/** Responses keyed by item number */
+export type PvqResponses = Record<number, PvqResponse>;
+
+export interface PvqScoreResult {
+  /** Mean of the three items for each value, on the 1–6 response scale */
+  rawMeans: ValueScores;
+  /** Mean rating across all answered items */
+  mrat: number;
+  /** Raw means minus MRAT (ipsative scores) */
+  centred: ValueScores;
+  /** Centred scores mapped onto the app's 0–7 scale */
+  scores: ValueScores;
+}
+
+export function getItemsForValue(valueCode: string): PvqItem[] {
+  return PVQ_ITEMS.filter(item => item.valueCode === valueCode);
+}
+
+export function countAnswered(responses: PvqResponses): number {
+  return PVQ_ITEMS.filter(item => responses[item.number] !== undefined).length;
+}
+
+export function isQuestionnaireComplete(responses: PvqResponses): boolean {
+  return countAnswered(responses) === PVQ_ITEM_COUNT;
+}
+
+/**
+ * Map a centred (ipsative) score onto the 0–7 scale used throughout the app
+ */
+export function centredToAppScore(centred: number): number {
+  const score = 3.5 + centred * CENTRED_TO_APP_SCALE;
+  return Math.round(Math.max(0, Math.min(7, score)) * 100) / 100;
+}
+
+/**
+ * Score a set of PVQ-RR responses into the 19 value codes.
+ *
+ * Unanswered items are skipped; a value with no answered items falls back to
+ * the scale midpoint so partial questionnaires still produce a full profile.
+ */
+export function scorePvqResponses(responses: PvqResponses): PvqScoreResult {
+  const answered = PVQ_ITEMS
+    .map(item => responses[item.number])
+    .filter((r): r is PvqResponse => r !== undefined);
+
+  const mrat = answered.length > 0
+    ? answered.reduce((sum, r) => sum + r, 0) / answered.length
+    : RESPONSE_MIDPOINT;
+
+  const rawMeans: ValueScores = {};
+  const centred: ValueScores = {};
+  const scores: ValueScores = {};
+
+  for (const code of VALUE_CODES) {
+    const itemResponses = getItemsForValue(code)
+      .map(item => responses[item.number])
+      .filter((r): r is PvqResponse => r !== undefined);
+
+    const mean = itemResponses.length > 0
+      ? itemResponses.reduce((sum, r) => sum + r, 0) / itemResponses.length
+      : mrat;
+
+    rawMeans[code] = mean;
+    centred[code] = mean - mrat;
+    scores[code] = centredToAppScore(centred[code]);
+  }
+
+  return { rawMeans, mrat, centred, scores };
+}
@@ -1,4 +1,4 @@
-import { SCHWARTZ_VALUES, ValueScores } from './schwartz-values';
+import { SCHWARTZ_VALUES, ValueScores, ScoreMode, getNeutralScore } from './schwartz-values';
 
 export const CIRCUMFLEX_ORDER = SCHWARTZ_VALUES.map(v => v.code);
 
@@ -29,20 +29,31 @@ function getCircumflexNeighbors(code: string, radius: number): string[] {
   return [...neighbors];
 }
 
+/**
+ * Scores are compared relative to each profile's neutral point: the 3.5
+ * midpoint in raw mode, or the profile's own mean in centred mode.
+ * Reported scores stay on the raw 0–7 scale.
+ */
 export function analyzeReconciliation(
   profiles: { name: string; scores: ValueScores }[],
   conflictCount = 3,
-  neighborRadius = 2
+  neighborRadius = 2,
+  mode: ScoreMode = 'raw'
 ): ReconciliationAnalysis {
   if (profiles.length < 2) return { conflictValues: [], bridgeValues: [] };
 
+  const neutrals = profiles.map(p => getNeutralScore(p.scores, mode));
+  const deviationsFor = (code: string) =>
+    profiles.map((p, i) => (p.scores[code] ?? neutrals[i]) - neutrals[i]);
+
   // Step 1: find conflict values (highest score divergence across profiles)
   const valueDivergences = SCHWARTZ_VALUES.map(sv => {
-    const profileScores = profiles.map(p => p.scores[sv.code] ?? 3.5);
-    const maxDiff = Math.max(...profileScores) - Math.min(...profileScores);
+    const profileScores = profiles.map((p, i) => p.scores[sv.code] ?? neutrals[i]);
+    const deviations = deviationsFor(sv.code);
+    const maxDiff = Math.max(...deviations) - Math.min(...deviations);
     const scoreMap: Record<string, number> = {};
     profiles.forEach((p, i) => { scoreMap[p.name] = profileScores[i]; });
-    return { code: sv.code, label: sv.label, divergence: maxDiff, scoreMap };
+    return { code: sv.code, label: sv.label, divergence: maxDiff, scoreMap, deviations };
   });
 
   const conflictValues = valueDivergences
@@ -63,10 +74,11 @@ export function analyzeReconciliation(
   // Step 3: score neighbors for bridging potential
   const neighborEntries = [...neighborCodes].map(code => {
     const sv = SCHWARTZ_VALUES.find(v => v.code === code)!;
-    const profileScores = profiles.map(p => p.scores[code] ?? 3.5);
-    const avgScore = profileScores.reduce((a, b) => a + b, 0) / profileScores.length;
-    const maxDiff = Math.max(...profileScores) - Math.min(...profileScores);
-    const bothPositive = profileScores.every(s => s > 3.5);
+    const profileScores = profiles.map((p, i) => p.scores[code] ?? neutrals[i]);
+    const deviations = deviationsFor(code);
+    const avgDeviation = deviations.reduce((a, b) => a + b, 0) / deviations.length;
+    const maxDiff = Math.max(...deviations) - Math.min(...deviations);
+    const bothPositive = deviations.every(d => d > 0);
 
     // Which conflict values is this adjacent to?
     const adjacentConflicts = [...conflictCodes].filter(cc =>
@@ -76,14 +88,15 @@ export function analyzeReconciliation(
       .map(cc => SCHWARTZ_VALUES.find(v => v.code === cc)?.label ?? cc)
       .join(' and ');
 
+    const neutralLabel = mode === 'centred' ? 'their own average' : 'neutral';
     const rationale = bothPositive
-      ? `Adjacent to ${adjacentLabels} on the circumflex; both profiles score above neutral here (${profileScores.map((s, i) => `${profiles[i].name}: ${s.toFixed(1)}`).join(', ')}).`
+      ? `Adjacent to ${adjacentLabels} on the circumflex; both profiles score above ${neutralLabel} here (${profileScores.map((s, i) => `${profiles[i].name}: ${s.toFixed(1)}`).join(', ')}).`
       : `Adjacent to ${adjacentLabels} on the circumflex; scores: ${profileScores.map((s, i) => `${profiles[i].name}: ${s.toFixed(1)}`).join(', ')}.`;
 
     const scoreMap: Record<string, number> = {};
     profiles.forEach((p, i) => { scoreMap[p.name] = profileScores[i]; });
 
-    const bridgeScore = (bothPositive ? 3 : 0) - maxDiff + (avgScore - 3.5);
+    const bridgeScore = (bothPositive ? 3 : 0) - maxDiff + avgDeviation;
 
     return { code, label: sv.label, scores: scoreMap, maxDiff, bridgeScore, rationale };
   });
@@ -99,7 +112,7 @@ export function analyzeReconciliation(
   if (bridgeValues.length === 0) {
     const fallback = valueDivergences
       .filter(v => !conflictCodes.has(v.code))
-      .filter(v => Object.values(v.scoreMap).every(s => s > 3.5))
+      .filter(v => v.deviations.every(d => d > 0))
       .sort((a, b) => a.divergence - b.divergence)
       .slice(0, 3)
       .map(({ code, label, scoreMap }) => ({
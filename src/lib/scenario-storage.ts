@@ -0,0 +1,325 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+import { PromptPair } from './prompt-builders';
+import {
+  EDIT_TOKEN_HEADER,
+  forgetEditToken,
+  getCurrentUserId,
+  getEditToken,
+  hashEditToken,
+  normalizeTags,
+  storeEditToken,
+} from './profile-storage';
+
+export type ScenarioKind = 'conflict' | 'reconciliation' | 'persona';
+
+export const SCENARIO_KIND_LABELS: Record<ScenarioKind, string> = {
+  conflict: 'Conflict',
+  reconciliation: 'Reconciliation',
+  persona: 'Persona scenario',
+};
+
+/** The edge function that generates each kind, used to re-run a saved scenario */
+export const SCENARIO_FUNCTIONS: Record<ScenarioKind, string> = {
+  conflict: 'generate-conflict-scenario',
+  reconciliation: 'generate-reconciliation',
+  persona: 'generate-persona-scenario',
+};
+
+export interface ScenarioParticipant {
+  name: string;
+  source: 'archetype' | 'profile';
+  /** Id of the saved profile or job analysis the participant came from */
+  id?: string;
+}
+
+export interface DbScenario {
+  id: string;
+  kind: ScenarioKind;
+  title: string;
+  system_prompt: string;
+  user_prompt: string;
+  participants: ScenarioParticipant[];
+  stressors: string[];
+  model: string | null;
+  content: string;
+  /** The edge function body that produced the content */
+  request: Record<string, unknown>;
+  parent_id: string | null;
+  rating: number | null;
+  tags: string[];
+  owner_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewScenario {
+  kind: ScenarioKind;
+  title: string;
+  prompt: PromptPair;
+  participants: ScenarioParticipant[];
+  stressors?: string[];
+  model: string | null;
+  content: string;
+  request: Record<string, unknown>;
+  parentId?: string | null;
+  tags?: string[];
+}
+
+/** A newly saved scenario, with the secret that grants edit access to it */
+export interface SavedScenario extends DbScenario {
+  /** Present only for anonymous creators; signed-in owners edit via their session. */
+  editToken: string | null;
+}
+
+export interface ScenarioTag {
+  value: string;
+  count: number;
+}
+
+type ScenarioRow = Database['public']['Tables']['scenarios']['Row'];
+
+function rowToScenario({ edit_token_hash, ...row }: ScenarioRow): DbScenario {
+  return {
+    ...row,
+    kind: row.kind as ScenarioKind,
+    participants: row.participants as unknown as ScenarioParticipant[],
+    request: row.request as unknown as Record<string, unknown>,
+  };
+}
+
+/** Default title: the participants' names, e.g. "Antigone vs Creon" */
+export function getScenarioTitle(participants: Pick<ScenarioParticipant, 'name'>[]): string {
+  return participants.map(p => p.name).join(' vs ') || 'Untitled scenario';
+}
+
+/** Shareable URL for a saved scenario */
+export function getScenarioLink(scenarioId: string): string {
+  return `${window.location.origin}/s/${scenarioId}`;
+}
+
+/**
+ * Save a generated scenario. Like profiles, signed-in users own it through
+ * their account and anonymous creators get an edit token kept on this device.
+ */
+export async function saveScenario(scenario: NewScenario): Promise<SavedScenario> {
+  const userId = await getCurrentUserId();
+  const editToken = userId ? null : crypto.randomUUID();
+
+  const { data, error } = await supabase
+    .from('scenarios')
+    .insert({
+      kind: scenario.kind,
+      title: scenario.title.trim() || getScenarioTitle(scenario.participants),
+      system_prompt: scenario.prompt.system,
+      user_prompt: scenario.prompt.user,
+      participants: scenario.participants as unknown as Json,
+      stressors: scenario.stressors ?? [],
+      model: scenario.model,
+      content: scenario.content,
+      request: scenario.request as Json,
+      parent_id: scenario.parentId ?? null,
+      tags: normalizeTags(scenario.tags ?? []),
+      owner_id: userId,
+      edit_token_hash: editToken ? await hashEditToken(editToken) : null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving scenario:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to save scenario. Please try again.');
+  }
+
+  if (editToken) {
+    storeEditToken(data.id, editToken);
+  }
+
+  return { ...rowToScenario(data), editToken };
+}
+
+/** Change the details a viewer curates; the generated content never changes */
+export async function updateScenario(
+  id: string,
+  changes: { title?: string; rating?: number | null; tags?: string[] }
+): Promise<DbScenario> {
+  const updateData: Database['public']['Tables']['scenarios']['Update'] = {};
+  if (changes.title !== undefined) updateData.title = changes.title.trim();
+  if (changes.rating !== undefined) updateData.rating = changes.rating;
+  if (changes.tags !== undefined) updateData.tags = normalizeTags(changes.tags);
+
+  let query = supabase
+    .from('scenarios')
+    .update(updateData)
+    .eq('id', id)
+    .select();
+
+  const editToken = getEditToken(id);
+  if (editToken) {
+    query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+  }
+
+  const { data, error } = await query.single();
+
+  if (error) {
+    // RLS filters out rows the viewer cannot edit, so no row comes back
+    if (error.code === 'PGRST116') {
+      throw new Error('You do not have permission to edit this scenario.');
+    }
+    console.error('Error updating scenario:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to update scenario. Please try again.');
+  }
+
+  return rowToScenario(data);
+}
+
+export async function loadScenario(id: string): Promise<DbScenario | null> {
+  const { data, error } = await supabase
+    .from('scenarios')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null; // Not found
+    }
+    console.error('Error loading scenario:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load scenario. Please try again.');
+  }
+
+  return rowToScenario(data);
+}
+
+/** Scenarios derived from this one: re-runs and the reconciliations of a conflict */
+export async function loadScenarioChildren(id: string): Promise<DbScenario[]> {
+  const { data, error } = await supabase
+    .from('scenarios')
+    .select('*')
+    .eq('parent_id', id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading related scenarios:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load related scenarios. Please try again.');
+  }
+
+  return data.map(rowToScenario);
+}
+
+export const SCENARIO_PAGE_SIZE = 12;
+
+/** Paginated list of saved scenarios, newest first */
+export async function searchScenarios({
+  query,
+  kind,
+  tag,
+  minRating,
+  page = 0,
+  pageSize = SCENARIO_PAGE_SIZE,
+}: {
+  query?: string;
+  kind?: ScenarioKind;
+  tag?: string;
+  minRating?: number;
+  page?: number;
+  pageSize?: number;
+}): Promise<{ scenarios: DbScenario[]; total: number }> {
+  let request = supabase
+    .from('scenarios')
+    .select('*', { count: 'exact' });
+
+  const trimmedQuery = query?.trim();
+  if (trimmedQuery) {
+    // Escape LIKE wildcards so they match literally
+    request = request.ilike('title', `%${trimmedQuery.replace(/[%_\\]/g, '\\$&')}%`);
+  }
+  if (kind) request = request.eq('kind', kind);
+  if (tag) request = request.contains('tags', [tag]);
+  if (minRating) request = request.gte('rating', minRating);
+
+  const { data, error, count } = await request
+    .order('created_at', { ascending: false })
+    .range(page * pageSize, page * pageSize + pageSize - 1);
+
+  if (error) {
+    console.error('Error searching scenarios:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load scenarios. Please try again.');
+  }
+
+  return { scenarios: data.map(rowToScenario), total: count ?? data.length };
+}
+
+/** Every tag in use, for populating the library filter */
+export async function loadScenarioTags(): Promise<ScenarioTag[]> {
+  const { data, error } = await supabase.rpc('scenario_tags');
+
+  if (error) {
+    console.error('Error loading scenario tags:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to load scenario filters. Please try again.');
+  }
+
+  return data.map((row) => ({ value: row.tag, count: Number(row.scenario_count) }));
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  let query = supabase
+    .from('scenarios')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  const editToken = getEditToken(id);
+  if (editToken) {
+    query = query.setHeader(EDIT_TOKEN_HEADER, editToken);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error deleting scenario:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    });
+    throw new Error('Unable to delete scenario. Please try again.');
+  }
+
+  // RLS silently skips rows the viewer cannot delete
+  if (data.length === 0) {
+    throw new Error('You do not have permission to delete this scenario.');
+  }
+
+  forgetEditToken(id);
+}
@@ -123,6 +123,14 @@ export function calculateHigherOrderScores(scores: ValueScores): Record<HigherOr
   }, {} as Record<HigherOrderValue, number>);
 }
 
+/** The higher-order value with the highest mean score (first in circle order on ties) */
+export function getDominantHigherOrder(scores: ValueScores): HigherOrderValue {
+  const higherOrderScores = calculateHigherOrderScores(scores);
+  return (Object.keys(higherOrderScores) as HigherOrderValue[]).reduce((best, ho) =>
+    higherOrderScores[ho] > higherOrderScores[best] ? ho : best
+  );
+}
+
 export function getTopValues(scores: ValueScores, count: number = 3): SchwartzValue[] {
   return [...SCHWARTZ_VALUES]
     .sort((a, b) => (scores[b.code] ?? 0) - (scores[a.code] ?? 0))
@@ -134,3 +142,81 @@ export function getBottomValues(scores: ValueScores, count: number = 3): Schwart
     .sort((a, b) => (scores[a.code] ?? 0) - (scores[b.code] ?? 0))
     .slice(0, count);
 }
+
+/**
+ * How scores are interpreted by the analysis functions:
+ * - 'raw': against the fixed 3.5 midpoint of the 0–7 scale
+ * - 'centred': against the person's own mean score (MRAT-style ipsative centring),
+ *   so someone who rates everything high is not "sensitive" to everything
+ */
+export type ScoreMode = 'raw' | 'centred';
+
+export const SCORE_MODES: { value: ScoreMode; label: string; description: string }[] = [
+  { value: 'raw', label: 'Raw', description: 'Scores are compared against the 3.5 scale midpoint' },
+  { value: 'centred', label: 'Centred', description: 'Scores are compared against the profile\'s own mean' },
+];
+
+export const SCALE_MIDPOINT = 3.5;
+
+export function getMeanScore(scores: ValueScores): number {
+  return VALUE_CODES.reduce((sum, code) => sum + (scores[code] ?? SCALE_MIDPOINT), 0) / VALUE_CODES.length;
+}
+
+/**
+ * The score treated as "neutral" for a profile under the given mode
+ */
+export function getNeutralScore(scores: ValueScores, mode: ScoreMode = 'raw'): number {
+  return mode === 'centred' ? getMeanScore(scores) : SCALE_MIDPOINT;
+}
+
+/**
+ * Re-express scores so the neutral point for the mode sits at the 3.5 midpoint.
+ * In raw mode the scores are returned unchanged; in centred mode every value
+ * is shifted by the same amount, preserving the profile's shape.
+ */
+export function applyScoreMode(scores: ValueScores, mode: ScoreMode = 'raw'): ValueScores {
+  if (mode === 'raw') return scores;
+  const shift = SCALE_MIDPOINT - getMeanScore(scores);
+  return VALUE_CODES.reduce((acc, code) => {
+    acc[code] = (scores[code] ?? SCALE_MIDPOINT) + shift;
+    return acc;
+  }, {} as ValueScores);
+}
+
+/**
+ * Optional half-width of each value's uncertainty interval, in scale points.
+ * A score s with half-width h stands for [s − h, s + h], clamped to the 0–7 scale.
+ */
+export type ScoreUncertainty = Record<string, number>;
+
+export interface ScoreInterval {
+  low: number;
+  high: number;
+}
+
+export function getScoreInterval(score: number, halfWidth: number = 0): ScoreInterval {
+  return { low: Math.max(0, score - halfWidth), high: Math.min(7, score + halfWidth) };
+}
+
+export interface ScoreDifference {
+  code: string;
+  label: string;
+  from: number;
+  to: number;
+  delta: number;
+}
+
+/**
+ * Per-value differences between two score sets, largest change first.
+ * Values whose change is below the threshold are omitted.
+ */
+export function diffScores(from: ValueScores, to: ValueScores, threshold: number = 0.005): ScoreDifference[] {
+  return SCHWARTZ_VALUES
+    .map(v => {
+      const fromScore = from[v.code] ?? SCALE_MIDPOINT;
+      const toScore = to[v.code] ?? SCALE_MIDPOINT;
+      return { code: v.code, label: v.label, from: fromScore, to: toScore, delta: toScore - fromScore };
+    })
+    .filter(d => Math.abs(d.delta) >= threshold)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
@@ -5,22 +5,33 @@
  * interacts with stressors. It calculates:
  * 
  * 1. Value-Weighted Stressor Matrix: Adjusts the polarity matrix based on value weights
- * 2. Stressor Sensitivity Vector: Total weighted polarity for each stressor
+ * 2. Stressor Sensitivity Vector: Total weighted polarity for each stressor,
+ *    optionally with the range it can take within per-value score intervals
  * 3. Internal Stressors: Stressors with high variance in sensitivity
  * 4. Profile Stressors: Stressors that antagonize tensions between profiles
+ *
+ * Every calculation takes optional stressor parameter settings, which scale
+ * and reshape the polarities (see getAdjustedPolarity); without them the base
+ * polarities are used. An optional polarity model replaces the built-in
+ * matrix those base polarities come from.
  */
 
 import { 
   StressorId, 
-  STRESSOR_IDS, 
-  STRESSORS,
-  VALUE_POLARITY_MAP,
-  getPolarity,
+  StressorSettings,
+  PolarityModel,
+  getAdjustedPolarity,
+  getStressors,
 } from './stressors';
 import { 
   ValueScores, 
+  ScoreMode,
+  ScoreInterval,
+  ScoreUncertainty,
   SCHWARTZ_VALUES,
   getValueByCode,
+  getNeutralScore,
+  getScoreInterval,
 } from './schwartz-values';
 
 /**
@@ -29,6 +40,7 @@ import {
 export interface WeightedPolarityCell {
   valueCode: string;
   stressorId: StressorId;
+  /** Polarity before value weighting, with any parameter settings applied */
   rawPolarity: number;
   valueWeight: number;
   weightedPolarity: number;
@@ -57,6 +69,12 @@ export interface StressorSensitivity {
     polarity: number;
     contribution: number;
   }[];
+  /** Range of totalSensitivity across the score intervals, when uncertainty is given */
+  interval?: ScoreInterval;
+  /** False when the interval spans zero, so the stressor could satisfy or frustrate */
+  signRobust?: boolean;
+  /** Best and worst possible rank (1-based) by absolute sensitivity within the uncertainty */
+  rankRange?: [number, number];
 }
 
 /**
@@ -94,11 +112,14 @@ export interface ProfileStressor {
 
 /**
  * Normalize a value score from 0-7 range to a weight centered around 0
- * 0-7 → -1.0 to +1.0 (with 3.5 as neutral)
+ * 0-7 → -1.0 to +1.0 (with 3.5 as neutral in raw mode)
+ *
+ * In centred mode the neutral point is the profile's own mean, so the
+ * weight reflects relative rather than absolute importance.
  */
-function normalizeScoreToWeight(score: number): number {
-  // 0 → -1, 3.5 → 0, 7 → +1
-  return (score - 3.5) / 3.5;
+function normalizeScoreToWeight(score: number, neutral: number = 3.5): number {
+  // 0 → -1, neutral → 0, 7 → +1 (when neutral is 3.5)
+  return (score - neutral) / 3.5;
 }
 
 /**
@@ -107,15 +128,19 @@ function normalizeScoreToWeight(score: number): number {
  * This adjusts each polarity by the normalized weight of each value in the profile.
  */
 export function calculateWeightedStressorMatrix(
-  scores: ValueScores
+  scores: ValueScores,
+  mode: ScoreMode = 'raw',
+  settings?: StressorSettings,
+  model?: PolarityModel
 ): ValueWeightedStressorMatrix {
   const matrix: ValueWeightedStressorMatrix = [];
+  const neutral = getNeutralScore(scores, mode);
   
   for (const value of SCHWARTZ_VALUES) {
-    const valueWeight = normalizeScoreToWeight(scores[value.code] ?? 3.5);
+    const valueWeight = normalizeScoreToWeight(scores[value.code] ?? neutral, neutral);
     
-    for (const stressorId of STRESSOR_IDS) {
-      const rawPolarity = getPolarity(value.code, stressorId) ?? 0;
+    for (const { id: stressorId } of getStressors(model)) {
+      const rawPolarity = getAdjustedPolarity(value.code, stressorId, settings, model) ?? 0;
       const weightedPolarity = rawPolarity * valueWeight;
       
       matrix.push({
@@ -131,19 +156,71 @@ export function calculateWeightedStressorMatrix(
   return matrix;
 }
 
+/**
+ * Lowest and highest total sensitivity to a stressor as every value moves
+ * within its interval. Sensitivity is linear in the scores (in centred mode
+ * each polarity is offset by the mean polarity, since the neutral point moves
+ * with the scores), so the bounds are exact: each value is taken at whichever
+ * end of its interval pushes the total furthest.
+ */
+function calculateSensitivityInterval(
+  stressorId: StressorId,
+  scores: ValueScores,
+  uncertainty: ScoreUncertainty,
+  totalSensitivity: number,
+  mode: ScoreMode,
+  settings?: StressorSettings,
+  model?: PolarityModel
+): ScoreInterval {
+  const neutral = getNeutralScore(scores, mode);
+  const polarities = SCHWARTZ_VALUES.map(v => getAdjustedPolarity(v.code, stressorId, settings, model) ?? 0);
+  const meanPolarity = mode === 'centred'
+    ? polarities.reduce((sum, p) => sum + p, 0) / polarities.length
+    : 0;
+
+  let low = totalSensitivity;
+  let high = totalSensitivity;
+  SCHWARTZ_VALUES.forEach((value, i) => {
+    const score = scores[value.code] ?? neutral;
+    const interval = getScoreInterval(score, uncertainty[value.code] ?? 0);
+    const coefficient = (polarities[i] - meanPolarity) / 3.5;
+    const down = coefficient * (interval.low - score);
+    const up = coefficient * (interval.high - score);
+    low += Math.min(down, up);
+    high += Math.max(down, up);
+  });
+
+  return { low, high };
+}
+
+/** Smallest and largest absolute sensitivity within an interval */
+function absoluteRange({ low, high }: ScoreInterval): [number, number] {
+  const min = low <= 0 && high >= 0 ? 0 : Math.min(Math.abs(low), Math.abs(high));
+  return [min, Math.max(Math.abs(low), Math.abs(high))];
+}
+
 /**
  * Calculate the stressor sensitivity vector for a profile.
  * 
  * For each stressor, this sums the weighted polarities across all values
  * to get the total sensitivity of the profile to that stressor.
+ *
+ * With per-value uncertainty, each stressor also gets the interval its
+ * sensitivity can fall in, whether its sign holds across that interval, and
+ * the range of ranks it could take. Ranks treat stressors independently, so
+ * the range is conservative.
  */
 export function calculateStressorSensitivityVector(
   scores: ValueScores,
-  topContributorCount: number = 5
+  topContributorCount: number = 5,
+  mode: ScoreMode = 'raw',
+  uncertainty?: ScoreUncertainty,
+  settings?: StressorSettings,
+  model?: PolarityModel
 ): StressorSensitivity[] {
-  const matrix = calculateWeightedStressorMatrix(scores);
+  const matrix = calculateWeightedStressorMatrix(scores, mode, settings, model);
   
-  const sensitivities: StressorSensitivity[] = STRESSOR_IDS.map(stressorId => {
+  const sensitivities: StressorSensitivity[] = getStressors(model).map(({ id: stressorId, name: stressorName }) => {
     const stressorCells = matrix.filter(cell => cell.stressorId === stressorId);
     
     const totalSensitivity = stressorCells.reduce(
@@ -163,14 +240,32 @@ export function calculateStressorSensitivityVector(
       .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
       .slice(0, topContributorCount);
     
+    const interval = uncertainty
+      ? calculateSensitivityInterval(stressorId, scores, uncertainty, totalSensitivity, mode, settings, model)
+      : undefined;
+
     return {
       stressorId,
-      stressorName: STRESSORS[stressorId].name,
+      stressorName,
       totalSensitivity,
       absoluteSensitivity: Math.abs(totalSensitivity),
       topContributors: contributions,
+      ...(interval && {
+        interval,
+        signRobust: interval.low > 0 || interval.high < 0,
+      }),
     };
   });
+
+  if (uncertainty) {
+    const ranges = sensitivities.map(s => absoluteRange(s.interval!));
+    sensitivities.forEach((sensitivity, i) => {
+      const [minAbs, maxAbs] = ranges[i];
+      const surelyAbove = ranges.filter(([otherMin], j) => j !== i && otherMin > maxAbs).length;
+      const possiblyAbove = ranges.filter(([, otherMax], j) => j !== i && otherMax > minAbs).length;
+      sensitivity.rankRange = [surelyAbove + 1, possiblyAbove + 1];
+    });
+  }
   
   // Sort by absolute sensitivity (highest first)
   return sensitivities.sort((a, b) => b.absoluteSensitivity - a.absoluteSensitivity);
@@ -181,9 +276,13 @@ export function calculateStressorSensitivityVector(
  */
 export function getTopSensitiveStressors(
   scores: ValueScores,
-  count: number = 5
+  count: number = 5,
+  mode: ScoreMode = 'raw',
+  uncertainty?: ScoreUncertainty,
+  settings?: StressorSettings,
+  model?: PolarityModel
 ): StressorSensitivity[] {
-  return calculateStressorSensitivityVector(scores).slice(0, count);
+  return calculateStressorSensitivityVector(scores, 5, mode, uncertainty, settings, model).slice(0, count);
 }
 
 /**
@@ -194,11 +293,14 @@ export function getTopSensitiveStressors(
  * differently to the same stressor, creating internal conflict.
  */
 export function calculateInternalTensionStressors(
-  scores: ValueScores
+  scores: ValueScores,
+  mode: ScoreMode = 'raw',
+  settings?: StressorSettings,
+  model?: PolarityModel
 ): StressorInternalTension[] {
-  const matrix = calculateWeightedStressorMatrix(scores);
+  const matrix = calculateWeightedStressorMatrix(scores, mode, settings, model);
   
-  const tensions: StressorInternalTension[] = STRESSOR_IDS.map(stressorId => {
+  const tensions: StressorInternalTension[] = getStressors(model).map(({ id: stressorId, name: stressorName }) => {
     const stressorCells = matrix.filter(cell => cell.stressorId === stressorId);
     const weightedPolarities = stressorCells.map(c => c.weightedPolarity);
     
@@ -216,7 +318,7 @@ export function calculateInternalTensionStressors(
     
     return {
       stressorId,
-      stressorName: STRESSORS[stressorId].name,
+      stressorName,
       range,
       standardDeviation,
       highestValue: {
@@ -241,9 +343,12 @@ export function calculateInternalTensionStressors(
  */
 export function getTopInternalTensionStressors(
   scores: ValueScores,
-  count: number = 5
+  count: number = 5,
+  mode: ScoreMode = 'raw',
+  settings?: StressorSettings,
+  model?: PolarityModel
 ): StressorInternalTension[] {
-  return calculateInternalTensionStressors(scores).slice(0, count);
+  return calculateInternalTensionStressors(scores, mode, settings, model).slice(0, count);
 }
 
 /**
@@ -253,17 +358,20 @@ export function getTopInternalTensionStressors(
  * meaning the stressor would pull them in different directions.
  */
 export function calculateProfileStressors(
-  profiles: { name: string; scores: ValueScores }[]
+  profiles: { name: string; scores: ValueScores }[],
+  mode: ScoreMode = 'raw',
+  settings?: StressorSettings,
+  model?: PolarityModel
 ): ProfileStressor[] {
   if (profiles.length < 2) return [];
   
   // Calculate sensitivity for each profile
   const profileSensitivities = profiles.map(profile => ({
     name: profile.name,
-    sensitivities: calculateStressorSensitivityVector(profile.scores),
+    sensitivities: calculateStressorSensitivityVector(profile.scores, 5, mode, undefined, settings, model),
   }));
   
-  const tensionStressors: ProfileStressor[] = STRESSOR_IDS.map(stressorId => {
+  const tensionStressors: ProfileStressor[] = getStressors(model).map(({ id: stressorId, name: stressorName }) => {
     const stressorSensitivities = profileSensitivities.map(ps => {
       const sens = ps.sensitivities.find(s => s.stressorId === stressorId);
       return {
@@ -303,7 +411,7 @@ export function calculateProfileStressors(
     
     return {
       stressorId,
-      stressorName: STRESSORS[stressorId].name,
+      stressorName,
       tensionScore,
       profileSensitivities: stressorSensitivities,
       conflictingProfiles,
@@ -320,7 +428,10 @@ export function calculateProfileStressors(
  */
 export function getTopProfileStressors(
   profiles: { name: string; scores: ValueScores }[],
-  count: number = 5
+  count: number = 5,
+  mode: ScoreMode = 'raw',
+  settings?: StressorSettings,
+  model?: PolarityModel
 ): ProfileStressor[] {
-  return calculateProfileStressors(profiles).slice(0, count);
+  return calculateProfileStressors(profiles, mode, settings, model).slice(0, count);
 }
@@ -24,13 +24,19 @@
  * These vectors are used to SELECT which stressor best exposes a given value-value
  * tension. If two values have opposite polarities on a stressor, that stressor
  * will make their conflict behaviorally visible.
+ *
+ * CUSTOM STRESSORS:
+ *
+ * Beyond the twelve built-in stressors, users can define their own, each with
+ * a polarity for every value. They travel inside the polarity model (see
+ * withCustomStressors), so every function that takes a model accepts their ids.
  */
 
 // ============================================================================
 // STRESSOR TYPES
 // ============================================================================
 
-export type StressorId = 
+export type BuiltInStressorId = 
   | 'risk_uncertainty'
   | 'control_authority'
   | 'resources_allocation'
@@ -44,6 +50,11 @@ export type StressorId =
   | 'change_stability'
   | 'boundary_permeability';
 
+/** User-defined stressors are prefixed so their ids never clash with the built-in ones */
+export type CustomStressorId = `custom:${string}`;
+
+export type StressorId = BuiltInStressorId | CustomStressorId;
+
 export interface StressorParameter {
   id: string;
   name: string;
@@ -54,6 +65,18 @@ export interface StressorParameter {
   highLabel: string;
   /** Default value 0-1, where 0.5 is neutral */
   defaultValue: number;
+  /**
+   * How much this parameter scales all of the stressor's polarities: at the
+   * high end they are multiplied by (1 + intensity), at the low end by
+   * (1 - intensity). Negative for parameters that ease the pressure as they rise.
+   */
+  intensity: number;
+  /**
+   * Shifts added to particular values' polarities at the high end (and
+   * subtracted at the low end), for parameters that change which values the
+   * stressor favours rather than only how hard it presses.
+   */
+  valueShifts?: Partial<Record<string, number>>;
 }
 
 export interface Stressor {
@@ -74,7 +97,7 @@ export interface Stressor {
 // STRESSOR DEFINITIONS
 // ============================================================================
 
-export const STRESSORS: Record<StressorId, Stressor> = {
+export const STRESSORS: Record<BuiltInStressorId, Stressor> = {
   risk_uncertainty: {
     id: 'risk_uncertainty',
     name: 'Risk / Uncertainty',
@@ -88,6 +111,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Low stakes',
         highLabel: 'Existential stakes',
         defaultValue: 0.5,
+        intensity: 0.6,
+        valueShifts: { SEO: -0.2, SES: -0.1 },
       },
       {
         id: 'reversibility',
@@ -96,6 +121,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Easily reversible',
         highLabel: 'Permanent/irreversible',
         defaultValue: 0.5,
+        intensity: 0.4,
+        valueShifts: { STI: -0.2, SEO: -0.2, TRD: -0.1 },
       },
       {
         id: 'information',
@@ -104,6 +131,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Full information',
         highLabel: 'Deep uncertainty',
         defaultValue: 0.5,
+        intensity: 0.3,
+        valueShifts: { SDT: 0.2, ACM: -0.2, POR: -0.1 },
       },
     ],
   },
@@ -121,6 +150,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Flat/ambiguous',
         highLabel: 'Strict hierarchy',
         defaultValue: 0.5,
+        intensity: 0.3,
+        valueShifts: { COR: 0.2, POD: 0.2, UNT: -0.1 },
       },
       {
         id: 'scope',
@@ -129,6 +160,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Limited domain',
         highLabel: 'Total control',
         defaultValue: 0.5,
+        intensity: 0.5,
+        valueShifts: { SDA: -0.2, HED: -0.2 },
       },
       {
         id: 'legitimacy',
@@ -137,6 +170,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Questioned legitimacy',
         highLabel: 'Unquestioned authority',
         defaultValue: 0.5,
+        intensity: 0.1,
+        valueShifts: { COR: 0.2, TRD: 0.2, SES: 0.1, UNC: -0.2, SDT: -0.1 },
       },
     ],
   },
@@ -154,6 +189,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Abundant',
         highLabel: 'Severely scarce',
         defaultValue: 0.5,
+        intensity: 0.6,
+        valueShifts: { UNC: -0.2, HED: -0.2 },
       },
       {
         id: 'divisibility',
@@ -162,6 +199,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Easily shared',
         highLabel: 'Indivisible',
         defaultValue: 0.5,
+        intensity: 0.3,
+        valueShifts: { UNC: -0.2, POD: 0.2 },
       },
       {
         id: 'visibility',
@@ -170,6 +209,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Private allocation',
         highLabel: 'Public/transparent',
         defaultValue: 0.5,
+        intensity: 0.2,
+        valueShifts: { UNC: 0.2, COR: 0.1, FAC: -0.2 },
       },
     ],
   },
@@ -187,6 +228,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Open-ended',
         highLabel: 'Immediate deadline',
         defaultValue: 0.5,
+        intensity: 0.5,
+        valueShifts: { SDT: -0.2, UNT: -0.1 },
       },
       {
         id: 'opportunity_window',
@@ -195,6 +238,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Recurring opportunity',
         highLabel: 'Once-in-a-lifetime',
         defaultValue: 0.5,
+        intensity: 0.3,
+        valueShifts: { STI: 0.2, ACM: 0.2, SEO: -0.1 },
       },
       {
         id: 'competing_demands',
@@ -203,6 +248,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Single focus',
         highLabel: 'Multiple urgent demands',
         defaultValue: 0.5,
+        intensity: 0.4,
+        valueShifts: { BED: -0.2, HED: -0.2 },
       },
     ],
   },
@@ -220,6 +267,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Private',
         highLabel: 'Mass public',
         defaultValue: 0.5,
+        intensity: 0.5,
+        valueShifts: { HUM: -0.2, SEO: -0.1, FAC: 0.1 },
       },
       {
         id: 'permanence',
@@ -228,6 +277,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Ephemeral',
         highLabel: 'Permanent record',
         defaultValue: 0.5,
+        intensity: 0.3,
+        valueShifts: { FAC: -0.2, ACM: 0.1 },
       },
       {
         id: 'attribution',
@@ -236,6 +287,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Collective/anonymous',
         highLabel: 'Individual spotlight',
         defaultValue: 0.5,
+        intensity: 0.3,
+        valueShifts: { ACM: 0.2, COI: -0.2, HUM: -0.2 },
       },
     ],
   },
@@ -253,6 +306,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Flexible interpretation',
         highLabel: 'Zero tolerance',
         defaultValue: 0.5,
+        intensity: 0.5,
+        valueShifts: { SDA: -0.1, BEC: -0.1 },
       },
       {
         id: 'sanction_severity',
@@ -261,6 +316,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Minor consequences',
         highLabel: 'Severe punishment',
         defaultValue: 0.5,
+        intensity: 0.5,
+        valueShifts: { UNC: -0.2, SEO: -0.1 },
       },
       {
         id: 'norm_clarity',
@@ -269,6 +326,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Ambiguous norms',
         highLabel: 'Explicit rules',
         defaultValue: 0.5,
+        intensity: 0.2,
+        valueShifts: { COR: 0.2, SEO: 0.1, SDT: -0.1 },
       },
     ],
   },
@@ -286,6 +345,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Binary choice',
         highLabel: 'Many options',
         defaultValue: 0.5,
+        intensity: 0.3,
+        valueShifts: { STI: 0.2, SEO: -0.1, TRD: -0.1 },
       },
       {
         id: 'exit_possibility',
@@ -294,6 +355,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'No exit',
         highLabel: 'Easy exit',
         defaultValue: 0.5,
+        intensity: -0.3,
+        valueShifts: { BED: -0.2, SDA: 0.1 },
       },
       {
         id: 'coercion_level',
@@ -302,6 +365,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Free choice',
         highLabel: 'Forced choice',
         defaultValue: 0.5,
+        intensity: 0.4,
+        valueShifts: { SDA: -0.3, SDT: -0.2, COR: 0.1 },
       },
     ],
   },
@@ -319,6 +384,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Open to all',
         highLabel: 'Highly exclusive',
         defaultValue: 0.5,
+        intensity: 0.4,
+        valueShifts: { UNT: -0.2, POD: 0.1, FAC: 0.1 },
       },
       {
         id: 'rejection_visibility',
@@ -327,6 +394,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Quiet exclusion',
         highLabel: 'Public rejection',
         defaultValue: 0.5,
+        intensity: 0.3,
+        valueShifts: { FAC: -0.3, COI: -0.1 },
       },
       {
         id: 'stakes_of_belonging',
@@ -335,6 +404,7 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Low stakes',
         highLabel: 'Survival-level stakes',
         defaultValue: 0.5,
+        intensity: 0.6,
       },
     ],
   },
@@ -352,6 +422,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Harmless truth',
         highLabel: 'Devastating revelation',
         defaultValue: 0.5,
+        intensity: 0.5,
+        valueShifts: { BEC: -0.2, COI: -0.2 },
       },
       {
         id: 'discovery_likelihood',
@@ -360,6 +432,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Unlikely to surface',
         highLabel: 'Certain to emerge',
         defaultValue: 0.5,
+        intensity: 0.3,
+        valueShifts: { FAC: -0.2, SEO: -0.1 },
       },
       {
         id: 'obligation_strength',
@@ -368,6 +442,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'No obligation',
         highLabel: 'Absolute duty',
         defaultValue: 0.5,
+        intensity: 0.4,
+        valueShifts: { BED: 0.2, COR: 0.2 },
       },
     ],
   },
@@ -385,6 +461,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Minimal effort',
         highLabel: 'Extreme sacrifice',
         defaultValue: 0.5,
+        intensity: 0.6,
+        valueShifts: { HED: -0.2, SEO: -0.1 },
       },
       {
         id: 'beneficiary',
@@ -393,6 +471,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Self/close others',
         highLabel: 'Distant strangers',
         defaultValue: 0.5,
+        intensity: 0.2,
+        valueShifts: { UNC: 0.3, BEC: -0.2, BED: -0.1 },
       },
       {
         id: 'reciprocity',
@@ -401,6 +481,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Guaranteed return',
         highLabel: 'No reciprocity',
         defaultValue: 0.5,
+        intensity: 0.3,
+        valueShifts: { POR: -0.2, ACM: -0.1, HUM: 0.1 },
       },
     ],
   },
@@ -418,6 +500,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Minor adjustment',
         highLabel: 'Total transformation',
         defaultValue: 0.5,
+        intensity: 0.6,
+        valueShifts: { SES: -0.1 },
       },
       {
         id: 'tradition_depth',
@@ -426,6 +510,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Recent practice',
         highLabel: 'Ancient tradition',
         defaultValue: 0.5,
+        intensity: 0.3,
+        valueShifts: { TRD: -0.3, COR: -0.1 },
       },
       {
         id: 'reversibility',
@@ -434,6 +520,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Easily reversed',
         highLabel: 'Permanent change',
         defaultValue: 0.5,
+        intensity: 0.4,
+        valueShifts: { SEO: -0.2, SDA: 0.1 },
       },
     ],
   },
@@ -451,6 +539,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Fluid boundaries',
         highLabel: 'Impermeable walls',
         defaultValue: 0.5,
+        intensity: 0.3,
+        valueShifts: { UNT: -0.2, SES: 0.2 },
       },
       {
         id: 'outsider_proximity',
@@ -459,6 +549,8 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Distant/abstract',
         highLabel: 'Present/concrete',
         defaultValue: 0.5,
+        intensity: 0.5,
+        valueShifts: { SES: -0.1, UNT: 0.1 },
       },
       {
         id: 'identity_salience',
@@ -467,12 +559,28 @@ export const STRESSORS: Record<StressorId, Stressor> = {
         lowLabel: 'Identity irrelevant',
         highLabel: 'Identity defining',
         defaultValue: 0.5,
+        intensity: 0.4,
+        valueShifts: { TRD: 0.2, UNT: -0.1 },
       },
     ],
   },
 };
 
-export const STRESSOR_IDS: StressorId[] = Object.keys(STRESSORS) as StressorId[];
+export const STRESSOR_IDS: BuiltInStressorId[] = Object.keys(STRESSORS) as BuiltInStressorId[];
+
+/**
+ * A user-defined stressor. Its polarities live on the stressor itself rather
+ * than in a polarity model, since no built-in matrix has a column for it.
+ */
+export interface CustomStressor extends Stressor {
+  id: CustomStressorId;
+  /** Value code → polarity, -1.0 to +1.0 */
+  polarities: Record<string, number>;
+}
+
+export function isCustomStressorId(id: string): id is CustomStressorId {
+  return id.startsWith('custom:');
+}
 
 // ============================================================================
 // POLARITY VECTOR TYPES
@@ -844,37 +952,222 @@ export const VALUE_POLARITY_MAP: ValuePolarityMap = {
   },
 };
 
+// ============================================================================
+// POLARITY MODELS
+// ============================================================================
+
+/** Value code → stressor id → why a model's cell differs from the built-in one */
+export type PolarityJustifications = Partial<Record<string, Partial<Record<StressorId, string>>>>;
+
+/**
+ * A complete value × stressor polarity matrix. The built-in one is
+ * VALUE_POLARITY_MAP; alternatives are forked from it and edited cell by
+ * cell, each edit carrying a justification that replaces the built-in
+ * explanation.
+ */
+export interface PolarityModel {
+  /** Saved model id; null for the built-in matrix */
+  id: string | null;
+  name: string;
+  polarities: ValuePolarityMap;
+  justifications: PolarityJustifications;
+  /** User-defined stressors, whose polarities are merged into `polarities` */
+  customStressors: CustomStressor[];
+}
+
+export const DEFAULT_POLARITY_MODEL: PolarityModel = {
+  id: null,
+  name: 'Default',
+  polarities: VALUE_POLARITY_MAP,
+  justifications: {},
+  customStressors: [],
+};
+
+/** A matrix without its custom stressor columns, which is all a saved model keeps */
+export function getBuiltInPolarities(polarities: ValuePolarityMap): ValuePolarityMap {
+  return Object.fromEntries(
+    Object.entries(polarities).map(([valueCode, vector]) => [
+      valueCode,
+      Object.fromEntries(Object.entries(vector).filter(([stressorId]) => !isCustomStressorId(stressorId))),
+    ])
+  ) as ValuePolarityMap;
+}
+
+/**
+ * A model with custom stressors added as extra columns. Saved models only
+ * hold the built-in columns, so this is applied to whichever model is in use.
+ */
+export function withCustomStressors(model: PolarityModel, customStressors: CustomStressor[]): PolarityModel {
+  if (customStressors.length === 0 && model.customStressors.length === 0) return model;
+
+  const polarities: ValuePolarityMap = {};
+  for (const [valueCode, vector] of Object.entries(getBuiltInPolarities(model.polarities))) {
+    const custom = Object.fromEntries(
+      customStressors.map(stressor => [stressor.id, stressor.polarities[valueCode] ?? 0])
+    );
+    polarities[valueCode] = { ...vector, ...custom };
+  }
+  return { ...model, polarities, customStressors };
+}
+
+/** The built-in polarity, whichever model is in use */
+export function getDefaultPolarity(valueCode: string, stressorId: StressorId): PolarityScore | undefined {
+  return VALUE_POLARITY_MAP[valueCode]?.[stressorId];
+}
+
+/** Whether a model's cell departs from the built-in matrix; custom stressors have no built-in cells */
+export function isPolarityEdited(valueCode: string, stressorId: StressorId, model: PolarityModel): boolean {
+  const polarity = model.polarities[valueCode]?.[stressorId];
+  const defaultPolarity = getDefaultPolarity(valueCode, stressorId);
+  return polarity !== undefined && defaultPolarity !== undefined && polarity !== defaultPolarity;
+}
+
+/** The justification a model gives for one of its cells, if any */
+export function getPolarityJustification(
+  valueCode: string,
+  stressorId: StressorId,
+  model: PolarityModel
+): string | undefined {
+  return model.justifications[valueCode]?.[stressorId];
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
 
 /**
  * Get the polarity vector for a specific Schwartz value.
+ * Uses the built-in matrix unless another polarity model is given.
  */
-export function getPolarityVector(valueCode: string): PolarityVector | undefined {
-  return VALUE_POLARITY_MAP[valueCode];
+export function getPolarityVector(
+  valueCode: string,
+  model: PolarityModel = DEFAULT_POLARITY_MODEL
+): PolarityVector | undefined {
+  return model.polarities[valueCode];
 }
 
 /**
  * Get a specific polarity score for a value-stressor pair.
+ * Uses the built-in matrix unless another polarity model is given.
  */
-export function getPolarity(valueCode: string, stressorId: StressorId): PolarityScore | undefined {
-  return VALUE_POLARITY_MAP[valueCode]?.[stressorId];
+export function getPolarity(
+  valueCode: string,
+  stressorId: StressorId,
+  model: PolarityModel = DEFAULT_POLARITY_MODEL
+): PolarityScore | undefined {
+  return model.polarities[valueCode]?.[stressorId];
+}
+
+// ============================================================================
+// PARAMETER INTENSITIES
+// ============================================================================
+
+/** Parameter id → setting (0-1) for one stressor; missing parameters sit at their default */
+export type StressorParameterValues = Record<string, number>;
+
+/** Parameter settings for whichever stressors have been tuned */
+export type StressorSettings = Partial<Record<StressorId, StressorParameterValues>>;
+
+/** The current setting of a parameter, falling back to its default */
+export function getParameterValue(
+  stressorId: StressorId,
+  parameter: StressorParameter,
+  settings?: StressorSettings
+): number {
+  return settings?.[stressorId]?.[parameter.id] ?? parameter.defaultValue;
+}
+
+/** Where a setting sits: -1 at the low end, 0 at the default, +1 at the high end */
+function parameterDeviation(parameter: StressorParameter, value: number): number {
+  const { defaultValue } = parameter;
+  if (value >= defaultValue) {
+    return defaultValue < 1 ? (value - defaultValue) / (1 - defaultValue) : 0;
+  }
+  return defaultValue > 0 ? (value - defaultValue) / defaultValue : 0;
+}
+
+/** A stressor's parameters; custom stressors are looked up in the model */
+function getStressorParameters(stressorId: StressorId, model?: PolarityModel): StressorParameter[] {
+  return getStressorById(stressorId, model)?.parameters ?? [];
+}
+
+/** True when any of the stressor's parameters is away from its default */
+export function isStressorTuned(stressorId: StressorId, settings?: StressorSettings, model?: PolarityModel): boolean {
+  return getStressorParameters(stressorId, model).some(
+    p => getParameterValue(stressorId, p, settings) !== p.defaultValue
+  );
+}
+
+/**
+ * The factor the stressor's parameter settings multiply every polarity by:
+ * 1 at the defaults, above 1 when the settings intensify the stressor.
+ */
+export function getStressorScale(stressorId: StressorId, settings?: StressorSettings, model?: PolarityModel): number {
+  const scale = getStressorParameters(stressorId, model).reduce(
+    (sum, p) => sum + p.intensity * parameterDeviation(p, getParameterValue(stressorId, p, settings)),
+    1
+  );
+  return Math.max(0, scale);
+}
+
+/**
+ * A value's polarity on a stressor under the given parameter settings: the
+ * base polarity scaled by the stressor's intensity, plus any value-specific
+ * shifts. At the defaults this is the base polarity from the given polarity
+ * model. Intensified polarities can go beyond ±1 — the stressor presses
+ * harder than its nominal level.
+ */
+export function getAdjustedPolarity(
+  valueCode: string,
+  stressorId: StressorId,
+  settings?: StressorSettings,
+  model?: PolarityModel
+): PolarityScore | undefined {
+  const polarity = getPolarity(valueCode, stressorId, model);
+  if (polarity === undefined || !settings?.[stressorId]) return polarity;
+
+  const shift = getStressorParameters(stressorId, model).reduce(
+    (sum, p) => sum + (p.valueShifts?.[valueCode] ?? 0) * parameterDeviation(p, getParameterValue(stressorId, p, settings)),
+    0
+  );
+  return polarity * getStressorScale(stressorId, settings, model) + shift;
+}
+
+/**
+ * Plain-language conditions for a tuned stressor, for scenario prompts, e.g.
+ * "existential stakes, permanent/irreversible, deep uncertainty". Parameters
+ * near their default are left out; null when nothing has been moved.
+ */
+export function describeStressorConditions(
+  stressorId: StressorId,
+  settings?: StressorSettings,
+  model?: PolarityModel
+): string | null {
+  const conditions = getStressorParameters(stressorId, model).flatMap(p => {
+    const deviation = parameterDeviation(p, getParameterValue(stressorId, p, settings));
+    if (Math.abs(deviation) < 0.2) return [];
+    const label = (deviation > 0 ? p.highLabel : p.lowLabel).toLowerCase();
+    return [Math.abs(deviation) >= 0.6 ? label : `somewhat ${label}`];
+  });
+  return conditions.length > 0 ? conditions.join(', ') : null;
 }
 
 /**
  * Calculate the polarity difference between two values on a stressor.
  * Larger absolute values indicate that this stressor would expose greater tension.
+ * Parameter settings adjust both polarities (see getAdjustedPolarity).
  * 
- * @returns Difference in polarity (-2.0 to +2.0), or undefined if values not found
+ * @returns Difference in polarity (-2.0 to +2.0 at the defaults), or undefined if values not found
  */
 export function getPolarityDifference(
   valueCodeA: string, 
   valueCodeB: string, 
-  stressorId: StressorId
+  stressorId: StressorId,
+  settings?: StressorSettings,
+  model?: PolarityModel
 ): number | undefined {
-  const polarityA = getPolarity(valueCodeA, stressorId);
-  const polarityB = getPolarity(valueCodeB, stressorId);
+  const polarityA = getAdjustedPolarity(valueCodeA, stressorId, settings, model);
+  const polarityB = getAdjustedPolarity(valueCodeB, stressorId, settings, model);
   
   if (polarityA === undefined || polarityB === undefined) return undefined;
   
@@ -891,15 +1184,17 @@ export function getPolarityDifference(
 export function findBestStressorsForTension(
   valueCodeA: string,
   valueCodeB: string,
-  limit: number = 3
+  limit: number = 3,
+  settings?: StressorSettings,
+  model?: PolarityModel
 ): Array<{ stressor: Stressor; polarityDiff: number }> {
   const results: Array<{ stressor: Stressor; polarityDiff: number }> = [];
   
-  for (const stressorId of STRESSOR_IDS) {
-    const diff = getPolarityDifference(valueCodeA, valueCodeB, stressorId);
+  for (const stressor of getStressors(model)) {
+    const diff = getPolarityDifference(valueCodeA, valueCodeB, stressor.id, settings, model);
     if (diff !== undefined) {
       results.push({
-        stressor: STRESSORS[stressorId],
+        stressor,
         polarityDiff: diff,
       });
     }
@@ -911,16 +1206,82 @@ export function findBestStressorsForTension(
   return results.slice(0, limit);
 }
 
+export interface ValueSetSplitSide {
+  valueCode: string;
+  polarity: number;
+}
+
+export interface ValueSetSplit {
+  stressor: Stressor;
+  /** Weighted variance of the values' adjusted polarities; higher splits the set more */
+  variance: number;
+  /** Weighted mean polarity, the line the set is split at */
+  mean: number;
+  /** Values the stressor satisfies more than the set's mean, most satisfied first */
+  favoured: ValueSetSplitSide[];
+  /** Values at or below the mean, most frustrated first */
+  disfavoured: ValueSetSplitSide[];
+}
+
+/**
+ * Find the stressors that would best split a set of values, generalising
+ * findBestStressorsForTension beyond two values. Stressors are ranked by the
+ * weighted variance of the values' polarities: for two equally weighted
+ * values it is a quarter of the squared polarity difference, so the ranking
+ * agrees with the pairwise one.
+ *
+ * @param weights Value code → weight; values without one weigh 1
+ */
+export function findBestStressorsForValueSet(
+  valueCodes: string[],
+  limit: number = 3,
+  settings?: StressorSettings,
+  model?: PolarityModel,
+  weights?: Record<string, number>
+): ValueSetSplit[] {
+  const results: ValueSetSplit[] = [];
+
+  for (const stressor of getStressors(model)) {
+    const polarities = valueCodes.flatMap(valueCode => {
+      const polarity = getAdjustedPolarity(valueCode, stressor.id, settings, model);
+      return polarity === undefined ? [] : [{ valueCode, polarity, weight: weights?.[valueCode] ?? 1 }];
+    });
+    const totalWeight = polarities.reduce((sum, p) => sum + p.weight, 0);
+    if (polarities.length < 2 || totalWeight <= 0) continue;
+
+    const mean = polarities.reduce((sum, p) => sum + p.weight * p.polarity, 0) / totalWeight;
+    const variance = polarities.reduce((sum, p) => sum + p.weight * Math.pow(p.polarity - mean, 2), 0) / totalWeight;
+    const sides = polarities
+      .map(({ valueCode, polarity }) => ({ valueCode, polarity }))
+      .sort((a, b) => b.polarity - a.polarity);
+
+    results.push({
+      stressor,
+      variance,
+      mean,
+      favoured: sides.filter(p => p.polarity > mean + 1e-9),
+      disfavoured: sides.filter(p => p.polarity <= mean + 1e-9).reverse(),
+    });
+  }
+
+  results.sort((a, b) => b.variance - a.variance);
+
+  return results.slice(0, limit);
+}
+
 /**
- * Get all stressor definitions as an array.
+ * Get all stressor definitions as an array: the built-in ones, then any
+ * custom stressors the model carries.
  */
-export function getStressors(): Stressor[] {
-  return Object.values(STRESSORS);
+export function getStressors(model?: PolarityModel): Stressor[] {
+  return [...Object.values(STRESSORS), ...(model?.customStressors ?? [])];
 }
 
 /**
- * Get a stressor by its ID.
+ * Get a stressor by its ID. Custom stressors are found in the model.
  */
-export function getStressorById(id: StressorId): Stressor | undefined {
-  return STRESSORS[id];
+export function getStressorById(id: StressorId, model?: PolarityModel): Stressor | undefined {
+  return isCustomStressorId(id)
+    ? model?.customStressors.find(s => s.id === id)
+    : STRESSORS[id];
 }
@@ -12,3 +12,22 @@ export function stripMarkdown(text: string): string {
     .replace(/_([^_]+)_/g, '$1')
     .replace(/`([^`]+)`/g, '$1');
 }
+
+/** Hex-encoded SHA-256, matching Postgres `encode(digest(text, 'sha256'), 'hex')` */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/** Save text as a file through a temporary download link */
+export function downloadFile(content: string, fileName: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
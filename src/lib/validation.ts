@@ -16,6 +16,9 @@ export const profileSchema = z.object({
   scores: profileScoresSchema,
   description: z.string().nullable().optional(),
   system_prompt: z.string().nullable().optional(),
+  score_mode: z.enum(['raw', 'centred']).optional(),
+  tags: z.array(z.string().trim().min(1).max(32, 'Tag too long')).max(20, 'Too many tags').optional(),
+  collection: z.string().trim().max(60, 'Collection name too long').nullable().optional(),
   created_at: z.string().optional(),
   updated_at: z.string().optional(),
 });
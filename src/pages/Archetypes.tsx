@@ -0,0 +1,258 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Compass, GitCompare, KeyRound, Link2, Loader2, Pencil, Plus, Trash2, UserRoundPen } from 'lucide-react';
+import { Navigation } from '@/components/Navigation';
+import { ValueAbbreviation } from '@/components/ValueAbbreviation';
+import { CustomArchetypeDialog } from '@/components/CustomArchetypeDialog';
+import { Button } from '@/components/ui/button';
+import { ARCHETYPE_WEIGHT_LABELS, archetypeToScores } from '@/lib/archetypes';
+import {
+  DbCustomArchetype,
+  customToArchetype,
+  deleteCustomArchetype,
+  getArchetypeEditLink,
+} from '@/lib/archetype-storage';
+import { canEditProfile, getCurrentUserId, getEditToken, storeEditToken } from '@/lib/profile-storage';
+import { useArchetypes } from '@/hooks/use-archetypes';
+import { useToast } from '@/hooks/use-toast';
+
+const TOP_WEIGHT_COUNT = 5;
+
+export default function Archetypes() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { customArchetypes, isLoading, error, refresh } = useArchetypes();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<DbCustomArchetype | null>(null);
+
+  // An edit link (?edit=<token>) unlocks the archetype on this device; keep the token out of the address bar
+  const editToken = searchParams.get('edit');
+  useEffect(() => {
+    if (id && editToken) {
+      storeEditToken(id, editToken);
+      setSearchParams({}, { replace: true });
+    }
+  }, [id, editToken, setSearchParams]);
+
+  useEffect(() => {
+    getCurrentUserId().then(setUserId);
+  }, []);
+
+  // A permalink shows just that archetype
+  const shown = useMemo(
+    () => (id ? customArchetypes.filter(a => a.id === id) : customArchetypes),
+    [id, customArchetypes]
+  );
+
+  const openCreate = () => {
+    setEditing(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (archetype: DbCustomArchetype) => {
+    setEditing(archetype);
+    setDialogOpen(true);
+  };
+
+  const handleLoadInEditor = (archetype: DbCustomArchetype) => {
+    const scores = archetypeToScores(customToArchetype(archetype));
+    sessionStorage.setItem('loadArchetype', JSON.stringify({ name: archetype.name, scores }));
+    navigate('/editor');
+  };
+
+  const handleCompare = (archetype: DbCustomArchetype) => {
+    sessionStorage.setItem('compareProfiles', JSON.stringify({ archetypeName: archetype.name }));
+    navigate('/compare');
+  };
+
+  const handleCopyLink = async (archetype: DbCustomArchetype) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/archetypes/${archetype.id}`);
+    toast({
+      title: 'Link copied',
+      description: 'Share link copied to clipboard.',
+    });
+  };
+
+  const handleCopyEditLink = async (archetype: DbCustomArchetype) => {
+    const token = getEditToken(archetype.id);
+    if (!token) return;
+    await navigator.clipboard.writeText(getArchetypeEditLink(archetype.id, token));
+    toast({
+      title: 'Edit link copied',
+      description: 'Anyone with this link can edit or delete the archetype. Keep it private.',
+    });
+  };
+
+  const handleDelete = async (archetype: DbCustomArchetype) => {
+    if (!confirm(`Delete "${archetype.name}"? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await deleteCustomArchetype(archetype.id);
+      await refresh();
+      toast({
+        title: 'Archetype deleted',
+        description: `"${archetype.name}" has been removed.`,
+      });
+      if (id) navigate('/archetypes');
+    } catch (err) {
+      toast({
+        title: 'Delete failed',
+        description: err instanceof Error ? err.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation
+        title="Custom Archetypes"
+        description="Define and share your own archetypes"
+      />
+
+      <main className="container max-w-5xl py-8 px-4 space-y-8">
+        <section className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <div>
+            <h2 className="font-serif text-xl font-semibold">Your Archetypes, Alongside the Classics</h2>
+            <p className="text-sm text-muted-foreground mt-1 max-w-2xl">
+              Custom archetypes appear in every archetype picker — "Similar To...", Compare and Explore
+              Scenarios — under <span className="font-medium">Custom Archetypes</span>. Everyone can see and use
+              them; only their creator can edit them.
+            </p>
+          </div>
+          <Button onClick={openCreate} className="gap-2 shrink-0">
+            <Plus className="w-4 h-4" />
+            New Archetype
+          </Button>
+        </section>
+
+        {id && (
+          <Link to="/archetypes" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-primary">
+            <ArrowLeft className="w-4 h-4" />
+            All custom archetypes
+          </Link>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error instanceof Error ? error.message : 'Unknown error'}</p>
+        ) : shown.length === 0 ? (
+          <div className="text-center py-16 rounded-xl border bg-card/50">
+            <UserRoundPen className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              {id ? 'This archetype does not exist or has been deleted' : 'No custom archetypes yet'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-6">
+            {shown.map(archetype => {
+              const canEdit = canEditProfile(archetype, userId);
+              const topWeights = Object.entries(archetype.value_profile)
+                .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+                .slice(0, TOP_WEIGHT_COUNT);
+
+              return (
+                <section key={archetype.id} className="rounded-xl border bg-card p-5 space-y-4">
+                  <div>
+                    <Link to={`/archetypes/${archetype.id}`} className="font-serif text-lg font-semibold hover:text-primary">
+                      {archetype.name}
+                    </Link>
+                    {archetype.description && (
+                      <p className="text-sm text-muted-foreground mt-1 leading-relaxed">{archetype.description}</p>
+                    )}
+                  </div>
+
+                  {topWeights.length > 0 && (
+                    <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                      {topWeights.map(([code, weight]) => (
+                        <span key={code} title={ARCHETYPE_WEIGHT_LABELS[weight]}>
+                          <ValueAbbreviation code={code} />{' '}
+                          <span className={weight > 0 ? 'text-emerald-600' : 'text-rose-600'}>
+                            {weight > 0 ? '+' : ''}{weight}
+                          </span>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-2 pt-3 border-t">
+                    <Button variant="outline" size="sm" onClick={() => handleLoadInEditor(archetype)} className="gap-1.5">
+                      <Compass className="w-3.5 h-3.5" />
+                      Open in Editor
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleCompare(archetype)} className="gap-1.5">
+                      <GitCompare className="w-3.5 h-3.5" />
+                      Compare
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleCopyLink(archetype)} className="gap-1.5">
+                      <Link2 className="w-3.5 h-3.5" />
+                      Share
+                    </Button>
+                    {getEditToken(archetype.id) && (
+                      <Button variant="ghost" size="sm" onClick={() => handleCopyEditLink(archetype)} className="gap-1.5">
+                        <KeyRound className="w-3.5 h-3.5" />
+                        Copy Edit Link
+                      </Button>
+                    )}
+                    {canEdit && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => openEdit(archetype)} className="gap-1.5">
+                          <Pencil className="w-3.5 h-3.5" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(archetype)}
+                          className="gap-1.5 text-muted-foreground hover:text-destructive"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                          Delete
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <CustomArchetypeDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        archetype={editing}
+        onSaved={(saved) => {
+          if (!editing) navigate(`/archetypes/${saved.id}`);
+        }}
+      />
+
+      {/* Footer */}
+      <footer className="border-t py-6 mt-12">
+        <div className="container text-center text-sm text-muted-foreground">
+          <p>
+            Based on {' '}
+            <a
+              href="https://www.researchgate.net/publication/306432422_The_Refined_Theory_of_Basic_Values"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary hover:underline"
+            >
+              The Refined Theory of Basic Values
+            </a>
+            {' '}by Shalom H. Schwartz
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
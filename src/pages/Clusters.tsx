@@ -0,0 +1,276 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Loader2, Network, Save } from 'lucide-react';
+import { Navigation } from '@/components/Navigation';
+import { SchwartzCircle } from '@/components/SchwartzCircle';
+import { ScoreModeToggle } from '@/components/ScoreModeToggle';
+import { CohortSourceSelect } from '@/components/CohortSourceSelect';
+import { ValueAbbreviation } from '@/components/ValueAbbreviation';
+import { InfoPopover } from '@/components/InfoPopover';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CustomArchetypeDialog } from '@/components/CustomArchetypeDialog';
+import { COHORT_MAX_PROFILES, DbProfile, loadCohortProfiles } from '@/lib/profile-storage';
+import { ALL_PROFILES_SOURCE, parseCohortSource } from '@/lib/cohort-analysis';
+import {
+  CLUSTERING_METHODS,
+  Cluster,
+  ClusteringMethod,
+  clusterProfiles,
+  silhouetteByK,
+} from '@/lib/clustering';
+import { ScoreMode, getTopValues } from '@/lib/schwartz-values';
+import { scoresToValueProfile } from '@/lib/archetypes';
+import { cn } from '@/lib/utils';
+
+const K_OPTIONS = [2, 3, 4, 5, 6, 7, 8];
+
+function SaveArchetypeDialog({ cluster, onClose }: { cluster: Cluster | null; onClose: () => void }) {
+  const initialValues = useMemo(() => {
+    if (!cluster) return undefined;
+    const top = getTopValues(cluster.centroid, 3).map(v => v.label);
+    return {
+      name: `Cluster ${cluster.index + 1}`,
+      description: `Emergent archetype from ${cluster.members.length} saved profiles, led by ${top.join(', ')}.`,
+      valueProfile: scoresToValueProfile(cluster.centroid),
+    };
+  }, [cluster]);
+
+  return (
+    <CustomArchetypeDialog
+      open={!!cluster}
+      onOpenChange={open => !open && onClose()}
+      initialValues={initialValues}
+      title="Save as Custom Archetype"
+      description="The cluster centroid is rounded to archetype weights from -3 to 3; adjust them before saving if you like."
+    />
+  );
+}
+
+export default function Clusters() {
+  const [sourceKey, setSourceKey] = useState(ALL_PROFILES_SOURCE);
+  const [profiles, setProfiles] = useState<DbProfile[]>([]);
+  const [total, setTotal] = useState(0);
+  const [method, setMethod] = useState<ClusteringMethod>('kmeans');
+  const [k, setK] = useState(3);
+  const [scoreMode, setScoreMode] = useState<ScoreMode>('centred');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savingCluster, setSavingCluster] = useState<Cluster | null>(null);
+
+  useEffect(() => {
+    const filter = parseCohortSource(sourceKey);
+    if (!filter) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    loadCohortProfiles(filter)
+      .then((result) => {
+        if (cancelled) return;
+        setProfiles(result.profiles);
+        setTotal(result.total);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceKey]);
+
+  // Need at least one more profile than clusters for silhouettes to mean anything
+  const canCluster = profiles.length > k;
+
+  const result = useMemo(
+    () => (canCluster ? clusterProfiles(profiles, k, method, scoreMode) : null),
+    [profiles, k, method, scoreMode, canCluster]
+  );
+
+  const silhouettes = useMemo(
+    () => (profiles.length > 2 ? silhouetteByK(profiles, method, scoreMode, K_OPTIONS[0], K_OPTIONS[K_OPTIONS.length - 1]) : []),
+    [profiles, method, scoreMode]
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation
+        title="Profile Clusters"
+        description="Discover archetypes in your saved profiles"
+      />
+
+      <main className="container max-w-5xl py-8 px-4 space-y-8">
+        {/* Settings */}
+        <section className="rounded-xl border bg-card p-6 space-y-4">
+          <div>
+            <h2 className="font-serif text-xl font-semibold">Cluster Saved Profiles</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Group profiles with similar value priorities. Each cluster's centroid is an emergent archetype.
+            </p>
+          </div>
+          <div className="grid sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Profiles</Label>
+              <CohortSourceSelect value={sourceKey} onValueChange={setSourceKey} allowAll />
+            </div>
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(v) => setMethod(v as ClusteringMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLUSTERING_METHODS.map(m => (
+                    <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Number of clusters (k)</Label>
+              <Select value={String(k)} onValueChange={(v) => setK(Number(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {K_OPTIONS.map(option => (
+                    <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <ScoreModeToggle id="cluster-score-mode" mode={scoreMode} onModeChange={setScoreMode} />
+          {total > COHORT_MAX_PROFILES && (
+            <p className="flex items-center gap-2 text-xs text-amber-600">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              Clustering the {COHORT_MAX_PROFILES} most recently updated of {total} profiles.
+            </p>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {/* Silhouette by k, to help choose k */}
+          {silhouettes.length > 0 && (
+            <div className="pt-4 border-t space-y-2">
+              <div className="flex items-center gap-1.5">
+                <p className="text-xs font-medium text-muted-foreground">Silhouette by k</p>
+                <InfoPopover content={
+                  <p>The silhouette measures how much closer each profile is to its own cluster than to the next nearest one, from -1 to 1. Higher is better; the peak suggests a natural number of clusters.</p>
+                } />
+              </div>
+              <div className="flex items-end gap-2 h-20">
+                {silhouettes.map(s => (
+                  <button
+                    key={s.k}
+                    onClick={() => setK(s.k)}
+                    className="flex-1 flex flex-col items-center gap-1 h-full justify-end group"
+                    title={`k = ${s.k}: ${s.silhouette.toFixed(2)}`}
+                  >
+                    <div
+                      className={cn(
+                        'w-full rounded-t transition-colors',
+                        s.k === k ? 'bg-primary' : 'bg-primary/30 group-hover:bg-primary/50'
+                      )}
+                      style={{ height: `${Math.max(4, s.silhouette * 100)}%` }}
+                    />
+                    <span className="text-[10px] font-mono text-muted-foreground">{s.k}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !result ? (
+          <div className="text-center py-16 rounded-xl border bg-card/50">
+            <Network className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              {profiles.length === 0
+                ? 'No profiles to cluster yet'
+                : `Clustering into ${k} groups needs at least ${k + 1} profiles`}
+            </p>
+          </div>
+        ) : (
+          <section className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {profiles.length} profiles in {result.clusters.length} clusters · mean silhouette{' '}
+              <span className="font-mono">{result.silhouette.toFixed(2)}</span>
+            </p>
+            <div className="grid md:grid-cols-2 gap-6">
+              {result.clusters.map(cluster => (
+                <div key={cluster.index} className="rounded-xl border bg-card p-6 pb-4 space-y-4">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h3 className="font-serif text-lg font-semibold">Cluster {cluster.index + 1}</h3>
+                      <p className="text-xs text-muted-foreground">
+                        {cluster.members.length} {cluster.members.length === 1 ? 'profile' : 'profiles'} · silhouette{' '}
+                        <span className="font-mono">{cluster.silhouette.toFixed(2)}</span>
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => setSavingCluster(cluster)} className="gap-1.5">
+                      <Save className="w-3.5 h-3.5" />
+                      Save as Archetype
+                    </Button>
+                  </div>
+                  <div className="flex justify-center pb-16">
+                    <SchwartzCircle scores={cluster.centroid} size={260} />
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">Top values</p>
+                    <div className="flex flex-wrap gap-3 text-sm">
+                      {getTopValues(cluster.centroid, 3).map(v => (
+                        <span key={v.code} className="flex items-center gap-1">
+                          <ValueAbbreviation code={v.code} />
+                          <span className="font-mono text-xs text-muted-foreground">{cluster.centroid[v.code].toFixed(1)}</span>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">Members</p>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 text-sm">
+                      {cluster.members.map(member => (
+                        <Link key={member.id} to={`/p/${member.id}`} className="hover:text-primary hover:underline">
+                          {member.name}
+                        </Link>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+
+      <SaveArchetypeDialog cluster={savingCluster} onClose={() => setSavingCluster(null)} />
+
+      {/* Footer */}
+      <footer className="border-t py-6 mt-12">
+        <div className="container text-center text-sm text-muted-foreground">
+          <p>
+            Based on {' '}
+            <a
+              href="https://www.researchgate.net/publication/306432422_The_Refined_Theory_of_Basic_Values"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary hover:underline"
+            >
+              The Refined Theory of Basic Values
+            </a>
+            {' '}by Shalom H. Schwartz
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2, UsersRound, AlertTriangle, ArrowRight } from 'lucide-react';
+import { Navigation } from '@/components/Navigation';
+import { SchwartzCircle } from '@/components/SchwartzCircle';
+import { StressorSensitivityPanel } from '@/components/StressorSensitivityPanel';
+import { ScoreModeToggle } from '@/components/ScoreModeToggle';
+import { ValueAbbreviation } from '@/components/ValueAbbreviation';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CohortSourceSelect } from '@/components/CohortSourceSelect';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { COHORT_MAX_PROFILES, DbProfile, loadCohortProfiles } from '@/lib/profile-storage';
+import { calculateCohortStatistics, findCohortOutliers, parseCohortSource } from '@/lib/cohort-analysis';
+import { ScoreMode } from '@/lib/schwartz-values';
+
+const OUTLIER_COUNT = 5;
+
+export default function Cohort() {
+  const [sourceKey, setSourceKey] = useState('');
+  const [profiles, setProfiles] = useState<DbProfile[]>([]);
+  const [total, setTotal] = useState(0);
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [scoreMode, setScoreMode] = useState<ScoreMode>('raw');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const filter = parseCohortSource(sourceKey);
+    if (!filter) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    loadCohortProfiles(filter)
+      .then((result) => {
+        if (cancelled) return;
+        setProfiles(result.profiles);
+        setTotal(result.total);
+        setExcludedIds(new Set());
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceKey]);
+
+  const members = useMemo(
+    () => profiles.filter(p => !excludedIds.has(p.id)),
+    [profiles, excludedIds]
+  );
+
+  const statistics = useMemo(
+    () => (members.length > 0 ? calculateCohortStatistics(members, scoreMode) : null),
+    [members, scoreMode]
+  );
+
+  const outliers = useMemo(
+    () => (statistics && members.length > 2
+      ? findCohortOutliers(members, statistics.meanScores, OUTLIER_COUNT, scoreMode)
+      : []),
+    [members, statistics, scoreMode]
+  );
+
+  const toggleMember = (id: string) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation
+        title="Cohort Analysis"
+        description="Look at a group of profiles as a whole"
+      />
+
+      <main className="container max-w-5xl py-8 px-4 space-y-8">
+        {/* Cohort selection */}
+        <section className="rounded-xl border bg-card p-6 space-y-4">
+          <div>
+            <h2 className="font-serif text-xl font-semibold">Choose a Cohort</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              A cohort is every saved profile in a collection or with a tag. Organise profiles from the
+              editor or a bulk import on the <Link to="/#profiles" className="text-primary hover:underline">home page</Link>.
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <CohortSourceSelect value={sourceKey} onValueChange={setSourceKey} className="sm:w-72" />
+            <ScoreModeToggle id="cohort-score-mode" mode={scoreMode} onModeChange={setScoreMode} />
+          </div>
+          {total > COHORT_MAX_PROFILES && (
+            <p className="flex items-center gap-2 text-xs text-amber-600">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              Showing the {COHORT_MAX_PROFILES} most recently updated of {total} profiles.
+            </p>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </section>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !sourceKey ? (
+          <div className="text-center py-16 rounded-xl border bg-card/50">
+            <UsersRound className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">Select a cohort to see its aggregate profile</p>
+          </div>
+        ) : statistics ? (
+          <>
+            {/* Aggregate circumplex */}
+            <section className="rounded-xl border bg-card p-6 pb-10">
+              <h2 className="font-serif text-xl font-semibold mb-1 text-center">Cohort Mean</h2>
+              <p className="text-xs text-muted-foreground text-center mb-4">
+                {statistics.count} {statistics.count === 1 ? 'member' : 'members'} · shaded band shows ±1 standard deviation
+              </p>
+              <div className="flex justify-center pb-8">
+                <SchwartzCircle scores={statistics.meanScores} spread={statistics.sdScores} size={320} />
+              </div>
+            </section>
+
+            {/* Per-value statistics */}
+            <section className="rounded-xl border bg-card p-6">
+              <h2 className="font-serif text-xl font-semibold mb-4">Value Statistics</h2>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Value</TableHead>
+                    <TableHead className="text-right">Mean</TableHead>
+                    <TableHead className="text-right">SD</TableHead>
+                    <TableHead className="text-right">Min</TableHead>
+                    <TableHead className="text-right">Q1</TableHead>
+                    <TableHead className="text-right">Median</TableHead>
+                    <TableHead className="text-right">Q3</TableHead>
+                    <TableHead className="text-right">Max</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statistics.values.map(v => (
+                    <TableRow key={v.code}>
+                      <TableCell>
+                        <ValueAbbreviation code={v.code} />
+                        <span className="ml-2 text-muted-foreground hidden md:inline">{v.label}</span>
+                      </TableCell>
+                      {[v.mean, v.sd, v.min, v.q1, v.median, v.q3, v.max].map((n, i) => (
+                        <TableCell key={i} className="text-right font-mono text-xs">{n.toFixed(2)}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </section>
+
+            {/* Aggregate stressor sensitivity. The sensitivity vector is linear in the
+                scores, so the centroid's vector equals the mean of members' vectors. */}
+            <section className="rounded-xl border bg-card p-6">
+              <StressorSensitivityPanel scores={statistics.meanScores} scoreMode={scoreMode} />
+            </section>
+
+            {/* Outliers */}
+            {outliers.length > 0 && (
+              <section className="rounded-xl border bg-card p-6">
+                <h2 className="font-serif text-xl font-semibold mb-1">Outliers</h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Members furthest from the cohort mean, with the values where they differ most
+                </p>
+                <ul className="space-y-3">
+                  {outliers.map(({ member, distance, topDeviations }) => (
+                    <li key={member.id} className="flex items-center gap-4 rounded-lg border p-3">
+                      <div className="flex-1 min-w-0">
+                        <Link to={`/p/${member.id}`} className="font-medium hover:text-primary truncate block">
+                          {member.name}
+                        </Link>
+                        <div className="flex flex-wrap gap-3 mt-1 text-xs text-muted-foreground">
+                          {topDeviations.map(d => (
+                            <span key={d.code}>
+                              <ValueAbbreviation code={d.code} />{' '}
+                              <span className={d.deviation > 0 ? 'text-emerald-600' : 'text-rose-600'}>
+                                {d.deviation > 0 ? '+' : ''}{d.deviation.toFixed(1)}
+                              </span>
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                      <span className="font-mono text-sm text-muted-foreground">{distance.toFixed(2)}</span>
+                      <Link to={`/p/${member.id}`} className="text-muted-foreground hover:text-primary">
+                        <ArrowRight className="w-4 h-4" />
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </>
+        ) : null}
+
+        {/* Members */}
+        {!loading && profiles.length > 0 && (
+          <section className="rounded-xl border bg-card p-6">
+            <h2 className="font-serif text-xl font-semibold mb-1">Members</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Untick a profile to leave it out of the statistics
+            </p>
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-2">
+              {profiles.map(profile => (
+                <label
+                  key={profile.id}
+                  className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm cursor-pointer hover:bg-muted/50"
+                >
+                  <Checkbox
+                    checked={!excludedIds.has(profile.id)}
+                    onCheckedChange={() => toggleMember(profile.id)}
+                  />
+                  <span className="truncate">{profile.name}</span>
+                </label>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t py-6 mt-12">
+        <div className="container text-center text-sm text-muted-foreground">
+          <p>
+            Based on {' '}
+            <a
+              href="https://www.researchgate.net/publication/306432422_The_Refined_Theory_of_Basic_Values"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary hover:underline"
+            >
+              The Refined Theory of Basic Values
+            </a>
+            {' '}by Shalom H. Schwartz
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
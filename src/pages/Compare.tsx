@@ -3,23 +3,29 @@ import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Sparkles, Loader2, ScrollText, X, User } from 'lucide-react';
+import { Sparkles, Loader2, ScrollText, Square, X, User } from 'lucide-react';
 import { InfoPopover } from '@/components/InfoPopover';
 import { Navigation } from '@/components/Navigation';
-import { ARCHETYPES, ARCHETYPE_CATEGORIES, archetypeToScores } from '@/lib/archetypes';
+import { Archetype, ARCHETYPE_CATEGORIES, archetypeToScores, groupArchetypesByCategory } from '@/lib/archetypes';
+import { useArchetypes } from '@/hooks/use-archetypes';
 import { OverlappingSchwartzCircle } from '@/components/OverlappingSchwartzCircle';
 import { ConflictScenario } from '@/components/ConflictScenario';
+import { SavedComparable, SavedProfilePicker } from '@/components/SavedProfilePicker';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ProfileStressors } from '@/components/ProfileStressors';
-import { ValueScores } from '@/lib/schwartz-values';
+import { ValueScores, ScoreMode } from '@/lib/schwartz-values';
+import { ScoreModeToggle } from '@/components/ScoreModeToggle';
+import { StreamStatus } from '@/components/StreamStatus';
+import { useEdgeStream } from '@/hooks/use-edge-stream';
+import { getEdgeErrorMessage } from '@/lib/edge-functions';
 import { buildComparisonPrompt, PromptPair } from '@/lib/prompt-builders';
 import { stripMarkdown } from '@/lib/utils';
 import { toast } from 'sonner';
 
-const SUPABASE_BASE_URL = (import.meta.env.VITE_SUPABASE_URL as string).replace(/\/$/, '');
-const COMPARE_URL = `${SUPABASE_BASE_URL}/functions/v1/compare-archetypes`;
-
 // Custom profile type for user-created profiles
 interface CustomProfile {
+  /** Id of the saved profile or job analysis, when it came from one */
+  id?: string;
   name: string;
   scores: ValueScores;
   description?: string;
@@ -28,25 +34,32 @@ interface CustomProfile {
 export default function Compare() {
   const [selectedArchetypes, setSelectedArchetypes] = useState<string[]>([]);
   const [customProfiles, setCustomProfiles] = useState<CustomProfile[]>([]);
-  const [comparison, setComparison] = useState<string>('');
-  const [isGenerating, setIsGenerating] = useState(false);
+  const comparisonStream = useEdgeStream('compare-archetypes');
+  const { text: comparison, isStreaming: isGenerating } = comparisonStream;
   const [viewingPrompt, setViewingPrompt] = useState<{ title: string; prompt: PromptPair } | null>(null);
+  const [scoreMode, setScoreMode] = useState<ScoreMode>('raw');
   const [expandedCategories, setExpandedCategories] = useState<string[]>(
     ARCHETYPE_CATEGORIES.map(c => c.value)
   );
+  const { archetypes } = useArchetypes();
 
   // Load pre-selected comparison data from sessionStorage on mount
   useEffect(() => {
     const compareData = sessionStorage.getItem('compareProfiles');
     if (compareData) {
       try {
-        const { customProfile, archetypeName } = JSON.parse(compareData);
+        const { customProfile, customProfiles: preselected, archetypeName, scoreMode: profileScoreMode } = JSON.parse(compareData);
         if (customProfile) {
           setCustomProfiles([customProfile]);
+        } else if (Array.isArray(preselected)) {
+          setCustomProfiles(preselected.slice(0, 5));
         }
         if (archetypeName) {
           setSelectedArchetypes([archetypeName]);
         }
+        if (profileScoreMode === 'centred') {
+          setScoreMode('centred');
+        }
       } catch (e) {
         console.error('Failed to parse compare data:', e);
       }
@@ -57,15 +70,20 @@ export default function Compare() {
   // Total selected count (archetypes + custom profiles)
   const totalSelected = selectedArchetypes.length + customProfiles.length;
 
+  // A pre-selected custom archetype is skipped until the custom archetypes have loaded
+  const selectedArchetypeRecords = useMemo(
+    () => selectedArchetypes
+      .map(name => archetypes.find(a => a.name === name))
+      .filter((a): a is Archetype => !!a),
+    [selectedArchetypes, archetypes]
+  );
+
   const selectedArchetypeData = useMemo(() => {
-    const archetypeData = selectedArchetypes.map((name) => {
-      const archetype = ARCHETYPES.find(a => a.name === name)!;
-      return {
-        name: archetype.name,
-        scores: archetypeToScores(archetype),
-        color: '',
-      };
-    });
+    const archetypeData = selectedArchetypeRecords.map((archetype) => ({
+      name: archetype.name,
+      scores: archetypeToScores(archetype),
+      color: '',
+    }));
 
     const customData = customProfiles.map((profile) => ({
       name: profile.name,
@@ -74,7 +92,7 @@ export default function Compare() {
     }));
 
     return [...customData, ...archetypeData];
-  }, [selectedArchetypes, customProfiles]);
+  }, [selectedArchetypeRecords, customProfiles]);
 
   const toggleArchetype = (name: string) => {
     setSelectedArchetypes(prev => {
@@ -87,12 +105,25 @@ export default function Compare() {
       }
       return [...prev, name];
     });
-    setComparison(''); // Clear comparison when selection changes
+    comparisonStream.reset(); // Clear comparison when selection changes
+  };
+
+  const addSavedProfile = (item: SavedComparable) => {
+    if (customProfiles.some(p => p.name === item.name)) {
+      toast.error(`"${item.name}" is already selected`);
+      return;
+    }
+    if (totalSelected >= 5) {
+      toast.error('Maximum 5 profiles can be compared at once');
+      return;
+    }
+    setCustomProfiles(prev => [...prev, { id: item.id, name: item.name, scores: item.scores, description: item.description }]);
+    comparisonStream.reset();
   };
 
   const removeCustomProfile = (name: string) => {
     setCustomProfiles(prev => prev.filter(p => p.name !== name));
-    setComparison('');
+    comparisonStream.reset();
   };
 
   const toggleCategory = (category: string) => {
@@ -117,10 +148,9 @@ export default function Compare() {
   };
 
   const openComparisonPrompt = () => {
-    const archetypesData = selectedArchetypes.map(name => {
-      const archetype = ARCHETYPES.find(a => a.name === name)!;
-      return { name: archetype.name, description: archetype.description, valueProfile: archetype.valueProfile };
-    });
+    const archetypesData = selectedArchetypeRecords.map(archetype => (
+      { name: archetype.name, description: archetype.description, valueProfile: archetype.valueProfile }
+    ));
     const customProfilesData = customProfiles.map(profile => ({
       name: profile.name,
       description: profile.description || 'A custom user-created value profile',
@@ -135,103 +165,27 @@ export default function Compare() {
       return;
     }
 
-    setIsGenerating(true);
-    setComparison('');
-
-    try {
-      const archetypesData = selectedArchetypes.map(name => {
-        const archetype = ARCHETYPES.find(a => a.name === name)!;
-        return {
-          name: archetype.name,
-          description: archetype.description,
-          valueProfile: archetype.valueProfile,
-        };
-      });
-
-      const customProfilesData = customProfiles.map(profile => ({
-        name: profile.name,
-        description: profile.description || 'A custom user-created value profile',
-        valueProfile: scoresToValueProfile(profile.scores),
-      }));
-
-      const allProfilesData = [...customProfilesData, ...archetypesData];
-
-      const response = await fetch(COMPARE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({ archetypes: allProfilesData }),
-      });
-
-      if (!response.ok) {
-        let message = 'Failed to generate comparison';
-        try {
-          const error = await response.json();
-          message = error.error || message;
-        } catch { /* non-JSON body */ }
-        if (response.status === 429) {
-          toast.error('Rate limit exceeded. Please try again later.');
-        } else if (response.status === 402) {
-          toast.error('AI credits exhausted. Please add funds.');
-        } else {
-          toast.error(message);
-        }
-        return;
-      }
-
-      if (!response.body) {
-        throw new Error('No response body');
-      }
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let textBuffer = '';
-      let fullText = '';
-
-      outer: while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        textBuffer += decoder.decode(value, { stream: true });
-
-        let newlineIndex: number;
-        while ((newlineIndex = textBuffer.indexOf('\n')) !== -1) {
-          let line = textBuffer.slice(0, newlineIndex);
-          textBuffer = textBuffer.slice(newlineIndex + 1);
-
-          if (line.endsWith('\r')) line = line.slice(0, -1);
-          if (line.startsWith(':') || line.trim() === '') continue;
-          if (!line.startsWith('data: ')) continue;
+    const archetypesData = selectedArchetypeRecords.map(archetype => ({
+      name: archetype.name,
+      description: archetype.description,
+      valueProfile: archetype.valueProfile,
+    }));
 
-          const jsonStr = line.slice(6).trim();
-          if (jsonStr === '[DONE]') break outer;
+    const customProfilesData = customProfiles.map(profile => ({
+      name: profile.name,
+      description: profile.description || 'A custom user-created value profile',
+      valueProfile: scoresToValueProfile(profile.scores),
+    }));
 
-          try {
-            const parsed = JSON.parse(jsonStr);
-            const content = parsed.choices?.[0]?.delta?.content;
-            if (content) {
-              fullText += content;
-              setComparison(fullText);
-            }
-          } catch {
-            break;
-          }
-        }
-      }
+    try {
+      await comparisonStream.start({ archetypes: [...customProfilesData, ...archetypesData] });
     } catch (error) {
       console.error('Comparison error:', error);
-      toast.error('Failed to generate comparison');
-    } finally {
-      setIsGenerating(false);
+      toast.error(getEdgeErrorMessage(error, 'Failed to generate comparison'));
     }
   };
 
-  const archetypesByCategory = ARCHETYPE_CATEGORIES.map(cat => ({
-    ...cat,
-    archetypes: ARCHETYPES.filter(a => a.category === cat.value),
-  }));
+  const archetypesByCategory = groupArchetypesByCategory(archetypes);
 
   return (
     <div className="min-h-screen bg-background">
@@ -255,7 +209,7 @@ export default function Compare() {
                   onClick={() => {
                     setSelectedArchetypes([]);
                     setCustomProfiles([]);
-                    setComparison('');
+                    comparisonStream.reset();
                   }}
                 >
                   Clear All
@@ -290,6 +244,29 @@ export default function Compare() {
               </div>
             )}
 
+            {/* Saved people and roles */}
+            <div className="rounded-lg border bg-card p-4 space-y-3">
+              <div>
+                <h3 className="font-medium">Saved People & Roles</h3>
+                <p className="text-sm text-muted-foreground">Add saved profiles or roles from job analyses</p>
+              </div>
+              <Tabs defaultValue="profiles">
+                <TabsList>
+                  <TabsTrigger value="profiles">People</TabsTrigger>
+                  <TabsTrigger value="roles">Roles</TabsTrigger>
+                </TabsList>
+                {(['profiles', 'roles'] as const).map(kind => (
+                  <TabsContent key={kind} value={kind}>
+                    <SavedProfilePicker
+                      kind={kind}
+                      onSelect={addSavedProfile}
+                      excludeIds={customProfiles.flatMap(p => (p.id ? [p.id] : []))}
+                    />
+                  </TabsContent>
+                ))}
+              </Tabs>
+            </div>
+
             {/* Category accordions */}
             <div className="space-y-3">
               {archetypesByCategory.map(category => (
@@ -342,6 +319,9 @@ export default function Compare() {
                       size={340} 
                     />
                   </div>
+                  <div className="flex justify-center mt-6">
+                    <ScoreModeToggle id="compare-score-mode" mode={scoreMode} onModeChange={setScoreMode} />
+                  </div>
                 </div>
 
                 <div className="rounded-xl border bg-card p-6">
@@ -362,32 +342,34 @@ export default function Compare() {
                         <ScrollText className="w-3.5 h-3.5" />
                         View prompt
                       </Button>
-                      <Button
-                        onClick={generateComparison}
-                        disabled={isGenerating}
-                        className="gap-2"
-                      >
-                        {isGenerating ? (
-                          <>
+                      {isGenerating ? (
+                        <>
+                          <Button disabled className="gap-2">
                             <Loader2 className="w-4 h-4 animate-spin" />
                             Analyzing...
-                          </>
-                        ) : (
-                          <>
-                            <Sparkles className="w-4 h-4" />
-                            Generate Comparison
-                          </>
-                        )}
-                      </Button>
+                          </Button>
+                          <Button onClick={comparisonStream.cancel} variant="outline" size="icon" title="Stop generating">
+                            <Square className="w-3.5 h-3.5" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Button onClick={generateComparison} className="gap-2">
+                          <Sparkles className="w-4 h-4" />
+                          Generate Comparison
+                        </Button>
+                      )}
                     </div>
                   </div>
 
                   {comparison ? (
-                    <div className="prose prose-sm max-w-none text-muted-foreground">
-                      {comparison.split('\n').map((para, i) => (
-                        <p key={i}>{stripMarkdown(para)}</p>
-                      ))}
-                    </div>
+                    <>
+                      <div className="prose prose-sm max-w-none text-muted-foreground">
+                        {comparison.split('\n').map((para, i) => (
+                          <p key={i}>{stripMarkdown(para)}</p>
+                        ))}
+                      </div>
+                      <StreamStatus usage={comparisonStream.usage} incomplete={comparisonStream.incomplete} />
+                    </>
                   ) : (
                     <p className="text-sm text-muted-foreground text-center py-8">
                       Click "Generate Comparison" to see an AI-powered analysis of how these 
@@ -397,9 +379,9 @@ export default function Compare() {
                 </div>
 
                 {/* Tension-Amplifying Stressors */}
-                <ProfileStressors profiles={selectedArchetypeData} />
+                <ProfileStressors profiles={selectedArchetypeData} scoreMode={scoreMode} />
 
-                <ConflictScenario selectedArchetypes={selectedArchetypes} customProfiles={customProfiles} profilesData={selectedArchetypeData} />
+                <ConflictScenario selectedArchetypes={selectedArchetypes} customProfiles={customProfiles} profilesData={selectedArchetypeData} scoreMode={scoreMode} />
               </>
             ) : (
               <div className="rounded-xl border bg-card/50 p-12 text-center">
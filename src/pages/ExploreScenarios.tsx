@@ -1,20 +1,29 @@
 import { useState, useMemo } from 'react';
-import { Users, Zap, Play, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import { Users, Zap, Play, Loader2, ChevronDown, ChevronUp, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Navigation } from '@/components/Navigation';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { ARCHETYPES, ARCHETYPE_CATEGORIES, Archetype } from '@/lib/archetypes';
+import { Archetype, groupArchetypesByCategory } from '@/lib/archetypes';
+import { useArchetypes } from '@/hooks/use-archetypes';
+import { useEdgeStream } from '@/hooks/use-edge-stream';
+import { getEdgeErrorMessage } from '@/lib/edge-functions';
 import { SCHWARTZ_VALUES } from '@/lib/schwartz-values';
-import { STRESSORS, VALUE_POLARITY_MAP, StressorId, findBestStressorsForTension, getStressorById } from '@/lib/stressors';
+import { Stressor, StressorId, describeStressorConditions, findBestStressorsForTension, getStressorById } from '@/lib/stressors';
 import { OverlappingSchwartzCircle } from '@/components/OverlappingSchwartzCircle';
 import { ValueAbbreviation } from '@/components/ValueAbbreviation';
+import { StreamStatus } from '@/components/StreamStatus';
+import { StressorParameterSliders } from '@/components/StressorParameterSliders';
+import { ScenarioText } from '@/components/ScenarioText';
+import { SavedScenarioLink } from '@/components/SavedScenarioLink';
+import { useScenarioSaver } from '@/hooks/use-scenario-saver';
+import { useStressorSettings } from '@/hooks/use-stressor-settings';
+import { usePolarityModel } from '@/hooks/use-polarity-model';
+import { buildPersonaScenarioPrompt } from '@/lib/prompt-builders';
+import { getScenarioTitle } from '@/lib/scenario-storage';
 import { toast } from 'sonner';
 
-const SUPABASE_BASE_URL = (import.meta.env.VITE_SUPABASE_URL as string).replace(/\/$/, '');
-const SCENARIO_URL = `${SUPABASE_BASE_URL}/functions/v1/generate-persona-scenario`;
-
 // Predefined colors for the two personas
 const PERSONA_COLORS = ['#3b82f6', '#ef4444'];
 
@@ -28,9 +37,13 @@ interface TensionLine {
 export default function ExploreScenarios() {
   const [selectedPersonas, setSelectedPersonas] = useState<string[]>([]);
   const [selectedStressors, setSelectedStressors] = useState<StressorId[]>([]);
-  const [scenario, setScenario] = useState<string>('');
-  const [isGenerating, setIsGenerating] = useState(false);
+  const scenarioStream = useEdgeStream('generate-persona-scenario');
+  const { text: scenario, isStreaming: isGenerating } = scenarioStream;
+  const scenarioSaver = useScenarioSaver();
+  const { settings: stressorSettings, setParameter, resetStressor } = useStressorSettings();
+  const { activeModel } = usePolarityModel();
   const [expandedCategories, setExpandedCategories] = useState<string[]>(['fictional']);
+  const { archetypes } = useArchetypes();
 
   // Weight to score mapping: -3 to 3 range → 0.5 to 6.5 (0-7 scale)
   const weightToScore = (weight: number) => {
@@ -43,7 +56,7 @@ export default function ExploreScenarios() {
   // Get archetype data for selected personas
   const personaData = useMemo(() => {
     return selectedPersonas.map((name, index) => {
-      const archetype = ARCHETYPES.find(a => a.name === name);
+      const archetype = archetypes.find(a => a.name === name);
       if (!archetype) return null;
       
       // Convert valueProfile (-3 to 3) to scores (0-7 scale)
@@ -67,7 +80,7 @@ export default function ExploreScenarios() {
       scores: Record<string, number>;
       color: string;
     }>;
-  }, [selectedPersonas]);
+  }, [selectedPersonas, archetypes]);
 
   // Calculate top tension lines between the two personas
   // Calculate geometric position on circumplex for a value
@@ -127,7 +140,7 @@ export default function ExploreScenarios() {
         
         // Only consider significant tensions
         if (combinedTension > 1.0) {
-          const stressorImpacts = findBestStressorsForTension(valueA.code, valueB.code, 3);
+          const stressorImpacts = findBestStressorsForTension(valueA.code, valueB.code, 3, stressorSettings, activeModel);
           
           tensions.push({
             valueA: valueA.code,
@@ -146,15 +159,15 @@ export default function ExploreScenarios() {
     return tensions
       .sort((a, b) => b.scoreDiff - a.scoreDiff)
       .slice(0, 3);
-  }, [personaData]);
+  }, [personaData, stressorSettings, activeModel]);
 
   // Get all stressors that impact the tensions
   const impactingStressors = useMemo(() => {
-    const stressorMap = new Map<StressorId, { stressor: typeof STRESSORS[StressorId]; tensions: string[] }>();
+    const stressorMap = new Map<StressorId, { stressor: Stressor; tensions: string[] }>();
     
     tensionLines.forEach(tension => {
       tension.stressors.forEach(({ stressorId }) => {
-        const stressor = STRESSORS[stressorId];
+        const stressor = getStressorById(stressorId, activeModel);
         if (stressor) {
           if (!stressorMap.has(stressorId)) {
             stressorMap.set(stressorId, { stressor, tensions: [] });
@@ -164,11 +177,19 @@ export default function ExploreScenarios() {
       });
     });
     
+    // Softening a selected stressor can drop it from the tensions; keep it listed so its sliders stay put
+    selectedStressors.forEach(stressorId => {
+      const stressor = getStressorById(stressorId, activeModel);
+      if (stressor && !stressorMap.has(stressorId)) {
+        stressorMap.set(stressorId, { stressor, tensions: [] });
+      }
+    });
+
     return Array.from(stressorMap.entries()).map(([id, data]) => ({
       id,
       ...data,
     }));
-  }, [tensionLines]);
+  }, [tensionLines, selectedStressors, activeModel]);
 
   const togglePersona = (name: string) => {
     setSelectedPersonas(prev => {
@@ -182,7 +203,8 @@ export default function ExploreScenarios() {
     });
     // Reset stressors when personas change
     setSelectedStressors([]);
-    setScenario('');
+    scenarioStream.reset();
+    scenarioSaver.clear();
   };
 
   const toggleStressor = (stressorId: StressorId) => {
@@ -203,121 +225,57 @@ export default function ExploreScenarios() {
       return;
     }
 
-    setIsGenerating(true);
-    setScenario('');
-
-    try {
-      const stressors = selectedStressors.map(id => {
-        const stressor = STRESSORS[id];
-        return {
-          id,
-          name: stressor.name,
-          description: stressor.description,
-        };
-      });
-
-      const tensions = tensionLines
-        .filter(t => t.stressors.some(c => selectedStressors.includes(c.stressorId)))
-        .map(t => ({
-          valueA: SCHWARTZ_VALUES.find(v => v.code === t.valueA)?.label || t.valueA,
-          valueB: SCHWARTZ_VALUES.find(v => v.code === t.valueB)?.label || t.valueB,
-          stressor: t.stressors.find(c => selectedStressors.includes(c.stressorId))?.stressorId || '',
-          explanation: `${personaData[0].name} values ${t.valueA} while ${personaData[1].name} values ${t.valueB}`,
-        }));
-
-      const response = await fetch(SCENARIO_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          personas: personaData.map(p => ({
-            name: p.name,
-            description: p.description,
-            valueProfile: p.valueProfile,
-          })),
-          stressors,
-          tensions,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        if (response.status === 429) {
-          toast.error('Rate limit exceeded. Please try again later.');
-        } else if (response.status === 402) {
-          toast.error('AI credits exhausted.');
-        } else {
-          toast.error(error.error || 'Failed to generate scenario');
-        }
-        setIsGenerating(false);
-        return;
-      }
-
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No reader');
-
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+    // A custom stressor deleted since it was selected is left out
+    const stressors = selectedStressors.flatMap(id => {
+      const stressor = getStressorById(id, activeModel);
+      return stressor ? [{
+        id,
+        name: stressor.name,
+        description: stressor.description,
+        conditions: describeStressorConditions(id, stressorSettings, activeModel) ?? undefined,
+      }] : [];
+    });
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
+    const tensions = tensionLines
+      .filter(t => t.stressors.some(c => selectedStressors.includes(c.stressorId)))
+      .map(t => ({
+        valueA: SCHWARTZ_VALUES.find(v => v.code === t.valueA)?.label || t.valueA,
+        valueB: SCHWARTZ_VALUES.find(v => v.code === t.valueB)?.label || t.valueB,
+        stressor: t.stressors.find(c => selectedStressors.includes(c.stressorId))?.stressorId || '',
+        explanation: `${personaData[0].name} values ${t.valueA} while ${personaData[1].name} values ${t.valueB}`,
+      }));
+
+    const personas = personaData.map(p => ({
+      name: p.name,
+      description: p.description,
+      valueProfile: p.valueProfile,
+    }));
+    scenarioSaver.clear();
 
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices?.[0]?.delta?.content;
-              if (content) {
-                setScenario(prev => prev + content);
-              }
-            } catch {}
-          }
-        }
+    try {
+      const request = { personas, stressors, tensions };
+      const result = await scenarioStream.start(request);
+      // Only finished scenarios go in the library
+      if (result && !result.incomplete) {
+        const participants = personas.map(p => ({ name: p.name, source: 'archetype' as const }));
+        await scenarioSaver.save({
+          kind: 'persona',
+          title: getScenarioTitle(participants),
+          prompt: buildPersonaScenarioPrompt(personas, stressors, tensions),
+          participants,
+          stressors: stressors.map(s => s.name),
+          model: result.model,
+          content: result.text,
+          request,
+        });
       }
     } catch (error) {
       console.error('Scenario generation error:', error);
-      toast.error('Failed to generate scenario');
-    } finally {
-      setIsGenerating(false);
+      toast.error(getEdgeErrorMessage(error, 'Failed to generate scenario'));
     }
   };
 
-  const archetypesByCategory = useMemo(() => {
-    return ARCHETYPE_CATEGORIES.map(cat => ({
-      ...cat,
-      archetypes: ARCHETYPES.filter(a => a.category === cat.value),
-    }));
-  }, []);
-
-  const renderScenario = (text: string) => {
-    const lines = text.split('\n');
-    return lines.map((line, idx) => {
-      if (line.startsWith('## ')) {
-        return (
-          <h2 key={idx} className="text-xl font-bold text-primary mt-6 mb-3 first:mt-0">
-            {line.replace('## ', '')}
-          </h2>
-        );
-      }
-      if (line.trim() === '') {
-        return <br key={idx} />;
-      }
-      return (
-        <p key={idx} className="text-muted-foreground leading-relaxed mb-2">
-          {line}
-        </p>
-      );
-    });
-  };
+  const archetypesByCategory = useMemo(() => groupArchetypesByCategory(archetypes), [archetypes]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -460,7 +418,7 @@ export default function ExploreScenarios() {
                       </div>
                       <p className="text-xs text-muted-foreground">
                         Amplified by: {tension.stressors.map(c => 
-                          STRESSORS[c.stressorId]?.name
+                          getStressorById(c.stressorId, activeModel)?.name
                         ).filter(Boolean).join(', ')}
                       </p>
                     </div>
@@ -482,49 +440,63 @@ export default function ExploreScenarios() {
                 </CardHeader>
                 <CardContent className="space-y-3">
                   {impactingStressors.map(({ id, stressor, tensions }) => (
-                    <label 
-                      key={id}
-                      className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors"
-                    >
-                      <Checkbox
-                        checked={selectedStressors.includes(id)}
-                        onCheckedChange={() => toggleStressor(id)}
-                        className="mt-1"
-                      />
-                      <div className="flex-1">
-                        <div className="font-medium">{stressor.name}</div>
-                        <p className="text-sm text-muted-foreground">{stressor.description}</p>
-                        <p className="text-xs text-primary mt-1">
-                          Aggravates: {tensions.join(', ')}
-                        </p>
-                      </div>
-                    </label>
+                    <div key={id} className="rounded-lg border">
+                      <label className="flex items-start gap-3 p-3 cursor-pointer hover:bg-muted/50 transition-colors">
+                        <Checkbox
+                          checked={selectedStressors.includes(id)}
+                          onCheckedChange={() => toggleStressor(id)}
+                          className="mt-1"
+                        />
+                        <div className="flex-1">
+                          <div className="font-medium">{stressor.name}</div>
+                          <p className="text-sm text-muted-foreground">{stressor.description}</p>
+                          {tensions.length > 0 && (
+                            <p className="text-xs text-primary mt-1">
+                              Aggravates: {tensions.join(', ')}
+                            </p>
+                          )}
+                        </div>
+                      </label>
+                      {selectedStressors.includes(id) && (
+                        <div className="px-3 pb-3 pl-10">
+                          <StressorParameterSliders
+                            stressorId={id}
+                            model={activeModel}
+                            settings={stressorSettings}
+                            onParameterChange={setParameter}
+                            onReset={resetStressor}
+                          />
+                        </div>
+                      )}
+                    </div>
                   ))}
                 </CardContent>
               </Card>
             )}
 
             {/* Generate Button */}
-            {personaData.length === 2 && (
+            {personaData.length === 2 && (isGenerating ? (
+              <div className="flex gap-2">
+                <Button disabled className="flex-1" size="lg">
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Generating Scenario...
+                </Button>
+                <Button onClick={scenarioStream.cancel} variant="outline" size="lg">
+                  <Square className="w-4 h-4 mr-2" />
+                  Stop
+                </Button>
+              </div>
+            ) : (
               <Button
                 onClick={generateScenario}
-                disabled={isGenerating || selectedStressors.length === 0}
+                disabled={selectedStressors.length === 0}
                 className="w-full"
                 size="lg"
               >
-                {isGenerating ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Generating Scenario...
-                  </>
-                ) : (
-                  <>
-                    <Play className="w-4 h-4 mr-2" />
-                    Generate Conflict Scenario
-                  </>
-                )}
+                <Play className="w-4 h-4 mr-2" />
+                Generate Conflict Scenario
               </Button>
-            )}
+            ))}
           </div>
         </div>
 
@@ -535,12 +507,14 @@ export default function ExploreScenarios() {
               <CardTitle>Generated Scenario</CardTitle>
             </CardHeader>
             <CardContent className="prose prose-sm max-w-none dark:prose-invert">
-              {scenario ? renderScenario(scenario) : (
+              {scenario ? <ScenarioText kind="persona" text={scenario} /> : (
                 <div className="flex items-center gap-2 text-muted-foreground">
                   <Loader2 className="w-4 h-4 animate-spin" />
                   Generating...
                 </div>
               )}
+              <StreamStatus usage={scenarioStream.usage} incomplete={scenarioStream.incomplete} />
+              <SavedScenarioLink scenarioId={scenarioSaver.savedId} saving={scenarioSaver.saving} />
             </CardContent>
           </Card>
         )}
@@ -1,17 +1,37 @@
-import { useState, useEffect } from 'react';
-import { AlertCircle, Info, Building2, Briefcase, Star, ChevronDown, ChevronUp, Sparkles } from 'lucide-react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { AlertCircle, Info, Building2, Briefcase, Star, ChevronDown, ChevronUp, Sparkles, GitCompare, Loader2, Plus, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Navigation } from '@/components/Navigation';
 import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { SchwartzCircle } from '@/components/SchwartzCircle';
 import { ValueEditor } from '@/components/ValueEditor';
 import { ClarificationPanel } from '@/components/ClarificationPanel';
+import { PersonJobFitPanel } from '@/components/PersonJobFitPanel';
+import { OverlappingSchwartzCircle } from '@/components/OverlappingSchwartzCircle';
+import { ProfileStressors } from '@/components/ProfileStressors';
+import { ScoreModeToggle } from '@/components/ScoreModeToggle';
+import { StressorSensitivityPanel } from '@/components/StressorSensitivityPanel';
+import { SavedJobAnalyses } from '@/components/SavedJobAnalyses';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
-import type { ValueScores } from '@/lib/schwartz-values';
-import type { ConfidenceLevel } from '@/lib/job-clarification';
+import type { ValueScores, ScoreMode } from '@/lib/schwartz-values';
+import { ClarificationResponse, ConfidenceLevel, deriveScoreUncertainty } from '@/lib/job-clarification';
+import type { JobValueAnalysis } from '@/lib/person-job-fit';
+import {
+  JobAnalysisResult,
+  OccupationalContext,
+  findJobAnalysisByDescription,
+  loadJobAnalysis,
+  saveJobAnalysis,
+  toJobAnalysisResult,
+  updateJobAnalysis,
+} from '@/lib/job-analysis-storage';
+import { canEditProfile, getCurrentUserId, storeEditToken } from '@/lib/profile-storage';
+import { usePolarityModel } from '@/hooks/use-polarity-model';
 
 // Rate limiting constants
 const RATE_LIMIT = 20;
@@ -52,28 +72,52 @@ function getTimeUntilReset(): string {
   return `Resets in ${minutesRemaining} minute${minutesRemaining === 1 ? '' : 's'}.`;
 }
 
-// ---------------------------------------------------------------------------
-// Types
-// ---------------------------------------------------------------------------
-
-interface OccupationalContext {
-  socCode: string;
-  occupationTitle: string;
-  isProfession: boolean;
-  professionEthicsNote?: string;
-  topWorkStyles: string[];
-  interestProfile: string[];
-  workValues: string[];
+// Delay before edits to a saved analysis are written back
+const AUTOSAVE_DELAY_MS = 800;
+
+interface JobAnalysisOutcome {
+  result: JobAnalysisResult;
+  /** Id of the saved record, or null if saving failed */
+  id: string | null;
+  /** Why saving failed, if it did */
+  saveError?: unknown;
+  /** The description had been analysed before, so no quota was used */
+  reused: boolean;
 }
 
-interface AnalysisResult {
-  detectedJobTitle?: string;
-  scores: ValueScores;
-  confidence: Record<string, ConfidenceLevel>;
-  rationales?: Record<string, string>;
-  sources?: Record<string, 'job_description' | 'onet' | 'merged'>;
-  occupationalContext?: OccupationalContext;
-  onetEnriched?: boolean;
+/**
+ * Analyse a description and save the result. A description that was analysed
+ * before returns the saved record instead, so it does not count towards the
+ * rate limit.
+ */
+async function runJobAnalysis(jobDescription: string): Promise<JobAnalysisOutcome> {
+  const existing = await findJobAnalysisByDescription(jobDescription).catch(() => null);
+  if (existing) {
+    return { result: toJobAnalysisResult(existing), id: existing.id, reused: true };
+  }
+
+  if (getRateLimitState().count >= RATE_LIMIT) {
+    throw new Error(`Rate limit reached. ${getTimeUntilReset()}`);
+  }
+
+  const analyzeResponse = await supabase.functions.invoke('analyze-job-description', {
+    body: { jobDescription }
+  });
+
+  if (analyzeResponse.error) {
+    // Log details to browser console for diagnosis
+    console.error('[JobAnalysis] analyze-job-description error:', analyzeResponse.error);
+    throw analyzeResponse.error;
+  }
+
+  addRateLimitTimestamp();
+  const result = analyzeResponse.data as JobAnalysisResult;
+  try {
+    const saved = await saveJobAnalysis(jobDescription, result);
+    return { result, id: saved.id, reused: false };
+  } catch (saveError) {
+    return { result, id: null, reused: false, saveError };
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -206,57 +250,317 @@ function OccupationalContextPanel({ ctx }: { ctx: OccupationalContext }) {
   );
 }
 
+// ---------------------------------------------------------------------------
+// MultiRoleComparison
+// ---------------------------------------------------------------------------
+
+const MIN_ROLES = 2;
+const MAX_ROLES = 5;
+const MIN_DESCRIPTION_LENGTH = 50;
+
+interface AnalysedRole {
+  id: string | null;
+  name: string;
+  scores: ValueScores;
+}
+
+/** Role names must be unique for the overlay legend and stressor cards */
+function uniqueRoleName(title: string | undefined, index: number, taken: string[]): string {
+  const base = title?.trim() || `Role ${index + 1}`;
+  let name = base;
+  for (let n = 2; taken.includes(name); n++) {
+    name = `${base} (${n})`;
+  }
+  return name;
+}
+
+/** Analyse several descriptions and overlay them to show where the roles diverge */
+function MultiRoleComparison({ onAnalysed }: { onAnalysed: () => void }) {
+  const [descriptions, setDescriptions] = useState<string[]>(() => Array(MIN_ROLES).fill(''));
+  const [roles, setRoles] = useState<AnalysedRole[]>([]);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [scoreMode, setScoreMode] = useState<ScoreMode>('raw');
+
+  const filled = descriptions.filter(d => d.trim().length > 0);
+  const canAnalyze = filled.length >= MIN_ROLES && filled.every(d => d.trim().length >= MIN_DESCRIPTION_LENGTH);
+
+  const updateDescription = (index: number, value: string) => {
+    setDescriptions(prev => prev.map((d, i) => (i === index ? value : d)));
+  };
+
+  const removeDescription = (index: number) => {
+    setDescriptions(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // One at a time, so a rate limit hit part-way keeps the roles analysed so far
+  const handleAnalyzeAll = async () => {
+    setIsAnalyzing(true);
+    setRoles([]);
+    const analysed: AnalysedRole[] = [];
+    let reusedCount = 0;
+
+    try {
+      for (const [index, description] of filled.entries()) {
+        const outcome = await runJobAnalysis(description);
+        if (outcome.reused) reusedCount++;
+        analysed.push({
+          id: outcome.id,
+          name: uniqueRoleName(outcome.result.detectedJobTitle, index, analysed.map(r => r.name)),
+          scores: outcome.result.scores,
+        });
+      }
+      toast.success(
+        reusedCount > 0
+          ? `Compared ${analysed.length} roles (${reusedCount} from saved analyses)`
+          : `Compared ${analysed.length} roles`
+      );
+    } catch (error) {
+      console.error('[JobAnalysis] Multi-role analysis failed:', error);
+      const message = error instanceof Error ? error.message : 'Failed to analyze job descriptions';
+      toast.error(analysed.length > 0 ? `${message} Showing the ${analysed.length} roles analysed so far.` : message);
+    } finally {
+      setRoles(analysed);
+      onAnalysed();
+      setIsAnalyzing(false);
+    }
+  };
+
+  return (
+    <>
+      <section className="rounded-xl border bg-card p-6 space-y-4">
+        <div>
+          <h2 className="font-serif text-xl font-semibold">Job Descriptions</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Paste {MIN_ROLES}–{MAX_ROLES} descriptions to see how the roles differ in value emphasis. Each new
+            description counts towards the hourly limit; ones analysed before do not.
+          </p>
+        </div>
+        {descriptions.map((description, index) => (
+          <div key={index} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Role {index + 1}</span>
+              {descriptions.length > MIN_ROLES && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeDescription(index)}
+                  disabled={isAnalyzing}
+                  className="h-7 px-2"
+                  title="Remove role"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+            <Textarea
+              placeholder={`Paste job description ${index + 1} here (minimum ${MIN_DESCRIPTION_LENGTH} characters)...`}
+              value={description}
+              onChange={(e) => updateDescription(index, e.target.value)}
+              rows={5}
+              className="resize-y"
+            />
+          </div>
+        ))}
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDescriptions(prev => [...prev, ''])}
+            disabled={isAnalyzing || descriptions.length >= MAX_ROLES}
+            className="flex items-center gap-2"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add Role
+          </Button>
+          <Button onClick={handleAnalyzeAll} disabled={isAnalyzing || !canAnalyze}>
+            {isAnalyzing ? 'Analyzing…' : `Compare ${filled.length} Roles`}
+          </Button>
+        </div>
+      </section>
+
+      {roles.length >= MIN_ROLES && (
+        <>
+          <section className="rounded-xl border bg-card p-6">
+            <div className="flex items-center justify-between flex-wrap gap-3 mb-4">
+              <h2 className="font-serif text-xl font-semibold">Value Emphasis by Role</h2>
+              <ScoreModeToggle id="multi-role-score-mode" mode={scoreMode} onModeChange={setScoreMode} />
+            </div>
+            <div className="flex justify-center">
+              <OverlappingSchwartzCircle
+                archetypes={roles.map(role => ({ name: role.name, scores: role.scores, color: '' }))}
+                size={340}
+                mode={scoreMode}
+              />
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-4 text-sm">
+              {roles.filter(role => role.id).map(role => (
+                <Link key={role.id} to={`/job-analysis/${role.id}`} className="text-primary hover:underline">
+                  Open {role.name}
+                </Link>
+              ))}
+            </div>
+          </section>
+
+          <ProfileStressors profiles={roles} scoreMode={scoreMode} />
+        </>
+      )}
+    </>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main page
 // ---------------------------------------------------------------------------
 
 const JobAnalysis = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
   const [jobDescription, setJobDescription] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isEnriching, setIsEnriching] = useState(false);
-  const [results, setResults] = useState<AnalysisResult | null>(null);
+  const [isLoadingSaved, setIsLoadingSaved] = useState(false);
+  const [results, setResults] = useState<JobAnalysisResult | null>(null);
+  const [clarifications, setClarifications] = useState<ClarificationResponse[]>([]);
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  const [listRefreshKey, setListRefreshKey] = useState(0);
+  const [mode, setMode] = useState<'single' | 'multiple'>('single');
   const [rateLimitState, setRateLimitState] = useState<RateLimitState>({ count: 0, timestamps: [] });
+  // Id of the record the page currently shows, so saving a new analysis does not reload it
+  const loadedIdRef = useRef<string | null>(null);
+  // Set by edits to a saved analysis, cleared once they are written back
+  const dirtyRef = useRef(false);
 
   useEffect(() => {
     setRateLimitState(getRateLimitState());
   }, []);
 
+  // An edit link (?edit=<token>) unlocks the analysis on this device; keep the token out of the address bar
+  const editToken = searchParams.get('edit');
+  useEffect(() => {
+    if (id && editToken) {
+      storeEditToken(id, editToken);
+      setSearchParams({}, { replace: true });
+    }
+  }, [id, editToken, setSearchParams]);
+
+  useEffect(() => {
+    if (!id) {
+      // Leaving a saved analysis for the bare page starts afresh
+      if (loadedIdRef.current) {
+        setJobDescription('');
+        setResults(null);
+        setClarifications([]);
+      }
+      loadedIdRef.current = null;
+      setSavedId(null);
+      setCanEdit(false);
+      return;
+    }
+    setMode('single');
+    if (loadedIdRef.current === id) return;
+
+    let cancelled = false;
+    setIsLoadingSaved(true);
+    Promise.all([loadJobAnalysis(id), getCurrentUserId()])
+      .then(([analysis, userId]) => {
+        if (cancelled) return;
+        if (!analysis) {
+          toast.error('This job analysis does not exist or has been deleted');
+          navigate('/job-analysis', { replace: true });
+          return;
+        }
+        loadedIdRef.current = analysis.id;
+        dirtyRef.current = false;
+        setJobDescription(analysis.job_description);
+        setResults(toJobAnalysisResult(analysis));
+        setClarifications(analysis.clarification_responses);
+        setSavedId(analysis.id);
+        setCanEdit(canEditProfile(analysis, userId));
+      })
+      .catch((err) => {
+        if (!cancelled) toast.error(err instanceof Error ? err.message : 'Unable to load job analysis');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingSaved(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, navigate]);
+
+  // Write enrichment, clarification answers and manual score edits back to the saved record
+  useEffect(() => {
+    if (!savedId || !canEdit || !results || !dirtyRef.current) return;
+
+    const timeout = setTimeout(() => {
+      dirtyRef.current = false;
+      updateJobAnalysis(savedId, results, clarifications).catch((err) => {
+        toast.error(err instanceof Error ? err.message : 'Unable to save changes');
+      });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [savedId, canEdit, results, clarifications]);
+
+  const fitJob = useMemo<JobValueAnalysis | null>(
+    () => (results
+      ? { jobTitle: results.detectedJobTitle, scores: results.scores, confidence: results.confidence }
+      : null),
+    [results]
+  );
+
+  // Interval widths follow confidence and narrow with every clarification answer
+  const { activeModel } = usePolarityModel();
+  const scoreUncertainty = useMemo(
+    () => (results ? deriveScoreUncertainty(results.confidence, clarifications, activeModel) : undefined),
+    [results, clarifications, activeModel]
+  );
+
   const remaining = RATE_LIMIT - rateLimitState.count;
   const rateLimitReached = remaining <= 0;
 
   // ── Step 1: analyze job description ───────────────────────────────────────
   const handleAnalyze = async () => {
-    const currentState = getRateLimitState();
-    if (currentState.count >= RATE_LIMIT) {
-      toast.error(`Rate limit reached. ${getTimeUntilReset()}`);
-      setRateLimitState(currentState);
-      return;
-    }
-
     setIsAnalyzing(true);
-    setResults(null);
 
     try {
-      const analyzeResponse = await supabase.functions.invoke('analyze-job-description', {
-        body: { jobDescription }
-      });
+      const outcome = await runJobAnalysis(jobDescription);
 
-      if (analyzeResponse.error) {
-        // Log details to browser console for diagnosis
-        console.error('[JobAnalysis] analyze-job-description error:', analyzeResponse.error);
-        throw analyzeResponse.error;
+      if (outcome.reused) {
+        if (outcome.id !== id) navigate(`/job-analysis/${outcome.id}`);
+        toast.info('This description was analysed before — showing the saved analysis. No quota was used.');
+        return;
       }
 
-      setResults(analyzeResponse.data as AnalysisResult);
-      addRateLimitTimestamp();
-      setRateLimitState(getRateLimitState());
-      toast.success('Analysis complete!');
+      setResults(outcome.result);
+      setClarifications([]);
+      dirtyRef.current = false;
+
+      if (outcome.id) {
+        loadedIdRef.current = outcome.id;
+        setSavedId(outcome.id);
+        setCanEdit(true);
+        setListRefreshKey(k => k + 1);
+        navigate(`/job-analysis/${outcome.id}`);
+        toast.success('Analysis complete and saved!');
+      } else {
+        // Keep the unsaved result on screen rather than the previously opened record
+        loadedIdRef.current = null;
+        setSavedId(null);
+        setCanEdit(false);
+        if (id) navigate('/job-analysis');
+        toast.error(outcome.saveError instanceof Error ? outcome.saveError.message : 'Unable to save job analysis');
+      }
 
     } catch (error) {
       console.error('[JobAnalysis] Analysis failed:', error);
       const message = error instanceof Error ? error.message : 'Failed to analyze job description';
       toast.error(message);
     } finally {
+      setRateLimitState(getRateLimitState());
       setIsAnalyzing(false);
     }
   };
@@ -284,8 +588,9 @@ const JobAnalysis = () => {
         return;
       }
 
-      const enriched = enrichResponse.data as AnalysisResult;
+      const enriched = enrichResponse.data as JobAnalysisResult;
       if (enriched?.scores && enriched?.confidence) {
+        dirtyRef.current = true;
         setResults({ ...enriched, detectedJobTitle: results.detectedJobTitle });
         if (enriched.onetEnriched) {
           toast.success('Enriched with O*NET occupational data');
@@ -304,7 +609,27 @@ const JobAnalysis = () => {
   };
 
   const handleScoresUpdate = (newScores: ValueScores) => {
-    if (results) setResults({ ...results, scores: newScores });
+    if (!results) return;
+    dirtyRef.current = true;
+    setResults({ ...results, scores: newScores });
+  };
+
+  const handleResponsesApplied = (responses: ClarificationResponse[]) => {
+    dirtyRef.current = true;
+    setClarifications(prev => [...prev, ...responses]);
+  };
+
+  const handleOpenInCompare = () => {
+    if (!results) return;
+    sessionStorage.setItem('compareProfiles', JSON.stringify({
+      customProfile: {
+        id: savedId ?? undefined,
+        name: results.detectedJobTitle?.trim() || 'This role',
+        scores: results.scores,
+        description: 'A role inferred from a job description',
+      },
+    }));
+    navigate('/compare');
   };
 
   return (
@@ -334,34 +659,58 @@ const JobAnalysis = () => {
             </AlertDescription>
           </Alert>
 
-          {/* Input */}
-          <section className="rounded-xl border bg-card p-6">
-            <h2 className="font-serif text-xl font-semibold mb-4">Job Description</h2>
-            <Textarea
-              placeholder="Paste the job description here (minimum 50 characters)..."
-              value={jobDescription}
-              onChange={(e) => setJobDescription(e.target.value)}
-              rows={10}
-              className="resize-y"
+          <Tabs value={mode} onValueChange={(value) => setMode(value as 'single' | 'multiple')}>
+            <TabsList>
+              <TabsTrigger value="single">Analyze a Role</TabsTrigger>
+              <TabsTrigger value="multiple">Compare Roles</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {mode === 'multiple' && (
+            <MultiRoleComparison
+              onAnalysed={() => {
+                setRateLimitState(getRateLimitState());
+                setListRefreshKey(k => k + 1);
+              }}
             />
-            <div className="flex items-center justify-between mt-4">
-              <span className="text-sm text-muted-foreground">
-                {jobDescription.length} characters
-                {jobDescription.length > 0 && jobDescription.length < 50 && (
-                  <span className="text-destructive"> (need at least 50)</span>
-                )}
-              </span>
-              <Button
-                onClick={handleAnalyze}
-                disabled={isAnalyzing || isEnriching || jobDescription.length < 50 || rateLimitReached}
-              >
-                {isAnalyzing ? 'Analyzing…' : 'Analyze Values'}
-              </Button>
+          )}
+
+          {/* Input */}
+          {mode === 'single' && (
+            <section className="rounded-xl border bg-card p-6">
+              <h2 className="font-serif text-xl font-semibold mb-4">Job Description</h2>
+              <Textarea
+                placeholder="Paste the job description here (minimum 50 characters)..."
+                value={jobDescription}
+                onChange={(e) => setJobDescription(e.target.value)}
+                rows={10}
+                className="resize-y"
+              />
+              <div className="flex items-center justify-between mt-4">
+                <span className="text-sm text-muted-foreground">
+                  {jobDescription.length} characters
+                  {jobDescription.length > 0 && jobDescription.length < 50 && (
+                    <span className="text-destructive"> (need at least 50)</span>
+                  )}
+                </span>
+                <Button
+                  onClick={handleAnalyze}
+                  disabled={isAnalyzing || isEnriching || isLoadingSaved || jobDescription.length < 50}
+                >
+                  {isAnalyzing ? 'Analyzing…' : 'Analyze Values'}
+                </Button>
+              </div>
+            </section>
+          )}
+
+          {mode === 'single' && isLoadingSaved && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
             </div>
-          </section>
+          )}
 
           {/* Results */}
-          {results && (
+          {mode === 'single' && results && !isLoadingSaved && (
             <>
               {/* Detected job title + O*NET enrich button */}
               <div className="flex items-center justify-between flex-wrap gap-3">
@@ -370,6 +719,15 @@ const JobAnalysis = () => {
                     Detected role: <strong>{results.detectedJobTitle}</strong>
                   </p>
                 )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleOpenInCompare}
+                  className="flex items-center gap-2"
+                >
+                  <GitCompare className="h-3.5 w-3.5" />
+                  Open in Compare
+                </Button>
                 {results.detectedJobTitle && !results.onetEnriched && (
                   <Button
                     variant="outline"
@@ -387,14 +745,23 @@ const JobAnalysis = () => {
                     <Sparkles className="h-3 w-3" /> Enriched with O*NET data
                   </span>
                 )}
+                {savedId && !canEdit && (
+                  <p className="w-full text-xs text-muted-foreground">
+                    Someone else saved this analysis. You can explore it, but your changes will not be saved.
+                  </p>
+                )}
               </div>
 
               {/* Spider Chart */}
               <section className="rounded-xl border bg-card p-6">
                 <h2 className="font-serif text-xl font-semibold mb-4 text-center">Inferred Value Profile</h2>
                 <div className="flex justify-center pb-4">
-                  <SchwartzCircle scores={results.scores} size={280} />
+                  <SchwartzCircle scores={results.scores} size={280} uncertainty={scoreUncertainty} />
                 </div>
+                <p className="text-xs text-muted-foreground text-center mt-16">
+                  Whiskers show how uncertain each score is. They start wider for lower confidence and
+                  narrow as you answer clarifying scenarios.
+                </p>
               </section>
 
               {/* Occupational Context */}
@@ -462,12 +829,23 @@ const JobAnalysis = () => {
 
               {/* Clarification Panel */}
               <ClarificationPanel
+                key={savedId ?? 'unsaved'}
                 jobDescription={jobDescription}
                 scores={results.scores}
                 confidence={results.confidence}
                 onScoresUpdate={handleScoresUpdate}
+                onResponsesApplied={handleResponsesApplied}
+                roleDetails={results}
               />
 
+              {/* Stressor sensitivity, with robustness under the score uncertainty */}
+              <section className="rounded-xl border bg-card p-6">
+                <StressorSensitivityPanel scores={results.scores} uncertainty={scoreUncertainty} />
+              </section>
+
+              {/* Person–job fit */}
+              {fitJob && <PersonJobFitPanel job={fitJob} />}
+
               {/* Detailed Scores */}
               <section className="rounded-xl border bg-card p-6">
                 <h2 className="font-serif text-xl font-semibold mb-4">Detailed Scores</h2>
@@ -483,6 +861,14 @@ const JobAnalysis = () => {
             </>
           )}
 
+          <SavedJobAnalyses
+            currentId={savedId ?? undefined}
+            refreshKey={listRefreshKey}
+            onDeleted={(deletedId) => {
+              if (deletedId === savedId) navigate('/job-analysis');
+            }}
+          />
+
           <HowItWorksSection />
         </div>
       </main>
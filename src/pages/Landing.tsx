@@ -1,33 +1,25 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
-import { Compass, Sparkles, ArrowRight, Plus, Star, GitCompare, Trash2, Layers, Users } from 'lucide-react';
-import { DbProfile, deleteProfile } from '@/lib/profile-storage';
-import { ValueScores, SAMPLE_PROFILE_SCORES, SCHWARTZ_VALUES, HIGHER_ORDER_VALUES, HigherOrderValue } from '@/lib/schwartz-values';
-import { Json } from '@/integrations/supabase/types';
-import { ARCHETYPES, ARCHETYPE_CATEGORIES, archetypeToScores } from '@/lib/archetypes';
-import { useToast } from '@/hooks/use-toast';
+import { Compass, Plus, Star, GitCompare, Layers, Users, ClipboardList } from 'lucide-react';
+import { SAMPLE_PROFILE_SCORES, SCHWARTZ_VALUES, HIGHER_ORDER_VALUES, HigherOrderValue } from '@/lib/schwartz-values';
+import { archetypeToScores, groupArchetypesByCategory } from '@/lib/archetypes';
 import { SchwartzCircle } from '@/components/SchwartzCircle';
 import { Navigation } from '@/components/Navigation';
-
-function jsonToScores(json: Json): ValueScores {
-  return json as unknown as ValueScores;
-}
+import { ProfileLibrary } from '@/components/ProfileLibrary';
+import { ProfileImportDialog } from '@/components/ProfileImportDialog';
+import { useArchetypes } from '@/hooks/use-archetypes';
 
 export default function Landing() {
   const navigate = useNavigate();
-  const { toast } = useToast();
-  const [profiles, setProfiles] = useState<DbProfile[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Bumped after an import so the library refetches
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const { archetypes } = useArchetypes();
 
-  const archetypesByCategory = ARCHETYPE_CATEGORIES.map((cat) => ({
-    ...cat,
-    archetypes: ARCHETYPES.filter((a) => a.category === cat.value),
-  }));
+  const archetypesByCategory = groupArchetypesByCategory(archetypes);
 
   const handleLoadArchetype = (archetypeName: string) => {
-    const archetype = ARCHETYPES.find((a) => a.name === archetypeName);
+    const archetype = archetypes.find((a) => a.name === archetypeName);
     if (archetype) {
       const scores = archetypeToScores(archetype);
       // Store in sessionStorage so editor can pick it up
@@ -36,53 +28,6 @@ export default function Landing() {
     }
   };
 
-  useEffect(() => {
-    async function fetchProfiles() {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .order('updated_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching profiles:', error);
-      } else if (data) {
-        setProfiles(
-          data.map((p) => ({
-            ...p,
-            scores: jsonToScores(p.scores),
-          }))
-        );
-      }
-      setLoading(false);
-    }
-
-    fetchProfiles();
-  }, []);
-
-  const handleDeleteProfile = async (e: React.MouseEvent, profileId: string, profileName: string) => {
-    e.preventDefault();
-    e.stopPropagation();
-    
-    if (!confirm(`Delete "${profileName}"? This cannot be undone.`)) {
-      return;
-    }
-
-    try {
-      await deleteProfile(profileId);
-      setProfiles((prev) => prev.filter((p) => p.id !== profileId));
-      toast({
-        title: 'Profile deleted',
-        description: `"${profileName}" has been removed.`,
-      });
-    } catch (error) {
-      toast({
-        title: 'Delete failed',
-        description: error instanceof Error ? error.message : 'Unknown error occurred',
-        variant: 'destructive',
-      });
-    }
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <Navigation
@@ -260,7 +205,7 @@ export default function Landing() {
             <h2 className="font-serif text-2xl font-bold">Start with Example Value Schemes</h2>
             <p className="text-muted-foreground mt-2 max-w-xl mx-auto">
               Explore value profiles of archetypes, characters, and historical figures. 
-              Click any name to load their profile.
+              Click any name to load their profile, or <Link to="/archetypes" className="text-primary hover:underline">define your own archetype</Link>.
             </p>
           </div>
 
@@ -291,6 +236,16 @@ export default function Landing() {
         <div className="container">
           <div className="max-w-3xl mx-auto text-center">
             <h2 className="font-serif text-2xl font-bold mb-4">Take the Schwartz Values Test</h2>
+            <p className="text-muted-foreground mb-4">
+              Answer the 57-item portrait questionnaire here to build a profile from your own
+              responses, scored with the standard PVQ-RR centring.
+            </p>
+            <Button asChild className="gap-2 mb-6">
+              <Link to="/questionnaire">
+                <ClipboardList className="w-4 h-4" />
+                Start the Questionnaire
+              </Link>
+            </Button>
             <p className="text-muted-foreground">
               For a fee, an organisation like{' '}
               <a
@@ -317,66 +272,18 @@ export default function Landing() {
                 Click on any profile to load and explore it
               </p>
             </div>
-            <Button asChild variant="outline" className="gap-2">
-              <Link to="/editor">
-                <Plus className="w-4 h-4" />
-                New Profile
-              </Link>
-            </Button>
-          </div>
-
-          {loading ? (
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {[1, 2, 3].map((i) => (
-                <div key={i} className="h-32 rounded-xl border bg-card animate-pulse" />
-              ))}
-            </div>
-          ) : profiles.length === 0 ? (
-            <div className="text-center py-16 rounded-xl border bg-card/50">
-              <Sparkles className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
-              <h3 className="font-serif text-xl font-semibold mb-2">No profiles yet</h3>
-              <p className="text-muted-foreground mb-6">
-                Create your first value profile to get started
-              </p>
-              <Button asChild>
-                <Link to="/editor">Create Profile</Link>
-              </Button>
-            </div>
-          ) : (
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {profiles.map((profile) => (
-                <Link
-                  key={profile.id}
-                  to={`/p/${profile.id}`}
-                  className="group rounded-xl border bg-card p-5 hover:shadow-md hover:border-primary/30 transition-all relative"
-                >
-                  <div className="flex items-start justify-between mb-3">
-                    <h3 className="font-serif text-lg font-semibold group-hover:text-primary transition-colors pr-8">
-                      {profile.name}
-                    </h3>
-                    <div className="flex items-center gap-2 absolute top-5 right-5">
-                      <button
-                        onClick={(e) => handleDeleteProfile(e, profile.id, profile.name)}
-                        className="p-1.5 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors opacity-0 group-hover:opacity-100"
-                        title="Delete profile"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                      <ArrowRight className="w-4 h-4 text-muted-foreground group-hover:text-primary group-hover:translate-x-0.5 transition-all" />
-                    </div>
-                  </div>
-                  {profile.description && (
-                    <p className="text-sm text-muted-foreground line-clamp-2">
-                      {profile.description}
-                    </p>
-                  )}
-                  <p className="text-xs text-muted-foreground mt-3">
-                    Updated {new Date(profile.updated_at).toLocaleDateString()}
-                  </p>
+            <div className="flex gap-2">
+              <ProfileImportDialog onImported={() => setLibraryVersion(v => v + 1)} />
+              <Button asChild variant="outline" className="gap-2">
+                <Link to="/editor">
+                  <Plus className="w-4 h-4" />
+                  New Profile
                 </Link>
-              ))}
+              </Button>
             </div>
-          )}
+          </div>
+
+          <ProfileLibrary refreshKey={libraryVersion} />
         </div>
       </section>
 
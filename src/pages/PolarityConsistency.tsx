@@ -0,0 +1,289 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, ArrowRight } from 'lucide-react';
+import { Navigation } from '@/components/Navigation';
+import { ValueAbbreviation } from '@/components/ValueAbbreviation';
+import { InfoPopover } from '@/components/InfoPopover';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  OUTLIER_THRESHOLD,
+  analyzePolarityConsistency,
+  describePairViolation,
+} from '@/lib/polarity-consistency';
+import { CIRCUMFLEX_ORDER } from '@/lib/reconciliation-analysis';
+import { getValueByCode } from '@/lib/schwartz-values';
+import { usePolarityModel } from '@/hooks/use-polarity-model';
+import { cn } from '@/lib/utils';
+
+const THRESHOLD_OPTIONS = [0.3, 0.4, 0.5, 0.6, 0.7];
+
+function getCorrelationColor(correlation: number): string {
+  if (correlation >= 0.7) return 'bg-emerald-500 text-white';
+  if (correlation >= 0.3) return 'bg-emerald-300';
+  if (correlation > 0.1) return 'bg-emerald-100';
+  if (correlation >= -0.1) return 'bg-muted';
+  if (correlation >= -0.3) return 'bg-rose-100';
+  if (correlation >= -0.7) return 'bg-rose-300';
+  return 'bg-rose-500 text-white';
+}
+
+function formatSigned(value: number, digits = 2): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+export default function PolarityConsistency() {
+  const { activeModel } = usePolarityModel();
+  const [threshold, setThreshold] = useState(OUTLIER_THRESHOLD);
+
+  const report = useMemo(
+    () => analyzePolarityConsistency(activeModel, threshold),
+    [activeModel, threshold]
+  );
+
+  const violatingPairs = useMemo(
+    () => new Set(report.pairViolations.flatMap(p => [`${p.valueA}:${p.valueB}`, `${p.valueB}:${p.valueA}`])),
+    [report]
+  );
+  const pairsByKey = useMemo(
+    () => new Map(report.pairs.flatMap(p => [[`${p.valueA}:${p.valueB}`, p], [`${p.valueB}:${p.valueA}`, p]])),
+    [report]
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation
+        title="Polarity Consistency"
+        description="Check the polarity matrix against the circumplex"
+      />
+
+      <main className="container max-w-6xl py-8 px-4 space-y-8">
+        {/* Summary */}
+        <section className="rounded-xl border bg-card p-6 space-y-4">
+          <div>
+            <h2 className="font-serif text-xl font-semibold">Does the Matrix Follow the Circle?</h2>
+            <p className="text-sm text-muted-foreground mt-1 max-w-3xl">
+              Schwartz theory predicts that adjacent values respond alike to a stressor and opposite values respond in
+              contrasting ways. This report checks the <strong>{activeModel.name}</strong> polarity model
+              {activeModel.customStressors.length > 0 && ', including your custom stressors,'} against that structure.
+              Choose another model on the <Link to="/stressors" className="text-primary hover:underline">Stressors page</Link>.
+            </p>
+          </div>
+          <div className="grid sm:grid-cols-3 gap-4">
+            <div className="rounded-lg border p-4">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>Structure fit</span>
+                <InfoPopover
+                  content="Correlation between how alike each pair of values is across stressors and how close they sit on the circle. Near 1 when the matrix reproduces the circumplex."
+                />
+              </div>
+              <div className="text-2xl font-semibold font-mono mt-1">{report.structureFit.toFixed(2)}</div>
+            </div>
+            <div className="rounded-lg border p-4">
+              <div className="text-sm text-muted-foreground">Value pairs off the pattern</div>
+              <div className="text-2xl font-semibold font-mono mt-1">
+                {report.pairViolations.length}
+                <span className="text-sm font-normal text-muted-foreground"> of {report.pairs.length}</span>
+              </div>
+            </div>
+            <div className="rounded-lg border p-4">
+              <div className="text-sm text-muted-foreground">Outlier cells</div>
+              <div className="text-2xl font-semibold font-mono mt-1">{report.outliers.length}</div>
+            </div>
+          </div>
+        </section>
+
+        {/* Correlation heatmap */}
+        <section className="rounded-xl border bg-card p-6">
+          <h2 className="font-serif text-xl font-semibold mb-1">Value Correlations</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            How alike each pair of values responds across all {report.stressorFits.length} stressors, in circumplex
+            order. Near the diagonal should be green and the far corners red; outlined cells break that pattern.
+          </p>
+          <div className="overflow-x-auto pb-2">
+            <table className="border-collapse">
+              <thead>
+                <tr>
+                  <th />
+                  {CIRCUMFLEX_ORDER.map(code => (
+                    <th key={code} className="p-0.5 text-[10px] font-medium">
+                      <ValueAbbreviation code={code} />
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {CIRCUMFLEX_ORDER.map(rowCode => (
+                  <tr key={rowCode}>
+                    <td className="pr-2 text-xs">
+                      <ValueAbbreviation code={rowCode} />
+                    </td>
+                    {CIRCUMFLEX_ORDER.map(colCode => {
+                      const correlation = report.correlationMatrix[rowCode][colCode];
+                      const pair = pairsByKey.get(`${rowCode}:${colCode}`);
+                      return (
+                        <td key={colCode} className="p-0.5">
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <div
+                                className={cn(
+                                  'w-8 h-7 flex items-center justify-center rounded text-[10px] font-mono cursor-default',
+                                  getCorrelationColor(correlation),
+                                  violatingPairs.has(`${rowCode}:${colCode}`) && 'ring-2 ring-inset ring-amber-500'
+                                )}
+                              >
+                                {correlation.toFixed(1)}
+                              </div>
+                            </TooltipTrigger>
+                            <TooltipContent side="top" className="max-w-xs">
+                              <p className="font-semibold">
+                                {getValueByCode(rowCode)?.label} × {getValueByCode(colCode)?.label}
+                              </p>
+                              {pair ? (
+                                <p className="text-xs text-muted-foreground">
+                                  r = {formatSigned(pair.correlation)}, predicted {formatSigned(pair.expected)} for
+                                  values {pair.distance} {pair.distance === 1 ? 'step' : 'steps'} apart
+                                </p>
+                              ) : (
+                                <p className="text-xs text-muted-foreground">Same value</p>
+                              )}
+                            </TooltipContent>
+                          </Tooltip>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {report.pairViolations.length > 0 && (
+            <div className="mt-6">
+              <h3 className="font-medium mb-2">Pairs that break the circumplex</h3>
+              <ul className="divide-y text-sm">
+                {report.pairViolations.map(pair => (
+                  <li key={`${pair.valueA}:${pair.valueB}`} className="py-2 flex items-center gap-3">
+                    <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0" />
+                    <span className="flex-1">{describePairViolation(pair)}</span>
+                    <span className="font-mono text-xs text-muted-foreground whitespace-nowrap">
+                      r {formatSigned(pair.correlation)} vs {formatSigned(pair.expected)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+
+        {/* Outlier cells */}
+        <section className="rounded-xl border bg-card p-6">
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-4">
+            <div>
+              <h2 className="font-serif text-xl font-semibold mb-1">Suggested Outlier Cells</h2>
+              <p className="text-sm text-muted-foreground max-w-2xl">
+                Read around the circle, each stressor's polarities should rise to one peak and fall to a trough
+                opposite it. These cells sit furthest from the sinusoid fitted to their stressor; the suggestion is
+                the sinusoid's value. Edit cells in your own polarity model on the{' '}
+                <Link to="/stressors" className="text-primary hover:underline">Stressors page</Link>.
+              </p>
+            </div>
+            <div className="space-y-2 shrink-0">
+              <Label htmlFor="outlier-threshold">Flag cells off by at least</Label>
+              <Select value={String(threshold)} onValueChange={v => setThreshold(Number(v))}>
+                <SelectTrigger id="outlier-threshold" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {THRESHOLD_OPTIONS.map(option => (
+                    <SelectItem key={option} value={String(option)}>{option.toFixed(1)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {report.outliers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No cell is that far from its stressor's sinusoid.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Value</th>
+                    <th className="py-2 pr-4 font-medium">Stressor</th>
+                    <th className="py-2 pr-4 font-medium text-right">Current</th>
+                    <th className="py-2 pr-4 font-medium text-right">Sinusoid</th>
+                    <th className="py-2 font-medium text-right">Suggested</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {report.outliers.map(outlier => (
+                    <tr key={`${outlier.valueCode}:${outlier.stressorId}`}>
+                      <td className="py-2 pr-4">
+                        <ValueAbbreviation code={outlier.valueCode} />
+                        <span className="ml-2 text-muted-foreground">{getValueByCode(outlier.valueCode)?.label}</span>
+                      </td>
+                      <td className="py-2 pr-4">{outlier.stressorName}</td>
+                      <td className="py-2 pr-4 text-right font-mono">{formatSigned(outlier.polarity, 1)}</td>
+                      <td className="py-2 pr-4 text-right font-mono text-muted-foreground">{formatSigned(outlier.expected)}</td>
+                      <td className="py-2 text-right font-mono">
+                        <span className="inline-flex items-center gap-1">
+                          <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                          {formatSigned(outlier.suggested, 1)}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {/* Per-stressor fit */}
+        <section className="rounded-xl border bg-card p-6">
+          <h2 className="font-serif text-xl font-semibold mb-1">Stressor Fit</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            How much of each stressor's column the sinusoid explains, and the value it most satisfies.
+            A low fit with a small amplitude just means the stressor presses lightly on every value.
+          </p>
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {report.stressorFits.map(fit => (
+              <div key={fit.stressorId} className="rounded-lg border p-3 space-y-1.5">
+                <div className="font-medium text-sm">{fit.stressorName}</div>
+                <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                  <div className="h-full bg-primary" style={{ width: `${Math.max(0, fit.rSquared) * 100}%` }} />
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Fit <span className="font-mono">{fit.rSquared.toFixed(2)}</span></span>
+                  <span>Amplitude <span className="font-mono">{fit.amplitude.toFixed(2)}</span></span>
+                  <span>Peak <ValueAbbreviation code={fit.peakValueCode} /></span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t py-6 mt-12">
+        <div className="container text-center text-sm text-muted-foreground">
+          <p>
+            Based on {' '}
+            <a
+              href="https://www.researchgate.net/publication/306432422_The_Refined_Theory_of_Basic_Values"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary hover:underline"
+            >
+              The Refined Theory of Basic Values
+            </a>
+            {' '}by Shalom H. Schwartz
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
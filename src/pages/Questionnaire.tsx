@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { Navigation } from '@/components/Navigation';
+import { PvqQuestionnaire } from '@/components/PvqQuestionnaire';
+import { ProfileEditor } from '@/components/ProfileEditor';
+import { PvqScoreResult } from '@/lib/pvq-rr';
+
+export default function Questionnaire() {
+  const [result, setResult] = useState<{ name: string; score: PvqScoreResult } | null>(null);
+
+  if (result) {
+    return (
+      <ProfileEditor
+        initialProfile={{
+          name: result.name,
+          scores: result.score.scores,
+          description: null,
+          systemPrompt: null,
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation
+        title="Values Questionnaire"
+        description="Measure your values with the 57-item PVQ-RR"
+      />
+
+      <main className="container max-w-2xl py-8 px-4">
+        <PvqQuestionnaire onComplete={(score, name) => setResult({ name, score })} />
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t py-6 mt-12">
+        <div className="container text-center text-sm text-muted-foreground">
+          <p>
+            Adapted from the{' '}
+            <a
+              href="https://www.researchgate.net/publication/316705732_Revised_PVQ-RR"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary hover:underline"
+            >
+              Revised Portrait Values Questionnaire (PVQ-RR)
+            </a>
+            {' '}by Shalom H. Schwartz
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, Library, Search, X } from 'lucide-react';
+import { Navigation } from '@/components/Navigation';
+import { StarRating } from '@/components/StarRating';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DbScenario,
+  SCENARIO_KIND_LABELS,
+  SCENARIO_PAGE_SIZE,
+  ScenarioKind,
+  ScenarioTag,
+  loadScenarioTags,
+  searchScenarios,
+} from '@/lib/scenario-storage';
+import { stripMarkdown } from '@/lib/utils';
+
+// Radix Select items can't have an empty value, so "no filter" gets a sentinel
+const ANY = '__any__';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function ScenarioLibrary() {
+  const [scenarios, setScenarios] = useState<DbScenario[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [tags, setTags] = useState<ScenarioTag[]>([]);
+
+  const [queryInput, setQueryInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [kind, setKind] = useState(ANY);
+  const [tag, setTag] = useState(ANY);
+  const [minRating, setMinRating] = useState(ANY);
+  const [page, setPage] = useState(0);
+
+  const pageCount = Math.max(1, Math.ceil(total / SCENARIO_PAGE_SIZE));
+  const hasFilters = !!query || [kind, tag, minRating].some(f => f !== ANY);
+
+  useEffect(() => {
+    loadScenarioTags()
+      .then(setTags)
+      .catch((error) => console.error('Error loading scenario tags:', error));
+  }, []);
+
+  // Debounce the title search so each keystroke doesn't hit the database
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setQuery(queryInput.trim());
+      setPage(0);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [queryInput]);
+
+  // Any filter change starts again from the first page
+  const withPageReset = (setFilter: (value: string) => void) => (value: string) => {
+    setFilter(value);
+    setPage(0);
+  };
+
+  // Only the latest request may update the list, so slow responses can't overwrite newer ones
+  const latestRequest = useRef(0);
+
+  const fetchScenarios = useCallback(async () => {
+    const requestId = ++latestRequest.current;
+    setLoading(true);
+    try {
+      const result = await searchScenarios({
+        query,
+        kind: kind === ANY ? undefined : kind as ScenarioKind,
+        tag: tag === ANY ? undefined : tag,
+        minRating: minRating === ANY ? undefined : Number(minRating),
+        page,
+      });
+      if (requestId !== latestRequest.current) return;
+      setScenarios(result.scenarios);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Error fetching scenarios:', error);
+    } finally {
+      if (requestId === latestRequest.current) {
+        setLoading(false);
+      }
+    }
+  }, [query, kind, tag, minRating, page]);
+
+  useEffect(() => {
+    fetchScenarios();
+  }, [fetchScenarios]);
+
+  const clearFilters = () => {
+    setQueryInput('');
+    setQuery('');
+    setKind(ANY);
+    setTag(ANY);
+    setMinRating(ANY);
+    setPage(0);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation
+        title="Scenario Library"
+        description="Browse, rate and re-run saved scenarios"
+      />
+
+      <main className="container max-w-5xl py-8 px-4 space-y-6">
+        {/* Search and filters */}
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={queryInput}
+              onChange={(e) => setQueryInput(e.target.value)}
+              placeholder="Search scenarios by title..."
+              className="pl-9"
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <Select value={kind} onValueChange={withPageReset(setKind)}>
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue placeholder="Kind" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All kinds</SelectItem>
+                {(Object.keys(SCENARIO_KIND_LABELS) as ScenarioKind[]).map(k => (
+                  <SelectItem key={k} value={k}>{SCENARIO_KIND_LABELS[k]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={tag} onValueChange={withPageReset(setTag)}>
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue placeholder="Tag" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All tags</SelectItem>
+                {tags.map(t => (
+                  <SelectItem key={t.value} value={t.value}>{t.value} ({t.count})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={minRating} onValueChange={withPageReset(setMinRating)}>
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue placeholder="Rating" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any rating</SelectItem>
+                {[5, 4, 3, 2].map(r => (
+                  <SelectItem key={r} value={String(r)}>{r === 5 ? '5 stars' : `${r}+ stars`}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {hasFilters && (
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>{total} matching {total === 1 ? 'scenario' : 'scenarios'}</span>
+              <Button variant="ghost" size="sm" onClick={clearFilters} className="gap-1">
+                <X className="w-3 h-3" />
+                Clear filters
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Results */}
+        {loading && scenarios.length === 0 ? (
+          <div className="grid md:grid-cols-2 gap-4">
+            {[1, 2, 3, 4].map((i) => (
+              <div key={i} className="h-40 rounded-xl border bg-card animate-pulse" />
+            ))}
+          </div>
+        ) : scenarios.length === 0 ? (
+          hasFilters ? (
+            <div className="text-center py-16 rounded-xl border bg-card/50">
+              <Search className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="font-serif text-xl font-semibold mb-2">No matching scenarios</h3>
+              <p className="text-muted-foreground">Try a different search or clear the filters</p>
+            </div>
+          ) : (
+            <div className="text-center py-16 rounded-xl border bg-card/50">
+              <Library className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="font-serif text-xl font-semibold mb-2">No scenarios yet</h3>
+              <p className="text-muted-foreground mb-6">
+                Scenarios are saved here as soon as they finish generating
+              </p>
+              <div className="flex justify-center gap-2">
+                <Button asChild variant="outline">
+                  <Link to="/compare">Compare Profiles</Link>
+                </Button>
+                <Button asChild>
+                  <Link to="/scenarios">Explore Scenarios</Link>
+                </Button>
+              </div>
+            </div>
+          )
+        ) : (
+          <div className="grid md:grid-cols-2 gap-4">
+            {scenarios.map((scenario) => (
+              <Link
+                key={scenario.id}
+                to={`/s/${scenario.id}`}
+                className="group rounded-xl border bg-card p-5 hover:shadow-md hover:border-primary/30 transition-all"
+              >
+                <div className="flex items-start justify-between gap-3 mb-2">
+                  <h3 className="font-serif text-lg font-semibold group-hover:text-primary transition-colors">
+                    {scenario.title}
+                  </h3>
+                  <Badge variant="outline" className="shrink-0 font-normal">{SCENARIO_KIND_LABELS[scenario.kind]}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground line-clamp-3">
+                  {stripMarkdown(scenario.content.replace(/^#+\s*/gm, '')).slice(0, 300)}
+                </p>
+                {(scenario.stressors.length > 0 || scenario.tags.length > 0) && (
+                  <div className="flex flex-wrap items-center gap-1.5 mt-3">
+                    {scenario.stressors.map(s => (
+                      <Badge key={s} variant="outline" className="font-normal text-xs">{s}</Badge>
+                    ))}
+                    {scenario.tags.map(t => (
+                      <Badge key={t} variant="secondary" className="font-normal">{t}</Badge>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center justify-between mt-3">
+                  <StarRating value={scenario.rating} />
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(scenario.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pageCount > 1 && (
+          <div className="flex items-center justify-center gap-3">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => p - 1)}
+              disabled={page === 0 || loading}
+              className="gap-1"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page >= pageCount - 1 || loading}
+              className="gap-1"
+            >
+              Next
+              <ArrowRight className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
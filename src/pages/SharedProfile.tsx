@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { ProfileEditor } from '@/components/ProfileEditor';
-import { loadProfile, DbProfile } from '@/lib/profile-storage';
+import { loadProfile, DbProfile, canEditProfile, getCurrentUserId, storeEditToken } from '@/lib/profile-storage';
 import { Loader2, AlertCircle, ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
@@ -9,10 +9,21 @@ type LoadingState = 'loading' | 'success' | 'not-found' | 'error';
 
 const SharedProfile = () => {
   const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [state, setState] = useState<LoadingState>('loading');
   const [profile, setProfile] = useState<DbProfile | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // An edit link (?edit=<token>) unlocks the profile on this device; keep the token out of the address bar
+  const editToken = searchParams.get('edit');
+  useEffect(() => {
+    if (id && editToken) {
+      storeEditToken(id, editToken);
+      setSearchParams({}, { replace: true });
+    }
+  }, [id, editToken, setSearchParams]);
+
   useEffect(() => {
     async function fetchProfile() {
       if (!id) {
@@ -21,9 +32,10 @@ const SharedProfile = () => {
       }
 
       try {
-        const loadedProfile = await loadProfile(id);
+        const [loadedProfile, userId] = await Promise.all([loadProfile(id), getCurrentUserId()]);
         if (loadedProfile) {
           setProfile(loadedProfile);
+          setCanEdit(canEditProfile(loadedProfile, userId));
           setState('success');
           // Update page title
           document.title = `${loadedProfile.name} | Schwartz Values Profile`;
@@ -99,8 +111,12 @@ const SharedProfile = () => {
         scores: profile!.scores,
         description: profile!.description,
         systemPrompt: profile!.system_prompt,
+        scoreMode: profile!.score_mode,
+        tags: profile!.tags,
+        collection: profile!.collection,
       }}
       isSharedProfile={true}
+      canEdit={canEdit}
     />
   );
 };
@@ -0,0 +1,375 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, Copy, GitBranch, Library, Loader2, RotateCcw, ScrollText, Square, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Navigation } from '@/components/Navigation';
+import { ScenarioText } from '@/components/ScenarioText';
+import { StarRating } from '@/components/StarRating';
+import { StreamStatus } from '@/components/StreamStatus';
+import { SavedScenarioLink } from '@/components/SavedScenarioLink';
+import { TagInput } from '@/components/TagInput';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useEdgeStream } from '@/hooks/use-edge-stream';
+import { useScenarioSaver } from '@/hooks/use-scenario-saver';
+import { getEdgeErrorMessage } from '@/lib/edge-functions';
+import { canEditProfile, getCurrentUserId, storeEditToken } from '@/lib/profile-storage';
+import {
+  DbScenario,
+  SCENARIO_FUNCTIONS,
+  SCENARIO_KIND_LABELS,
+  deleteScenario,
+  getScenarioLink,
+  loadScenario,
+  loadScenarioChildren,
+  updateScenario,
+} from '@/lib/scenario-storage';
+
+type LoadingState = 'loading' | 'success' | 'not-found' | 'error';
+
+export default function SharedScenario() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [state, setState] = useState<LoadingState>('loading');
+  const [scenario, setScenario] = useState<DbScenario | null>(null);
+  const [parent, setParent] = useState<DbScenario | null>(null);
+  const [children, setChildren] = useState<DbScenario[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [viewingPrompt, setViewingPrompt] = useState(false);
+
+  const rerun = useEdgeStream(scenario ? SCENARIO_FUNCTIONS[scenario.kind] : '');
+  const rerunSaver = useScenarioSaver();
+
+  // An edit link (?edit=<token>) unlocks the scenario on this device; keep the token out of the address bar
+  const editToken = searchParams.get('edit');
+  useEffect(() => {
+    if (id && editToken) {
+      storeEditToken(id, editToken);
+      setSearchParams({}, { replace: true });
+    }
+  }, [id, editToken, setSearchParams]);
+
+  useEffect(() => {
+    // Moving to another scenario before this one loads discards its response
+    let cancelled = false;
+
+    async function fetchScenario() {
+      if (!id) {
+        setState('not-found');
+        return;
+      }
+
+      setState('loading');
+      try {
+        const [loadedScenario, loadedChildren, userId] = await Promise.all([
+          loadScenario(id),
+          loadScenarioChildren(id),
+          getCurrentUserId(),
+        ]);
+        if (loadedScenario) {
+          const loadedParent = loadedScenario.parent_id ? await loadScenario(loadedScenario.parent_id) : null;
+          if (cancelled) return;
+          setScenario(loadedScenario);
+          setChildren(loadedChildren);
+          setParent(loadedParent);
+          setCanEdit(canEditProfile(loadedScenario, userId));
+          setState('success');
+          document.title = `${loadedScenario.title} | Values Explorer Scenario`;
+        } else if (!cancelled) {
+          setState('not-found');
+        }
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Failed to load scenario:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        setState('error');
+      }
+    }
+
+    fetchScenario();
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  // Leaving for another scenario abandons any re-run of this one
+  const { reset: resetRerun } = rerun;
+  const { clear: clearRerunSaver } = rerunSaver;
+  useEffect(() => {
+    resetRerun();
+    clearRerunSaver();
+  }, [id, resetRerun, clearRerunSaver]);
+
+  const applyChanges = async (changes: Parameters<typeof updateScenario>[1]) => {
+    if (!scenario) return;
+    const previous = scenario;
+    setScenario({ ...scenario, ...changes });
+    try {
+      setScenario(await updateScenario(scenario.id, changes));
+    } catch (err) {
+      setScenario(previous);
+      toast.error(err instanceof Error ? err.message : 'Unable to update scenario');
+    }
+  };
+
+  const copyLink = async () => {
+    if (!scenario) return;
+    await navigator.clipboard.writeText(getScenarioLink(scenario.id));
+    toast.success('Scenario link copied');
+  };
+
+  const handleDelete = async () => {
+    if (!scenario || !confirm(`Delete "${scenario.title}"? This cannot be undone.`)) return;
+    try {
+      await deleteScenario(scenario.id);
+      toast.success('Scenario deleted');
+      navigate('/scenario-library');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to delete scenario');
+    }
+  };
+
+  // Send the stored request again; the new text is saved as a re-run of this scenario
+  const handleRerun = async () => {
+    if (!scenario) return;
+    rerunSaver.clear();
+    try {
+      const result = await rerun.start(scenario.request);
+      if (result && !result.incomplete) {
+        const saved = await rerunSaver.save({
+          kind: scenario.kind,
+          title: scenario.title,
+          prompt: { system: scenario.system_prompt, user: scenario.user_prompt },
+          participants: scenario.participants,
+          stressors: scenario.stressors,
+          model: result.model,
+          content: result.text,
+          request: scenario.request,
+          parentId: scenario.id,
+          tags: scenario.tags,
+        });
+        if (saved) setChildren(prev => [saved, ...prev]);
+      }
+    } catch (err) {
+      console.error('Scenario re-run error:', err);
+      toast.error(getEdgeErrorMessage(err, 'Failed to re-run scenario'));
+    }
+  };
+
+  if (state === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-primary" />
+          <p className="text-muted-foreground">Loading scenario...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (state === 'not-found' || state === 'error') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center max-w-md">
+          <AlertCircle className={`w-12 h-12 mx-auto mb-4 ${state === 'error' ? 'text-destructive' : 'text-muted-foreground'}`} />
+          <h1 className="font-serif text-2xl font-semibold mb-2">
+            {state === 'error' ? 'Error Loading Scenario' : 'Scenario Not Found'}
+          </h1>
+          <p className="text-muted-foreground mb-6">
+            {state === 'error'
+              ? error || 'An error occurred while loading the scenario.'
+              : "The scenario you're looking for doesn't exist or may have been deleted."}
+          </p>
+          <Button asChild>
+            <Link to="/scenario-library">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Scenario Library
+            </Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const current = scenario!;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation title="Saved Scenario" description={current.title} />
+
+      <main className="container max-w-4xl py-8 px-4 space-y-6">
+        <Button asChild variant="ghost" size="sm" className="gap-1.5 -ml-2">
+          <Link to="/scenario-library">
+            <Library className="w-4 h-4" />
+            Scenario Library
+          </Link>
+        </Button>
+
+        <section className="rounded-xl border bg-card p-6 space-y-5">
+          <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="font-normal">{SCENARIO_KIND_LABELS[current.kind]}</Badge>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(current.created_at).toLocaleString()}
+                  {current.model && <> · <span className="font-mono">{current.model}</span></>}
+                </span>
+              </div>
+              <h2 className="font-serif text-2xl font-semibold">{current.title}</h2>
+              <p className="text-sm text-muted-foreground">
+                {current.participants.map((p, i) => (
+                  <span key={`${p.name}-${i}`}>
+                    {i > 0 && ' · '}
+                    {p.source === 'profile' && p.id ? (
+                      <Link to={`/p/${p.id}`} className="hover:text-primary underline-offset-2 hover:underline">{p.name}</Link>
+                    ) : p.name}
+                  </span>
+                ))}
+              </p>
+              {parent && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <GitBranch className="w-3 h-3" />
+                  {current.kind === 'reconciliation' && parent.kind === 'conflict' ? 'Reconciles' : 'Re-run of'}
+                  <Link to={`/s/${parent.id}`} className="text-primary hover:underline">{parent.title}</Link>
+                </p>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-1.5 shrink-0">
+              <Button variant="ghost" size="sm" onClick={() => setViewingPrompt(true)} className="gap-1.5 text-muted-foreground">
+                <ScrollText className="w-3.5 h-3.5" />
+                View prompt
+              </Button>
+              <Button variant="outline" size="sm" onClick={copyLink} className="gap-1.5">
+                <Copy className="w-3.5 h-3.5" />
+                Copy link
+              </Button>
+              {canEdit && (
+                <Button variant="outline" size="sm" onClick={handleDelete} className="gap-1.5 text-destructive hover:text-destructive">
+                  <Trash2 className="w-3.5 h-3.5" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {current.stressors.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 items-center">
+              <span className="text-xs text-muted-foreground font-medium">Stressors:</span>
+              {current.stressors.map(s => (
+                <Badge key={s} variant="secondary" className="text-xs font-normal">{s}</Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="grid sm:grid-cols-[auto_1fr] gap-x-6 gap-y-3 items-start">
+            <Label className="text-sm text-muted-foreground pt-1">Rating</Label>
+            <StarRating value={current.rating} onChange={canEdit ? (rating) => applyChanges({ rating }) : undefined} />
+            <Label htmlFor="scenario-tags" className="text-sm text-muted-foreground pt-1">Tags</Label>
+            {canEdit || current.tags.length > 0 ? (
+              <TagInput
+                id="scenario-tags"
+                tags={current.tags}
+                onTagsChange={(tags) => applyChanges({ tags })}
+                disabled={!canEdit}
+              />
+            ) : (
+              <span className="text-sm text-muted-foreground pt-1">None</span>
+            )}
+          </div>
+
+          <div className="prose prose-sm max-w-none dark:prose-invert border-t pt-5">
+            <ScenarioText kind={current.kind} text={current.content} />
+          </div>
+        </section>
+
+        <section className="rounded-xl border bg-card p-6 space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="font-serif text-lg font-semibold">Re-run</h3>
+              <p className="text-sm text-muted-foreground">
+                Send the same prompt again to see how the model's answer varies. Each re-run is saved alongside this one.
+              </p>
+            </div>
+            {rerun.isStreaming ? (
+              <div className="flex gap-1.5 shrink-0">
+                <Button disabled variant="outline" className="gap-2">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Generating...
+                </Button>
+                <Button onClick={rerun.cancel} variant="outline" size="icon" title="Stop generating">
+                  <Square className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ) : (
+              <Button onClick={handleRerun} variant="outline" className="gap-2 shrink-0">
+                <RotateCcw className="w-4 h-4" />
+                Re-run
+              </Button>
+            )}
+          </div>
+
+          {rerun.text && (
+            <div>
+              <div className="prose prose-sm max-w-none dark:prose-invert">
+                <ScenarioText kind={current.kind} text={rerun.text} />
+              </div>
+              <StreamStatus usage={rerun.usage} incomplete={rerun.incomplete} />
+              <SavedScenarioLink scenarioId={rerunSaver.savedId} saving={rerunSaver.saving} />
+            </div>
+          )}
+
+          {children.length > 0 && (
+            <div className="border-t pt-4 space-y-2">
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Derived scenarios</p>
+              {children.map(child => (
+                <Link
+                  key={child.id}
+                  to={`/s/${child.id}`}
+                  className="flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm hover:border-primary/30 hover:bg-muted/50 transition-colors"
+                >
+                  <span className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline" className="font-normal shrink-0">{SCENARIO_KIND_LABELS[child.kind]}</Badge>
+                    <span className="truncate">{child.title}</span>
+                  </span>
+                  <span className="flex items-center gap-3 shrink-0">
+                    <StarRating value={child.rating} />
+                    <span className="text-xs text-muted-foreground">{new Date(child.created_at).toLocaleDateString()}</span>
+                  </span>
+                </Link>
+              ))}
+            </div>
+          )}
+        </section>
+      </main>
+
+      <Dialog open={viewingPrompt} onOpenChange={setViewingPrompt}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-serif">Scenario Prompt</DialogTitle>
+          </DialogHeader>
+          <ScrollArea className="max-h-[60vh]">
+            <div className="space-y-4 pr-4">
+              <div>
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">System prompt</p>
+                <pre className="text-xs bg-muted rounded-md p-3 whitespace-pre-wrap font-mono leading-relaxed">
+                  {current.system_prompt}
+                </pre>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">User prompt</p>
+                <pre className="text-xs bg-muted rounded-md p-3 whitespace-pre-wrap font-mono leading-relaxed">
+                  {current.user_prompt}
+                </pre>
+              </div>
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Info, Zap, TrendingUp, Minus, ChevronDown, ArrowUp, BookOpen } from 'lucide-react';
+import { Info, Zap, TrendingUp, Minus, ChevronDown, ArrowUp, BookOpen, RotateCcw, Loader2, Plus, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Navigation } from '@/components/Navigation';
 import { 
   Select,
@@ -29,13 +34,31 @@ import { SCHWARTZ_VALUES, HIGHER_ORDER_VALUES, HigherOrderValue, getValueByCode
 import { 
   STRESSORS, 
   STRESSOR_IDS, 
-  VALUE_POLARITY_MAP, 
   findBestStressorsForTension,
   StressorId,
+  StressorSettings,
+  getAdjustedPolarity,
+  getDefaultPolarity,
   getPolarity,
+  getStressorById,
+  getStressors,
+  isCustomStressorId,
+  isPolarityEdited,
+  isStressorTuned,
+  PolarityModel,
 } from '@/lib/stressors';
 import { getPolarityExplanation } from '@/lib/polarity-explanations';
+import { updatePolarityModel, withEditedCell } from '@/lib/polarity-model-storage';
+import { DbCustomStressor, deleteCustomStressor } from '@/lib/custom-stressor-storage';
+import { canEditProfile, getCurrentUserId } from '@/lib/profile-storage';
 import { ValueAbbreviation } from '@/components/ValueAbbreviation';
+import { StressorParameterSliders } from '@/components/StressorParameterSliders';
+import { PolarityModelPanel } from '@/components/PolarityModelPanel';
+import { CustomStressorDialog } from '@/components/CustomStressorDialog';
+import { ValueSetTensionFinder } from '@/components/ValueSetTensionFinder';
+import { useStressorSettings } from '@/hooks/use-stressor-settings';
+import { usePolarityModel } from '@/hooks/use-polarity-model';
+import { useCustomStressors } from '@/hooks/use-custom-stressors';
 import { cn } from '@/lib/utils';
 
 function getPolarityColor(polarity: number): string {
@@ -53,24 +76,67 @@ function getPolarityTextColor(polarity: number): string {
   return 'text-foreground';
 }
 
-function PolarityCell({ polarity, valueCode, stressorId }: { polarity: number; valueCode: string; stressorId: StressorId }) {
+function formatPolarity(polarity: number): string {
+  return `${polarity > 0 ? '+' : ''}${polarity.toFixed(1)}`;
+}
+
+interface PolarityCellProps {
+  polarity: number;
+  valueCode: string;
+  stressorId: StressorId;
+  model: PolarityModel;
+  /** Present when the active polarity model can be edited */
+  onSave?: (polarity: number, justification: string) => Promise<void>;
+}
+
+function PolarityCell({ polarity, valueCode, stressorId, model, onSave }: PolarityCellProps) {
   const [open, setOpen] = useState(false);
+  const [draftPolarity, setDraftPolarity] = useState(0);
+  const [draftJustification, setDraftJustification] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
   const value = getValueByCode(valueCode);
-  const stressor = STRESSORS[stressorId];
-  const explanation = getPolarityExplanation(valueCode, stressorId);
+  const stressor = getStressorById(stressorId, model)!;
+  const explanation = getPolarityExplanation(valueCode, stressorId, model);
+  const basePolarity = getPolarity(valueCode, stressorId, model) ?? 0;
+  const defaultPolarity = getDefaultPolarity(valueCode, stressorId) ?? 0;
+  const edited = isPolarityEdited(valueCode, stressorId, model);
+  const adjusted = Math.abs(polarity - basePolarity) >= 0.005;
+  const draftIsDefault = draftPolarity === defaultPolarity;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraftPolarity(basePolarity);
+      setDraftJustification(edited ? explanation ?? '' : '');
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSave = async () => {
+    if (!onSave) return;
+    setIsSaving(true);
+    try {
+      await onSave(draftPolarity, draftJustification);
+      setOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save polarity');
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   return (
-    <Popover open={open} onOpenChange={setOpen}>
+    <Popover open={open} onOpenChange={handleOpenChange}>
       <PopoverTrigger asChild>
         <button
           className={cn(
             'w-full h-8 flex items-center justify-center text-xs font-medium rounded cursor-pointer hover:ring-2 hover:ring-primary hover:ring-offset-1 transition-all',
             getPolarityColor(polarity),
-            getPolarityTextColor(polarity)
+            getPolarityTextColor(polarity),
+            edited && 'ring-1 ring-inset ring-primary'
           )}
-          onClick={() => setOpen(true)}
+          onClick={() => handleOpenChange(true)}
         >
-          {polarity > 0 ? '+' : ''}{polarity.toFixed(1)}
+          {formatPolarity(polarity)}
         </button>
       </PopoverTrigger>
       <PopoverContent className="w-80 p-4" side="top">
@@ -85,7 +151,7 @@ function PolarityCell({ polarity, valueCode, stressorId }: { polarity: number; v
               getPolarityColor(polarity),
               getPolarityTextColor(polarity)
             )}>
-              {polarity > 0 ? '+' : ''}{polarity.toFixed(1)}
+              {formatPolarity(polarity)}
             </div>
           </div>
           {explanation && (
@@ -93,6 +159,60 @@ function PolarityCell({ polarity, valueCode, stressorId }: { polarity: number; v
               {explanation}
             </p>
           )}
+          {edited && (
+            <p className="text-xs text-muted-foreground">
+              This model changes the default of {formatPolarity(defaultPolarity)}: {getPolarityExplanation(valueCode, stressorId)}
+            </p>
+          )}
+          {adjusted && (
+            <p className="text-xs text-muted-foreground">
+              Base polarity {formatPolarity(basePolarity)}, adjusted by this stressor's parameter settings.
+            </p>
+          )}
+          {onSave && (
+            <div className="space-y-3 pt-3 border-t">
+              <div className="flex items-center justify-between text-xs">
+                <span className="font-medium">Polarity in this model</span>
+                <span className="font-mono">{formatPolarity(draftPolarity)}</span>
+              </div>
+              <Slider
+                value={[draftPolarity]}
+                onValueChange={([p]) => setDraftPolarity(Math.round(p * 10) / 10)}
+                min={-1}
+                max={1}
+                step={0.1}
+                aria-label="Polarity"
+              />
+              {!draftIsDefault && (
+                <Textarea
+                  value={draftJustification}
+                  onChange={(e) => setDraftJustification(e.target.value)}
+                  placeholder="Why should this cell differ from the default?"
+                  rows={3}
+                  className="text-sm"
+                />
+              )}
+              <div className="flex justify-between gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraftPolarity(defaultPolarity)}
+                  disabled={draftIsDefault}
+                >
+                  Use default
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleSave}
+                  disabled={isSaving || (!draftIsDefault && !draftJustification.trim())}
+                  className="gap-1.5"
+                >
+                  {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
         </div>
       </PopoverContent>
     </Popover>
@@ -102,15 +222,17 @@ function PolarityCell({ polarity, valueCode, stressorId }: { polarity: number; v
 function generateTensionExplanation(
   valueCodeA: string,
   valueCodeB: string,
-  stressorId: StressorId
+  stressorId: StressorId,
+  settings: StressorSettings,
+  model: PolarityModel
 ): string {
-  const stressor = STRESSORS[stressorId];
+  const stressor = getStressorById(stressorId, model)!;
   const valueA = getValueByCode(valueCodeA);
   const valueB = getValueByCode(valueCodeB);
-  const polarityA = getPolarity(valueCodeA, stressorId) ?? 0;
-  const polarityB = getPolarity(valueCodeB, stressorId) ?? 0;
-  const explanationA = getPolarityExplanation(valueCodeA, stressorId);
-  const explanationB = getPolarityExplanation(valueCodeB, stressorId);
+  const polarityA = getAdjustedPolarity(valueCodeA, stressorId, settings, model) ?? 0;
+  const polarityB = getAdjustedPolarity(valueCodeB, stressorId, settings, model) ?? 0;
+  const explanationA = getPolarityExplanation(valueCodeA, stressorId, model);
+  const explanationB = getPolarityExplanation(valueCodeB, stressorId, model);
   const diff = Math.abs(polarityA - polarityB);
 
   if (!valueA || !valueB) return '';
@@ -150,16 +272,20 @@ function TensionResult({
   polarityDiff,
   valueCodeA,
   valueCodeB,
+  settings,
+  model,
 }: { 
   stressorId: StressorId; 
   polarityDiff: number;
   valueCodeA: string;
   valueCodeB: string;
+  settings: StressorSettings;
+  model: PolarityModel;
 }) {
   const [isOpen, setIsOpen] = useState(false);
-  const stressor = STRESSORS[stressorId];
+  const stressor = getStressorById(stressorId, model)!;
   const absDiff = Math.abs(polarityDiff);
-  const explanation = generateTensionExplanation(valueCodeA, valueCodeB, stressorId);
+  const explanation = generateTensionExplanation(valueCodeA, valueCodeB, stressorId, settings, model);
   const valueA = getValueByCode(valueCodeA);
   const valueB = getValueByCode(valueCodeB);
 
@@ -237,7 +363,7 @@ function TensionResult({
                 className="inline-flex items-center gap-1.5 text-sm text-primary hover:underline"
               >
                 <ArrowUp className="w-4 h-4" />
-                View full stressor description & parameters
+                View full stressor description & parameter settings
               </button>
             </div>
           </div>
@@ -250,13 +376,56 @@ function TensionResult({
 export default function Stressors() {
   const [selectedValueA, setSelectedValueA] = useState<string>('');
   const [selectedValueB, setSelectedValueB] = useState<string>('');
+  const { settings, setParameter, resetStressor, resetAll } = useStressorSettings();
+  const { activeModel, savedModels, selectModel, refresh } = usePolarityModel();
+  const { savedStressors, isIncluded, setIncluded, refresh: refreshStressors } = useCustomStressors();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [stressorDialogOpen, setStressorDialogOpen] = useState(false);
+  const [editingStressor, setEditingStressor] = useState<DbCustomStressor | null>(null);
+  const stressors = getStressors(activeModel);
+  const anyTuned = stressors.some(s => isStressorTuned(s.id, settings, activeModel));
+
+  useEffect(() => {
+    getCurrentUserId().then(setUserId);
+  }, []);
+
+  const activeSaved = savedModels.find(m => m.id === activeModel.id);
+  const canEditModel = !!activeSaved && canEditProfile(activeSaved, userId);
+
+  const savePolarity = async (valueCode: string, stressorId: StressorId, polarity: number, justification: string) => {
+    if (!activeSaved) return;
+    const updated = await updatePolarityModel(
+      activeSaved.id,
+      withEditedCell(activeModel, valueCode, stressorId, polarity, justification)
+    );
+    selectModel(updated);
+    refresh();
+  };
+
+  const openStressorDialog = (stressor: DbCustomStressor | null) => {
+    setEditingStressor(stressor);
+    setStressorDialogOpen(true);
+  };
+
+  const handleDeleteStressor = async (stressor: DbCustomStressor) => {
+    if (!confirm(`Delete "${stressor.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteCustomStressor(stressor.id);
+      resetStressor(`custom:${stressor.id}`);
+      setIncluded(stressor.id, false);
+      await refreshStressors();
+      toast.success(`"${stressor.name}" deleted`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete stressor');
+    }
+  };
   
   const tensionResults = useMemo(() => {
     if (!selectedValueA || !selectedValueB || selectedValueA === selectedValueB) {
       return [];
     }
-    return findBestStressorsForTension(selectedValueA, selectedValueB, 12);
-  }, [selectedValueA, selectedValueB]);
+    return findBestStressorsForTension(selectedValueA, selectedValueB, getStressors(activeModel).length, settings, activeModel);
+  }, [selectedValueA, selectedValueB, settings, activeModel]);
 
   const valuesByQuadrant = useMemo(() => {
     const quadrants: Record<HigherOrderValue, typeof SCHWARTZ_VALUES> = {
@@ -340,7 +509,21 @@ export default function Stressors() {
       {/* The 12 Stressors */}
       <section className="py-12 border-b bg-muted/30">
         <div className="container">
-          <h2 className="font-serif text-3xl font-bold mb-8">The 12 Stressors</h2>
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-8">
+            <div>
+              <h2 className="font-serif text-3xl font-bold mb-2">The 12 Stressors</h2>
+              <p className="text-muted-foreground max-w-2xl">
+                Tune each stressor's parameters to intensify or soften it. The settings reshape the polarities below,
+                every sensitivity analysis, and the scenarios generated on Compare and Explore Scenarios.
+              </p>
+            </div>
+            {anyTuned && (
+              <Button variant="outline" size="sm" onClick={resetAll} className="gap-1.5 shrink-0">
+                <RotateCcw className="w-3.5 h-3.5" />
+                Reset all parameters
+              </Button>
+            )}
+          </div>
           
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
             {STRESSOR_IDS.map(id => {
@@ -354,19 +537,106 @@ export default function Stressors() {
                       <span className="font-medium not-italic">Example:</span> {stressor.example}
                     </p>
                   </div>
-                  <div className="space-y-2">
-                    {stressor.parameters.map(param => (
-                      <div key={param.id} className="flex items-center justify-between text-xs">
-                        <span className="text-muted-foreground">{param.lowLabel}</span>
-                        <span className="px-2 py-0.5 rounded bg-muted font-medium">{param.name}</span>
-                        <span className="text-muted-foreground">{param.highLabel}</span>
-                      </div>
-                    ))}
-                  </div>
+                  <StressorParameterSliders
+                    stressorId={id}
+                    model={activeModel}
+                    settings={settings}
+                    onParameterChange={setParameter}
+                    onReset={resetStressor}
+                  />
                 </div>
               );
             })}
           </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mt-12 mb-6">
+            <div>
+              <h3 className="font-serif text-2xl font-bold mb-2">Custom Stressors</h3>
+              <p className="text-muted-foreground max-w-2xl">
+                Define your own stressors with a polarity for each value, or use other people's. Those you include join
+                the built-in twelve in the heatmap, the tension analyzer, sensitivity analyses and job clarification
+                on this device.
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => openStressorDialog(null)} className="gap-1.5 shrink-0">
+              <Plus className="w-3.5 h-3.5" />
+              New stressor
+            </Button>
+          </div>
+
+          {savedStressors.length > 0 && (
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {savedStressors.map(saved => {
+                const id = `custom:${saved.id}` as const;
+                const canEdit = canEditProfile(saved, userId);
+                const included = isIncluded(saved.id);
+                return (
+                  <div key={id} id={`stressor-list-${id}`} className="p-5 rounded-xl border bg-card scroll-mt-24">
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                      <h3 className="font-serif text-lg font-semibold">{saved.name}</h3>
+                      {canEdit && (
+                        <div className="flex shrink-0">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openStressorDialog(saved)}
+                            className="h-7 w-7"
+                            aria-label={`Edit ${saved.name}`}
+                          >
+                            <Pencil className="w-3.5 h-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDeleteStressor(saved)}
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                            aria-label={`Delete ${saved.name}`}
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    {saved.description && (
+                      <p className="text-sm text-muted-foreground mb-3">{saved.description}</p>
+                    )}
+                    {saved.example && (
+                      <div className="p-3 rounded-lg bg-muted/50 border border-dashed mb-4">
+                        <p className="text-xs text-muted-foreground italic">
+                          <span className="font-medium not-italic">Example:</span> {saved.example}
+                        </p>
+                      </div>
+                    )}
+                    <div className="flex items-center gap-2 mb-3">
+                      <Switch
+                        id={`include-${id}`}
+                        checked={included}
+                        onCheckedChange={checked => setIncluded(saved.id, checked)}
+                      />
+                      <Label htmlFor={`include-${id}`} className="text-sm text-muted-foreground cursor-pointer">
+                        Use in my calculations
+                      </Label>
+                    </div>
+                    {included && (
+                      <StressorParameterSliders
+                        stressorId={id}
+                        model={activeModel}
+                        settings={settings}
+                        onParameterChange={setParameter}
+                        onReset={resetStressor}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <CustomStressorDialog
+            open={stressorDialogOpen}
+            onOpenChange={setStressorDialogOpen}
+            stressor={editingStressor}
+          />
         </div>
       </section>
 
@@ -376,9 +646,16 @@ export default function Stressors() {
           <h2 className="font-serif text-3xl font-bold mb-4">Polarity Heatmap</h2>
           <p className="text-muted-foreground mb-8 max-w-2xl">
             Each cell shows how increasing a stressor's intensity tends to <span className="text-emerald-600 font-medium">satisfy (+)</span> or{' '}
-            <span className="text-rose-600 font-medium">frustrate (-)</span> a value.
+            <span className="text-rose-600 font-medium">frustrate (-)</span> a value
+            {anyTuned && ', with your parameter settings applied'}. The selected model is used by every sensitivity,
+            tension and clarification calculation in the app.{' '}
+            <Link to="/polarity-consistency" className="text-primary hover:underline">
+              Check it against the circumplex →
+            </Link>
           </p>
 
+          <PolarityModelPanel canEdit={canEditModel} />
+
           <div className="overflow-x-auto pb-4">
             <table className="w-full border-collapse min-w-[1200px]">
               <thead>
@@ -386,17 +663,17 @@ export default function Stressors() {
                   <th className="text-left p-2 text-sm font-medium text-muted-foreground sticky left-0 bg-background z-10">
                     Value
                   </th>
-                  {STRESSOR_IDS.map(id => (
-                    <th key={id} className="p-2 text-center">
+                  {stressors.map(stressor => (
+                    <th key={stressor.id} className="p-2 text-center">
                       <Tooltip>
                         <TooltipTrigger asChild>
                           <span className="text-xs font-medium text-muted-foreground cursor-help whitespace-nowrap">
-                            {STRESSORS[id].name.split(' / ')[0]}
+                            {stressor.name.split(' / ')[0]}
                           </span>
                         </TooltipTrigger>
                         <TooltipContent side="top" className="max-w-xs">
-                          <p className="font-semibold">{STRESSORS[id].name}</p>
-                          <p className="text-xs text-muted-foreground">{STRESSORS[id].description}</p>
+                          <p className="font-semibold">{stressor.name}</p>
+                          <p className="text-xs text-muted-foreground">{stressor.description}</p>
                         </TooltipContent>
                       </Tooltip>
                     </th>
@@ -408,7 +685,7 @@ export default function Stressors() {
                   <>
                     <tr key={`header-${quadrant}`}>
                       <td 
-                        colSpan={STRESSOR_IDS.length + 1} 
+                        colSpan={stressors.length + 1} 
                         className="pt-6 pb-2 px-2 text-sm font-semibold"
                         style={{ color: `hsl(var(--${HIGHER_ORDER_VALUES[quadrant].color}))` }}
                       >
@@ -420,11 +697,19 @@ export default function Stressors() {
                         <td className="p-2 sticky left-0 bg-background z-10">
                           <ValueAbbreviation code={value.code} className="text-sm" />
                         </td>
-                        {STRESSOR_IDS.map(stressorId => {
-                          const polarity = VALUE_POLARITY_MAP[value.code]?.[stressorId] ?? 0;
+                        {stressors.map(({ id: stressorId }) => {
+                          const polarity = getAdjustedPolarity(value.code, stressorId, settings, activeModel) ?? 0;
                           return (
                             <td key={stressorId} className="p-1">
-                              <PolarityCell polarity={polarity} valueCode={value.code} stressorId={stressorId} />
+                              <PolarityCell
+                                polarity={polarity}
+                                valueCode={value.code}
+                                stressorId={stressorId}
+                                model={activeModel}
+                                onSave={canEditModel && !isCustomStressorId(stressorId)
+                                  ? (p, justification) => savePolarity(value.code, stressorId, p, justification)
+                                  : undefined}
+                              />
                             </td>
                           );
                         })}
@@ -539,6 +824,8 @@ export default function Stressors() {
                   polarityDiff={result.polarityDiff}
                   valueCodeA={selectedValueA}
                   valueCodeB={selectedValueB}
+                  settings={settings}
+                  model={activeModel}
                 />
               ))}
             </div>
@@ -550,6 +837,13 @@ export default function Stressors() {
               <p>Select two values above to analyze which stressors expose their tension.</p>
             </div>
           )}
+
+          <h2 className="font-serif text-3xl font-bold mt-16 mb-4">Value Set Tensions</h2>
+          <p className="text-muted-foreground mb-8">
+            Pick any number of values, or whole higher-order groups such as Conservation and Openness, to rank the
+            stressors by how far apart they push the set, and see which values end up on each side.
+          </p>
+          <ValueSetTensionFinder settings={settings} model={activeModel} />
         </div>
       </section>
 
@@ -0,0 +1,450 @@
+// ---------------------------------------------------------------------------
+// Shared LLM provider layer for the edge functions
+// ---------------------------------------------------------------------------
+//
+// Configured through Supabase secrets:
+//   LLM_PROVIDER        openai (default) | anthropic | local | mock
+//   LLM_MODEL           overrides the provider's default chat model
+//   LLM_IMAGE_PROVIDER  provider for image generation (defaults to LLM_PROVIDER)
+//   LLM_IMAGE_MODEL     overrides the provider's default image model
+//   OPENAI_API_KEY, ANTHROPIC_API_KEY
+//   LOCAL_LLM_BASE_URL  OpenAI-compatible endpoint, e.g. Ollama's http://localhost:11434/v1
+//   LOCAL_LLM_API_KEY   optional bearer token for that endpoint
+//   LLM_MOCK_RESPONSE   fixed reply for the mock provider, in place of each
+//                       function's own fixture
+//
+// Streams are always OpenAI-style chat completion chunks (`data: {choices:
+// [{delta: {content}}]}` ... `data: [DONE]`), whatever the backend, so the
+// frontend parses one format. Token usage, when the backend reports it,
+// arrives as a final `{choices: [], usage: {prompt_tokens, completion_tokens,
+// total_tokens}}` chunk before [DONE]. A stream that fails part way ends with
+// a `{error: {message}}` chunk instead, so the client can resume it.
+
+export type LlmProviderName = "openai" | "anthropic" | "local" | "mock";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  /** Full reply text */
+  complete(request: ChatRequest): Promise<string>;
+  /** Reply as an OpenAI-style server-sent event stream */
+  stream(request: ChatRequest): Promise<ReadableStream<Uint8Array>>;
+  /** Image for a prompt as a URL or data URL; absent when the backend can't make images */
+  generateImage?(prompt: string): Promise<string>;
+}
+
+/**
+ * Mock reply in the shape a function expects, e.g. its JSON schema filled in
+ * from the request, so the mock provider can stand in for a real backend
+ */
+export type MockReply = (request: ChatRequest) => string;
+
+/** Upstream failure, carrying the HTTP status so callers can map it */
+export class LlmProviderError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "LlmProviderError";
+  }
+}
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  local: "llama3.1",
+  mock: "mock",
+};
+
+const DEFAULT_IMAGE_MODEL = "gpt-image-1";
+
+// Anthropic requires max_tokens; the OpenAI-style backends leave it to the model
+const DEFAULT_MAX_TOKENS = 2048;
+
+const encoder = new TextEncoder();
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+}
+
+async function ensureOk(response: Response, providerLabel: string): Promise<Response> {
+  if (!response.ok) {
+    const text = await response.text();
+    console.error(`${providerLabel} API error:`, response.status, text.slice(0, 500));
+    throw new LlmProviderError(`${providerLabel} API error: ${response.status}`, response.status);
+  }
+  return response;
+}
+
+// Chunks carry the model like OpenAI's do, so clients can record what wrote the text
+function sseChunk(content: string, model: string): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify({ model, choices: [{ index: 0, delta: { content } }] })}\n\n`);
+}
+
+function sseUsageChunk(promptTokens: number, completionTokens: number): Uint8Array {
+  const usage = {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+  return encoder.encode(`data: ${JSON.stringify({ choices: [], usage })}\n\n`);
+}
+
+function sseErrorChunk(message: string): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify({ error: { message } })}\n\n`);
+}
+
+const SSE_DONE = encoder.encode("data: [DONE]\n\n");
+
+// ---------------------------------------------------------------------------
+// OpenAI and OpenAI-compatible endpoints
+// ---------------------------------------------------------------------------
+
+function createOpenAiCompatibleProvider(
+  name: "openai" | "local",
+  baseUrl: string,
+  apiKey: string | undefined,
+  model: string,
+  imageModel: string,
+): LlmProvider {
+  const label = name === "openai" ? "OpenAI" : "Local LLM";
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  const post = (path: string, body: unknown) =>
+    fetch(`${baseUrl}${path}`, { method: "POST", headers, body: JSON.stringify(body) })
+      .then(response => ensureOk(response, label));
+
+  const chatBody = (request: ChatRequest, stream: boolean) => ({
+    model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    stream,
+    // OpenAI only sends usage on streams when asked; local servers vary in support
+    ...(stream && name === "openai" ? { stream_options: { include_usage: true } } : {}),
+  });
+
+  const provider: LlmProvider = {
+    name,
+    model,
+
+    async complete(request) {
+      const response = await post("/chat/completions", chatBody(request, false));
+      const completion = await response.json();
+      return completion.choices?.[0]?.message?.content ?? "";
+    },
+
+    async stream(request) {
+      const response = await post("/chat/completions", chatBody(request, true));
+      if (!response.body) {
+        throw new LlmProviderError(`${label} returned no stream`, 502);
+      }
+      return response.body;
+    },
+  };
+
+  // Ollama and most local servers don't implement the images endpoint
+  if (name === "openai") {
+    provider.generateImage = async (prompt) => {
+      const response = await post("/images/generations", { model: imageModel, prompt, n: 1, size: "1024x1024" });
+      const data = await response.json();
+      const image = data.data?.[0];
+      if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+      if (image?.url) return image.url;
+      throw new LlmProviderError("No image in OpenAI response", 502);
+    };
+  }
+
+  return provider;
+}
+
+// ---------------------------------------------------------------------------
+// Anthropic Messages API
+// ---------------------------------------------------------------------------
+
+function createAnthropicProvider(apiKey: string, model: string): LlmProvider {
+  const send = (request: ChatRequest, stream: boolean) => {
+    // Anthropic takes the system prompt separately from the conversation
+    const system = request.messages.filter(m => m.role === "system").map(m => m.content).join("\n\n");
+    const messages = request.messages.filter(m => m.role !== "system");
+
+    return fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        system: system || undefined,
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        stream,
+      }),
+    }).then(response => ensureOk(response, "Anthropic"));
+  };
+
+  return {
+    name: "anthropic",
+    model,
+
+    async complete(request) {
+      const response = await send(request, false);
+      const message = await response.json();
+      return (message.content ?? [])
+        .filter((block: { type: string }) => block.type === "text")
+        .map((block: { text: string }) => block.text)
+        .join("");
+    },
+
+    async stream(request) {
+      const response = await send(request, true);
+      if (!response.body) {
+        throw new LlmProviderError("Anthropic returned no stream", 502);
+      }
+
+      // Re-emit text deltas as OpenAI-style chunks
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          // Keep reading until something is emitted: a pull that enqueues
+          // nothing isn't called again for a read that is already waiting
+          let emitted = false;
+          while (!emitted) {
+            const { done, value } = await reader.read();
+            if (done) {
+              controller.enqueue(sseUsageChunk(inputTokens, outputTokens));
+              controller.enqueue(SSE_DONE);
+              controller.close();
+              return;
+            }
+
+            buffer += value;
+            const lines = buffer.split("\n");
+            buffer = lines.pop() ?? "";
+
+            // Ends the stream with an error chunk, which the client resumes from
+            const fail = (message: string) => {
+              controller.enqueue(sseErrorChunk(message));
+              controller.close();
+              reader.cancel();
+            };
+
+            for (const line of lines) {
+              if (!line.startsWith("data: ")) continue;
+              let event;
+              try {
+                event = JSON.parse(line.slice(6));
+              } catch {
+                console.error("Malformed Anthropic stream event:", line.slice(0, 500));
+                fail("Received a malformed event from Anthropic");
+                return;
+              }
+
+              if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+                controller.enqueue(sseChunk(event.delta.text, model));
+                emitted = true;
+              } else if (event.type === "message_start") {
+                inputTokens = event.message?.usage?.input_tokens ?? 0;
+              } else if (event.type === "message_delta") {
+                outputTokens = event.usage?.output_tokens ?? outputTokens;
+              } else if (event.type === "error") {
+                console.error("Anthropic stream error:", event.error);
+                fail(event.error?.message ?? "Anthropic stream error");
+                return;
+              }
+            }
+          }
+        },
+        cancel(reason) {
+          reader.cancel(reason);
+        },
+      });
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Deterministic mock
+// ---------------------------------------------------------------------------
+
+/** FNV-1a, so the same prompt always gets the same mock reply */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * No network: replies with `fixedResponse` when given, then the calling
+ * function's `mockReply`, otherwise a short text derived from the prompt.
+ * Images are a flat SVG whose colour comes from the prompt hash.
+ */
+export function createMockProvider(fixedResponse?: string, mockReply?: MockReply): LlmProvider {
+  const reply = (request: ChatRequest) => {
+    if (fixedResponse !== undefined) return fixedResponse;
+    if (mockReply) return mockReply(request);
+    const prompt = request.messages.map(m => `${m.role}: ${m.content}`).join("\n");
+    const lastUser = [...request.messages].reverse().find(m => m.role === "user")?.content ?? "";
+    return `Mock response ${hashText(prompt)} to: ${lastUser.slice(0, 80)}`;
+  };
+
+  return {
+    name: "mock",
+    model: DEFAULT_MODELS.mock,
+
+    async complete(request) {
+      return reply(request);
+    },
+
+    async stream(request) {
+      // Word-sized chunks, like a real stream, with words standing in for tokens
+      const chunks = reply(request).match(/\S+\s*|\s+/g) ?? [];
+      const promptWords = request.messages.reduce((sum, m) => sum + m.content.split(/\s+/).length, 0);
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) controller.enqueue(sseChunk(chunk, DEFAULT_MODELS.mock));
+          controller.enqueue(sseUsageChunk(promptWords, chunks.length));
+          controller.enqueue(SSE_DONE);
+          controller.close();
+        },
+      });
+    },
+
+    async generateImage(prompt) {
+      const colour = `#${hashText(prompt).slice(0, 6)}`;
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256"><rect width="256" height="256" fill="${colour}"/></svg>`;
+      return `data:image/svg+xml;base64,${btoa(svg)}`;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+function createProvider(
+  name: string,
+  model: string | undefined,
+  imageModel: string,
+  mockReply: MockReply | undefined,
+): LlmProvider {
+  switch (name) {
+    case "openai":
+      return createOpenAiCompatibleProvider(
+        "openai",
+        "https://api.openai.com/v1",
+        requireEnv("OPENAI_API_KEY"),
+        model ?? DEFAULT_MODELS.openai,
+        imageModel,
+      );
+    case "anthropic":
+      return createAnthropicProvider(requireEnv("ANTHROPIC_API_KEY"), model ?? DEFAULT_MODELS.anthropic);
+    case "local":
+      return createOpenAiCompatibleProvider(
+        "local",
+        requireEnv("LOCAL_LLM_BASE_URL").replace(/\/$/, ""),
+        Deno.env.get("LOCAL_LLM_API_KEY"),
+        model ?? DEFAULT_MODELS.local,
+        imageModel,
+      );
+    case "mock":
+      return createMockProvider(Deno.env.get("LLM_MOCK_RESPONSE"), mockReply);
+    default:
+      throw new Error(`Unknown LLM provider "${name}"`);
+  }
+}
+
+/**
+ * The configured provider. Pass "image" for image generation, which may use a
+ * different backend (LLM_IMAGE_PROVIDER) since not every provider makes images.
+ * Functions that parse the reply pass a `mockReply` in the shape they expect,
+ * for the mock provider to use. Throws when the provider's credentials are missing.
+ */
+export function getLlmProvider(purpose: "chat" | "image" = "chat", mockReply?: MockReply): LlmProvider {
+  const chatProvider = Deno.env.get("LLM_PROVIDER") ?? "openai";
+  const name = purpose === "image" ? Deno.env.get("LLM_IMAGE_PROVIDER") ?? chatProvider : chatProvider;
+  // A chat model override means nothing to a different image backend
+  const model = purpose === "chat" || name === chatProvider ? Deno.env.get("LLM_MODEL") : undefined;
+  return createProvider(name, model, Deno.env.get("LLM_IMAGE_MODEL") ?? DEFAULT_IMAGE_MODEL, mockReply);
+}
+
+/**
+ * JSON error response for the upstream failures callers surface to users
+ * (rate limits, exhausted credits, outages), or null for anything else,
+ * which callers should rethrow.
+ */
+export function llmErrorResponse(error: unknown, headers: Record<string, string>): Response | null {
+  if (!(error instanceof LlmProviderError)) return null;
+
+  const respond = (message: string, status: number) =>
+    new Response(JSON.stringify({ error: message }), {
+      status,
+      headers: { ...headers, "Content-Type": "application/json" },
+    });
+
+  if (error.status === 429) return respond("Rate limit exceeded. Please try again later.", 429);
+  if (error.status === 402) return respond("AI credits exhausted. Please add funds.", 402);
+  if (error.status >= 500) return respond("AI service temporarily unavailable. Please try again.", 503);
+  return null;
+}
+
+/** Longest partial reply accepted as `resumeFrom`, well past any single reply */
+export const MAX_RESUME_LENGTH = 50_000;
+
+/** Whether a request's `resumeFrom` is absent or a string of acceptable length */
+export function isValidResumeFrom(resumeFrom: unknown): resumeFrom is string | undefined {
+  return resumeFrom === undefined || (typeof resumeFrom === "string" && resumeFrom.length <= MAX_RESUME_LENGTH);
+}
+
+/**
+ * Messages that pick up a reply cut off mid-stream: the partial text as the
+ * assistant's turn, then an instruction to carry on from it. Returns the
+ * messages unchanged when there is nothing to resume.
+ */
+export function withResume(messages: ChatMessage[], resumeFrom?: string): ChatMessage[] {
+  if (!resumeFrom?.trim()) return messages;
+  return [
+    ...messages,
+    // Anthropic rejects assistant turns that end in whitespace
+    { role: "assistant", content: resumeFrom.trimEnd() },
+    { role: "user", content: "Your reply was cut off. Continue exactly where it stopped, without repeating anything." },
+  ];
+}
+
+/** Strip a ```json fence some models wrap JSON replies in */
+export function stripCodeFence(content: string): string {
+  let json = content.trim();
+  if (json.startsWith("```json")) {
+    json = json.slice(7);
+  } else if (json.startsWith("```")) {
+    json = json.slice(3);
+  }
+  if (json.endsWith("```")) {
+    json = json.slice(0, -3);
+  }
+  return json.trim();
+}
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { MockReply, getLlmProvider, llmErrorResponse, stripCodeFence } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -73,6 +74,14 @@ const VALUE_CODES = [
   'UNC', 'UNN', 'UNT'
 ];
 
+// Mock provider reply: every value neutral and unspecified
+const mockAnalysis: MockReply = () => JSON.stringify({
+  detectedJobTitle: "Mock Role",
+  scores: Object.fromEntries(VALUE_CODES.map(code => [code, 3.5])),
+  confidence: Object.fromEntries(VALUE_CODES.map(code => [code, "unspecified"])),
+  rationales: {},
+});
+
 interface AnalysisResult {
   detectedJobTitle?: string;
   scores: Record<string, number>;
@@ -161,80 +170,31 @@ serve(async (req) => {
       );
     }
 
-    // Get OpenAI API key
-    const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-    if (!OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY is not configured");
-    }
+    const llm = getLlmProvider("chat", mockAnalysis);
 
-    console.log("Analyzing job description:", jobDescription.substring(0, 100) + "...");
-
-    // Call OpenAI API (non-streaming)
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          { role: "user", content: `Analyze this job description and return the Schwartz value scores:\n\n${jobDescription}` },
-        ],
-        temperature: 0.3,
-        max_tokens: 1500,
-      }),
-    });
+    console.log(`Analyzing job description with ${llm.name}/${llm.model}:`, jobDescription.substring(0, 100) + "...");
 
-    // Handle API errors
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 401) {
-        console.error("OpenAI API authentication failed");
-        throw new Error("API authentication failed");
-      }
-      if (response.status === 500 || response.status === 503) {
-        return new Response(
-          JSON.stringify({ error: "OpenAI service temporarily unavailable. Please try again." }),
-          { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const errorText = await response.text();
-      console.error("OpenAI API error:", response.status, errorText);
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    // Parse OpenAI response
-    const completion = await response.json();
-    const content = completion.choices?.[0]?.message?.content;
+    const content = await llm.complete({
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: `Analyze this job description and return the Schwartz value scores:\n\n${jobDescription}` },
+      ],
+      temperature: 0.3,
+      maxTokens: 1500,
+    });
 
     if (!content) {
-      throw new Error("Empty response from OpenAI");
+      throw new Error("Empty response from the model");
     }
 
     // Parse JSON from the response (handle potential markdown code blocks)
-    let jsonContent = content.trim();
-    if (jsonContent.startsWith("```json")) {
-      jsonContent = jsonContent.slice(7);
-    } else if (jsonContent.startsWith("```")) {
-      jsonContent = jsonContent.slice(3);
-    }
-    if (jsonContent.endsWith("```")) {
-      jsonContent = jsonContent.slice(0, -3);
-    }
-    jsonContent = jsonContent.trim();
+    const jsonContent = stripCodeFence(content);
 
     let parsed: unknown;
     try {
       parsed = JSON.parse(jsonContent);
     } catch (parseError) {
-      console.error("Failed to parse OpenAI response as JSON:", content);
+      console.error("Failed to parse model response as JSON:", content);
       throw new Error("Failed to parse analysis result");
     }
 
@@ -255,6 +215,9 @@ serve(async (req) => {
     );
 
   } catch (error) {
+    const providerResponse = llmErrorResponse(error, corsHeaders);
+    if (providerResponse) return providerResponse;
+
     console.error("analyze-job-description error:", error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
@@ -1,4 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  MAX_RESUME_LENGTH,
+  getLlmProvider,
+  isValidResumeFrom,
+  llmErrorResponse,
+  withResume,
+} from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -17,7 +24,7 @@ serve(async (req) => {
   }
 
   try {
-    const { archetypes } = await req.json() as { archetypes: ArchetypeComparison[] };
+    const { archetypes, resumeFrom } = await req.json() as { archetypes: ArchetypeComparison[]; resumeFrom?: string };
     
     if (!archetypes || archetypes.length < 2) {
       return new Response(
@@ -26,11 +33,15 @@ serve(async (req) => {
       );
     }
 
-    const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-    if (!OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY is not configured");
+    if (!isValidResumeFrom(resumeFrom)) {
+      return new Response(
+        JSON.stringify({ error: `resumeFrom must be a string of at most ${MAX_RESUME_LENGTH} characters` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
+    const llm = getLlmProvider();
+
     const archetypesSummary = archetypes.map(a => {
       const highValues = Object.entries(a.valueProfile)
         .filter(([_, v]) => v >= 2)
@@ -78,44 +89,21 @@ Write a compelling 3-4 paragraph comparison that:
 3. Notes any unexpected common ground
 4. Considers how they would view each other's choices`;
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        stream: true,
-      }),
+    // resumeFrom carries a partial reply when the client reconnects after a dropped stream
+    const stream = await llm.stream({
+      messages: withResume([
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ], resumeFrom),
     });
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits exhausted. Please add funds." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const text = await response.text();
-      console.error("AI gateway error:", response.status, text);
-      throw new Error("AI gateway error");
-    }
-
-    return new Response(response.body, {
+    return new Response(stream, {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error) {
+    const providerResponse = llmErrorResponse(error, corsHeaders);
+    if (providerResponse) return providerResponse;
+
     console.error("compare-archetypes error:", error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createOnetProvider } from "./onet-providers.ts";
+import { OccupationMatch } from "./title-matcher.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -37,11 +39,6 @@ interface OccupationalContext {
   workValues: string[];
 }
 
-interface OnetElement {
-  name: string;
-  score?: { value: number };
-}
-
 // ---------------------------------------------------------------------------
 // O*NET → Schwartz mapping tables
 // ---------------------------------------------------------------------------
@@ -116,138 +113,6 @@ const PROFESSION_ETHICS_MAP: Record<string, string> = {
   "29-1127": "ASHA Code of Ethics (Speech-Language Pathology)",
 };
 
-// ---------------------------------------------------------------------------
-// O*NET API helpers
-// ---------------------------------------------------------------------------
-
-async function fetchOnet(
-  path: string,
-  apiKey: string
-): Promise<OnetElement[]> {
-  // Detail endpoints follow /online/occupations/{code}/{data-type}/ pattern
-  const url = `https://api-v2.onetcenter.org/online${path}`;
-  const response = await fetch(url, {
-    headers: {
-      "X-API-Key": apiKey,
-      Accept: "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const body = await response.text();
-    throw new Error(`O*NET API error: ${response.status} on ${path} — ${body.slice(0, 200)}`);
-  }
-
-  const rawText = await response.text();
-  const data = JSON.parse(rawText);
-  console.log(`O*NET ${path} keys: [${Object.keys(data).join(", ")}]`);
-
-  // Try common wrapper keys used across v2 endpoints.
-  const candidates = [
-    data.element,
-    data.occupation,
-    data.category,
-    data.interest,
-    data.work_value,
-    data.work_style,
-    data.knowledge,
-  ];
-
-  for (const candidate of candidates) {
-    if (Array.isArray(candidate)) return candidate as OnetElement[];
-  }
-
-  return [];
-}
-
-/**
- * Strip seniority/level prefixes that O*NET titles don't use.
- * "Senior Architect" → "Architect", "Lead Software Engineer" → "Software Engineer"
- */
-function normalizeJobTitle(title: string): string {
-  const prefixes = [
-    "senior", "junior", "lead", "principal", "staff", "associate",
-    "head of", "director of", "vp of", "chief", "founding",
-    "mid-level", "mid level", "entry-level", "entry level",
-  ];
-  let normalized = title.trim().toLowerCase();
-  for (const prefix of prefixes) {
-    if (normalized.startsWith(prefix + " ")) {
-      normalized = normalized.slice(prefix.length + 1).trim();
-    }
-  }
-  // Restore original casing by capitalising first letter of each word
-  return normalized.replace(/\b\w/g, (c) => c.toUpperCase());
-}
-
-async function searchOnet(
-  keyword: string,
-  apiKey: string,
-): Promise<{ code: string; title: string } | null> {
-  // Confirmed from official v2 samples: https://github.com/onetcenter/web-services-v2-samples
-  const url = `https://api-v2.onetcenter.org/online/search?keyword=${encodeURIComponent(keyword)}&end=10`;
-  console.log(`O*NET search: ${url}`);
-  const response = await fetch(url, {
-    headers: { "X-API-Key": apiKey, Accept: "application/json" },
-  });
-
-  const rawText = await response.text();
-  console.log(`O*NET HTTP ${response.status} for "${keyword}" — raw: ${rawText.slice(0, 600)}`);
-
-  if (!response.ok) {
-    throw new Error(`O*NET search error: ${response.status} for keyword "${keyword}"`);
-  }
-
-  let data: Record<string, unknown>;
-  try {
-    data = JSON.parse(rawText);
-  } catch {
-    throw new Error(`O*NET non-JSON response for "${keyword}": ${rawText.slice(0, 100)}`);
-  }
-
-  console.log(`O*NET response keys: [${Object.keys(data).join(", ")}]`);
-
-  const occupations = (
-    (data.occupation as Array<{ code: string; title: string }>) ??
-    (data.occupations as Array<{ code: string; title: string }>) ??
-    []
-  );
-  console.log(`O*NET occupations found: ${occupations.length}`);
-  return occupations.length > 0 ? occupations[0] : null;
-}
-
-async function findOccupation(
-  jobTitle: string,
-  apiKey: string
-): Promise<{ code: string; title: string; searchedAs: string } | null> {
-  // 1. Try the full title
-  const result = await searchOnet(jobTitle, apiKey);
-  if (result) return { ...result, searchedAs: jobTitle };
-
-  // 2. Try with seniority prefix stripped ("Senior Architect" → "Architect")
-  const normalized = normalizeJobTitle(jobTitle);
-  if (normalized.toLowerCase() !== jobTitle.toLowerCase()) {
-    console.log(`Trying normalized title: "${normalized}"`);
-    const fallback = await searchOnet(normalized, apiKey);
-    if (fallback) return { ...fallback, searchedAs: normalized };
-  }
-
-  // 3. Last resort: try just the last significant word
-  //    "Senior Project Architect" → "Architect"
-  const words = normalized.split(/\s+/).filter(w => w.length > 3);
-  if (words.length > 1) {
-    const lastWord = words[words.length - 1];
-    if (lastWord.toLowerCase() !== normalized.toLowerCase()) {
-      console.log(`Trying last word fallback: "${lastWord}"`);
-      const lastWordResult = await searchOnet(lastWord, apiKey);
-      if (lastWordResult) return { ...lastWordResult, searchedAs: lastWord };
-    }
-  }
-
-  console.log(`No O*NET match for "${jobTitle}" after ${words.length > 1 ? "3" : "2"} attempts`);
-  return null;
-}
-
 // ---------------------------------------------------------------------------
 // Schwartz signal accumulation
 // ---------------------------------------------------------------------------
@@ -418,79 +283,55 @@ serve(async (req) => {
       );
     }
 
-    // Get O*NET API key.
-    // O*NET API v2 uses an X-API-Key header. Set ONET_API_KEY in Supabase
-    // project secrets (Dashboard → Settings → Edge Functions → Secrets).
-    const apiKey = Deno.env.get("ONET_API_KEY");
-    if (!apiKey) {
-      console.error("ONET_API_KEY not configured — returning original analysis");
+    // Pick a data source. ONET_DATA_DIR points at the downloaded O*NET text
+    // database; ONET_API_KEY enables the live v2 API (X-API-Key header). Set
+    // either in Supabase project secrets (Dashboard → Settings → Edge
+    // Functions → Secrets); ONET_PROVIDER forces one when both are set.
+    const provider = createOnetProvider();
+    if (!provider) {
+      console.error("No O*NET data source configured — returning original analysis");
       return new Response(
         JSON.stringify({ ...existingAnalysis, onetEnriched: false, onetStatus: "credentials_missing" }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Step 1: Look up occupation (tries full title, then strips seniority prefix)
-    console.log(`Enriching job analysis for: "${jobTitle}"`);
-    let occupation: { code: string; title: string } | null = null;
+    // Step 1: Fuzzy-match the title against O*NET occupations
+    console.log(`Enriching job analysis for: "${jobTitle}" (provider: ${provider.name})`);
+    let occupation: OccupationMatch | null = null;
 
     try {
-      occupation = await findOccupation(jobTitle.trim(), apiKey);
+      occupation = await provider.findOccupation(jobTitle.trim());
     } catch (err) {
       console.error("O*NET occupation lookup failed:", err);
       return new Response(
-        JSON.stringify({ ...existingAnalysis, onetEnriched: false, onetStatus: "api_error" }),
+        JSON.stringify({
+          ...existingAnalysis,
+          onetEnriched: false,
+          onetStatus: provider.name === "files" ? "data_error" : "api_error",
+        }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
     if (!occupation) {
-      console.log(`No O*NET match for "${jobTitle}" after all fallbacks`);
+      console.log(`No O*NET match for "${jobTitle}"`);
       return new Response(
         JSON.stringify({ ...existingAnalysis, onetEnriched: false, onetStatus: "no_match", searchedTitle: jobTitle }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const { code: socCode, title: occupationTitle, searchedAs } = occupation;
-    console.log(`Matched: ${socCode} — ${occupationTitle} (searched as: "${searchedAs}")`);
-
-    // Step 2: Fetch occupational detail in parallel.
-    // Probe the occupation overview first to discover available sub-resources.
-    let workValuesData: OnetElement[] = [];
-    let workStylesData: OnetElement[] = [];
-    let interestsData: OnetElement[] = [];
-    let knowledgeData: OnetElement[] = [];
+    const { code: socCode, title: occupationTitle, matchedTitle, score: matchScore } = occupation;
+    console.log(`Matched: ${socCode} — ${occupationTitle} (via "${matchedTitle}", score ${matchScore.toFixed(2)})`);
 
-    // Probe the occupation root to discover v2 detail paths
-    try {
-      const probeResp = await fetch(
-        `https://api-v2.onetcenter.org/online/occupations/${socCode}/`,
-        { headers: { "X-API-Key": apiKey, Accept: "application/json" } }
-      );
-      const probeText = await probeResp.text();
-      console.log(`O*NET occupation probe (${probeResp.status}): ${probeText.slice(0, 800)}`);
-    } catch (e) {
-      console.log(`O*NET occupation probe failed: ${e}`);
-    }
-
-    // Fetch details — each is independently optional; failures are logged but don't abort
-    const detailPaths: [string, (d: OnetElement[]) => void][] = [
-      [`/occupations/${socCode}/work_values`, (d) => { workValuesData = d; }],
-      [`/occupations/${socCode}/work_styles`, (d) => { workStylesData = d; }],
-      [`/occupations/${socCode}/interests`,   (d) => { interestsData = d; }],
-      [`/occupations/${socCode}/knowledge`,   (d) => { knowledgeData = d; }],
-    ];
-
-    await Promise.all(
-      detailPaths.map(async ([path, setter]) => {
-        try {
-          setter(await fetchOnet(path, apiKey));
-        } catch (err) {
-          console.warn(`O*NET detail failed for ${path}:`, String(err).slice(0, 200));
-        }
-      })
-    );
+    // Step 2: Fetch occupational detail
+    const {
+      workValues: workValuesData,
+      workStyles: workStylesData,
+      interests: interestsData,
+      knowledge: knowledgeData,
+    } = await provider.getDetails(socCode);
 
     // Step 3: Accumulate Schwartz signals
     const onetSignals: Record<string, number[]> = {};
@@ -546,7 +387,7 @@ serve(async (req) => {
       .slice(0, 5)
       .map(e => e.name);
 
-    const interestProfile = interestsData
+    const interestProfile = [...interestsData]
       .sort((a, b) => (b.score?.value ?? 0) - (a.score?.value ?? 0))
       .slice(0, 3)
       .map(e => e.name);
@@ -576,7 +417,7 @@ serve(async (req) => {
     console.log(`Enrichment complete for ${socCode}. isProfession=${isProfession}`);
 
     return new Response(
-      JSON.stringify(enriched),
+      JSON.stringify({ ...enriched, onetProvider: provider.name, matchedTitle, matchScore }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
@@ -0,0 +1,316 @@
+import { OccupationMatch, OccupationTitle, matchOccupation, titleSimilarity } from "./title-matcher.ts";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface OnetElement {
+  name: string;
+  /** Importance on a 0–100 scale */
+  score?: { value: number };
+}
+
+export interface OnetOccupationDetails {
+  workValues: OnetElement[];
+  workStyles: OnetElement[];
+  interests: OnetElement[];
+  knowledge: OnetElement[];
+}
+
+/**
+ * Where occupational data comes from. Both implementations return the same
+ * shapes, with element importance normalised to 0–100, so the Schwartz
+ * mapping downstream doesn't care which one is in use.
+ */
+export interface OnetProvider {
+  name: "api" | "files";
+  /** Best matching occupation for a free-text job title, or null */
+  findOccupation(jobTitle: string): Promise<OccupationMatch | null>;
+  /** Detail lists for an O*NET-SOC code; any list may be empty */
+  getDetails(socCode: string): Promise<OnetOccupationDetails>;
+}
+
+// ---------------------------------------------------------------------------
+// Live O*NET Web Services API
+// ---------------------------------------------------------------------------
+
+const ONET_API_BASE = "https://api-v2.onetcenter.org/online";
+const SEARCH_RESULT_COUNT = 10;
+
+/**
+ * Strip seniority/level prefixes that O*NET titles don't use.
+ * "Senior Architect" → "Architect", "Lead Software Engineer" → "Software Engineer"
+ */
+function normalizeJobTitle(title: string): string {
+  const prefixes = [
+    "senior", "junior", "lead", "principal", "staff", "associate",
+    "head of", "director of", "vp of", "chief", "founding",
+    "mid-level", "mid level", "entry-level", "entry level",
+  ];
+  let normalized = title.trim().toLowerCase();
+  for (const prefix of prefixes) {
+    if (normalized.startsWith(prefix + " ")) {
+      normalized = normalized.slice(prefix.length + 1).trim();
+    }
+  }
+  // Restore original casing by capitalising first letter of each word
+  return normalized.replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+export function createApiProvider(apiKey: string): OnetProvider {
+  const headers = { "X-API-Key": apiKey, Accept: "application/json" };
+
+  async function fetchElements(path: string): Promise<OnetElement[]> {
+    // Detail endpoints follow /online/occupations/{code}/{data-type}/ pattern
+    const response = await fetch(`${ONET_API_BASE}${path}`, { headers });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`O*NET API error: ${response.status} on ${path} — ${body.slice(0, 200)}`);
+    }
+
+    const data = await response.json();
+
+    // Try common wrapper keys used across v2 endpoints.
+    const candidates = [
+      data.element,
+      data.occupation,
+      data.category,
+      data.interest,
+      data.work_value,
+      data.work_style,
+      data.knowledge,
+    ];
+
+    for (const candidate of candidates) {
+      if (Array.isArray(candidate)) return candidate as OnetElement[];
+    }
+
+    return [];
+  }
+
+  async function search(keyword: string): Promise<OccupationTitle[]> {
+    // Confirmed from official v2 samples: https://github.com/onetcenter/web-services-v2-samples
+    const url = `${ONET_API_BASE}/search?keyword=${encodeURIComponent(keyword)}&end=${SEARCH_RESULT_COUNT}`;
+    const response = await fetch(url, { headers });
+    const rawText = await response.text();
+
+    if (!response.ok) {
+      throw new Error(`O*NET search error: ${response.status} for keyword "${keyword}"`);
+    }
+
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(rawText);
+    } catch {
+      throw new Error(`O*NET non-JSON response for "${keyword}": ${rawText.slice(0, 100)}`);
+    }
+
+    return (
+      (data.occupation as OccupationTitle[]) ??
+      (data.occupations as OccupationTitle[]) ??
+      []
+    ).map(({ code, title }) => ({ code, title }));
+  }
+
+  return {
+    name: "api",
+
+    async findOccupation(jobTitle) {
+      const keywords = [jobTitle];
+      const normalized = normalizeJobTitle(jobTitle);
+      if (normalized.toLowerCase() !== jobTitle.toLowerCase()) keywords.push(normalized);
+
+      const results = await Promise.all(keywords.map(search));
+      const candidates = [...new Map(results.flat().map(o => [o.code, o])).values()];
+      if (candidates.length === 0) return null;
+
+      // O*NET's own search already knows alternate titles ("Attorney" finds
+      // "Lawyers"), so when no official title is textually close its top
+      // ranked result is still the best guess.
+      const match = matchOccupation(jobTitle, candidates);
+      if (match) return match;
+
+      const [top] = candidates;
+      return { ...top, matchedTitle: top.title, score: titleSimilarity(jobTitle, top.title) };
+    },
+
+    async getDetails(socCode) {
+      const details: OnetOccupationDetails = { workValues: [], workStyles: [], interests: [], knowledge: [] };
+      const detailPaths: [keyof OnetOccupationDetails, string][] = [
+        ["workValues", "work_values"],
+        ["workStyles", "work_styles"],
+        ["interests", "interests"],
+        ["knowledge", "knowledge"],
+      ];
+
+      // Each is independently optional; failures are logged but don't abort
+      await Promise.all(
+        detailPaths.map(async ([key, dataType]) => {
+          const path = `/occupations/${socCode}/${dataType}`;
+          try {
+            details[key] = await fetchElements(path);
+          } catch (err) {
+            console.warn(`O*NET detail failed for ${path}:`, String(err).slice(0, 200));
+          }
+        })
+      );
+
+      return details;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Downloaded O*NET database (text files)
+// ---------------------------------------------------------------------------
+
+// Files from the "Text" download at onetcenter.org/database.html, tab-delimited
+// with a header row. Only Occupation Data is required.
+const OCCUPATION_DATA_FILE = "Occupation Data.txt";
+const ALTERNATE_TITLES_FILE = "Alternate Titles.txt";
+
+// File → the rating scale to read and its range, so values normalise to 0–100
+const DETAIL_FILES: Record<keyof OnetOccupationDetails, { file: string; scaleId: string; min: number; max: number }> = {
+  workValues: { file: "Work Values.txt", scaleId: "EX", min: 1, max: 7 },
+  workStyles: { file: "Work Styles.txt", scaleId: "IM", min: 1, max: 5 },
+  interests:  { file: "Interests.txt",   scaleId: "OI", min: 1, max: 7 },
+  knowledge:  { file: "Knowledge.txt",   scaleId: "IM", min: 1, max: 5 },
+};
+
+interface OnetDatabase {
+  occupations: OccupationTitle[];
+  details: Map<string, OnetOccupationDetails>;
+}
+
+type Row = Record<string, string>;
+
+function parseTabDelimited(text: string): Row[] {
+  const [headerLine, ...lines] = text.split(/\r?\n/);
+  const headers = headerLine.split("\t").map(h => h.trim());
+
+  return lines
+    .filter(line => line.trim().length > 0)
+    .map(line => {
+      const cells = line.split("\t");
+      const row: Row = {};
+      headers.forEach((header, i) => {
+        row[header] = (cells[i] ?? "").trim();
+      });
+      return row;
+    });
+}
+
+async function readRows(dataDir: string, file: string, required: boolean): Promise<Row[]> {
+  try {
+    return parseTabDelimited(await Deno.readTextFile(`${dataDir}/${file}`));
+  } catch (err) {
+    if (!required && err instanceof Deno.errors.NotFound) {
+      console.warn(`O*NET data file not found, skipping: ${file}`);
+      return [];
+    }
+    throw new Error(`Unable to read O*NET data file "${file}" from ${dataDir}: ${err}`);
+  }
+}
+
+async function loadDatabase(dataDir: string): Promise<OnetDatabase> {
+  const [occupationRows, alternateRows] = await Promise.all([
+    readRows(dataDir, OCCUPATION_DATA_FILE, true),
+    readRows(dataDir, ALTERNATE_TITLES_FILE, false),
+  ]);
+
+  const alternateTitles = new Map<string, string[]>();
+  for (const row of alternateRows) {
+    const code = row["O*NET-SOC Code"];
+    const titles = alternateTitles.get(code) ?? [];
+    titles.push(row["Alternate Title"]);
+    if (row["Short Title"] && row["Short Title"] !== "n/a") titles.push(row["Short Title"]);
+    alternateTitles.set(code, titles);
+  }
+
+  const occupations = occupationRows.map(row => ({
+    code: row["O*NET-SOC Code"],
+    title: row["Title"],
+    alternateTitles: alternateTitles.get(row["O*NET-SOC Code"]) ?? [],
+  }));
+
+  const details = new Map<string, OnetOccupationDetails>();
+  const detailFor = (code: string) => {
+    let entry = details.get(code);
+    if (!entry) {
+      entry = { workValues: [], workStyles: [], interests: [], knowledge: [] };
+      details.set(code, entry);
+    }
+    return entry;
+  };
+
+  const keys = Object.keys(DETAIL_FILES) as (keyof OnetOccupationDetails)[];
+  const detailRows = await Promise.all(keys.map(key => readRows(dataDir, DETAIL_FILES[key].file, false)));
+
+  keys.forEach((key, i) => {
+    const { scaleId, min, max } = DETAIL_FILES[key];
+    for (const row of detailRows[i]) {
+      if (row["Scale ID"] !== scaleId) continue;
+      // Estimates O*NET flags as unreliable, and knowledge areas rated not relevant
+      if (row["Recommend Suppress"] === "Y" || row["Not Relevant"] === "Y") continue;
+
+      const raw = parseFloat(row["Data Value"]);
+      if (isNaN(raw)) continue;
+      const value = Math.round(Math.max(0, Math.min(100, ((raw - min) / (max - min)) * 100)));
+      detailFor(row["O*NET-SOC Code"])[key].push({ name: row["Element Name"], score: { value } });
+    }
+  });
+
+  console.log(`Loaded O*NET database from ${dataDir}: ${occupations.length} occupations`);
+  return { occupations, details };
+}
+
+// Parsed once per function instance; a failed load is retried on the next request
+const databaseCache = new Map<string, Promise<OnetDatabase>>();
+
+function getDatabase(dataDir: string): Promise<OnetDatabase> {
+  let database = databaseCache.get(dataDir);
+  if (!database) {
+    database = loadDatabase(dataDir);
+    databaseCache.set(dataDir, database);
+    database.catch(() => databaseCache.delete(dataDir));
+  }
+  return database;
+}
+
+export function createFileProvider(dataDir: string): OnetProvider {
+  return {
+    name: "files",
+
+    async findOccupation(jobTitle) {
+      const { occupations } = await getDatabase(dataDir);
+      return matchOccupation(jobTitle, occupations);
+    },
+
+    async getDetails(socCode) {
+      const { details } = await getDatabase(dataDir);
+      return details.get(socCode) ?? { workValues: [], workStyles: [], interests: [], knowledge: [] };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Provider selection
+// ---------------------------------------------------------------------------
+
+/**
+ * Pick a provider from the environment. ONET_PROVIDER ("api" | "files")
+ * forces one; otherwise downloaded files in ONET_DATA_DIR win over the live
+ * API, so sandboxes and reproducible runs need no credentials. Returns null
+ * when the chosen provider isn't configured.
+ */
+export function createOnetProvider(): OnetProvider | null {
+  const apiKey = Deno.env.get("ONET_API_KEY");
+  const dataDir = Deno.env.get("ONET_DATA_DIR");
+  const preferred = Deno.env.get("ONET_PROVIDER") ?? (dataDir ? "files" : "api");
+
+  if (preferred === "files") {
+    return dataDir ? createFileProvider(dataDir) : null;
+  }
+  return apiKey ? createApiProvider(apiKey) : null;
+}
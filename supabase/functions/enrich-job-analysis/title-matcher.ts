@@ -0,0 +1,109 @@
+// ---------------------------------------------------------------------------
+// Fuzzy job title → O*NET occupation matching
+// ---------------------------------------------------------------------------
+
+export interface OccupationTitle {
+  code: string;
+  /** The occupation's official title */
+  title: string;
+  /** Alternate or lay titles that also refer to it */
+  alternateTitles?: string[];
+}
+
+export interface OccupationMatch {
+  code: string;
+  title: string;
+  /** The official or alternate title that matched best */
+  matchedTitle: string;
+  /** 0–1 similarity between the searched title and matchedTitle */
+  score: number;
+}
+
+/** Matches below this similarity are treated as no match */
+export const MIN_MATCH_SCORE = 0.45;
+
+// Seniority and level words that O*NET titles don't use
+const LEVEL_WORDS = new Set([
+  "senior", "sr", "junior", "jr", "lead", "principal", "staff", "associate",
+  "head", "director", "vp", "chief", "founding", "mid", "level", "entry",
+  "i", "ii", "iii", "iv",
+]);
+
+const STOP_WORDS = new Set(["of", "and", "the", "for", "in", "a", "an", "to", "with"]);
+
+/** Lowercase, strip punctuation and crude plural endings */
+function tokenize(title: string): string[] {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(w => w.length > 0 && !STOP_WORDS.has(w))
+    .map(w => (w.length > 4 && w.endsWith("s") && !w.endsWith("ss") ? w.slice(0, -1) : w));
+}
+
+/** Tokens with seniority words removed, unless that would leave nothing */
+function coreTokens(title: string): string[] {
+  const tokens = tokenize(title);
+  const core = tokens.filter(w => !LEVEL_WORDS.has(w));
+  return core.length > 0 ? core : tokens;
+}
+
+function trigrams(text: string): Set<string> {
+  const padded = `  ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+function dice<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let overlap = 0;
+  for (const item of a) {
+    if (b.has(item)) overlap++;
+  }
+  return (2 * overlap) / (a.size + b.size);
+}
+
+/**
+ * Similarity of two titles (0–1): word overlap, character trigrams to
+ * tolerate spelling variants, and a bonus when the head noun (last word,
+ * e.g. "engineer") agrees, since that carries most of an occupation's meaning.
+ */
+export function titleSimilarity(searched: string, candidate: string): number {
+  const a = coreTokens(searched);
+  const b = coreTokens(candidate);
+  if (a.length === 0 || b.length === 0) return 0;
+  if (a.join(" ") === b.join(" ")) return 1;
+
+  const wordScore = dice(new Set(a), new Set(b));
+  const charScore = dice(trigrams(a.join(" ")), trigrams(b.join(" ")));
+  const headBonus = a[a.length - 1] === b[b.length - 1] ? 0.15 : 0;
+
+  return Math.min(1, 0.55 * wordScore + 0.3 * charScore + headBonus);
+}
+
+/**
+ * Best matching occupation for a job title across official and alternate
+ * titles, or null when nothing reaches MIN_MATCH_SCORE. Ties favour the
+ * official title.
+ */
+export function matchOccupation(
+  jobTitle: string,
+  occupations: OccupationTitle[],
+  minScore: number = MIN_MATCH_SCORE,
+): OccupationMatch | null {
+  let best: OccupationMatch | null = null;
+
+  for (const occupation of occupations) {
+    for (const candidate of [occupation.title, ...(occupation.alternateTitles ?? [])]) {
+      const score = titleSimilarity(jobTitle, candidate);
+      if (!best || score > best.score) {
+        best = { code: occupation.code, title: occupation.title, matchedTitle: candidate, score };
+      }
+    }
+  }
+
+  return best && best.score >= minScore ? best : null;
+}
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { getLlmProvider, llmErrorResponse } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -50,54 +51,29 @@ serve(async (req) => {
 
     const { prompt, archetypeName } = validationResult.data;
 
-    const apiKey = Deno.env.get('LOVABLE_API_KEY');
-    if (!apiKey) {
+    const llm = getLlmProvider('image');
+    if (!llm.generateImage) {
       return new Response(
-        JSON.stringify({ error: 'API key not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: `Image generation is not supported by the ${llm.name} provider` }),
+        { status: 501, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log(`Generating image for archetype: ${archetypeName}`);
+    console.log(`Generating image for archetype: ${archetypeName} (${llm.name})`);
     console.log(`Prompt length: ${prompt.length} characters`);
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash-image-preview',
-        messages: [
-          {
-            role: 'user',
-            content: `Generate an artistic portrait illustration: ${prompt}. Style: painterly, artistic, professional portrait, suitable for a profile card. Do not include any text or words in the image.`
-          }
-        ],
-        modalities: ['image', 'text']
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI Gateway error:', errorText);
-      return new Response(
-        JSON.stringify({ error: 'Failed to generate image' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    let imageUrl: string;
+    try {
+      imageUrl = await llm.generateImage(
+        `Generate an artistic portrait illustration: ${prompt}. Style: painterly, artistic, professional portrait, suitable for a profile card. Do not include any text or words in the image.`
       );
-    }
-
-    const data = await response.json();
-    console.log('AI Gateway response received');
+    } catch (error) {
+      const providerResponse = llmErrorResponse(error, corsHeaders);
+      if (providerResponse) return providerResponse;
 
-    // Extract the image URL from the response
-    const imageUrl = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
-
-    if (!imageUrl) {
-      console.error('No image in response');
+      console.error('Image provider error:', error);
       return new Response(
-        JSON.stringify({ error: 'No image generated' }),
+        JSON.stringify({ error: 'Failed to generate image' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { MockReply, getLlmProvider, llmErrorResponse, stripCodeFence } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,6 +14,21 @@ interface StressorData {
   lowPolarityValues: Array<{ code: string; label: string; polarity: number }>;
 }
 
+// Mock provider reply: one placeholder scenario per requested stressor
+function mockScenarios(stressors: StressorData[]): MockReply {
+  return () => JSON.stringify({
+    scenarios: stressors.map(s => ({
+      stressorId: s.stressorId,
+      stressorName: s.stressorName,
+      setup: `Imagine ${s.stressorName.toLowerCase()} rises for the person in this role. Would you prefer them to...`,
+      optionA: "Lean into it",
+      optionB: "Push back against it",
+      interpretationA: `This suggests the role values ${s.highPolarityValues.map(v => v.label).join(", ") || "nothing in particular"}`,
+      interpretationB: `This suggests the role values ${s.lowPolarityValues.map(v => v.label).join(", ") || "nothing in particular"}`,
+    })),
+  });
+}
+
 interface RequestBody {
   jobDescription: string;
   jobTitle?: string;
@@ -41,10 +57,7 @@ serve(async (req) => {
       );
     }
 
-    const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-    if (!OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY is not configured");
-    }
+    const llm = getLlmProvider("chat", mockScenarios(stressors));
 
     // Build stressor descriptions for the prompt
     const stressorPrompts = stressors.map(c => {
@@ -114,64 +127,25 @@ Return JSON in this exact format:
 
     console.log("Generating clarification scenarios for", stressors.length, "stressors");
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        temperature: 0.7,
-        max_tokens: 2000,
-      }),
+    const content = await llm.complete({
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      temperature: 0.7,
+      maxTokens: 2000,
     });
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits exhausted. Please add funds." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const text = await response.text();
-      console.error("OpenAI API error:", response.status, text);
-      throw new Error("OpenAI API error");
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
     if (!content) {
-      throw new Error("No content in OpenAI response");
+      throw new Error("No content in model response");
     }
 
-    // Parse the JSON response
+    // Parse the JSON response, handling potential markdown code blocks
     let parsedContent;
     try {
-      // Handle potential markdown code blocks
-      let jsonStr = content.trim();
-      if (jsonStr.startsWith("```json")) {
-        jsonStr = jsonStr.slice(7);
-      } else if (jsonStr.startsWith("```")) {
-        jsonStr = jsonStr.slice(3);
-      }
-      if (jsonStr.endsWith("```")) {
-        jsonStr = jsonStr.slice(0, -3);
-      }
-      parsedContent = JSON.parse(jsonStr.trim());
+      parsedContent = JSON.parse(stripCodeFence(content));
     } catch (parseError) {
-      console.error("Failed to parse OpenAI response:", content);
+      console.error("Failed to parse model response:", content);
       throw new Error("Failed to parse scenario response");
     }
 
@@ -180,6 +154,9 @@ Return JSON in this exact format:
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
+    const providerResponse = llmErrorResponse(error, corsHeaders);
+    if (providerResponse) return providerResponse;
+
     console.error("generate-clarification-scenarios error:", error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
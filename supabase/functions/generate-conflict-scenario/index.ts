@@ -1,4 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  MAX_RESUME_LENGTH,
+  getLlmProvider,
+  isValidResumeFrom,
+  llmErrorResponse,
+  withResume,
+} from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -17,7 +24,12 @@ serve(async (req) => {
   }
 
   try {
-    const { archetypes, stressors } = await req.json() as { archetypes: ArchetypeData[], stressors?: string[] };
+    const { archetypes, stressors, stressorConditions, resumeFrom } = await req.json() as {
+      archetypes: ArchetypeData[];
+      stressors?: string[];
+      stressorConditions?: string[];
+      resumeFrom?: string;
+    };
     
     if (!archetypes || archetypes.length < 2) {
       return new Response(
@@ -26,11 +38,15 @@ serve(async (req) => {
       );
     }
 
-    const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-    if (!OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY is not configured");
+    if (!isValidResumeFrom(resumeFrom)) {
+      return new Response(
+        JSON.stringify({ error: `resumeFrom must be a string of at most ${MAX_RESUME_LENGTH} characters` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
+    const llm = getLlmProvider();
+
     // Build archetype summaries with value tensions
     const archetypesSummary = archetypes.map(a => {
       const highValues = Object.entries(a.valueProfile)
@@ -66,11 +82,14 @@ Write in plain prose — do not use markdown formatting (bold, italics, headers)
     const stressorsLine = stressors && stressors.length > 0
       ? `\nThese stressors have been identified as the strongest sources of tension between the characters: ${stressors.join(', ')}. Ground the conflict in one or more of these specific pressures — make them feel like the real stakes.\n`
       : '';
+    const conditionsLine = stressorConditions && stressorConditions.length > 0
+      ? `The situation should have these conditions, which set how hard each pressure bites:\n${stressorConditions.map(c => `- ${c}`).join('\n')}\n`
+      : '';
 
     const userPrompt = `Given these characters and their value profiles:
 
 ${archetypesSummary}
-${stressorsLine}
+${stressorsLine}${conditionsLine}
 Create a compelling conflict scenario:
 
 1. SCENARIO (2-3 sentences): Describe a specific, realistic situation where these characters' values would naturally clash. Be concrete about the setting and stakes.
@@ -88,44 +107,21 @@ Make the conflict feel real and the characters feel alive.`;
 
     console.log("Generating conflict scenario for:", archetypes.map(a => a.name).join(", "));
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        stream: true,
-      }),
+    // resumeFrom carries a partial reply when the client reconnects after a dropped stream
+    const stream = await llm.stream({
+      messages: withResume([
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ], resumeFrom),
     });
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits exhausted. Please add funds." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const text = await response.text();
-      console.error("AI gateway error:", response.status, text);
-      throw new Error("AI gateway error");
-    }
-
-    return new Response(response.body, {
+    return new Response(stream, {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error) {
+    const providerResponse = llmErrorResponse(error, corsHeaders);
+    if (providerResponse) return providerResponse;
+
     console.error("generate-conflict-scenario error:", error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
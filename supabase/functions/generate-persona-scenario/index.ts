@@ -1,4 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  MAX_RESUME_LENGTH,
+  getLlmProvider,
+  isValidResumeFrom,
+  llmErrorResponse,
+  withResume,
+} from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -15,6 +22,7 @@ interface StressorData {
   id: string;
   name: string;
   description: string;
+  conditions?: string;
 }
 
 interface TensionData {
@@ -30,10 +38,11 @@ serve(async (req) => {
   }
 
   try {
-    const { personas, stressors, tensions } = await req.json() as { 
+    const { personas, stressors, tensions, resumeFrom } = await req.json() as { 
       personas: PersonaData[]; 
       stressors: StressorData[];
       tensions: TensionData[];
+      resumeFrom?: string;
     };
     
     if (!personas || personas.length !== 2) {
@@ -50,11 +59,15 @@ serve(async (req) => {
       );
     }
 
-    const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-    if (!OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY is not configured");
+    if (!isValidResumeFrom(resumeFrom)) {
+      return new Response(
+        JSON.stringify({ error: `resumeFrom must be a string of at most ${MAX_RESUME_LENGTH} characters` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
+    const llm = getLlmProvider();
+
     // Build persona summaries
     const personaSummaries = personas.map(p => {
       const highValues = Object.entries(p.valueProfile)
@@ -71,7 +84,12 @@ serve(async (req) => {
 - Avoided/opposed: ${lowValues || 'none strongly opposed'}`;
     }).join('\n\n');
 
-    const stressorList = stressors.map(c => `- **${c.name}**: ${c.description}`).join('\n');
+    const stressorList = stressors
+      .map(c => `- **${c.name}**: ${c.description}${c.conditions ? ` Conditions: ${c.conditions}.` : ''}`)
+      .join('\n');
+    const conditionsLine = stressors.some(c => c.conditions)
+      ? '\nWhere a stressor lists conditions, build the situation around them — they set how hard that pressure bites.\n'
+      : '';
     
     const tensionList = tensions.map(t => 
       `- ${t.valueA} vs ${t.valueB} (via ${t.stressor}): ${t.explanation}`
@@ -97,7 +115,7 @@ ${personaSummaries}
 
 And these environmental conditions/stressors that will shape their interaction:
 ${stressorList}
-
+${conditionsLine}
 Key value tensions that will emerge:
 ${tensionList}
 
@@ -120,44 +138,21 @@ Make each perspective genuinely reflect that persona's value system. Show how th
     console.log("Generating persona scenario for:", personas.map(p => p.name).join(" vs "));
     console.log("Stressors:", stressors.map(c => c.name).join(", "));
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        stream: true,
-      }),
+    // resumeFrom carries a partial reply when the client reconnects after a dropped stream
+    const stream = await llm.stream({
+      messages: withResume([
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ], resumeFrom),
     });
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits exhausted. Please add funds." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const text = await response.text();
-      console.error("AI gateway error:", response.status, text);
-      throw new Error("AI gateway error");
-    }
-
-    return new Response(response.body, {
+    return new Response(stream, {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error) {
+    const providerResponse = llmErrorResponse(error, corsHeaders);
+    if (providerResponse) return providerResponse;
+
     console.error("generate-persona-scenario error:", error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
@@ -0,0 +1,5 @@
+-- Per-profile scoring mode: 'raw' compares scores against the 3.5 midpoint,
+-- 'centred' compares them against the profile's own mean (ipsative)
+ALTER TABLE public.profiles
+ADD COLUMN score_mode TEXT NOT NULL DEFAULT 'raw'
+CHECK (score_mode IN ('raw', 'centred'));
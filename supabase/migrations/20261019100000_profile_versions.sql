@@ -0,0 +1,66 @@
+-- Snapshot history for profiles: every insert or update of a profile
+-- records the resulting state so earlier scores can be compared and restored
+CREATE TABLE public.profile_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  scores JSONB NOT NULL,
+  description TEXT,
+  system_prompt TEXT,
+  score_mode TEXT NOT NULL DEFAULT 'raw',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (profile_id, version_number)
+);
+
+CREATE INDEX profile_versions_profile_id_idx ON public.profile_versions (profile_id, version_number DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.profile_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are readable wherever the profile is (for sharing)
+CREATE POLICY "Profile versions are publicly readable"
+ON public.profile_versions
+FOR SELECT
+USING (true);
+
+-- No insert/update/delete policies: versions are written only by the trigger below
+
+-- Create function to snapshot a profile row
+CREATE OR REPLACE FUNCTION public.snapshot_profile_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Skip updates that didn't change any versioned field
+  IF TG_OP = 'UPDATE'
+    AND NEW.name IS NOT DISTINCT FROM OLD.name
+    AND NEW.scores IS NOT DISTINCT FROM OLD.scores
+    AND NEW.description IS NOT DISTINCT FROM OLD.description
+    AND NEW.system_prompt IS NOT DISTINCT FROM OLD.system_prompt
+    AND NEW.score_mode IS NOT DISTINCT FROM OLD.score_mode THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.profile_versions (profile_id, version_number, name, scores, description, system_prompt, score_mode)
+  VALUES (
+    NEW.id,
+    COALESCE((SELECT MAX(version_number) FROM public.profile_versions WHERE profile_id = NEW.id), 0) + 1,
+    NEW.name,
+    NEW.scores,
+    NEW.description,
+    NEW.system_prompt,
+    NEW.score_mode
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create trigger for automatic snapshots
+CREATE TRIGGER snapshot_profile_version
+AFTER INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.snapshot_profile_version();
+
+-- Backfill a first version for existing profiles
+INSERT INTO public.profile_versions (profile_id, version_number, name, scores, description, system_prompt, score_mode, created_at)
+SELECT id, 1, name, scores, description, system_prompt, score_mode, updated_at
+FROM public.profiles;
@@ -0,0 +1,46 @@
+-- Profile ownership: a profile is editable only by its owner (Supabase auth)
+-- or by whoever holds its secret edit token. Everyone else can read and fork.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.profiles
+ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN edit_token_hash TEXT;
+
+-- Hex SHA-256 of the edit token sent in the x-edit-token request header
+CREATE OR REPLACE FUNCTION public.request_edit_token_hash()
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN COALESCE(current_setting('request.headers', true)::json->>'x-edit-token', '') = '' THEN NULL
+    ELSE encode(extensions.digest(current_setting('request.headers', true)::json->>'x-edit-token', 'sha256'), 'hex')
+  END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_edit_profile(profile_owner_id UUID, profile_edit_token_hash TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT (profile_owner_id IS NOT NULL AND profile_owner_id = auth.uid())
+    OR (profile_edit_token_hash IS NOT NULL AND profile_edit_token_hash = public.request_edit_token_hash());
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Replace the world-writable policies
+DROP POLICY "Anyone can create profiles" ON public.profiles;
+DROP POLICY "Anyone can update profiles" ON public.profiles;
+DROP POLICY "Anyone can delete profiles" ON public.profiles;
+
+-- Anyone can create profiles, but only claim ownership for themselves
+CREATE POLICY "Anyone can create their own profiles"
+ON public.profiles
+FOR INSERT
+WITH CHECK (owner_id IS NULL OR owner_id = auth.uid());
+
+-- Only the owner or edit-token holder can update
+CREATE POLICY "Owners can update profiles"
+ON public.profiles
+FOR UPDATE
+USING (public.can_edit_profile(owner_id, edit_token_hash))
+WITH CHECK (public.can_edit_profile(owner_id, edit_token_hash));
+
+-- Only the owner or edit-token holder can delete
+CREATE POLICY "Owners can delete profiles"
+ON public.profiles
+FOR DELETE
+USING (public.can_edit_profile(owner_id, edit_token_hash));
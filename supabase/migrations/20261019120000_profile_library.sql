@@ -0,0 +1,59 @@
+-- Profile library: tags and collections for organising profiles, plus
+-- denormalised facets so Landing can filter and paginate on the server.
+-- dominant_higher_order and nearest_archetype are derived from the scores by
+-- the client on every save (see deriveProfileFacets in profile-storage.ts).
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.profiles
+ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN collection TEXT,
+ADD COLUMN dominant_higher_order TEXT
+  CHECK (dominant_higher_order IN ('openness', 'self-enhancement', 'conservation', 'self-transcendence')),
+ADD COLUMN nearest_archetype TEXT;
+
+CREATE INDEX idx_profiles_tags ON public.profiles USING GIN (tags);
+CREATE INDEX idx_profiles_collection ON public.profiles (collection);
+CREATE INDEX idx_profiles_dominant_higher_order ON public.profiles (dominant_higher_order);
+CREATE INDEX idx_profiles_nearest_archetype ON public.profiles (nearest_archetype);
+CREATE INDEX idx_profiles_name_trgm ON public.profiles USING GIN (name extensions.gin_trgm_ops);
+
+-- Backfill the dominant higher-order value for existing profiles, without
+-- bumping updated_at. The nearest archetype is backfilled once the custom
+-- archetypes exist (see 20261019210000_profile_nearest_archetype_backfill.sql).
+ALTER TABLE public.profiles DISABLE TRIGGER update_profiles_updated_at;
+
+UPDATE public.profiles p
+SET dominant_higher_order = (
+  SELECT g.higher_order
+  FROM (
+    SELECT
+      CASE
+        WHEN s.key IN ('SDT', 'SDA', 'STI', 'HED') THEN 'openness'
+        WHEN s.key IN ('ACM', 'POD', 'POR', 'FAC') THEN 'self-enhancement'
+        WHEN s.key IN ('SEO', 'SES', 'TRD', 'COR', 'COI', 'HUM') THEN 'conservation'
+        WHEN s.key IN ('BEC', 'BED', 'UNC', 'UNN', 'UNT') THEN 'self-transcendence'
+      END AS higher_order,
+      AVG(s.value::numeric) AS mean_score
+    FROM jsonb_each_text(p.scores) s
+    GROUP BY 1
+  ) g
+  WHERE g.higher_order IS NOT NULL
+  ORDER BY g.mean_score DESC
+  LIMIT 1
+);
+
+ALTER TABLE public.profiles ENABLE TRIGGER update_profiles_updated_at;
+
+-- Distinct tags and collections with profile counts, for the library filters
+CREATE OR REPLACE FUNCTION public.profile_library_facets()
+RETURNS TABLE (kind TEXT, value TEXT, profile_count BIGINT) AS $$
+  SELECT 'tag', t.tag, COUNT(*)
+  FROM public.profiles, unnest(tags) AS t(tag)
+  GROUP BY t.tag
+  UNION ALL
+  SELECT 'collection', collection, COUNT(*)
+  FROM public.profiles
+  WHERE collection IS NOT NULL
+  GROUP BY collection
+  ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,43 @@
+-- User-defined archetypes, e.g. cluster centroids saved from the clustering
+-- page. Ownership follows the same owner/edit-token model as profiles.
+CREATE TABLE public.custom_archetypes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  image_prompt TEXT NOT NULL DEFAULT '',
+  -- Value code → weight from -3 (actively opposed) to 3 (defining)
+  value_profile JSONB NOT NULL DEFAULT '{}'::jsonb,
+  category TEXT NOT NULL DEFAULT 'custom',
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  edit_token_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.custom_archetypes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view custom archetypes"
+ON public.custom_archetypes
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can create their own custom archetypes"
+ON public.custom_archetypes
+FOR INSERT
+WITH CHECK (owner_id IS NULL OR owner_id = auth.uid());
+
+CREATE POLICY "Owners can update custom archetypes"
+ON public.custom_archetypes
+FOR UPDATE
+USING (public.can_edit_profile(owner_id, edit_token_hash))
+WITH CHECK (public.can_edit_profile(owner_id, edit_token_hash));
+
+CREATE POLICY "Owners can delete custom archetypes"
+ON public.custom_archetypes
+FOR DELETE
+USING (public.can_edit_profile(owner_id, edit_token_hash));
+
+CREATE TRIGGER update_custom_archetypes_updated_at
+BEFORE UPDATE ON public.custom_archetypes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,8 @@
+-- Archetypes are referenced by name across the app, so custom archetype
+-- names must be unique (case-insensitively) and non-blank.
+ALTER TABLE public.custom_archetypes
+ADD CONSTRAINT custom_archetypes_name_length
+CHECK (char_length(btrim(name)) BETWEEN 1 AND 100);
+
+CREATE UNIQUE INDEX custom_archetypes_name_key
+ON public.custom_archetypes (lower(btrim(name)));
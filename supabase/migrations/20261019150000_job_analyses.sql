@@ -0,0 +1,55 @@
+-- Saved job description analyses. Ownership follows the same owner/edit-token
+-- model as profiles.
+CREATE TABLE public.job_analyses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_description TEXT NOT NULL,
+  -- Lets the client find an earlier analysis of the same text without re-running it.
+  -- The client trims descriptions before saving and before hashing a lookup.
+  description_hash TEXT GENERATED ALWAYS AS (encode(extensions.digest(job_description, 'sha256'), 'hex')) STORED,
+  detected_job_title TEXT,
+  scores JSONB NOT NULL,
+  -- Value code → high | medium | occupational | professional | unspecified
+  confidence JSONB NOT NULL DEFAULT '{}'::jsonb,
+  rationales JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Value code → job_description | onet | merged
+  sources JSONB NOT NULL DEFAULT '{}'::jsonb,
+  occupational_context JSONB,
+  onet_enriched BOOLEAN NOT NULL DEFAULT false,
+  -- Answers to clarification scenarios that have been applied to the scores
+  clarification_responses JSONB NOT NULL DEFAULT '[]'::jsonb,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  edit_token_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX job_analyses_description_hash_idx ON public.job_analyses (description_hash);
+CREATE INDEX job_analyses_updated_at_idx ON public.job_analyses (updated_at DESC);
+
+ALTER TABLE public.job_analyses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view job analyses"
+ON public.job_analyses
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can create their own job analyses"
+ON public.job_analyses
+FOR INSERT
+WITH CHECK (owner_id IS NULL OR owner_id = auth.uid());
+
+CREATE POLICY "Owners can update job analyses"
+ON public.job_analyses
+FOR UPDATE
+USING (public.can_edit_profile(owner_id, edit_token_hash))
+WITH CHECK (public.can_edit_profile(owner_id, edit_token_hash));
+
+CREATE POLICY "Owners can delete job analyses"
+ON public.job_analyses
+FOR DELETE
+USING (public.can_edit_profile(owner_id, edit_token_hash));
+
+CREATE TRIGGER update_job_analyses_updated_at
+BEFORE UPDATE ON public.job_analyses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
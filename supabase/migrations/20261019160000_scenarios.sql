@@ -0,0 +1,67 @@
+-- Saved AI scenarios (conflict, reconciliation and persona), so they outlive
+-- the page that generated them and can be shared, rated and re-run.
+-- Ownership follows the same owner/edit-token model as profiles.
+CREATE TABLE public.scenarios (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('conflict', 'reconciliation', 'persona')),
+  title TEXT NOT NULL,
+  -- The prompt pair the model was given, as built by src/lib/prompt-builders.ts
+  system_prompt TEXT NOT NULL,
+  user_prompt TEXT NOT NULL,
+  -- [{ name, source: archetype | profile, id? }]
+  participants JSONB NOT NULL DEFAULT '[]'::jsonb,
+  stressors TEXT[] NOT NULL DEFAULT '{}',
+  model TEXT,
+  content TEXT NOT NULL,
+  -- The edge function request body, replayed to re-run the scenario
+  request JSONB NOT NULL,
+  -- The scenario this one was re-run from, or the conflict a reconciliation answers
+  parent_id UUID REFERENCES public.scenarios(id) ON DELETE SET NULL,
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  edit_token_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX scenarios_created_at_idx ON public.scenarios (created_at DESC);
+CREATE INDEX scenarios_parent_id_idx ON public.scenarios (parent_id);
+CREATE INDEX scenarios_tags_idx ON public.scenarios USING GIN (tags);
+
+ALTER TABLE public.scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view scenarios"
+ON public.scenarios
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can create their own scenarios"
+ON public.scenarios
+FOR INSERT
+WITH CHECK (owner_id IS NULL OR owner_id = auth.uid());
+
+CREATE POLICY "Owners can update scenarios"
+ON public.scenarios
+FOR UPDATE
+USING (public.can_edit_profile(owner_id, edit_token_hash))
+WITH CHECK (public.can_edit_profile(owner_id, edit_token_hash));
+
+CREATE POLICY "Owners can delete scenarios"
+ON public.scenarios
+FOR DELETE
+USING (public.can_edit_profile(owner_id, edit_token_hash));
+
+CREATE TRIGGER update_scenarios_updated_at
+BEFORE UPDATE ON public.scenarios
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Distinct tags with scenario counts, for the library filter
+CREATE OR REPLACE FUNCTION public.scenario_tags()
+RETURNS TABLE (tag TEXT, scenario_count BIGINT) AS $$
+  SELECT t.tag, COUNT(*)
+  FROM public.scenarios, unnest(tags) AS t(tag)
+  GROUP BY t.tag
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
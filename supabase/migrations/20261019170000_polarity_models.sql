@@ -0,0 +1,46 @@
+-- Alternative value × stressor polarity matrices. A model is forked from the
+-- built-in matrix (or another model) and stores the full matrix, so later
+-- changes to the defaults don't silently alter it. Ownership follows the same
+-- owner/edit-token model as profiles.
+CREATE TABLE public.polarity_models (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  description TEXT NOT NULL DEFAULT '',
+  -- Value code → stressor id → polarity from -1 (frustrates) to 1 (satisfies)
+  polarities JSONB NOT NULL,
+  -- Value code → stressor id → why the cell was changed; replaces the built-in explanation
+  justifications JSONB NOT NULL DEFAULT '{}'::jsonb,
+  forked_from UUID REFERENCES public.polarity_models(id) ON DELETE SET NULL,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  edit_token_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.polarity_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view polarity models"
+ON public.polarity_models
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can create their own polarity models"
+ON public.polarity_models
+FOR INSERT
+WITH CHECK (owner_id IS NULL OR owner_id = auth.uid());
+
+CREATE POLICY "Owners can update polarity models"
+ON public.polarity_models
+FOR UPDATE
+USING (public.can_edit_profile(owner_id, edit_token_hash))
+WITH CHECK (public.can_edit_profile(owner_id, edit_token_hash));
+
+CREATE POLICY "Owners can delete polarity models"
+ON public.polarity_models
+FOR DELETE
+USING (public.can_edit_profile(owner_id, edit_token_hash));
+
+CREATE TRIGGER update_polarity_models_updated_at
+BEFORE UPDATE ON public.polarity_models
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,45 @@
+-- User-defined stressors beyond the twelve built-in ones. Each carries its
+-- own parameters and a polarity for every value, since no polarity model has
+-- a column for it. Ownership follows the same owner/edit-token model as profiles.
+CREATE TABLE public.custom_stressors (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  description TEXT NOT NULL DEFAULT '',
+  example TEXT NOT NULL DEFAULT '',
+  -- Array of { id, name, description, lowLabel, highLabel, defaultValue, intensity }
+  parameters JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Value code → polarity from -1 (frustrates) to 1 (satisfies)
+  polarities JSONB NOT NULL,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  edit_token_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.custom_stressors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view custom stressors"
+ON public.custom_stressors
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can create their own custom stressors"
+ON public.custom_stressors
+FOR INSERT
+WITH CHECK (owner_id IS NULL OR owner_id = auth.uid());
+
+CREATE POLICY "Owners can update custom stressors"
+ON public.custom_stressors
+FOR UPDATE
+USING (public.can_edit_profile(owner_id, edit_token_hash))
+WITH CHECK (public.can_edit_profile(owner_id, edit_token_hash));
+
+CREATE POLICY "Owners can delete custom stressors"
+ON public.custom_stressors
+FOR DELETE
+USING (public.can_edit_profile(owner_id, edit_token_hash));
+
+CREATE TRIGGER update_custom_stressors_updated_at
+BEFORE UPDATE ON public.custom_stressors
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
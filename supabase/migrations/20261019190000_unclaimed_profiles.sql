@@ -0,0 +1,44 @@
+-- Profiles created before ownership existed have neither an owner nor an edit
+-- token, so can_edit_profile is false for everyone and they could never be
+-- edited again. Keep them editable by anyone, as they were when created.
+DROP POLICY "Owners can update profiles" ON public.profiles;
+DROP POLICY "Owners can delete profiles" ON public.profiles;
+
+CREATE POLICY "Owners can update profiles"
+ON public.profiles
+FOR UPDATE
+USING (public.can_edit_profile(owner_id, edit_token_hash) OR (owner_id IS NULL AND edit_token_hash IS NULL))
+WITH CHECK (public.can_edit_profile(owner_id, edit_token_hash) OR (owner_id IS NULL AND edit_token_hash IS NULL));
+
+CREATE POLICY "Owners can delete profiles"
+ON public.profiles
+FOR DELETE
+USING (public.can_edit_profile(owner_id, edit_token_hash) OR (owner_id IS NULL AND edit_token_hash IS NULL));
+
+-- New profiles must be owned or carry an edit token, so only legacy rows are unclaimed
+DROP POLICY "Anyone can create their own profiles" ON public.profiles;
+
+CREATE POLICY "Anyone can create their own profiles"
+ON public.profiles
+FOR INSERT
+WITH CHECK (owner_id = auth.uid() OR (owner_id IS NULL AND edit_token_hash IS NOT NULL));
+
+-- Anyone may edit an unclaimed profile, but not claim it: setting an owner or
+-- edit token would lock everyone else out of a profile they could edit before.
+CREATE OR REPLACE FUNCTION public.protect_unclaimed_profile_ownership()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.owner_id IS NULL AND OLD.edit_token_hash IS NULL
+    AND (NEW.owner_id IS DISTINCT FROM OLD.owner_id
+      OR NEW.edit_token_hash IS DISTINCT FROM OLD.edit_token_hash) THEN
+    RAISE EXCEPTION 'Unclaimed profiles cannot be claimed'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_unclaimed_profile_ownership
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_unclaimed_profile_ownership();
@@ -0,0 +1,17 @@
+-- Keep custom stressor polarities on the matrix's -1 to +1 scale, as the
+-- client already checks before saving.
+CREATE OR REPLACE FUNCTION public.polarities_in_range(polarities JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT jsonb_typeof(polarities) = 'object' AND NOT EXISTS (
+    SELECT 1
+    FROM jsonb_each(polarities) p
+    WHERE CASE
+      WHEN jsonb_typeof(p.value) = 'number' THEN (p.value)::numeric NOT BETWEEN -1 AND 1
+      ELSE true
+    END
+  );
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+ALTER TABLE public.custom_stressors
+ADD CONSTRAINT custom_stressors_polarities_range
+CHECK (public.polarities_in_range(polarities));
@@ -0,0 +1,155 @@
+-- Backfill the nearest archetype of profiles saved before the profile library
+-- facets existed; newer profiles get it from the client on every save. This
+-- mirrors findNearestArchetype in archetypes.ts: the smallest Euclidean
+-- distance over the 19 values, with both sides centred for centred profiles,
+-- the first archetype winning ties. Candidates are the built-in archetypes, as
+-- of this migration, followed by the custom ones ordered by name.
+--
+-- The updated_at trigger is paused so the backfill doesn't reorder the library.
+ALTER TABLE public.profiles DISABLE TRIGGER update_profiles_updated_at;
+
+WITH built_in_archetypes (ordinal, name, value_profile) AS (
+  VALUES
+    (1, 'Dumbledore', '{"UNC":3,"UNT":3,"SDT":3,"BEC":2,"ACM":1,"HUM":1,"FAC":1,"POD":-1,"POR":-2}'::jsonb),
+    (2, 'Hermione Granger', '{"SDT":3,"ACM":3,"BED":3,"BEC":2,"COR":2,"UNC":1,"SDA":1,"FAC":1,"HED":-1}'::jsonb),
+    (3, 'Leslie Knope', '{"BEC":3,"SDT":3,"SDA":3,"ACM":3,"BED":2,"SES":2,"UNC":2,"TRD":1,"STI":1,"POD":1,"HUM":-2}'::jsonb),
+    (4, 'Spock', '{"SDT":3,"COR":3,"ACM":2,"HUM":2,"UNT":1,"BED":1,"HED":-3}'::jsonb),
+    (5, 'Tony Stark', '{"ACM":3,"SDA":3,"SDT":2,"STI":2,"FAC":2,"HED":1,"POR":1,"HUM":-2,"COR":-2,"BED":-1}'::jsonb),
+    (6, 'Forrest Gump', '{"BED":3,"TRD":3,"HUM":3,"BEC":2,"COR":2,"SES":1,"POD":-2,"ACM":-1,"STI":-1}'::jsonb),
+    (7, 'The Joker', '{"STI":3,"SDA":3,"SDT":2,"HED":2,"BEC":-3,"UNC":-3,"SES":-3,"COR":-3,"TRD":-3,"HUM":-2,"POD":-1}'::jsonb),
+    (8, 'Yoda', '{"SDT":3,"HUM":3,"UNT":2,"UNN":2,"TRD":2,"UNC":2,"BEC":1,"POD":-2,"FAC":-2,"POR":-2}'::jsonb),
+    (9, 'Daenerys Targaryen', '{"POD":3,"ACM":2,"SDA":2,"FAC":2,"STI":1,"UNC":1,"HUM":-2,"COR":-2}'::jsonb),
+    (10, 'Ron Swanson', '{"SDA":3,"SDT":2,"TRD":2,"SEO":2,"HED":1,"POR":1,"COR":-3,"UNC":-2}'::jsonb),
+    (11, 'Elle Woods', '{"ACM":3,"BEC":2,"FAC":2,"HED":2,"BED":2,"SDA":2,"UNC":1,"HUM":-1,"SEO":-1}'::jsonb),
+    (12, 'Walter White', '{"POD":3,"ACM":3,"SDA":3,"FAC":2,"POR":2,"HUM":-3,"BEC":-3,"BED":-2,"COR":-2,"UNC":-1}'::jsonb),
+    (13, 'Samwise Gamgee', '{"BED":3,"BEC":3,"HUM":3,"UNN":2,"TRD":2,"POD":-3,"ACM":-2,"FAC":-1}'::jsonb),
+    (14, 'Hannibal Lecter', '{"POD":3,"SDT":3,"FAC":3,"HED":2,"STI":2,"ACM":2,"BEC":-3,"HUM":-3,"UNC":-3,"COR":-2}'::jsonb),
+    (15, 'Mary Poppins', '{"BEC":3,"SDT":3,"BED":2,"COR":2,"STI":2,"UNN":1,"HUM":-1,"POD":-1}'::jsonb),
+    (16, 'Jack Sparrow', '{"SDA":3,"STI":3,"SDT":2,"HED":2,"POR":1,"COR":-3,"TRD":-2,"BED":-2}'::jsonb),
+    (17, 'Marcus Aurelius', '{"SDT":3,"HUM":3,"UNC":2,"COR":2,"SEO":2,"HED":-2,"STI":-1}'::jsonb),
+    (18, 'Leonardo da Vinci', '{"SDT":3,"STI":3,"ACM":2,"UNN":2,"SDA":2,"HED":1,"COR":-2,"BED":-1,"TRD":-1}'::jsonb),
+    (19, 'Florence Nightingale', '{"BEC":3,"UNC":3,"COR":2,"ACM":2,"SES":2,"HED":-2,"POD":-1}'::jsonb),
+    (20, 'Mahatma Gandhi', '{"UNC":3,"UNT":3,"HUM":3,"SDA":2,"BEC":2,"TRD":2,"POD":-3,"POR":-3,"HED":-2}'::jsonb),
+    (21, 'Cleopatra', '{"POD":3,"ACM":3,"SES":2,"SDT":2,"FAC":2,"HUM":-2,"COR":-1}'::jsonb),
+    (22, 'Albert Einstein', '{"SDT":3,"UNC":2,"STI":2,"UNT":2,"HUM":2,"COR":-2,"FAC":-2,"TRD":-1}'::jsonb),
+    (23, 'Napoleon Bonaparte', '{"POD":3,"ACM":3,"FAC":3,"SDA":2,"POR":2,"SES":2,"HUM":-2,"TRD":-1,"UNT":-1,"BEC":-1}'::jsonb),
+    (24, 'Mother Teresa', '{"BEC":3,"HUM":3,"UNC":3,"TRD":2,"POD":-3,"POR":-2,"FAC":-2}'::jsonb),
+    (25, 'Genghis Khan', '{"POD":3,"POR":3,"ACM":2,"SDA":2,"SEO":2,"HUM":-3,"BEC":-2,"UNC":-2,"UNT":-1}'::jsonb),
+    (26, 'Marie Curie', '{"SDT":3,"ACM":3,"UNC":2,"STI":2,"SDA":2,"HUM":1,"FAC":-1,"HED":-1}'::jsonb),
+    (27, 'Abraham Lincoln', '{"UNC":3,"UNT":3,"BED":2,"HUM":2,"SES":2,"ACM":1,"POD":1}'::jsonb),
+    (28, 'Nikola Tesla', '{"SDT":3,"STI":3,"UNC":2,"SDA":2,"POR":-3,"FAC":-2,"SEO":-1}'::jsonb),
+    (29, 'Queen Victoria', '{"TRD":3,"COR":3,"SES":3,"FAC":3,"BED":2,"POD":2,"SEO":2,"STI":-2,"SDA":-2}'::jsonb),
+    (30, 'Benjamin Franklin', '{"SDT":3,"ACM":2,"UNC":2,"SDA":2,"BEC":2,"HED":1,"FAC":1,"STI":1,"TRD":-1,"COR":-1}'::jsonb),
+    (31, 'Frida Kahlo', '{"SDA":3,"SDT":3,"STI":2,"FAC":2,"UNC":1,"TRD":1,"COR":-2,"HUM":-1}'::jsonb),
+    (32, 'Winston Churchill', '{"SES":3,"TRD":3,"POD":2,"SDA":2,"ACM":2,"FAC":2,"HED":1,"HUM":-1,"UNT":-1}'::jsonb),
+    (33, 'Captain America', '{"BED":3,"BEC":2,"UNC":2,"TRD":2,"SDA":2,"SES":2,"COR":1,"POD":-2,"HED":-1}'::jsonb),
+    (34, 'Wonder Woman', '{"UNC":3,"BEC":2,"POD":2,"TRD":2,"SDA":2,"STI":1,"HUM":1,"POR":-2,"FAC":-1}'::jsonb),
+    (35, 'Batman', '{"SDA":3,"ACM":3,"SDT":2,"POD":2,"BEC":2,"SES":2,"HED":-2,"SEO":-2,"COR":-1}'::jsonb),
+    (36, 'Spider-Man', '{"BEC":3,"BED":3,"SDA":2,"STI":2,"HUM":2,"POD":-2,"POR":-2}'::jsonb),
+    (37, 'T''Challa (Black Panther)', '{"TRD":3,"POD":2,"SES":2,"UNC":2,"SDA":2,"HUM":2,"FAC":1,"ACM":1,"POR":-1,"HED":-1}'::jsonb),
+    (38, 'Superman', '{"UNC":3,"BEC":3,"SES":2,"COR":2,"HUM":2,"POD":-2,"POR":-2}'::jsonb),
+    (39, 'Magneto', '{"SES":3,"POD":3,"SDA":2,"BEC":2,"FAC":1,"UNT":-3,"UNC":-2,"COR":-2,"HUM":-1}'::jsonb),
+    (40, 'Professor X', '{"UNT":3,"UNC":3,"SDT":2,"BEC":2,"HUM":2,"BED":1,"SES":1,"STI":-1}'::jsonb),
+    (41, 'Wolverine', '{"SDA":3,"SEO":2,"BED":2,"STI":2,"COR":-3,"TRD":-2,"FAC":-1}'::jsonb),
+    (42, 'Thanos', '{"POD":3,"UNC":2,"SDT":2,"ACM":3,"BEC":-3,"BED":-3,"HUM":-2,"UNT":-2}'::jsonb),
+    (43, 'Storm', '{"UNN":3,"POD":2,"SDA":2,"UNC":2,"BEC":2,"POR":-1,"FAC":-1}'::jsonb),
+    (44, 'The Hulk / Bruce Banner', '{"SDT":3,"SEO":3,"COR":2,"UNC":2}'::jsonb),
+    (45, 'Deadpool', '{"STI":3,"SDA":3,"HED":3,"SDT":2,"FAC":-2,"COR":-3,"TRD":-2,"HUM":-1}'::jsonb),
+    (46, 'Captain Marvel', '{"ACM":3,"SDA":2,"UNC":2,"POD":2,"COR":2,"HUM":-1,"HED":-1}'::jsonb),
+    (47, 'Green Lantern (Hal Jordan)', '{"SDA":3,"ACM":2,"BEC":2,"STI":2,"COR":2,"SEO":-2,"HUM":-1}'::jsonb),
+    (48, 'Catwoman', '{"SDA":3,"HED":3,"SDT":2,"STI":2,"POR":2,"FAC":1,"COR":-3,"TRD":-2,"BED":-1,"BEC":-1}'::jsonb),
+    (49, 'Athena', '{"SDT":3,"UNC":2,"ACM":2,"COR":2,"SES":2,"HED":-2,"STI":-1}'::jsonb),
+    (50, 'Odin', '{"SDT":3,"TRD":3,"ACM":2,"POD":2,"SES":2,"FAC":1,"HED":-2,"HUM":-1}'::jsonb),
+    (51, 'Aphrodite', '{"HED":3,"FAC":2,"STI":2,"BEC":2,"POD":1,"COI":-1,"ACM":-2,"SDT":-1}'::jsonb),
+    (52, 'Prometheus', '{"UNC":3,"SDA":3,"STI":2,"HUM":2,"COR":-3,"TRD":-2,"SEO":-1}'::jsonb),
+    (53, 'Kuan Yin', '{"BEC":3,"UNC":3,"HUM":3,"UNT":2,"POD":-3,"POR":-2,"FAC":-1}'::jsonb),
+    (54, 'Zeus', '{"POD":3,"POR":3,"FAC":3,"HED":2,"SES":2,"HUM":-3,"COR":-2,"UNT":-1}'::jsonb),
+    (55, 'Loki', '{"STI":3,"SDA":3,"SDT":2,"HED":2,"ACM":1,"FAC":1,"COR":-3,"TRD":-3,"BED":-2,"HUM":-1}'::jsonb),
+    (56, 'Hestia', '{"TRD":3,"BEC":3,"SEO":3,"HUM":2,"COI":2,"STI":-2,"POD":-2}'::jsonb),
+    (57, 'Ares', '{"POD":3,"STI":3,"ACM":2,"SDA":2,"UNT":-3,"BEC":-3,"HUM":-2,"COR":-1}'::jsonb),
+    (58, 'Ganesha', '{"SDT":3,"BEC":2,"UNC":2,"TRD":2,"HUM":2,"POD":-2,"STI":-1}'::jsonb),
+    (59, 'Freya', '{"HED":3,"SDA":2,"POD":2,"FAC":2,"BEC":2,"STI":2,"COR":-2,"HUM":-1}'::jsonb),
+    (60, 'Anubis', '{"COR":3,"UNC":2,"TRD":2,"SES":2,"SDT":2,"HUM":2,"STI":-2,"HED":-1}'::jsonb),
+    (61, 'Dionysus', '{"HED":3,"STI":3,"SDA":2,"COR":-3,"TRD":-2,"SEO":-2,"ACM":-1}'::jsonb),
+    (62, 'Isis', '{"BEC":3,"SEO":3,"SDT":2,"TRD":2,"POD":2,"STI":-1,"SDA":-1}'::jsonb),
+    (63, 'Apollo', '{"ACM":3,"SDT":2,"FAC":2,"COR":2,"HED":2,"HUM":-1,"SDA":-1}'::jsonb),
+    (64, 'Kali', '{"POD":3,"SDA":3,"TRD":2,"UNC":2,"STI":2,"BEC":1,"HUM":-2,"COR":-1}'::jsonb),
+    (65, 'Elizabeth Bennet', '{"SDT":3,"SDA":2,"BED":2,"HUM":2,"UNT":2,"FAC":-2,"POR":-1,"COR":-1}'::jsonb),
+    (66, 'Gandalf', '{"UNN":3,"HUM":3,"UNC":2,"BEC":2,"UNT":2,"SDT":2,"TRD":1,"POD":-1,"POR":-2}'::jsonb),
+    (67, 'Atticus Finch', '{"UNC":3,"UNT":3,"BED":2,"COR":2,"HUM":2,"POD":-2,"FAC":-1}'::jsonb),
+    (68, 'Sherlock Holmes', '{"SDT":3,"STI":3,"ACM":2,"SDA":2,"FAC":1,"BEC":-2,"BED":-1,"COR":-1,"HED":-1}'::jsonb),
+    (69, 'Jane Eyre', '{"SDA":3,"SDT":2,"BED":2,"BEC":2,"HUM":2,"UNC":2,"TRD":1,"FAC":-2,"POR":-1}'::jsonb),
+    (70, 'Jay Gatsby', '{"ACM":3,"FAC":3,"POR":2,"HED":2,"HUM":-2,"UNC":-1,"COR":-1}'::jsonb),
+    (71, 'Katniss Everdeen', '{"BED":3,"SDA":3,"BEC":2,"SEO":2,"UNC":2,"HUM":1,"POD":-2,"FAC":-2}'::jsonb),
+    (72, 'Holden Caulfield', '{"SDT":3,"BEC":2,"UNT":2,"SDA":-1,"SEO":-1,"COR":-3,"FAC":-3,"ACM":-2,"TRD":-1}'::jsonb),
+    (73, 'Ebenezer Scrooge (redeemed)', '{"BEC":3,"TRD":2,"UNC":2,"HUM":2,"HED":2,"POR":-2,"POD":-1}'::jsonb),
+    (74, 'Dracula', '{"POD":3,"HED":2,"POR":2,"FAC":2,"STI":2,"BEC":-3,"HUM":-3,"UNC":-2,"COR":-1}'::jsonb),
+    (75, 'Scout Finch', '{"UNT":3,"SDT":2,"BEC":2,"SDA":2,"FAC":-2,"COR":-1}'::jsonb),
+    (76, 'Heathcliff', '{"SDA":3,"ACM":2,"POD":2,"FAC":2,"STI":2,"POR":2,"SDT":2,"HUM":-3,"BEC":-3,"BED":-2,"UNC":-2,"COR":-1}'::jsonb),
+    (77, 'Anne Shirley', '{"SDT":3,"BEC":2,"BED":2,"STI":2,"UNN":2,"HED":2,"POD":-2,"COR":-1}'::jsonb),
+    (78, 'Captain Ahab', '{"ACM":3,"SDA":3,"POD":2,"STI":2,"BEC":-3,"SEO":-3,"HUM":-2,"UNC":-1}'::jsonb),
+    (79, 'Ender Wiggin', '{"SDT":3,"ACM":3,"UNC":2,"BEC":2,"HUM":2,"POD":-2,"HED":-1}'::jsonb),
+    (80, 'Lady Macbeth', '{"POD":3,"ACM":3,"SDA":2,"FAC":2,"POR":2,"HUM":-3,"BEC":-3,"BED":-2,"UNC":-2,"COR":-1}'::jsonb),
+    (81, 'Patrick', '{"POD":2,"POR":2,"FAC":2,"ACM":2,"SDA":2,"SDT":1,"STI":1,"HED":1,"SEO":2,"SES":2,"TRD":2,"COR":2,"COI":1,"HUM":-1,"UNT":-1,"BED":2,"BEC":1,"UNC":0,"UNN":0}'::jsonb),
+    (82, 'Patricia', '{"POD":-2,"POR":-2,"ACM":-1,"SDT":-1,"SDA":-2,"STI":-2,"HED":-2,"FAC":2,"SEO":2,"SES":2,"TRD":3,"COR":2,"COI":3,"HUM":2,"BEC":3,"BED":3,"UNC":1,"UNN":0,"UNT":0}'::jsonb)
+),
+archetypes AS (
+  SELECT ordinal, name, value_profile FROM built_in_archetypes
+  UNION ALL
+  SELECT 1000 + ROW_NUMBER() OVER (ORDER BY name), name, value_profile
+  FROM public.custom_archetypes
+),
+value_codes (code) AS (
+  SELECT unnest(ARRAY[
+    'SDT', 'SDA', 'STI', 'HED', 'ACM', 'POD', 'POR', 'FAC', 'SEO', 'SES',
+    'TRD', 'COR', 'COI', 'HUM', 'BEC', 'BED', 'UNC', 'UNN', 'UNT'
+  ])
+),
+-- Weights -3..3 map to scores 0.5..6.5; anything else is neutral
+archetype_scores AS (
+  SELECT a.ordinal, a.name, c.code,
+    CASE
+      WHEN jsonb_typeof(a.value_profile -> c.code) IS DISTINCT FROM 'number' THEN 3.5
+      WHEN (a.value_profile ->> c.code)::numeric IN (-3, -2, -1, 0, 1, 2, 3)
+        THEN 3.5 + (a.value_profile ->> c.code)::numeric
+      ELSE 3.5
+    END AS score
+  FROM archetypes a CROSS JOIN value_codes c
+),
+centred_archetype_scores AS (
+  SELECT ordinal, name, code, score,
+    score + 3.5 - AVG(score) OVER (PARTITION BY ordinal) AS centred_score
+  FROM archetype_scores
+),
+profile_scores AS (
+  SELECT p.id, p.score_mode, c.code,
+    CASE
+      WHEN jsonb_typeof(p.scores -> c.code) = 'number' THEN (p.scores ->> c.code)::numeric
+      ELSE 3.5
+    END AS score
+  FROM public.profiles p CROSS JOIN value_codes c
+  WHERE p.nearest_archetype IS NULL
+),
+centred_profile_scores AS (
+  SELECT id, score_mode, code, score,
+    score + 3.5 - AVG(score) OVER (PARTITION BY id) AS centred_score
+  FROM profile_scores
+),
+nearest AS (
+  SELECT DISTINCT ON (p.id) p.id, a.name
+  FROM centred_profile_scores p
+  JOIN centred_archetype_scores a ON a.code = p.code
+  GROUP BY p.id, a.ordinal, a.name
+  ORDER BY p.id,
+    SUM(CASE
+      WHEN p.score_mode = 'centred' THEN (p.centred_score - a.centred_score) ^ 2
+      ELSE (p.score - a.score) ^ 2
+    END),
+    a.ordinal
+)
+UPDATE public.profiles p
+SET nearest_archetype = nearest.name
+FROM nearest
+WHERE p.id = nearest.id;
+
+ALTER TABLE public.profiles ENABLE TRIGGER update_profiles_updated_at;